@@ -5,10 +5,18 @@
  * Implements the ExportIPC contract from shared contracts.
  */
 
-import { ipcMain, WebContents } from 'electron';
+import { BrowserWindow, dialog, ipcMain, WebContents } from 'electron';
 import { IPC_CHANNELS } from '../../shared/contracts/ipc-channels';
 import { ExportIPC } from '../../shared/contracts/ipc';
+import { ExportSizeResult } from '../../shared/types';
 import { exportService } from '../services/ExportService';
+import { exportQueueService } from '../services/ExportQueueService';
+import { exportPresetService } from '../services/ExportPresetService';
+
+const PRESET_FILE_FILTERS: Electron.FileFilter[] = [
+  { name: 'ClipForge Export Presets', extensions: ['json'] },
+  { name: 'All Files', extensions: ['*'] }
+];
 
 /**
  * Register all export IPC handlers
@@ -33,7 +41,7 @@ export function registerExportHandlers(): void {
 
       try {
         // Start the export process
-        const exportId = await exportService.startExport(req.config, req.timeline);
+        const exportId = await exportService.startExport(req.config, req.timeline, req.range);
         
         // Set up progress event listeners for this specific export
         setupProgressListeners(exportId, event.sender);
@@ -70,9 +78,179 @@ export function registerExportHandlers(): void {
     }
   );
 
+  // ============================================================================
+  // EXPORT FRAME HANDLER
+  // ============================================================================
+  
+  ipcMain.handle(
+    IPC_CHANNELS.EXPORT_FRAME,
+    async (_event, req: ExportIPC.ExportFrameRequest): Promise<ExportIPC.ExportFrameResponse> => {
+      console.log(`🖼️ Frame export requested: ${req.sourceFile} @ ${req.sourceTime.toFixed(3)}s`);
+
+      try {
+        const outputPath = await exportService.exportFrame(req.sourceFile, req.sourceTime, req.outputPath);
+        return { outputPath };
+      } catch (error) {
+        console.error('❌ Frame export failed:', error);
+        throw error;
+      }
+    }
+  );
+
+  registerExportQueueHandlers();
+  registerExportPresetHandlers();
+
   console.log('✅ Export IPC handlers registered');
 }
 
+/**
+ * Register export queue handlers. Every operation returns the updated queue,
+ * and every change is also broadcast to all windows.
+ */
+function registerExportQueueHandlers(): void {
+  const getQueueState = (): ExportIPC.QueueState => ({
+    jobs: exportQueueService.getJobs(),
+    concurrency: exportQueueService.getConcurrency()
+  });
+
+  ipcMain.handle(
+    IPC_CHANNELS.EXPORT_QUEUE_ADD,
+    async (event, req: ExportIPC.EnqueueRequest): Promise<ExportIPC.EnqueueResponse> => {
+      console.log('📥 Export queue add requested:', req.config.outputPath);
+      return { job: exportQueueService.enqueue(req.config, req.timeline, req.name, req.range) };
+    }
+  );
+
+  ipcMain.handle(IPC_CHANNELS.EXPORT_QUEUE_GET, async (): Promise<ExportIPC.QueueState> => {
+    return getQueueState();
+  });
+
+  ipcMain.handle(
+    IPC_CHANNELS.EXPORT_QUEUE_PAUSE,
+    async (event, req: ExportIPC.QueueJobRequest): Promise<ExportIPC.QueueState> => {
+      await exportQueueService.pause(req.jobId);
+      return getQueueState();
+    }
+  );
+
+  ipcMain.handle(
+    IPC_CHANNELS.EXPORT_QUEUE_RESUME,
+    async (event, req: ExportIPC.QueueJobRequest): Promise<ExportIPC.QueueState> => {
+      exportQueueService.resume(req.jobId);
+      return getQueueState();
+    }
+  );
+
+  ipcMain.handle(
+    IPC_CHANNELS.EXPORT_QUEUE_MOVE,
+    async (event, req: ExportIPC.MoveQueueJobRequest): Promise<ExportIPC.QueueState> => {
+      exportQueueService.move(req.jobId, req.toIndex);
+      return getQueueState();
+    }
+  );
+
+  ipcMain.handle(
+    IPC_CHANNELS.EXPORT_QUEUE_RETRY,
+    async (event, req: ExportIPC.QueueJobRequest): Promise<ExportIPC.QueueState> => {
+      exportQueueService.retry(req.jobId);
+      return getQueueState();
+    }
+  );
+
+  ipcMain.handle(
+    IPC_CHANNELS.EXPORT_QUEUE_REMOVE,
+    async (event, req: ExportIPC.QueueJobRequest): Promise<ExportIPC.QueueState> => {
+      await exportQueueService.remove(req.jobId);
+      return getQueueState();
+    }
+  );
+
+  ipcMain.handle(IPC_CHANNELS.EXPORT_QUEUE_CLEAR, async (): Promise<ExportIPC.QueueState> => {
+    exportQueueService.clearFinished();
+    return getQueueState();
+  });
+
+  ipcMain.handle(
+    IPC_CHANNELS.EXPORT_QUEUE_SET_CONCURRENCY,
+    async (event, req: ExportIPC.SetConcurrencyRequest): Promise<ExportIPC.QueueState> => {
+      exportQueueService.setConcurrency(req.concurrency);
+      return getQueueState();
+    }
+  );
+
+  exportQueueService.getEventEmitter().on('queueUpdated', (state: ExportIPC.QueueState) => {
+    for (const window of BrowserWindow.getAllWindows()) {
+      if (!window.webContents.isDestroyed()) {
+        window.webContents.send(IPC_CHANNELS.EXPORT_QUEUE_UPDATED, state);
+      }
+    }
+  });
+}
+
+/**
+ * Register export preset handlers. Import and export show their own file dialogs.
+ */
+function registerExportPresetHandlers(): void {
+  ipcMain.handle(IPC_CHANNELS.EXPORT_PRESETS_LIST, async (): Promise<ExportIPC.PresetListResponse> => {
+    return { presets: exportPresetService.listPresets() };
+  });
+
+  ipcMain.handle(
+    IPC_CHANNELS.EXPORT_PRESETS_CREATE,
+    async (event, req: ExportIPC.CreatePresetRequest): Promise<ExportIPC.PresetResponse> => {
+      return { preset: await exportPresetService.createPreset(req.preset) };
+    }
+  );
+
+  ipcMain.handle(
+    IPC_CHANNELS.EXPORT_PRESETS_UPDATE,
+    async (event, req: ExportIPC.UpdatePresetRequest): Promise<ExportIPC.PresetResponse> => {
+      return { preset: await exportPresetService.updatePreset(req.id, req.updates) };
+    }
+  );
+
+  ipcMain.handle(
+    IPC_CHANNELS.EXPORT_PRESETS_DELETE,
+    async (event, req: ExportIPC.DeletePresetRequest): Promise<ExportIPC.PresetListResponse> => {
+      await exportPresetService.deletePreset(req.id);
+      return { presets: exportPresetService.listPresets() };
+    }
+  );
+
+  ipcMain.handle(IPC_CHANNELS.EXPORT_PRESETS_IMPORT, async (): Promise<ExportIPC.ImportPresetsResponse> => {
+    const { canceled, filePaths } = await dialog.showOpenDialog({
+      title: 'Import Export Presets',
+      filters: PRESET_FILE_FILTERS,
+      properties: ['openFile']
+    });
+
+    const imported = canceled || filePaths.length === 0
+      ? []
+      : await exportPresetService.importPresets(filePaths[0]);
+
+    return { imported, presets: exportPresetService.listPresets() };
+  });
+
+  ipcMain.handle(
+    IPC_CHANNELS.EXPORT_PRESETS_EXPORT,
+    async (event, req: ExportIPC.ExportPresetsRequest): Promise<ExportIPC.ExportPresetsResponse> => {
+      const { canceled, filePath } = await dialog.showSaveDialog({
+        title: 'Export Presets',
+        defaultPath: 'clipforge-presets.json',
+        filters: PRESET_FILE_FILTERS,
+        properties: ['createDirectory']
+      });
+
+      if (canceled || !filePath) {
+        return { filePath: null };
+      }
+
+      await exportPresetService.exportPresets(filePath, req.ids);
+      return { filePath };
+    }
+  );
+}
+
 /**
  * Set up progress event listeners for a specific export
  */
@@ -98,12 +276,14 @@ function setupProgressListeners(exportId: string, webContents: WebContents): voi
   };
 
   // Completion event listener
-  const completeListener = (data: { exportId: string; success: boolean; outputPath?: string; error?: string }) => {
+  const completeListener = (data: { exportId: string; success: boolean; cancelled?: boolean; outputPath?: string; sizeResult?: ExportSizeResult; error?: string }) => {
     if (data.exportId === exportId) {
       const completeEvent: ExportIPC.ExportCompleteEvent = {
         exportId: data.exportId,
         success: data.success,
+        cancelled: data.cancelled,
         outputPath: data.outputPath,
+        sizeResult: data.sizeResult,
         error: data.error
       };
       
@@ -115,6 +295,8 @@ function setupProgressListeners(exportId: string, webContents: WebContents): voi
       
       if (data.success) {
         console.log(`🎉 Export ${exportId} completed successfully: ${data.outputPath}`);
+      } else if (data.cancelled) {
+        console.log(`🛑 Export ${exportId} was cancelled`);
       } else {
         console.error(`💥 Export ${exportId} failed: ${data.error}`);
       }
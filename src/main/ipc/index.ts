@@ -5,7 +5,8 @@
  * Track 1 Implementation: All channels with mock responses
  */
 
-import { ipcMain } from 'electron';
+import { ipcMain, shell } from 'electron';
+import * as fs from 'fs';
 import { IPC_CHANNELS } from '../../shared/contracts/ipc-channels';
 import { 
   MediaIPC, 
@@ -65,7 +66,12 @@ export function registerIpcHandlers(): void {
   ipcMain.handle(IPC_CHANNELS.SYSTEM_SHOW_ITEM, async (event, req: SystemIPC.ShowItemRequest): Promise<SystemIPC.ShowItemResponse> => {
     console.log('👁️ Show item requested:', req.path);
     
-    // Mock show - Track 1 can implement real file system integration
+    if (!fs.existsSync(req.path)) {
+      console.warn(`⚠️ Cannot show missing item: ${req.path}`);
+      return { success: false };
+    }
+    
+    shell.showItemInFolder(req.path);
     return { success: true };
   });
 
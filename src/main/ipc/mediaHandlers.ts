@@ -9,11 +9,16 @@ import { ipcMain, dialog, app } from 'electron';
 import { IPC_CHANNELS } from '../../shared/contracts/ipc-channels';
 import { MediaIPC } from '../../shared/contracts/ipc';
 import { mediaService } from '../services/MediaService';
+import { captionService } from '../services/CaptionService';
+import { lutService } from '../services/LutService';
 import { ffmpegManager } from '../services/FFmpegManager';
 import * as fs from 'fs';
 import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 
+// Length a still image gets when it's imported
+const DEFAULT_STILL_DURATION = 5;
+
 /**
  * Register all media-related IPC handlers
  */
@@ -35,10 +40,10 @@ export function registerMediaHandlers(): void {
 
       for (const filePath of req.filePaths) {
         try {
-          // Validate the video file
-          const validation = await mediaService.validateVideoFile(filePath);
+          // Validate the video, image or audio file
+          const validation = await mediaService.validateMediaFile(filePath);
           if (!validation.isValid) {
-            errors.push({ path: filePath, error: validation.error || 'Invalid video file' });
+            errors.push({ path: filePath, error: validation.error || 'Invalid media file' });
             continue;
           }
 
@@ -50,28 +55,34 @@ export function registerMediaHandlers(): void {
             codec: metadata.codec 
           });
           
-          // Generate a thumbnail at 5 seconds or 10% of duration
+          // Generate a thumbnail at 5 seconds or 10% of duration (images only have one frame)
           // Ensure we have a valid duration before calculating timestamp
+          const isImage = metadata.kind === 'image';
           const validDuration = metadata.duration && !isNaN(metadata.duration) ? metadata.duration : 30;
-          const thumbnailTime = Math.min(5, validDuration * 0.1);
-          
-          console.log('🖼️ Generating thumbnail at time:', thumbnailTime, 'seconds');
+          const thumbnailTime = isImage ? 0 : Math.min(5, validDuration * 0.1);
           
-          const thumbnail = await mediaService.generateThumbnail(
-            filePath, 
-            thumbnailTime, 
-            320, 
-            180
-          );
-
-          // Create clip object
+          // Audio files have no picture to take one from
+          let thumbnail: string | undefined;
+          if (metadata.kind !== 'audio') {
+            console.log('🖼️ Generating thumbnail at time:', thumbnailTime, 'seconds');
+            
+            thumbnail = await mediaService.generateThumbnail(
+              filePath, 
+              thumbnailTime, 
+              320, 
+              180
+            );
+          }
+
+          // Create clip object; images start at the default length and can be trimmed out from there
+          const clipDuration = isImage ? DEFAULT_STILL_DURATION : metadata.duration;
           const clip = {
             id: `clip-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
             sourceFile: filePath,
             startTime: 0,
-            endTime: metadata.duration,
+            endTime: clipDuration,
             trimIn: 0,
-            trimOut: metadata.duration,
+            trimOut: clipDuration,
             trackId: 'track-1',
             metadata: {
               ...metadata,
@@ -122,10 +133,13 @@ export function registerMediaHandlers(): void {
     
     try {
       const result = await dialog.showOpenDialog({
-        title: 'Select Video Files',
+        title: 'Select Media Files',
         properties: req.allowMultiple ? ['openFile', 'multiSelections'] : ['openFile'],
         filters: req.filters || [
+          { name: 'Media Files', extensions: ['mp4', 'mov', 'avi', 'mkv', 'webm', 'm4v', 'png', 'jpg', 'jpeg', 'wav', 'mp3', 'aac', 'flac', 'ogg'] },
           { name: 'Video Files', extensions: ['mp4', 'mov', 'avi', 'mkv', 'webm', 'm4v'] },
+          { name: 'Images', extensions: ['png', 'jpg', 'jpeg'] },
+          { name: 'Audio Files', extensions: ['wav', 'mp3', 'aac', 'flac', 'ogg'] },
           { name: 'All Files', extensions: ['*'] }
         ],
       });
@@ -203,5 +217,58 @@ export function registerMediaHandlers(): void {
     }
   });
 
+  // Import Captions Handler
+  ipcMain.handle(IPC_CHANNELS.MEDIA_IMPORT_CAPTIONS, async (): Promise<MediaIPC.ImportCaptionsResponse> => {
+    console.log('💬 Caption import requested');
+    
+    const result = await dialog.showOpenDialog({
+      title: 'Import Captions',
+      properties: ['openFile'],
+      filters: [
+        { name: 'Captions', extensions: ['srt', 'vtt'] },
+        { name: 'All Files', extensions: ['*'] }
+      ],
+    });
+
+    if (result.canceled || result.filePaths.length === 0) {
+      return { fileName: null, cues: [] };
+    }
+
+    const [filePath] = result.filePaths;
+    try {
+      const cues = await captionService.readCaptionFile(filePath);
+      return { fileName: path.basename(filePath), cues };
+    } catch (error) {
+      console.error('❌ Caption import failed:', error);
+      throw new Error(`Caption import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
+  // LUT Import Handler
+  ipcMain.handle(IPC_CHANNELS.MEDIA_IMPORT_LUT, async (): Promise<MediaIPC.ImportLutResponse> => {
+    console.log('🎨 LUT import requested');
+
+    const result = await dialog.showOpenDialog({
+      title: 'Load LUT',
+      properties: ['openFile'],
+      filters: [
+        { name: '3D LUT', extensions: ['cube'] },
+        { name: 'All Files', extensions: ['*'] }
+      ],
+    });
+
+    if (result.canceled || result.filePaths.length === 0) {
+      return { lut: null };
+    }
+
+    try {
+      const lut = await lutService.readLutFile(result.filePaths[0]);
+      return { lut };
+    } catch (error) {
+      console.error('❌ LUT import failed:', error);
+      throw new Error(`LUT import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
   console.log('✅ Media IPC handlers registered');
 }
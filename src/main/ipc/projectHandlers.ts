@@ -5,11 +5,33 @@
  * Implements ProjectIPC namespace from @contracts/ipc
  */
 
+import * as path from 'path';
 import { ipcMain, dialog } from 'electron';
 import { IPC_CHANNELS } from '../../shared/contracts/ipc-channels';
 import { ProjectIPC } from '../../shared/contracts/ipc';
 import { projectService } from '../services/ProjectService';
 
+// Export dialogs are recognised by the extension of their default path
+const PNG_FILTER: Electron.FileFilter = { name: 'PNG Images', extensions: ['png'] };
+const JPEG_FILTER: Electron.FileFilter = { name: 'JPEG Images', extensions: ['jpg', 'jpeg'] };
+
+// Images can be saved as either format, the default path's first
+const EXPORT_FILE_FILTERS: Record<string, { title: string; filters: Electron.FileFilter[] }> = {
+  mp4: { title: 'Export Video', filters: [{ name: 'Video Files', extensions: ['mp4'] }] },
+  webm: { title: 'Export Video', filters: [{ name: 'WebM Video', extensions: ['webm'] }] },
+  mov: { title: 'Export Video', filters: [{ name: 'QuickTime Video', extensions: ['mov'] }] },
+  mkv: { title: 'Export Video', filters: [{ name: 'Matroska Video', extensions: ['mkv'] }] },
+  gif: { title: 'Export GIF', filters: [{ name: 'GIF Images', extensions: ['gif'] }] },
+  webp: { title: 'Export WebP', filters: [{ name: 'WebP Images', extensions: ['webp'] }] },
+  wav: { title: 'Export Audio', filters: [{ name: 'WAV Audio', extensions: ['wav'] }] },
+  mp3: { title: 'Export Audio', filters: [{ name: 'MP3 Audio', extensions: ['mp3'] }] },
+  m4a: { title: 'Export Audio', filters: [{ name: 'AAC Audio', extensions: ['m4a'] }] },
+  flac: { title: 'Export Audio', filters: [{ name: 'FLAC Audio', extensions: ['flac'] }] },
+  png: { title: 'Export Image', filters: [PNG_FILTER, JPEG_FILTER] },
+  jpg: { title: 'Export Image', filters: [JPEG_FILTER, PNG_FILTER] },
+  jpeg: { title: 'Export Image', filters: [JPEG_FILTER, PNG_FILTER] }
+};
+
 export function registerProjectHandlers(): void {
   console.log('📁 Registering project IPC handlers...');
 
@@ -58,15 +80,17 @@ export function registerProjectHandlers(): void {
     console.log('💾 IPC: Save dialog requested');
     
     try {
-      // If defaultPath ends with .mp4, this is an EXPORT dialog (not project save)
-      const isExportDialog = req.defaultPath?.endsWith('.mp4');
+      // If defaultPath has an export extension (.mp4, .gif, ...), this is an EXPORT dialog (not project save)
+      const extension = path.extname(req.defaultPath || '').slice(1).toLowerCase();
+      const exportType = EXPORT_FILE_FILTERS[extension];
+      const isExportDialog = !!exportType;
       
       const { canceled, filePath } = await dialog.showSaveDialog({
-        title: isExportDialog ? 'Export Video' : 'Save ClipForge Project',
+        title: exportType ? exportType.title : 'Save ClipForge Project',
         defaultPath: req.defaultPath || 'Untitled Project.clipforge',
-        filters: isExportDialog 
+        filters: exportType 
           ? [
-              { name: 'Video Files', extensions: ['mp4'] },
+              ...exportType.filters,
               { name: 'All Files', extensions: ['*'] }
             ]
           : [
@@ -80,10 +104,11 @@ export function registerProjectHandlers(): void {
         return { filePath: null };
       }
 
-      // Ensure correct extension
+      // Ensure correct extension; any of the offered ones is kept (frame.jpg stays a JPEG)
       let finalPath = filePath;
-      if (isExportDialog && !filePath.endsWith('.mp4')) {
-        finalPath = `${filePath}.mp4`;
+      const chosenExtension = path.extname(filePath).slice(1).toLowerCase();
+      if (isExportDialog && !exportType.filters.some(filter => filter.extensions.includes(chosenExtension))) {
+        finalPath = `${filePath}.${extension}`;
       } else if (!isExportDialog && !filePath.endsWith('.clipforge')) {
         finalPath = `${filePath}.clipforge`;
       }
@@ -131,6 +131,14 @@ class ClipForgeApp {
           '.avi': 'video/x-msvideo',
           '.mov': 'video/quicktime',
           '.m4v': 'video/mp4',
+          '.png': 'image/png',
+          '.jpg': 'image/jpeg',
+          '.jpeg': 'image/jpeg',
+          '.wav': 'audio/wav',
+          '.mp3': 'audio/mpeg',
+          '.aac': 'audio/aac',
+          '.flac': 'audio/flac',
+          '.ogg': 'audio/ogg',
         };
         
         const mimeType = mimeTypes[ext] || 'video/mp4';
@@ -20,6 +20,8 @@ const IPC_CHANNELS = {
   MEDIA_OPEN_FILE_PICKER: 'media:open-file-picker',
   MEDIA_GENERATE_THUMBNAIL: 'media:generate-thumbnail',
   MEDIA_SAVE_DROPPED_FILE: 'media:save-dropped-file',
+  MEDIA_IMPORT_CAPTIONS: 'media:import-captions',
+  MEDIA_IMPORT_LUT: 'media:import-lut',
 
   // Recording
   RECORDING_GET_SOURCES: 'recording:get-sources',
@@ -33,6 +35,23 @@ const IPC_CHANNELS = {
   EXPORT_CANCEL: 'export:cancel',
   EXPORT_PROGRESS: 'export:progress', // event
   EXPORT_COMPLETE: 'export:complete', // event
+  EXPORT_FRAME: 'export:frame',
+  EXPORT_QUEUE_ADD: 'export:queue-add',
+  EXPORT_QUEUE_GET: 'export:queue-get',
+  EXPORT_QUEUE_PAUSE: 'export:queue-pause',
+  EXPORT_QUEUE_RESUME: 'export:queue-resume',
+  EXPORT_QUEUE_MOVE: 'export:queue-move',
+  EXPORT_QUEUE_RETRY: 'export:queue-retry',
+  EXPORT_QUEUE_REMOVE: 'export:queue-remove',
+  EXPORT_QUEUE_CLEAR: 'export:queue-clear',
+  EXPORT_QUEUE_SET_CONCURRENCY: 'export:queue-set-concurrency',
+  EXPORT_QUEUE_UPDATED: 'export:queue-updated', // event
+  EXPORT_PRESETS_LIST: 'export:presets-list',
+  EXPORT_PRESETS_CREATE: 'export:presets-create',
+  EXPORT_PRESETS_UPDATE: 'export:presets-update',
+  EXPORT_PRESETS_DELETE: 'export:presets-delete',
+  EXPORT_PRESETS_IMPORT: 'export:presets-import',
+  EXPORT_PRESETS_EXPORT: 'export:presets-export',
 
   // Project
   PROJECT_SAVE: 'project:save',
@@ -60,6 +79,8 @@ const api: IpcAPI = {
     openFilePicker: (req) => ipcRenderer.invoke(IPC_CHANNELS.MEDIA_OPEN_FILE_PICKER, req),
     generateThumbnail: (req) => ipcRenderer.invoke(IPC_CHANNELS.MEDIA_GENERATE_THUMBNAIL, req),
     saveDroppedFile: (req) => ipcRenderer.invoke(IPC_CHANNELS.MEDIA_SAVE_DROPPED_FILE, req),
+    importCaptions: () => ipcRenderer.invoke(IPC_CHANNELS.MEDIA_IMPORT_CAPTIONS),
+    importLut: () => ipcRenderer.invoke(IPC_CHANNELS.MEDIA_IMPORT_LUT),
   },
 
   // Recording operations
@@ -89,6 +110,27 @@ const api: IpcAPI = {
       ipcRenderer.on(IPC_CHANNELS.EXPORT_COMPLETE, listener);
       return () => ipcRenderer.removeListener(IPC_CHANNELS.EXPORT_COMPLETE, listener);
     },
+    exportFrame: (req) => ipcRenderer.invoke(IPC_CHANNELS.EXPORT_FRAME, req),
+    enqueue: (req) => ipcRenderer.invoke(IPC_CHANNELS.EXPORT_QUEUE_ADD, req),
+    getQueue: () => ipcRenderer.invoke(IPC_CHANNELS.EXPORT_QUEUE_GET),
+    pauseJob: (req) => ipcRenderer.invoke(IPC_CHANNELS.EXPORT_QUEUE_PAUSE, req),
+    resumeJob: (req) => ipcRenderer.invoke(IPC_CHANNELS.EXPORT_QUEUE_RESUME, req),
+    moveJob: (req) => ipcRenderer.invoke(IPC_CHANNELS.EXPORT_QUEUE_MOVE, req),
+    retryJob: (req) => ipcRenderer.invoke(IPC_CHANNELS.EXPORT_QUEUE_RETRY, req),
+    removeJob: (req) => ipcRenderer.invoke(IPC_CHANNELS.EXPORT_QUEUE_REMOVE, req),
+    clearFinished: () => ipcRenderer.invoke(IPC_CHANNELS.EXPORT_QUEUE_CLEAR),
+    setConcurrency: (req) => ipcRenderer.invoke(IPC_CHANNELS.EXPORT_QUEUE_SET_CONCURRENCY, req),
+    onQueueUpdated: (callback) => {
+      const listener = (_event: any, data: any) => callback(data);
+      ipcRenderer.on(IPC_CHANNELS.EXPORT_QUEUE_UPDATED, listener);
+      return () => ipcRenderer.removeListener(IPC_CHANNELS.EXPORT_QUEUE_UPDATED, listener);
+    },
+    listPresets: () => ipcRenderer.invoke(IPC_CHANNELS.EXPORT_PRESETS_LIST),
+    createPreset: (req) => ipcRenderer.invoke(IPC_CHANNELS.EXPORT_PRESETS_CREATE, req),
+    updatePreset: (req) => ipcRenderer.invoke(IPC_CHANNELS.EXPORT_PRESETS_UPDATE, req),
+    deletePreset: (req) => ipcRenderer.invoke(IPC_CHANNELS.EXPORT_PRESETS_DELETE, req),
+    importPresets: () => ipcRenderer.invoke(IPC_CHANNELS.EXPORT_PRESETS_IMPORT),
+    exportPresets: (req) => ipcRenderer.invoke(IPC_CHANNELS.EXPORT_PRESETS_EXPORT, req),
   },
 
   // Project operations
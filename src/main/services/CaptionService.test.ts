@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { captionService } from './CaptionService';
+
+const timings = (content: string) =>
+  captionService.parseCaptions(content).map(({ startTime, endTime }) => [startTime, endTime]);
+
+describe('CaptionService.parseCaptions', () => {
+  it('reads SRT cues with comma milliseconds', () => {
+    const cues = captionService.parseCaptions([
+      '1',
+      '00:00:01,250 --> 00:00:03,000',
+      'Hello',
+      '',
+      '2',
+      '01:02:03,004 --> 01:02:05,500',
+      'Two',
+      'lines'
+    ].join('\n'));
+
+    expect(cues).toMatchObject([
+      { startTime: 1.25, endTime: 3, text: 'Hello' },
+      { startTime: 3723.004, endTime: 3725.5, text: 'Two\nlines' }
+    ]);
+    expect(new Set(cues.map(cue => cue.id)).size).toBe(2);
+  });
+
+  it('reads WebVTT cues with dot milliseconds, optional hours and cue settings', () => {
+    const content = [
+      'WEBVTT',
+      '',
+      'intro',
+      '00:01.500 --> 00:04.000 align:start position:10%',
+      '<v Speaker>Hi</v> <b>there</b>',
+      '',
+      '1:00:00.000 --> 1:00:02.000',
+      'Later'
+    ].join('\n');
+
+    expect(captionService.parseCaptions(content)).toMatchObject([
+      { startTime: 1.5, endTime: 4, text: 'Hi there' },
+      { startTime: 3600, endTime: 3602, text: 'Later' }
+    ]);
+  });
+
+  it('reads short fractions as tenths and hundredths of a second', () => {
+    expect(timings('00:00:01.5 --> 00:00:02.25\nShort')).toEqual([[1.5, 2.25]]);
+  });
+
+  it('handles a BOM and Windows line endings', () => {
+    const content = '\uFEFF1\r\n00:00:01,000 --> 00:00:02,000\r\nOne\r\n\r\n2\r\n00:00:03,000 --> 00:00:04,000\r\nTwo\r\n';
+
+    expect(timings(content)).toEqual([[1, 2], [3, 4]]);
+  });
+
+  it('skips cues with bad timings or no text, and sorts the rest by start', () => {
+    const content = [
+      '00:00:05,000 --> 00:00:06,000',
+      'Second',
+      '',
+      '00:00:03,000 --> 00:00:02,000',
+      'Backwards',
+      '',
+      'nonsense --> 00:00:02,000',
+      'Unreadable',
+      '',
+      '00:00:07,000 --> 00:00:08,000',
+      '<i></i>',
+      '',
+      '00:00:01,000 --> 00:00:02,000',
+      'First'
+    ].join('\n');
+
+    expect(captionService.parseCaptions(content).map(cue => cue.text)).toEqual(['First', 'Second']);
+  });
+
+  it('reads back what formatCaptions writes', () => {
+    const cues = [
+      { id: 'a', startTime: 0.5, endTime: 2, text: 'One' },
+      { id: 'b', startTime: 3661.001, endTime: 3662, text: 'Two\nlines' }
+    ];
+
+    for (const format of ['srt', 'vtt'] as const) {
+      expect(captionService.parseCaptions(captionService.formatCaptions(cues, format))).toMatchObject(
+        cues.map(({ startTime, endTime, text }) => ({ startTime, endTime, text }))
+      );
+    }
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Caption Service
+ *
+ * Implements ICaptionService: reading and writing the caption files used by caption tracks.
+ *
+ * Features:
+ * - SRT and WebVTT import (cue settings, NOTE/STYLE blocks and inline tags are dropped)
+ * - SRT and WebVTT output for sidecar files, embedded subtitle streams and burn-in
+ */
+
+import * as fs from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import { ICaptionService } from '../../shared/contracts/services';
+import { CaptionCue, CaptionFormat } from '../../shared/types';
+
+// 00:01:02,500 (SRT) or 01:02.500 / 00:01:02.500 (WebVTT); hours are optional in WebVTT
+const TIMESTAMP_PATTERN = /(?:(\d+):)?(\d{1,2}):(\d{2})[,.](\d{1,3})/;
+
+export class CaptionService implements ICaptionService {
+  private static instance: CaptionService;
+
+  private constructor() {}
+
+  static getInstance(): CaptionService {
+    if (!CaptionService.instance) {
+      CaptionService.instance = new CaptionService();
+    }
+    return CaptionService.instance;
+  }
+
+  async readCaptionFile(filePath: string): Promise<CaptionCue[]> {
+    const content = await fs.promises.readFile(filePath, 'utf-8');
+    const cues = this.parseCaptions(content);
+
+    if (cues.length === 0) {
+      throw new Error('No captions found in the file');
+    }
+
+    console.log(`💬 Read ${cues.length} captions from ${filePath}`);
+    return cues;
+  }
+
+  parseCaptions(content: string): CaptionCue[] {
+    // Blocks are separated by blank lines; the BOM and Windows line endings would break the split
+    const blocks = content
+      .replace(/^\uFEFF/, '')
+      .replace(/\r\n?/g, '\n')
+      .split(/\n{2,}/);
+
+    const cues: CaptionCue[] = [];
+
+    for (const block of blocks) {
+      const lines = block.split('\n');
+      // The timing line follows an optional cue number (SRT) or identifier (WebVTT)
+      const timingIndex = lines.findIndex(line => line.includes('-->'));
+      if (timingIndex < 0) continue;
+
+      const [startPart, endPart] = lines[timingIndex].split('-->');
+      const startTime = this.parseTimestamp(startPart);
+      const endTime = this.parseTimestamp(endPart);
+      if (startTime === null || endTime === null || endTime <= startTime) continue;
+
+      const text = lines
+        .slice(timingIndex + 1)
+        .map(line => line.replace(/<[^>]*>/g, '').trim())
+        .filter(line => line.length > 0)
+        .join('\n');
+      if (!text) continue;
+
+      cues.push({ id: uuidv4(), startTime, endTime, text });
+    }
+
+    return cues.sort((a, b) => a.startTime - b.startTime);
+  }
+
+  formatCaptions(cues: CaptionCue[], format: CaptionFormat): string {
+    const separator = format === 'srt' ? ',' : '.';
+    const body = cues
+      .map((cue, index) => [
+        ...(format === 'srt' ? [(index + 1).toString()] : []),
+        `${this.formatTimestamp(cue.startTime, separator)} --> ${this.formatTimestamp(cue.endTime, separator)}`,
+        // A blank line would end the cue early
+        cue.text.split('\n').filter(line => line.trim()).join('\n')
+      ].join('\n'))
+      .join('\n\n');
+
+    return format === 'vtt' ? `WEBVTT\n\n${body}\n` : `${body}\n`;
+  }
+
+  private parseTimestamp(value: string | undefined): number | null {
+    const match = value?.match(TIMESTAMP_PATTERN);
+    if (!match) return null;
+
+    const [, hours, minutes, seconds, fraction] = match;
+    return (parseInt(hours || '0', 10) * 3600)
+      + (parseInt(minutes, 10) * 60)
+      + parseInt(seconds, 10)
+      + parseInt(fraction.padEnd(3, '0'), 10) / 1000;
+  }
+
+  /**
+   * HH:MM:SS,mmm for SRT, HH:MM:SS.mmm for WebVTT
+   */
+  private formatTimestamp(seconds: number, separator: string): string {
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    const hours = Math.floor(totalMs / 3600000);
+    const minutes = Math.floor((totalMs % 3600000) / 60000);
+    const secs = Math.floor((totalMs % 60000) / 1000);
+    const ms = totalMs % 1000;
+    const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+
+    return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+  }
+}
+
+// Export singleton instance
+export const captionService = CaptionService.getInstance();
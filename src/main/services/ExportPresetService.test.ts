@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ExportPresetInput } from '../../shared/types';
+import { exportPresetService } from './ExportPresetService';
+
+// Presets are read from userData, which a test run keeps in a temp folder
+vi.mock('electron', async () => {
+  const fs = await import('fs');
+  const os = await import('os');
+  const path = await import('path');
+  const userData = fs.mkdtempSync(path.join(os.tmpdir(), 'clipforge-'));
+  return { app: { getPath: () => userData } };
+});
+
+const input = (overrides: Partial<ExportPresetInput> = {}): ExportPresetInput => ({
+  name: 'Web 1080p',
+  container: 'mp4',
+  codec: 'h264',
+  bitrate: '8000k',
+  resolution: { width: 1920, height: 1080 },
+  fps: 30,
+  audioBitrate: '192k',
+  audioSampleRate: 48000,
+  filenameTemplate: '{project}-web',
+  ...overrides
+});
+
+const validate = (overrides: Partial<ExportPresetInput> = {}) => exportPresetService['validatePreset'](input(overrides));
+
+describe('ExportPresetService.validatePreset', () => {
+  it('keeps only known fields, trimming the name and filling in an empty file name template', () => {
+    const preset = validate({ name: '  Web 1080p  ', filenameTemplate: ' ', builtIn: true } as Partial<ExportPresetInput>);
+
+    expect(preset).toEqual({ ...input(), filenameTemplate: '{project}-{preset}' });
+  });
+
+  it('keeps a rounded CRF in place of the bitrate', () => {
+    const preset = validate({ crf: 20.4 });
+
+    expect(preset.crf).toBe(20);
+    expect(preset).not.toHaveProperty('bitrate');
+  });
+
+  it('rejects presets without a name', () => {
+    expect(() => validate({ name: '   ' })).toThrow('Export preset name is required');
+  });
+
+  it.each([
+    ['vp9', 'mov'],
+    ['h264', 'webm'],
+    ['h265', 'webm']
+  ] as const)('rejects %s in %s', (codec, container) => {
+    expect(() => validate({ codec, container })).toThrow(`${codec} can't be written to ${container}`);
+  });
+
+  it('needs a CRF in range or a bitrate in kbps', () => {
+    expect(() => validate({ crf: 52 })).toThrow('h264 CRF must be between 0 and 51');
+    expect(() => validate({ codec: 'h265', crf: 52 })).toThrow('h265 CRF must be between 0 and 51');
+    expect(() => validate({ codec: 'vp9', container: 'webm', crf: 64 })).toThrow('vp9 CRF must be between 0 and 63');
+    expect(() => validate({ crf: -1 })).toThrow('CRF must be between');
+    expect(() => validate({ bitrate: '8 Mbps' })).toThrow('needs a CRF or a bitrate');
+  });
+
+  it('takes CRFs up to the codec limit', () => {
+    expect(validate({ crf: 51 }).crf).toBe(51);
+    expect(validate({ codec: 'vp9', container: 'webm', crf: 63 }).crf).toBe(63);
+  });
+
+  it('rejects unusable resolutions, frame rates and audio settings', () => {
+    expect(() => validate({ resolution: { width: 0, height: 1080 } })).toThrow('invalid resolution');
+    expect(() => validate({ resolution: { width: 1281, height: 720 } })).toThrow('width and height must be even');
+    expect(() => validate({ resolution: { width: 1280, height: 720.4 } })).toThrow('width and height must be even');
+    expect(() => validate({ fps: 0 })).toThrow('invalid frame rate');
+    expect(() => validate({ audioBitrate: '192' })).toThrow('invalid audio settings');
+    expect(() => validate({ audioSampleRate: 0 })).toThrow('invalid audio settings');
+  });
+});
@@ -0,0 +1,301 @@
+/**
+ * Export Preset Service
+ *
+ * Implements IExportPresetService: the registry of export presets used by the export dialog
+ * and by ExportService when a config leaves its rate control to the preset.
+ *
+ * Features:
+ * - Built-in presets (low, medium, high, ultra) defined here, read-only
+ * - User presets persisted as JSON in userData
+ * - Import and export of preset files, validated on the way in
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { app } from 'electron';
+import { IExportPresetService } from '../../shared/contracts/services';
+import { ExportCodec, ExportContainer, ExportPreset, ExportPresetInput } from '../../shared/types';
+
+const PRESET_FILE_VERSION = 1;
+
+const CODECS: ExportCodec[] = ['h264', 'h265', 'vp9'];
+const CONTAINERS: ExportContainer[] = ['mp4', 'mov', 'mkv', 'webm'];
+
+// Highest CRF each codec's encoder accepts: libx264 and libx265 stop at 51, libvpx-vp9 at 63
+const MAX_CRF: Record<ExportCodec, number> = { h264: 51, h265: 51, vp9: 63 };
+
+// Built-in preset IDs match ExportQuality, so configs that only name a quality still resolve
+const BUILT_IN_PRESETS: ExportPreset[] = [
+  {
+    id: 'low',
+    name: 'Low',
+    builtIn: true,
+    container: 'mp4',
+    codec: 'h264',
+    bitrate: '2000k',
+    resolution: { width: 1280, height: 720 },
+    fps: 30,
+    audioBitrate: '128k',
+    audioSampleRate: 48000,
+    filenameTemplate: '{project}-{height}p'
+  },
+  {
+    id: 'medium',
+    name: 'Medium',
+    builtIn: true,
+    container: 'mp4',
+    codec: 'h264',
+    bitrate: '5000k',
+    resolution: { width: 1920, height: 1080 },
+    fps: 30,
+    audioBitrate: '192k',
+    audioSampleRate: 48000,
+    filenameTemplate: '{project}-{height}p'
+  },
+  {
+    id: 'high',
+    name: 'High',
+    builtIn: true,
+    container: 'mp4',
+    codec: 'h264',
+    bitrate: '8000k',
+    resolution: { width: 1920, height: 1080 },
+    fps: 30,
+    audioBitrate: '192k',
+    audioSampleRate: 48000,
+    filenameTemplate: '{project}-{height}p'
+  },
+  {
+    id: 'ultra',
+    name: 'Ultra',
+    builtIn: true,
+    container: 'mp4',
+    codec: 'h265',
+    bitrate: '15000k',
+    resolution: { width: 3840, height: 2160 },
+    fps: 30,
+    audioBitrate: '320k',
+    audioSampleRate: 48000,
+    filenameTemplate: '{project}-4k'
+  }
+];
+
+// Preset files written by exportPresets carry no IDs; the userData file keeps them
+interface ExportPresetFile {
+  version: number;
+  presets: Array<ExportPresetInput & { id?: string }>;
+}
+
+export class ExportPresetService implements IExportPresetService {
+  private static instance: ExportPresetService;
+  private userPresets: ExportPreset[] = [];
+  private readonly presetsFile: string;
+
+  private constructor() {
+    this.presetsFile = path.join(app.getPath('userData'), 'export-presets.json');
+    this.loadUserPresets();
+  }
+
+  static getInstance(): ExportPresetService {
+    if (!ExportPresetService.instance) {
+      ExportPresetService.instance = new ExportPresetService();
+    }
+    return ExportPresetService.instance;
+  }
+
+  // ============================================================================
+  // REGISTRY
+  // ============================================================================
+
+  listPresets(): ExportPreset[] {
+    return [...BUILT_IN_PRESETS, ...this.userPresets].map(preset => ({ ...preset }));
+  }
+
+  getPreset(id: string): ExportPreset | undefined {
+    const preset = BUILT_IN_PRESETS.find(p => p.id === id) || this.userPresets.find(p => p.id === id);
+    return preset ? { ...preset } : undefined;
+  }
+
+  async createPreset(input: ExportPresetInput): Promise<ExportPreset> {
+    const preset: ExportPreset = { id: this.createId(), ...this.validatePreset(input) };
+
+    console.log(`💾 Created export preset "${preset.name}" (${preset.id})`);
+    this.userPresets.push(preset);
+    await this.saveUserPresets();
+
+    return { ...preset };
+  }
+
+  async updatePreset(id: string, updates: Partial<ExportPresetInput>): Promise<ExportPreset> {
+    const index = this.getUserPresetIndex(id);
+    const { id: _id, builtIn: _builtIn, ...current } = this.userPresets[index];
+    const preset: ExportPreset = { id, ...this.validatePreset({ ...current, ...updates }) };
+
+    console.log(`✏️ Updated export preset "${preset.name}" (${id})`);
+    this.userPresets[index] = preset;
+    await this.saveUserPresets();
+
+    return { ...preset };
+  }
+
+  async deletePreset(id: string): Promise<void> {
+    const index = this.getUserPresetIndex(id);
+
+    console.log(`🗑️ Deleted export preset "${this.userPresets[index].name}" (${id})`);
+    this.userPresets.splice(index, 1);
+    await this.saveUserPresets();
+  }
+
+  // ============================================================================
+  // PRESET FILES
+  // ============================================================================
+
+  async importPresets(filePath: string): Promise<ExportPreset[]> {
+    let data: ExportPresetFile;
+    try {
+      data = JSON.parse(await fs.promises.readFile(filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Failed to read preset file: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (!Array.isArray(data?.presets)) {
+      throw new Error('Not an export preset file');
+    }
+
+    // Validate everything before adding anything, so a bad file changes nothing
+    const imported = data.presets.map(input => ({ id: this.createId(), ...this.validatePreset(input) }));
+
+    this.userPresets.push(...imported);
+    await this.saveUserPresets();
+
+    console.log(`📥 Imported ${imported.length} export presets from ${filePath}`);
+    return imported.map(preset => ({ ...preset }));
+  }
+
+  async exportPresets(filePath: string, ids?: string[]): Promise<void> {
+    const presets = ids
+      ? ids.map(id => {
+          const preset = this.getPreset(id);
+          if (!preset) {
+            throw new Error(`Export preset ${id} not found`);
+          }
+          return preset;
+        })
+      : this.userPresets;
+
+    const data: ExportPresetFile = {
+      version: PRESET_FILE_VERSION,
+      presets: presets.map(({ id: _id, builtIn: _builtIn, ...input }) => input)
+    };
+
+    await fs.promises.writeFile(filePath, JSON.stringify(data, null, 2), 'utf-8');
+    console.log(`📤 Exported ${presets.length} export presets to ${filePath}`);
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  private createId(): string {
+    return `preset-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private getUserPresetIndex(id: string): number {
+    if (BUILT_IN_PRESETS.some(preset => preset.id === id)) {
+      throw new Error('Built-in export presets cannot be changed');
+    }
+
+    const index = this.userPresets.findIndex(preset => preset.id === id);
+    if (index < 0) {
+      throw new Error(`Export preset ${id} not found`);
+    }
+    return index;
+  }
+
+  /**
+   * Check a preset from the renderer or a preset file, keeping only known fields
+   */
+  private validatePreset(input: ExportPresetInput): ExportPresetInput {
+    const name = typeof input?.name === 'string' ? input.name.trim() : '';
+    if (!name) {
+      throw new Error('Export preset name is required');
+    }
+    if (!CONTAINERS.includes(input.container)) {
+      throw new Error(`Preset "${name}": unsupported container ${input.container}`);
+    }
+    if (!CODECS.includes(input.codec)) {
+      throw new Error(`Preset "${name}": unsupported codec ${input.codec}`);
+    }
+    if (input.codec === 'vp9' ? input.container === 'mov' : input.container === 'webm') {
+      throw new Error(`Preset "${name}": ${input.codec} can't be written to ${input.container}`);
+    }
+    if (input.crf !== undefined && !(input.crf >= 0 && input.crf <= MAX_CRF[input.codec])) {
+      throw new Error(`Preset "${name}": ${input.codec} CRF must be between 0 and ${MAX_CRF[input.codec]}`);
+    }
+    if (input.crf === undefined && !/^\d+k$/.test(input.bitrate || '')) {
+      throw new Error(`Preset "${name}": needs a CRF or a bitrate such as '8000k'`);
+    }
+    if (!(input.resolution?.width > 0 && input.resolution?.height > 0)) {
+      throw new Error(`Preset "${name}": invalid resolution`);
+    }
+    // Encoders subsample chroma in 2x2 blocks, so odd sizes fail to encode
+    if (input.resolution.width % 2 !== 0 || input.resolution.height % 2 !== 0) {
+      throw new Error(`Preset "${name}": width and height must be even whole numbers`);
+    }
+    if (!(input.fps > 0)) {
+      throw new Error(`Preset "${name}": invalid frame rate`);
+    }
+    if (!/^\d+k$/.test(input.audioBitrate || '') || !(input.audioSampleRate > 0)) {
+      throw new Error(`Preset "${name}": invalid audio settings`);
+    }
+
+    return {
+      name,
+      container: input.container,
+      codec: input.codec,
+      ...(input.crf !== undefined ? { crf: Math.round(input.crf) } : { bitrate: input.bitrate }),
+      resolution: { width: input.resolution.width, height: input.resolution.height },
+      fps: input.fps,
+      audioBitrate: input.audioBitrate,
+      audioSampleRate: input.audioSampleRate,
+      filenameTemplate: input.filenameTemplate?.trim() || '{project}-{preset}'
+    };
+  }
+
+  /**
+   * Read user presets once at startup; ExportService looks presets up synchronously
+   */
+  private loadUserPresets(): void {
+    try {
+      const data: ExportPresetFile = JSON.parse(fs.readFileSync(this.presetsFile, 'utf-8'));
+      this.userPresets = (data.presets || []).flatMap(preset => {
+        try {
+          return [{ id: preset.id || this.createId(), ...this.validatePreset(preset) }];
+        } catch (error) {
+          console.warn(`⚠️ Skipping invalid export preset: ${error}`);
+          return [];
+        }
+      });
+
+      console.log(`📜 Loaded ${this.userPresets.length} user export presets`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(`⚠️ Failed to load export presets: ${error}`);
+      }
+    }
+  }
+
+  private async saveUserPresets(): Promise<void> {
+    // IDs are kept so configs that name a user preset still resolve after a restart
+    const data: ExportPresetFile = { version: PRESET_FILE_VERSION, presets: this.userPresets };
+
+    try {
+      await fs.promises.writeFile(this.presetsFile, JSON.stringify(data, null, 2), 'utf-8');
+    } catch (error) {
+      console.warn(`⚠️ Failed to save export presets: ${error}`);
+    }
+  }
+}
+
+// Export singleton instance
+export const exportPresetService = ExportPresetService.getInstance();
@@ -0,0 +1,142 @@
+import * as fs from 'fs';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ExportConfig } from '../../shared/types';
+import { exportQueueService } from './ExportQueueService';
+import { exportService } from './ExportService';
+
+// History is written to userData, which a test run keeps in a temp folder
+vi.mock('electron', async () => {
+  const fs = await import('fs');
+  const os = await import('os');
+  const path = await import('path');
+  const userData = fs.mkdtempSync(path.join(os.tmpdir(), 'clipforge-'));
+  return { app: { getPath: () => userData } };
+});
+
+// Exports are started and stopped by hand; completion is reported through the emitter like the real service
+vi.mock('./ExportService', async () => {
+  const { EventEmitter } = await import('events');
+  const emitter = new EventEmitter();
+  return {
+    exportService: {
+      getEventEmitter: () => emitter,
+      startExport: vi.fn(),
+      cancelExport: vi.fn()
+    }
+  };
+});
+
+const config: ExportConfig = {
+  outputPath: '/exports/out.mp4',
+  quality: 'high',
+  resolution: { width: 1920, height: 1080 },
+  fps: 30,
+  codec: 'h264'
+};
+
+// Lets startExport's promise settle
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+const complete = (exportId: string, result: { success: boolean; cancelled?: boolean; error?: string }) =>
+  exportService.getEventEmitter().emit('exportComplete', { exportId, ...result });
+
+const statusOf = (jobId: string) => exportQueueService.getJobs().find(job => job.id === jobId)?.status;
+
+describe('ExportQueueService', () => {
+  let exportCount = 0;
+
+  beforeEach(() => {
+    exportQueueService['entries'] = [];
+    vi.mocked(exportService.startExport).mockReset().mockImplementation(async () => `export-${++exportCount}`);
+    vi.mocked(exportService.cancelExport).mockReset().mockResolvedValue();
+  });
+
+  it('runs one job at a time and holds the rest as pending', async () => {
+    const first = exportQueueService.enqueue(config, { tracks: [] });
+    const second = exportQueueService.enqueue(config, { tracks: [] });
+    await settle();
+
+    expect(statusOf(first.id)).toBe('running');
+    expect(statusOf(second.id)).toBe('pending');
+    expect(exportService.startExport).toHaveBeenCalledTimes(1);
+  });
+
+  it('pauses a pending job in place and resumes it as pending', async () => {
+    exportQueueService.enqueue(config, { tracks: [] });
+    const waiting = exportQueueService.enqueue(config, { tracks: [] });
+
+    await exportQueueService.pause(waiting.id);
+    expect(statusOf(waiting.id)).toBe('paused');
+
+    exportQueueService.resume(waiting.id);
+    expect(statusOf(waiting.id)).toBe('pending');
+  });
+
+  it('pauses a running job by cancelling its export, and starts the next one', async () => {
+    const running = exportQueueService.enqueue(config, { tracks: [] });
+    const next = exportQueueService.enqueue(config, { tracks: [] });
+    await settle();
+    const exportId = `export-${exportCount}`;
+
+    await exportQueueService.pause(running.id);
+    expect(exportService.cancelExport).toHaveBeenCalledWith(exportId);
+
+    complete(exportId, { success: false, cancelled: true });
+    expect(statusOf(running.id)).toBe('paused');
+    expect(statusOf(next.id)).toBe('running');
+  });
+
+  it('pauses a job whose export is still starting as soon as it has an ID', async () => {
+    let started: (exportId: string) => void = () => {};
+    vi.mocked(exportService.startExport).mockImplementationOnce(() => new Promise(resolve => { started = resolve; }));
+    const starting = exportQueueService.enqueue(config, { tracks: [] });
+
+    await exportQueueService.pause(starting.id);
+    expect(exportService.cancelExport).not.toHaveBeenCalled();
+
+    const exportId = 'export-starting';
+    started(exportId);
+    await settle();
+    expect(exportService.cancelExport).toHaveBeenCalledWith(exportId);
+
+    complete(exportId, { success: false, cancelled: true });
+    expect(statusOf(starting.id)).toBe('paused');
+  });
+
+  it('retries failed and cancelled jobs, but no others', async () => {
+    const job = exportQueueService.enqueue(config, { tracks: [] });
+    await settle();
+
+    expect(() => exportQueueService.retry(job.id)).toThrow('Cannot retry a running job');
+
+    complete(`export-${exportCount}`, { success: false, error: 'Encoder failed' });
+    expect(exportQueueService.getJobs()[0]).toMatchObject({ status: 'failed', error: 'Encoder failed' });
+
+    exportQueueService.retry(job.id);
+    expect(exportQueueService.getJobs()[0]).toMatchObject({ status: 'running', error: undefined });
+    expect(exportService.startExport).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps finished jobs in the history file without clip thumbnails', async () => {
+    const clip = { id: 'clip', sourceFile: '/media/a.mp4', metadata: { duration: 5, thumbnail: 'data:image/jpeg;base64,AAAA' } };
+    exportQueueService.enqueue(config, {
+      tracks: [{ id: 'video', clips: [clip] }],
+      webcam: { position: { x: 80, y: 80 }, size: { width: 20, height: 20 }, clip: clip as any }
+    });
+    await settle();
+
+    complete(`export-${exportCount}`, { success: true });
+    await exportQueueService['historyWrites'];
+
+    const { history } = JSON.parse(fs.readFileSync(exportQueueService['historyFile'], 'utf-8'));
+    expect(history).toHaveLength(1);
+    expect(history[0].timeline.tracks[0].clips[0].metadata).toEqual({ duration: 5 });
+    expect(history[0].timeline.webcam.clip.metadata).toEqual({ duration: 5 });
+  });
+
+  it('cannot resume a job that is not paused', () => {
+    const job = exportQueueService.enqueue(config, { tracks: [] });
+
+    expect(() => exportQueueService.resume(job.id)).toThrow('Cannot resume a running job');
+  });
+});
@@ -0,0 +1,367 @@
+/**
+ * Export Queue Service
+ *
+ * Implements IExportQueueService: a main-process queue of exports that runs up to
+ * `concurrency` jobs at once through ExportService.
+ *
+ * Features:
+ * - Each job keeps a snapshot of the timeline taken when it was queued
+ * - Pause (holds a pending job, or stops a running one to run again later), reorder and retry
+ * - Finished, failed and cancelled jobs stay in the list as history, persisted in userData
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { app } from 'electron';
+import { EventEmitter } from 'events';
+import { IExportQueueService } from '../../shared/contracts/services';
+import { ExportConfig, ExportJobStatus, ExportProgress, ExportQueueJob, ExportRange, ExportSizeResult, ExportTimeline } from '../../shared/types';
+import { withoutClipThumbnail, withoutTrackThumbnails } from '../../shared/utils/thumbnailUtils';
+import { exportService } from './ExportService';
+
+const DEFAULT_CONCURRENCY = 1;
+const MAX_CONCURRENCY = 4;
+const MAX_HISTORY = 50;
+
+const FINISHED_STATUSES: ExportJobStatus[] = ['completed', 'failed', 'cancelled'];
+
+interface QueueEntry {
+  job: ExportQueueJob;
+  timeline: ExportTimeline;
+  exportId?: string;            // ExportService export ID while running
+  pauseRequested?: boolean;     // Running job is being stopped to be held as paused
+}
+
+interface ExportHistoryFile {
+  concurrency: number;
+  history: Array<{ job: ExportQueueJob; timeline: ExportTimeline }>;
+}
+
+export class ExportQueueService implements IExportQueueService {
+  private static instance: ExportQueueService;
+  private entries: QueueEntry[] = [];
+  private concurrency = DEFAULT_CONCURRENCY;
+  private eventEmitter = new EventEmitter();
+  private readonly historyFile: string;
+  private historyWrites: Promise<void>; // Loading, then each write in turn
+
+  private constructor() {
+    this.historyFile = path.join(app.getPath('userData'), 'export-history.json');
+
+    const emitter = exportService.getEventEmitter();
+    emitter.on('exportProgress', (data: { exportId: string; progress: ExportProgress }) => {
+      this.handleProgress(data.exportId, data.progress);
+    });
+    emitter.on('exportComplete', (data: { exportId: string; success: boolean; cancelled?: boolean; sizeResult?: ExportSizeResult; error?: string }) => {
+      this.handleComplete(data);
+    });
+
+    this.historyWrites = this.loadHistory();
+  }
+
+  static getInstance(): ExportQueueService {
+    if (!ExportQueueService.instance) {
+      ExportQueueService.instance = new ExportQueueService();
+    }
+    return ExportQueueService.instance;
+  }
+
+  // ============================================================================
+  // QUEUE OPERATIONS
+  // ============================================================================
+
+  enqueue(config: ExportConfig, timeline: ExportTimeline, name?: string, range?: ExportRange): ExportQueueJob {
+    const job: ExportQueueJob = {
+      id: `job-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      name: name || path.basename(config.outputPath),
+      config,
+      range,
+      status: 'pending',
+      createdAt: new Date().toISOString()
+    };
+
+    console.log(`📥 Queued export ${job.id}: ${config.outputPath}`);
+    this.entries.push({ job, timeline });
+    this.notifyChanged();
+    this.processQueue();
+
+    return { ...job };
+  }
+
+  getJobs(): ExportQueueJob[] {
+    return this.entries.map(entry => ({ ...entry.job }));
+  }
+
+  async pause(jobId: string): Promise<void> {
+    const entry = this.getEntry(jobId);
+
+    if (entry.job.status === 'pending') {
+      entry.job.status = 'paused';
+      this.notifyChanged();
+      return;
+    }
+
+    if (entry.job.status === 'running') {
+      // Held as paused once the export reports it has stopped
+      console.log(`⏸️ Pausing running export job ${jobId}`);
+      entry.pauseRequested = true;
+      // An export that's still starting is cancelled by startEntry once it has its ID
+      if (entry.exportId) {
+        await exportService.cancelExport(entry.exportId);
+      }
+      return;
+    }
+
+    throw new Error(`Cannot pause a ${entry.job.status} job`);
+  }
+
+  resume(jobId: string): void {
+    const entry = this.getEntry(jobId);
+
+    if (entry.job.status !== 'paused') {
+      throw new Error(`Cannot resume a ${entry.job.status} job`);
+    }
+
+    entry.job.status = 'pending';
+    this.notifyChanged();
+    this.processQueue();
+  }
+
+  move(jobId: string, toIndex: number): void {
+    const entry = this.getEntry(jobId);
+    const fromIndex = this.entries.indexOf(entry);
+    const targetIndex = Math.max(0, Math.min(this.entries.length - 1, Math.round(toIndex)));
+
+    if (fromIndex === targetIndex) return;
+
+    this.entries.splice(fromIndex, 1);
+    this.entries.splice(targetIndex, 0, entry);
+    this.notifyChanged();
+    this.processQueue();
+  }
+
+  retry(jobId: string): void {
+    const entry = this.getEntry(jobId);
+
+    if (entry.job.status !== 'failed' && entry.job.status !== 'cancelled') {
+      throw new Error(`Cannot retry a ${entry.job.status} job`);
+    }
+
+    entry.job = {
+      ...entry.job,
+      status: 'pending',
+      progress: undefined,
+      sizeResult: undefined,
+      error: undefined,
+      startedAt: undefined,
+      finishedAt: undefined
+    };
+    this.notifyChanged();
+    this.saveHistory();
+    this.processQueue();
+  }
+
+  async remove(jobId: string): Promise<void> {
+    const entry = this.getEntry(jobId);
+
+    // Drop it from the list first so its completion event is ignored
+    this.entries = this.entries.filter(e => e !== entry);
+    this.notifyChanged();
+
+    if (entry.job.status === 'running' && entry.exportId) {
+      await exportService.cancelExport(entry.exportId);
+      this.processQueue();
+    }
+
+    if (FINISHED_STATUSES.includes(entry.job.status)) {
+      this.saveHistory();
+    }
+  }
+
+  clearFinished(): void {
+    this.entries = this.entries.filter(entry => !FINISHED_STATUSES.includes(entry.job.status));
+    this.notifyChanged();
+    this.saveHistory();
+  }
+
+  setConcurrency(concurrency: number): void {
+    this.concurrency = Math.max(1, Math.min(MAX_CONCURRENCY, Math.round(concurrency) || DEFAULT_CONCURRENCY));
+    console.log(`⚙️ Export queue concurrency set to ${this.concurrency}`);
+
+    this.notifyChanged();
+    this.saveHistory();
+    this.processQueue();
+  }
+
+  getConcurrency(): number {
+    return this.concurrency;
+  }
+
+  /**
+   * Get event emitter for queue updates
+   */
+  getEventEmitter(): EventEmitter {
+    return this.eventEmitter;
+  }
+
+  // ============================================================================
+  // SCHEDULING
+  // ============================================================================
+
+  /**
+   * Start pending jobs in queue order until the concurrency limit is reached
+   */
+  private processQueue(): void {
+    let freeSlots = this.concurrency - this.entries.filter(entry => entry.job.status === 'running').length;
+
+    for (const entry of this.entries) {
+      if (freeSlots <= 0) break;
+      if (entry.job.status !== 'pending') continue;
+
+      freeSlots--;
+      this.startEntry(entry);
+    }
+  }
+
+  private async startEntry(entry: QueueEntry): Promise<void> {
+    entry.job.status = 'running';
+    entry.job.startedAt = new Date().toISOString();
+    entry.job.progress = undefined;
+    entry.job.error = undefined;
+    entry.pauseRequested = false;
+    this.notifyChanged();
+
+    try {
+      entry.exportId = await exportService.startExport(entry.job.config, entry.timeline, entry.job.range);
+      console.log(`▶️ Export job ${entry.job.id} running as ${entry.exportId}`);
+
+      if (entry.pauseRequested) {
+        await exportService.cancelExport(entry.exportId);
+      }
+    } catch (error) {
+      this.finishEntry(entry, 'failed', error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private handleProgress(exportId: string, progress: ExportProgress): void {
+    const entry = this.entries.find(e => e.exportId === exportId);
+    if (!entry) return;
+
+    entry.job.progress = progress;
+    this.notifyChanged();
+  }
+
+  private handleComplete(data: { exportId: string; success: boolean; cancelled?: boolean; sizeResult?: ExportSizeResult; error?: string }): void {
+    const entry = this.entries.find(e => e.exportId === data.exportId);
+    if (!entry) return;
+
+    if (data.success) {
+      entry.job.sizeResult = data.sizeResult;
+      this.finishEntry(entry, 'completed');
+    } else if (data.cancelled) {
+      this.finishEntry(entry, entry.pauseRequested ? 'paused' : 'cancelled');
+    } else {
+      this.finishEntry(entry, 'failed', data.error);
+    }
+  }
+
+  private finishEntry(entry: QueueEntry, status: ExportJobStatus, error?: string): void {
+    entry.exportId = undefined;
+    entry.pauseRequested = false;
+    entry.job.status = status;
+    entry.job.error = error;
+
+    if (status === 'paused') {
+      // Starts over when resumed
+      entry.job.progress = undefined;
+      entry.job.startedAt = undefined;
+    } else {
+      entry.job.finishedAt = new Date().toISOString();
+    }
+
+    console.log(`🏁 Export job ${entry.job.id} ${status}${error ? `: ${error}` : ''}`);
+    this.notifyChanged();
+    this.saveHistory();
+    this.processQueue();
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  private getEntry(jobId: string): QueueEntry {
+    const entry = this.entries.find(e => e.job.id === jobId);
+    if (!entry) {
+      throw new Error(`Export job ${jobId} not found`);
+    }
+    return entry;
+  }
+
+  private notifyChanged(): void {
+    this.eventEmitter.emit('queueUpdated', {
+      jobs: this.getJobs(),
+      concurrency: this.concurrency
+    });
+  }
+
+  /**
+   * Restore finished jobs and the concurrency setting from the last session
+   */
+  private async loadHistory(): Promise<void> {
+    try {
+      const data: ExportHistoryFile = JSON.parse(await fs.readFile(this.historyFile, 'utf-8'));
+
+      this.concurrency = Math.max(1, Math.min(MAX_CONCURRENCY, data.concurrency || DEFAULT_CONCURRENCY));
+      const restored = (data.history || []).filter(entry => FINISHED_STATUSES.includes(entry.job?.status));
+      this.entries = [...restored, ...this.entries];
+
+      console.log(`📜 Restored ${restored.length} export jobs from history`);
+      this.notifyChanged();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(`⚠️ Failed to load export history: ${error}`);
+      }
+    }
+  }
+
+  private saveHistory(): Promise<void> {
+    // One write at a time, after loading, so an older state never lands over a newer one
+    this.historyWrites = this.historyWrites.then(() => this.writeHistory());
+    return this.historyWrites;
+  }
+
+  /**
+   * Write the finished jobs and the concurrency setting as they are now. The file is written
+   * beside the history and renamed over it, so a failed write never leaves it truncated.
+   */
+  private async writeHistory(): Promise<void> {
+    const history = this.entries
+      .filter(entry => FINISHED_STATUSES.includes(entry.job.status))
+      .slice(-MAX_HISTORY)
+      .map(({ job, timeline }) => ({ job, timeline: this.getHistoryTimeline(timeline) }));
+
+    const data: ExportHistoryFile = { concurrency: this.concurrency, history };
+    const tempFile = `${this.historyFile}.tmp`;
+
+    try {
+      await fs.writeFile(tempFile, JSON.stringify(data), 'utf-8');
+      await fs.rename(tempFile, this.historyFile);
+    } catch (error) {
+      console.warn(`⚠️ Failed to save export history: ${error}`);
+    }
+  }
+
+  /**
+   * Timeline snapshot as kept in the history file, without clip thumbnails
+   */
+  private getHistoryTimeline(timeline: ExportTimeline): ExportTimeline {
+    return {
+      ...timeline,
+      tracks: withoutTrackThumbnails(timeline.tracks),
+      ...(timeline.webcam?.clip ? { webcam: { ...timeline.webcam, clip: withoutClipThumbnail(timeline.webcam.clip) } } : {})
+    };
+  }
+}
+
+// Export singleton instance
+export const exportQueueService = ExportQueueService.getInstance();
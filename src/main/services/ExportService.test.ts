@@ -0,0 +1,661 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { spawn } from 'child_process';
+import { ExportConfig } from '../../shared/types';
+import { ExportService, exportService } from './ExportService';
+import { ffmpegManager } from './FFmpegManager';
+
+// Services read their files from userData, which a test run keeps in a temp folder
+vi.mock('electron', async () => {
+  const fs = await import('fs');
+  const os = await import('os');
+  const path = await import('path');
+  const userData = fs.mkdtempSync(path.join(os.tmpdir(), 'clipforge-'));
+  return { app: { getPath: () => userData } };
+});
+
+// Nothing here may start a real FFmpeg
+vi.mock('child_process', async (importOriginal) => ({
+  ...await importOriginal<typeof import('child_process')>(),
+  spawn: vi.fn()
+}));
+
+type ExportClip = ReturnType<ExportService['extractClipsFromTimeline']>[number];
+type ExportJob = Parameters<ExportService['runFFmpeg']>[0];
+
+const config: ExportConfig = {
+  outputPath: '/exports/out.mp4',
+  quality: 'high',
+  resolution: { width: 1920, height: 1080 },
+  fps: 30,
+  codec: 'h264'
+};
+
+const extractClips = (tracks: any[]) => exportService['extractClipsFromTimeline']({ tracks }, config);
+
+const makeClip = (overrides: Partial<ExportClip> = {}): ExportClip => ({
+  sourceFile: '/media/clip.mp4',
+  trimIn: 0,
+  trimOut: 10,
+  startTime: 0,
+  endTime: 10,
+  trackId: 'track-1',
+  trackNumber: 1,
+  hasVideo: true,
+  hasAudio: true,
+  gain: 1,
+  transform: { x: 0, y: 0, scale: 1 },
+  opacity: 1,
+  scalingMode: 'fit',
+  ...overrides
+});
+
+const makeJob = (jobConfig: ExportConfig = config): ExportJob => ({
+  id: 'export-test',
+  config: jobConfig,
+  startTime: 0,
+  processes: new Set(),
+  tempDirs: new Set(),
+  cancelled: false,
+  finished: Promise.resolve(),
+  markFinished: () => {}
+});
+
+// Private steps spied on in place of running FFmpeg
+const internals = exportService as unknown as {
+  runFFmpeg: ExportService['runFFmpeg'];
+  mixTimelineAudio: ExportService['mixTimelineAudio'];
+  getFontFile: ExportService['getFontFile'];
+};
+
+// Progress only moves while FFmpeg runs, which it never does here
+const tracker = { update: vi.fn(), completePhase: vi.fn() } as unknown as Parameters<ExportService['encodeAnimation']>[3];
+
+afterEach(() => {
+  vi.clearAllMocks();
+  vi.restoreAllMocks();
+});
+
+describe('ExportService.extractClipsFromTimeline', () => {
+  const track = (id: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    name: id,
+    clips: [{ id: `${id}-clip`, sourceFile: `/media/${id}.mp4`, startTime: 0, trimIn: 0, trimOut: 5 }],
+    ...overrides
+  });
+
+  it('drops the picture of hidden tracks and the sound of muted ones', () => {
+    const [hidden, muted] = extractClips([track('hidden', { visible: false }), track('muted', { muted: true })]);
+
+    expect(hidden).toMatchObject({ trackId: 'hidden', hasVideo: false, hasAudio: true });
+    expect(muted).toMatchObject({ trackId: 'muted', hasVideo: true, hasAudio: false });
+  });
+
+  it('leaves out tracks that are both hidden and muted', () => {
+    expect(extractClips([track('off', { visible: false, muted: true })])).toEqual([]);
+  });
+
+  it('multiplies each clip gain by its track gain', () => {
+    const clips = [
+      { id: 'boosted', sourceFile: '/media/a.mp4', startTime: 0, trimIn: 0, trimOut: 5, gain: 2 },
+      { id: 'plain', sourceFile: '/media/b.mp4', startTime: 5, trimIn: 0, trimOut: 5 }
+    ];
+    const [boosted, plain] = extractClips([track('music', { gain: 0.5, clips })]);
+
+    expect(boosted.gain).toBe(1);
+    expect(plain.gain).toBe(0.5);
+  });
+
+  it('plays stills from their first frame for as long as the clip lasts', () => {
+    const still = {
+      id: 'still',
+      sourceFile: '/media/photo.png',
+      startTime: 2,
+      trimIn: 10,
+      trimOut: 14,
+      metadata: { kind: 'image', duration: 3600 }
+    };
+    const [clip] = extractClips([track('photos', { clips: [still] })]);
+
+    expect(clip).toMatchObject({ isStill: true, trimIn: 0, trimOut: 4, startTime: 2, endTime: 6 });
+  });
+
+  it('takes only the sound of audio tracks', () => {
+    const [clip] = extractClips([track('voice', { kind: 'audio' })]);
+
+    expect(clip).toMatchObject({ hasVideo: false, hasAudio: true });
+  });
+
+  it('stacks later tracks over earlier ones, and the webcam track over every track', () => {
+    const webcam = { trackId: 'webcam', position: { x: 75, y: 75 }, size: { width: 20, height: 15 } };
+    const clips = exportService['extractClipsFromTimeline'](
+      { tracks: [track('bottom'), track('webcam'), track('top')], webcam },
+      config
+    );
+
+    expect(clips.map(({ trackId, trackNumber }) => [trackId, trackNumber])).toEqual([['bottom', 1], ['webcam', 4], ['top', 3]]);
+  });
+
+  it('keeps only the selected clips for a selection export', () => {
+    const clips = exportService['extractClipsFromTimeline']({ tracks: [track('a'), track('b')] }, config, ['b-clip']);
+
+    expect(clips.map(({ trackId }) => trackId)).toEqual(['b']);
+  });
+});
+
+describe('ExportService.buildOverlayPosition', () => {
+  it('centres the layer, then offsets it by its transform in percent of the frame', () => {
+    const layer = makeClip({ transform: { x: 10, y: -5, scale: 0.5 } });
+
+    expect(exportService['buildOverlayPosition'](layer, config)).toBe('x=(W-w)/2+192:y=(H-h)/2-54');
+  });
+});
+
+describe('ExportService.parseProgressBlock', () => {
+  it('reads out_time_us, or out_time_ms, as microseconds', () => {
+    expect(exportService['parseProgressBlock']({ out_time_us: '2500000', frame: '75', fps: '29.97', speed: '1.5x' }))
+      .toEqual({ outTime: 2.5, frame: 75, fps: 29.97, speed: 1.5 });
+    expect(exportService['parseProgressBlock']({ out_time_ms: '1000000' }).outTime).toBe(1);
+  });
+
+  it('reports 0 for values FFmpeg has not worked out yet', () => {
+    expect(exportService['parseProgressBlock']({ out_time_us: 'N/A', fps: 'N/A', speed: 'N/A' }))
+      .toEqual({ outTime: 0, frame: 0, fps: 0, speed: 0 });
+  });
+});
+
+describe('ExportService.runFFmpeg', () => {
+  it('starts nothing for a cancelled job', async () => {
+    vi.spyOn(ffmpegManager, 'getFFmpegPath').mockReturnValue('ffmpeg');
+    const job = { ...makeJob(), cancelled: true };
+
+    await expect(exportService['runFFmpeg'](job, 'Test', ['-version'])).rejects.toThrow('Export cancelled');
+    expect(spawn).not.toHaveBeenCalled();
+  });
+});
+
+describe('ExportService.startExport', () => {
+  it('can be cancelled as soon as it returns, before any FFmpeg starts', async () => {
+    vi.spyOn(ffmpegManager, 'isReady').mockReturnValue(true);
+    vi.spyOn(ffmpegManager, 'getFFmpegPath').mockReturnValue('ffmpeg');
+    const tracks = [{ id: 'video', clips: [{ id: 'clip', sourceFile: '/media/a.mp4', startTime: 0, trimIn: 0, trimOut: 5 }] }];
+
+    const exportId = await exportService.startExport(config, { tracks });
+    const completed = new Promise(resolve => exportService.getEventEmitter().once('exportComplete', resolve));
+    await exportService.cancelExport(exportId);
+
+    await expect(completed).resolves.toMatchObject({ exportId, success: false, cancelled: true });
+    expect(spawn).not.toHaveBeenCalled();
+  });
+
+  it('refuses text layers on FFmpeg older than 6.1', async () => {
+    const title = { id: 'title', startTime: 0, trimIn: 0, trimOut: 5, text: { content: 'Title' } };
+    const tracks = [{ id: 'titles', kind: 'text', clips: [title] }];
+    ffmpegManager['version'] = { major: 6, minor: 0 };
+
+    try {
+      await expect(exportService.startExport(config, { tracks })).rejects.toThrow('Text layers need FFmpeg 6.1 or newer; this FFmpeg is 6.0');
+
+      ffmpegManager['version'] = { major: 6, minor: 1 };
+      expect(ffmpegManager.isVersionAtLeast(6, 1)).toBe(true);
+    } finally {
+      ffmpegManager['version'] = null;
+    }
+  });
+});
+
+describe('ExportService.getWebcamBox', () => {
+  const overlay = (x: number, y: number, width: number) => ({ position: { x, y }, size: { width, height: width } });
+
+  it('sizes the box from the frame width, at 4:3', () => {
+    expect(exportService['getWebcamBox'](overlay(10, 20, 25), config)).toEqual({ x: 192, y: 216, width: 480, height: 360 });
+  });
+
+  it('rounds the box to even sizes', () => {
+    const hd = { ...config, resolution: { width: 1280, height: 720 } };
+
+    expect(exportService['getWebcamBox'](overlay(0, 0, 33), hd)).toMatchObject({ width: 422, height: 316 });
+  });
+
+  it('keeps the box inside the frame', () => {
+    expect(exportService['getWebcamBox'](overlay(90, 95, 25), config)).toMatchObject({ x: 1440, y: 720 });
+  });
+});
+
+describe('ExportService.sliceEvent', () => {
+  it('moves the event window and every layer source offset together', () => {
+    const event = {
+      type: 'clip' as const,
+      startTime: 10,
+      endTime: 20,
+      duration: 10,
+      layers: [{ ...makeClip(), sourceOffset: 3 }]
+    };
+
+    const slice = exportService['sliceEvent'](event, 2, 6);
+
+    expect(slice).toMatchObject({ startTime: 12, endTime: 16, duration: 4 });
+    expect(slice.layers[0].sourceOffset).toBe(5);
+    expect(event.layers[0].sourceOffset).toBe(3);
+  });
+});
+
+describe('ExportService.encodeAnimation', () => {
+  const encode = async (format: 'gif' | 'webp', loop: number) => {
+    const runFFmpeg = vi.spyOn(internals, 'runFFmpeg').mockResolvedValue();
+    const job = makeJob({
+      ...config,
+      outputPath: `/exports/out.${format}`,
+      format,
+      animation: { fps: 15, width: 640, loop, dither: 'sierra2_4a' }
+    });
+
+    await exportService['encodeAnimation'](job, '/tmp/concat.txt', '/tmp', tracker);
+    const args = runFFmpeg.mock.lastCall![2];
+    return args[args.indexOf('-loop') + 1];
+  };
+
+  it.each([
+    [0, '0'],
+    [1, '-1'],
+    [3, '2']
+  ])('turns %i GIF plays into %s repeats', async (loop, repeats) => {
+    expect(await encode('gif', loop)).toBe(repeats);
+  });
+
+  it('passes WebP loop counts through', async () => {
+    expect(await encode('webp', 3)).toBe('3');
+  });
+});
+
+describe('ExportService.renderAudio', () => {
+  it.each([
+    ['wav', ['-c:a', 'pcm_s16le']],
+    ['mp3', ['-c:a', 'libmp3lame', '-b:a', '192k']],
+    ['aac', ['-c:a', 'aac', '-b:a', '192k']],
+    ['flac', ['-c:a', 'flac']]
+  ] as const)('mixes the timeline down to %s', async (audioFormat, encodeArgs) => {
+    vi.spyOn(ffmpegManager, 'isReady').mockReturnValue(true);
+    const mixTimelineAudio = vi.spyOn(internals, 'mixTimelineAudio').mockResolvedValue();
+    const job = makeJob({ ...config, outputPath: `/exports/out.${audioFormat}`, format: 'audio', audioFormat });
+
+    await exportService['renderAudio'](job, [makeClip()], () => {});
+
+    expect(mixTimelineAudio.mock.lastCall![5]).toEqual(encodeArgs);
+  });
+});
+
+describe('ExportService.clipToRange', () => {
+  const clipToRange = (clips: ExportClip[], start: number, end: number) =>
+    exportService['clipToRange'](clips, { start, end });
+
+  it('shifts clips inside the range so it starts at 0', () => {
+    const [clip] = clipToRange([makeClip({ startTime: 12, endTime: 15, trimIn: 2, trimOut: 5 })], 10, 20);
+
+    expect(clip).toMatchObject({ startTime: 2, endTime: 5, trimIn: 2, trimOut: 5 });
+  });
+
+  it('trims clips crossing either edge of the range', () => {
+    const [head, tail] = clipToRange([
+      makeClip({ startTime: 5, endTime: 15, trimIn: 1, trimOut: 11 }),
+      makeClip({ startTime: 18, endTime: 25, trimIn: 0, trimOut: 7 })
+    ], 10, 20);
+
+    expect(head).toMatchObject({ startTime: 0, endTime: 5, trimIn: 6, trimOut: 11 });
+    expect(tail).toMatchObject({ startTime: 8, endTime: 10, trimIn: 0, trimOut: 2 });
+  });
+
+  it('drops clips outside the range, including ones only touching its edges', () => {
+    const clips = clipToRange([
+      makeClip({ startTime: 0, endTime: 10 }),
+      makeClip({ startTime: 20, endTime: 30 }),
+      makeClip({ startTime: 40, endTime: 50 })
+    ], 10, 20);
+
+    expect(clips).toEqual([]);
+  });
+
+  it('leaves the input clips unchanged', () => {
+    const original = makeClip({ startTime: 5, endTime: 15 });
+    clipToRange([original], 10, 20);
+
+    expect(original).toMatchObject({ startTime: 5, endTime: 15, trimIn: 0, trimOut: 10 });
+  });
+});
+
+describe('ExportService.writeImageSequence', () => {
+  const writeFrames = async (outputPath: string, imageFormat?: 'png' | 'jpeg') => {
+    const runFFmpeg = vi.spyOn(internals, 'runFFmpeg').mockResolvedValue();
+    const job = makeJob({ ...config, outputPath, format: 'images', imageFormat });
+
+    const first = await exportService['writeImageSequence'](job, '/tmp/concat.txt', tracker);
+    return { first, args: runFFmpeg.mock.lastCall![2] };
+  };
+
+  it('numbers PNG frames after the output name and returns the first one', async () => {
+    const { first, args } = await writeFrames('/exports/shot.png');
+
+    expect(first).toBe('/exports/shot_00001.png');
+    expect(args).toContain('/exports/shot_%05d.png');
+    expect(args).not.toContain('-q:v');
+  });
+
+  it('writes JPEG frames as .jpg at high quality', async () => {
+    const { first, args } = await writeFrames('/exports/shot.jpg', 'jpeg');
+
+    expect(first).toBe('/exports/shot_00001.jpg');
+    expect(args).toEqual(expect.arrayContaining(['-q:v', '2', '/exports/shot_%05d.jpg']));
+  });
+});
+
+describe('ExportService.buildFramingFilter', () => {
+  const frame = (framing: Parameters<ExportService['buildFramingFilter']>[0]) =>
+    exportService['buildFramingFilter'](framing, 1920, 1080);
+
+  it('fits inside the frame and pads with the pad color', () => {
+    expect(frame({ scalingMode: 'fit', padColor: '#102030' })).toBe(
+      'scale=w=1920:h=1080:force_original_aspect_ratio=decrease:force_divisible_by=2,pad=1920:1080:(ow-iw)/2:(oh-ih)/2:color=0x102030'
+    );
+  });
+
+  it('leaves fit bars transparent without a pad color', () => {
+    expect(frame({ scalingMode: 'fit' })).toBe('scale=w=1920:h=1080:force_original_aspect_ratio=decrease:force_divisible_by=2');
+  });
+
+  it('fills the frame and crops the overflow', () => {
+    expect(frame({ scalingMode: 'fill' })).toBe('scale=w=1920:h=1080:force_original_aspect_ratio=increase,crop=1920:1080');
+  });
+
+  it('stretches to the frame', () => {
+    expect(frame({ scalingMode: 'stretch' })).toBe('scale=w=1920:h=1080,setsar=1');
+  });
+
+  it('cuts the crop window out of the source before framing it', () => {
+    expect(frame({ scalingMode: 'stretch', crop: { x: 25, y: 0, width: 50, height: 100 } })).toBe(
+      'crop=w=iw*0.5000:h=ih*1.0000:x=iw*0.2500:y=ih*0.0000,scale=w=1920:h=1080,setsar=1'
+    );
+  });
+
+  it('keeps the crop window inside the source', () => {
+    expect(exportService['buildCropFilter']({ x: -10, y: 90, width: 120, height: 20 }))
+      .toBe('crop=w=iw*1.0000:h=ih*0.2000:x=iw*0.0000:y=ih*0.9000');
+  });
+});
+
+describe('ExportService.getChapters', () => {
+  const clips = [makeClip({ startTime: 0, endTime: 30 })];
+  const marker = (time: number, title: string) => ({ id: `marker-${time}`, time, title });
+
+  it('runs each titled marker to the next one, and the last to the end of the clips', () => {
+    const chapters = exportService['getChapters']([marker(10, 'Middle'), marker(0, 'Intro')], clips);
+
+    expect(chapters).toEqual([
+      { start: 0, end: 10, title: 'Intro' },
+      { start: 10, end: 30, title: 'Middle' }
+    ]);
+  });
+
+  it('skips untitled markers and markers at or past the end', () => {
+    const chapters = exportService['getChapters'](
+      [marker(0, 'Intro'), marker(5, '  '), marker(30, 'Credits'), marker(40, 'Later')],
+      clips
+    );
+
+    expect(chapters).toEqual([{ start: 0, end: 30, title: 'Intro' }]);
+  });
+
+  it('shifts markers to the range start and opens with the chapter already running there', () => {
+    const ranged = [makeClip({ startTime: 0, endTime: 10 })];
+    const chapters = exportService['getChapters'](
+      [marker(0, 'Intro'), marker(8, 'Middle'), marker(14, 'End')],
+      ranged,
+      { start: 10, end: 20 }
+    );
+
+    expect(chapters).toEqual([
+      { start: 0, end: 4, title: 'Middle' },
+      { start: 4, end: 10, title: 'End' }
+    ]);
+  });
+
+  it('drops the empty chapters left by markers stacked at the same time', () => {
+    const chapters = exportService['getChapters']([marker(10, 'First'), marker(10, 'Second')], clips);
+
+    expect(chapters).toHaveLength(1);
+    expect(chapters[0]).toMatchObject({ start: 10, end: 30 });
+  });
+});
+
+describe('ExportService.getCaptionCues', () => {
+  const clips = [makeClip({ startTime: 0, endTime: 10 })];
+  const cue = (startTime: number, endTime: number, text = 'Caption') =>
+    ({ id: `cue-${startTime}`, startTime, endTime, text });
+  const captionTrack = (cues: ReturnType<typeof cue>[], visible = true) =>
+    ({ id: 'captions', kind: 'caption', visible, clips: [], cues });
+
+  it('takes the cues of visible caption tracks, sorted by start', () => {
+    const cues = exportService['getCaptionCues']([
+      { id: 'video', kind: 'video', clips: [] },
+      captionTrack([cue(5, 6, 'Later')]),
+      captionTrack([cue(1, 2, 'Earlier')]),
+      captionTrack([cue(3, 4, 'Hidden')], false)
+    ], clips);
+
+    expect(cues.map(({ text }) => text)).toEqual(['Earlier', 'Later']);
+  });
+
+  it('cuts cues running past the last clip and drops blank ones', () => {
+    const cues = exportService['getCaptionCues']([
+      captionTrack([cue(8, 12), cue(10, 14), cue(1, 2, '  ')])
+    ], clips);
+
+    expect(cues).toMatchObject([{ startTime: 8, endTime: 10 }]);
+  });
+
+  it('shifts cues to the range start and cuts the ones crossing its edges', () => {
+    const cues = exportService['getCaptionCues']([
+      captionTrack([cue(2, 4), cue(9, 12), cue(15, 18), cue(19, 25), cue(21, 22)])
+    ], clips, { start: 10, end: 20 });
+
+    expect(cues.map(({ startTime, endTime }) => [startTime, endTime])).toEqual([[0, 2], [5, 8], [9, 10]]);
+  });
+});
+
+describe('ExportService.applyTransitions', () => {
+  const crossfade = (duration: number) => ({ type: 'crossfade' as const, duration });
+
+  it('shortens both clips by half the transition and blends them in a layer centred on the cut', () => {
+    const from = makeClip({ sourceFile: '/media/a.mp4', startTime: 0, endTime: 10, trimIn: 0, trimOut: 10 });
+    const to = makeClip({
+      sourceFile: '/media/b.mp4', startTime: 10, endTime: 20, trimIn: 5, trimOut: 15, transitionIn: crossfade(2)
+    });
+
+    const [outgoing, incoming, layer] = exportService['applyTransitions']([from, to]);
+
+    expect(outgoing).toMatchObject({ startTime: 0, endTime: 9, trimIn: 0, trimOut: 9 });
+    expect(incoming).toMatchObject({ startTime: 11, endTime: 20, trimIn: 6, trimOut: 15 });
+    expect(layer).toMatchObject({
+      sourceFile: '/media/b.mp4', startTime: 9, endTime: 11, trimIn: 4, trimOut: 6, transitionIn: undefined
+    });
+    expect(layer.transition).toMatchObject({
+      type: 'crossfade',
+      from: { sourceFile: '/media/a.mp4', startTime: 9, endTime: 11, trimIn: 9, trimOut: 11 }
+    });
+    expect(from).toMatchObject({ endTime: 10, trimOut: 10 });
+  });
+
+  it('caps the transition at the length of the shorter clip', () => {
+    const clips = exportService['applyTransitions']([
+      makeClip({ startTime: 0, endTime: 1, trimOut: 1 }),
+      makeClip({ startTime: 1, endTime: 10, transitionIn: crossfade(4) })
+    ]);
+
+    expect(clips[2]).toMatchObject({ startTime: 0.5, endTime: 1.5 });
+  });
+
+  it('leaves clips that do not touch on the same track as hard cuts', () => {
+    const clips = [
+      makeClip({ startTime: 0, endTime: 5 }),
+      makeClip({ startTime: 5, endTime: 10, trackId: 'track-2', transitionIn: crossfade(1) }),
+      makeClip({ startTime: 6, endTime: 10, transitionIn: crossfade(1) })
+    ];
+
+    expect(exportService['applyTransitions'](clips)).toEqual(clips);
+  });
+
+  it('keeps webcam box clips as hard cuts', () => {
+    const clips = exportService['applyTransitions']([
+      makeClip({ startTime: 0, endTime: 5 }),
+      makeClip({
+        startTime: 5, endTime: 10, transitionIn: crossfade(1),
+        overlayBox: { position: { x: 80, y: 80 }, size: { width: 20, height: 20 } }
+      })
+    ]);
+
+    expect(clips).toHaveLength(2);
+  });
+});
+
+describe('ExportService.buildTextFilter', () => {
+  const settings = {
+    content: 'Title',
+    font: 'sans' as const,
+    fontSize: 10,
+    color: '#ffcc00',
+    boxOpacity: 0.5,
+    position: { x: 50, y: 80 },
+    fadeIn: 0,
+    fadeOut: 0
+  };
+  const buildText = (overrides: Partial<typeof settings & { boxColor: string }> = {}, sourceOffset = 0) => {
+    vi.spyOn(internals, 'getFontFile').mockReturnValue('/fonts/Sans.ttf');
+    const text = { settings: { ...settings, ...overrides }, duration: 4, textFile: '/tmp/text-1.txt' };
+    return exportService['buildTextFilter']({ ...makeClip({ text }), sourceOffset }, text, config).split(':');
+  };
+
+  it('sizes the text from the frame height and centres it on its position', () => {
+    expect(buildText()).toEqual(expect.arrayContaining([
+      'drawtext=fontfile=/fonts/Sans.ttf',
+      'textfile=/tmp/text-1.txt',
+      'fontsize=108',
+      'fontcolor=0xFFCC00',
+      'x=w*0.5000-text_w/2',
+      'y=h*0.8000-text_h/2',
+      'alpha=1.000'
+    ]));
+  });
+
+  it('fades in and out over the whole clip, counting from where the segment starts in it', () => {
+    expect(buildText({ fadeIn: 0.5, fadeOut: 1 }, 1.5)).toContain(
+      'alpha=1.000*clip(min((t+1.500)/0.500\\,(4.000-(t+1.500))/1.000)\\,0\\,1)'
+    );
+  });
+
+  it('draws a box behind the text only when it has a box color', () => {
+    expect(buildText({ boxColor: '#000000' })).toEqual(expect.arrayContaining([
+      'box=1',
+      'boxcolor=0x000000@0.50',
+      'boxborderw=32'
+    ]));
+    expect(buildText()).not.toContain('box=1');
+  });
+});
+
+describe('ExportService.buildKenBurnsFilter', () => {
+  const kenBurns = {
+    start: { x: 0, y: 0, width: 100, height: 100 },
+    end: { x: 25, y: 25, width: 50, height: 50 },
+    duration: 4,
+    sourceAspect: 16 / 9
+  };
+
+  it('zooms from the start window to the end window over the clip', () => {
+    const filter = exportService['buildKenBurnsFilter'](kenBurns, 0, config);
+
+    expect(filter).toMatch(/^format=yuva420p,pad=.*,scale=3840:2160,zoompan=.*,setsar=1$/);
+    expect(filter).toContain('zoompan=z=1/(1.00000+-0.50000*clip((0.000+on/30)/4.000\\,0\\,1))');
+    expect(filter).toContain(':d=1:s=1920x1080:fps=30');
+  });
+
+  it('picks the move up where the input starts', () => {
+    expect(exportService['buildKenBurnsFilter'](kenBurns, 1.5, config)).toContain('clip((1.500+on/30)/4.000');
+  });
+
+  it('pans only within the part of the frame a narrower image covers', () => {
+    const portrait = exportService['buildKenBurnsFilter']({ ...kenBurns, sourceAspect: 9 / 16 }, 0, config);
+
+    // A 9:16 image padded out to 16:9 covers 0.31640625 of the frame's width
+    expect(portrait).toContain('x=iw*(0.00000+0.07910*');
+    expect(portrait).toContain('y=ih*(0.00000+0.25000*');
+  });
+});
+
+describe('ExportService.buildColorFilters', () => {
+  const neutral = { brightness: 0, contrast: 1, saturation: 1, gamma: 1, temperature: 6500 };
+
+  it('adds nothing for neutral settings', () => {
+    expect(exportService['buildColorFilters'](neutral)).toEqual([]);
+  });
+
+  it('applies eq, then the white balance, then the LUT', () => {
+    const lut = { file: '/luts/warm.cube', name: 'Warm', previewCurves: { r: [], g: [], b: [] } };
+
+    expect(exportService['buildColorFilters']({ ...neutral, contrast: 1.2, temperature: 5000, lut })).toEqual([
+      'eq=brightness=0.000:contrast=1.200:saturation=1.000:gamma=1.000',
+      'colortemperature=temperature=5000',
+      'lut3d=file=/luts/warm.cube'
+    ]);
+  });
+});
+
+describe('ExportService.matchesExportFormat', () => {
+  const source = {
+    codecName: 'h264',
+    profile: 'High',
+    level: 40,
+    refs: 4,
+    hasBFrames: true,
+    timescale: 15360,
+    width: 1920,
+    height: 1080,
+    fps: 30,
+    pixelFormat: 'yuv420p',
+    keyframes: [0, 2, 4]
+  };
+
+  it('copies sources already in the export format', () => {
+    expect(exportService['matchesExportFormat'](source, config)).toBe(true);
+    expect(exportService['matchesExportFormat']({ ...source, sampleAspectRatio: '1:1', fieldOrder: 'progressive' }, config)).toBe(true);
+  });
+
+  it.each([
+    ['codec', { codecName: 'hevc' }],
+    ['profile', { profile: 'High 10' }],
+    ['size', { width: 1280 }],
+    ['frame rate', { fps: 25 }],
+    ['pixel format', { pixelFormat: 'yuv422p' }],
+    ['sample aspect ratio', { sampleAspectRatio: '4:3' }],
+    ['field order', { fieldOrder: 'tt' }],
+    ['timescale', { timescale: 0 }]
+  ])('re-encodes sources with another %s', (_, overrides) => {
+    expect(exportService['matchesExportFormat']({ ...source, ...overrides }, config)).toBe(false);
+  });
+});
+
+describe('ExportService.getSmartEncodeArgs', () => {
+  const target = { codecName: 'h264', profile: 'High', level: 41, refs: 4, hasBFrames: true, timescale: 15360 };
+
+  it('matches the H.264 profile, level and references of the copied parts', () => {
+    expect(exportService['getSmartEncodeArgs'](target, config)).toEqual(['-profile:v', 'high', '-level:v', '4.1', '-refs', '4']);
+    expect(exportService['getSmartEncodeArgs']({ ...target, hasBFrames: false }, config)).toEqual(
+      ['-profile:v', 'high', '-level:v', '4.1', '-refs', '4', '-bf', '0']
+    );
+  });
+
+  it('passes the H.265 level and references through x265-params', () => {
+    const hevc = { ...target, codecName: 'hevc', profile: 'Main', level: 120, refs: 3, hasBFrames: false };
+
+    expect(exportService['getSmartEncodeArgs'](hevc, { ...config, codec: 'h265' })).toEqual(
+      ['-profile:v', 'main', '-x265-params', 'level-idc=4.0:ref=3:bframes=0']
+    );
+  });
+});
@@ -6,11 +6,27 @@
  * 
  * Features:
  * - Single clip export with trimming
- * - Multi-clip concatenation
- * - Picture-in-picture overlay composition
- * - Quality presets (low, medium, high, ultra)
- * - Real-time progress events
- * - Export cancellation support
+ * - Export of the whole timeline, an in/out range (partial clips trimmed at the edges) or only the selected clips
+ * - Multi-track compositing (per-segment overlay graph) and concatenation
+ * - Audio mix of all unmuted tracks with per-track and per-clip gain, including sound-only audio tracks
+ * - Fit (padded), fill (centre-cropped) or stretched framing per clip, defaulting to the project's
+ * - Per-clip crop windows for reframing to vertical and square outputs
+ * - Crossfade, dip-to-black and wipe transitions between touching clips (xfade and acrossfade over the clips' handles)
+ * - Webcam overlay burned in with the project's saved overlay geometry
+ * - Audio-only export of the timeline mix (WAV, MP3, AAC, FLAC)
+ * - Still frames at full source resolution, and numbered PNG/JPEG image sequences
+ * - Animated GIF (two-pass palettegen/paletteuse) and animated WebP output
+ * - Smart render: stream-copies keyframe-aligned video that already matches the output, re-encoding only around cuts
+ *   with the copied stream's profile, level, references and B-frames
+ * - Target file size: two-pass H.264/VP9 encode at the bitrate that fills the size
+ * - Titled timeline markers written as container chapters, plus an optional YouTube chapter list
+ * - Caption tracks burned in with a chosen style, written as an SRT/WebVTT sidecar, or muxed as a subtitle stream
+ * - Text clips drawn with drawtext in the app's bundled fonts, stacked with the other layers
+ * - Still images looped for their clip's length, with an optional Ken Burns pan and zoom (zoompan)
+ * - Per-clip color correction (eq, colortemperature) and .cube LUT grading (lut3d) on the source picture
+ * - CRF or bitrate rate control, defaulting to the export preset the config came from
+ * - Real-time progress events from FFmpeg's -progress output, per phase
+ * - Export jobs that own their FFmpeg processes and temp files, so cancel stops everything
  */
 
 import * as path from 'path';
@@ -18,21 +34,283 @@ import * as fs from 'fs';
 import { spawn, ChildProcess } from 'child_process';
 import { EventEmitter } from 'events';
 import { IExportService } from '../../shared/contracts/services';
-import { ExportConfig, ExportProgress, ExportQuality } from '../../shared/types';
+import { AudioExportFormat, CaptionCue, CaptionFormat, CaptionStyle, ClipColor, ClipCrop, ClipTransform, ClipTransition, ExportConfig, ExportPhase, ExportProgress, ExportRange, ExportSizeResult, ExportTimeline, KenBurnsEffect, ScalingMode, TextClipSettings, TextFont, TimelineMarker, TransitionType, WebcamExportOverlay } from '../../shared/types';
 import { ffmpegManager } from './FFmpegManager';
+import { exportPresetService } from './ExportPresetService';
+import { captionService } from './CaptionService';
+import {
+  BYTES_PER_MB,
+  DEFAULT_ANIMATION_SETTINGS,
+  DEFAULT_AUDIO_BITRATE,
+  MIN_TARGET_VIDEO_BITRATE,
+  TWO_PASS_CODECS,
+  getTargetVideoBitrate
+} from '../../shared/utils/exportUtils';
 
-interface ActiveExport {
+// Clip edges closer than this are treated as touching
+const EPSILON = 0.001;
+const MIN_SEGMENT_DURATION = 0.01;
+
+// Used when the export config doesn't carry the project's audio settings
+const DEFAULT_AUDIO_SAMPLE_RATE = 48000;
+
+// Used when neither the clip nor the project sets a scaling mode
+const DEFAULT_SCALING_MODE: ScalingMode = 'fit';
+
+// Used when neither the config nor its preset sets a video rate
+const DEFAULT_VIDEO_BITRATE = '8000k';
+
+// Encoder arguments for each audio-only export format; bitrate applies to the lossy ones
+const AUDIO_EXPORT_CODECS: Record<AudioExportFormat, { codec: string; lossy: boolean }> = {
+  wav: { codec: 'pcm_s16le', lossy: false },
+  mp3: { codec: 'libmp3lame', lossy: true },
+  aac: { codec: 'aac', lossy: true },
+  flac: { codec: 'flac', lossy: false }
+};
+
+// Smart render only copies spans long enough to be worth the extra segment files
+const MIN_SMART_COPY_DURATION = 1;
+
+// ffprobe codec_name a source needs for its video to be copied into each export codec
+const SMART_RENDER_CODEC_NAMES: Record<string, string> = {
+  h264: 'h264',
+  h265: 'hevc',
+  vp9: 'vp9'
+};
+
+// Encoder profile for each 8-bit 4:2:0 ffprobe profile name smart render can match
+const SMART_RENDER_PROFILES: Record<string, Record<string, string>> = {
+  h264: { 'Constrained Baseline': 'baseline', 'Baseline': 'baseline', 'Main': 'main', 'High': 'high' },
+  h265: { 'Main': 'main' },
+  vp9: { 'Profile 0': '0' }
+};
+
+// Smart render parts of H.264/H.265 are joined as MPEG-TS, which repeats the parameter sets (SPS/PPS)
+// in-band at every keyframe, so parts encoded here and parts copied from a source each decode with their own
+const SMART_RENDER_PART_EXTENSIONS: Record<string, string> = {
+  h264: '.ts',
+  h265: '.ts',
+  vp9: '.mp4'
+};
+
+// Sample entries that allow parameter sets to change in-band, for MP4/MOV outputs of joined parts
+const IN_BAND_PARAMETER_TAGS: Record<string, string> = {
+  h264: 'avc3',
+  h265: 'hev1'
+};
+
+// Subtitle stream each output container can carry, and the caption file it's muxed from
+const SUBTITLE_STREAM_CODECS: Record<string, { codec: string; format: CaptionFormat }> = {
+  '.mp4': { codec: 'mov_text', format: 'srt' },
+  '.mov': { codec: 'mov_text', format: 'srt' },
+  '.mkv': { codec: 'srt', format: 'srt' },
+  '.webm': { codec: 'webvtt', format: 'vtt' }
+};
+
+// xfade effect for each transition type; wipeleft brings the incoming picture in from the right
+const XFADE_TRANSITIONS: Record<TransitionType, string> = {
+  crossfade: 'fade',
+  dipToBlack: 'fadeblack',
+  wipe: 'wipeleft'
+};
+
+// Bundled font file for each text font (resources/fonts, shipped as an extra resource)
+const TEXT_FONT_FILES: Record<TextFont, string> = {
+  sans: 'DejaVuSans.ttf',
+  sansBold: 'DejaVuSans-Bold.ttf',
+  serif: 'DejaVuSerif.ttf',
+  mono: 'DejaVuSansMono.ttf'
+};
+
+// Box border around drawn text, as a fraction of the font size
+const TEXT_BOX_PADDING = 0.3;
+
+// White balance colortemperature leaves as it is
+const NEUTRAL_COLOR_TEMPERATURE = 6500;
+
+interface ExportClip {
+  sourceFile: string;
+  trimIn: number;
+  trimOut: number;
+  startTime: number;
+  endTime: number;
+  trackId: string;
+  trackNumber: number;          // Higher numbers are stacked on top
+  hasVideo: boolean;            // false for hidden tracks
+  hasAudio: boolean;            // false for muted tracks
+  gain: number;                 // Track gain x clip gain
+  transform: ClipTransform;
+  opacity: number;
+  scalingMode: ScalingMode;
+  padColor?: string;            // Fit bars; unset leaves them transparent over lower tracks
+  crop?: ClipCrop;              // Source region shown, applied before framing
+  overlayBox?: WebcamExportOverlay; // Drawn inside the webcam box instead of full frame
+  transitionIn?: ClipTransition; // From the clip ending where this one starts on the same track
+  transition?: ExportTransition; // Set on the blend layers made by applyTransitions
+  text?: ExportText;            // Drawn with drawtext instead of read from a source
+  isStill?: boolean;            // Image source, looped for as long as the clip lasts
+  kenBurns?: ExportKenBurns;    // Still images only: a moving window in place of the crop
+  color?: ClipColor;            // Only set when it changes the picture
+}
+
+// A still's source time is the time since the clip started, like a text clip's
+interface ExportKenBurns extends KenBurnsEffect {
+  duration: number;             // Whole clip length, which the move spans
+  sourceAspect: number;         // Width over height of the image
+}
+
+// A text clip's source time is the time since the clip started, so range cuts keep its fades
+interface ExportText {
+  settings: TextClipSettings;
+  duration: number;             // Whole clip length, for the fade out
+  textFile?: string;            // Content written out by prepareTextLayers
+}
+
+// Outgoing side of a transition layer; the layer's own source is the incoming side.
+// Either side may run past its source (trimIn below 0, trimOut past the end): missing
+// picture holds the nearest frame and missing sound is silent.
+interface ExportTransition {
+  type: TransitionType;
+  from: ExportClip;
+}
+
+type ClipFraming = Pick<ExportClip, 'scalingMode' | 'padColor' | 'crop'>;
+
+// Chapter in the output, in seconds from its start
+interface ExportChapter {
+  start: number;
+  end: number;
+  title: string;
+}
+
+interface TimelineEvent {
+  type: 'clip' | 'gap';
+  startTime: number;
+  endTime: number;
+  duration: number;
+  layers: Array<ExportClip & {
+    sourceOffset: number;       // Source time at the start of this event
+  }>;                           // Bottom to top
+}
+
+interface SourceVideoInfo extends SmartStreamParams {
+  width: number;
+  height: number;
+  fps: number;
+  pixelFormat: string;
+  sampleAspectRatio?: string;   // '1:1', or unset when the file doesn't say
+  fieldOrder?: string;          // 'progressive', or unset when the file doesn't say
+  keyframes: number[];          // Seconds from the start of the file, ascending
+}
+
+// Stream settings every part of a smart render must share with the spans it copies
+interface SmartStreamParams {
+  codecName: string;
+  profile: string;              // ffprobe profile name, e.g. 'High'
+  level: number;                // ffprobe level: 10x for H.264 (40 = 4.0), 30x for H.265
+  refs: number;                 // Reference frames
+  hasBFrames: boolean;
+  timescale: number;            // Track timescale (time base denominator)
+}
+
+interface FFmpegProgressStats {
+  outTime: number;              // Seconds of output written so far
+  frame: number;
+  fps: number;                  // Encoding FPS
+  speed: number;                // Multiple of real-time
+}
+
+// Share of the overall progress bar each phase of a timeline export takes
+const TIMELINE_PHASE_WEIGHTS: Partial<Record<ExportPhase, number>> = {
+  segments: 0.75,
+  audio: 0.05,
+  concat: 0.2
+};
+
+// Target-size exports analyse the joined segments once before the final encode
+const TWO_PASS_PHASE_WEIGHTS: Partial<Record<ExportPhase, number>> = {
+  segments: 0.6,
+  audio: 0.05,
+  analysis: 0.15,
+  concat: 0.2
+};
+
+// Image sequences skip audio and write frames straight from the joined segments
+const IMAGE_SEQUENCE_PHASE_WEIGHTS: Partial<Record<ExportPhase, number>> = {
+  segments: 0.7,
+  frames: 0.3
+};
+
+// Animations skip audio; the palette pass reads the frames once more before the final encode
+const ANIMATION_PHASE_WEIGHTS: Partial<Record<ExportPhase, number>> = {
+  segments: 0.7,
+  palette: 0.1,
+  animation: 0.2
+};
+
+/**
+ * Turns per-process FFmpeg progress into overall export progress across weighted phases.
+ * Every phase renders the same timeline duration, so progress within a phase is output time / duration.
+ */
+class ExportProgressTracker {
+  private readonly startTime = Date.now();
+  private readonly totalWeight: number;
+  private completedWeight = 0;
+
+  constructor(
+    private readonly duration: number,
+    private readonly fps: number,
+    private readonly weights: Partial<Record<ExportPhase, number>>,
+    private readonly onProgress: (progress: ExportProgress) => void
+  ) {
+    this.totalWeight = Object.values(weights).reduce((sum, weight) => sum + (weight || 0), 0) || 1;
+  }
+
+  update(phase: ExportPhase, phaseSeconds: number, stats?: FFmpegProgressStats): void {
+    const phaseFraction = this.duration > 0 ? Math.max(0, Math.min(1, phaseSeconds / this.duration)) : 0;
+    const overall = (this.completedWeight + (this.weights[phase] || 0) * phaseFraction) / this.totalWeight;
+    const elapsed = (Date.now() - this.startTime) / 1000;
+
+    this.onProgress({
+      percent: Math.min(overall * 100, 100),
+      currentFrame: Math.round(phaseFraction * this.duration * this.fps),
+      totalFrames: Math.round(this.duration * this.fps),
+      fps: stats?.fps || 0,
+      eta: overall > 0.01 ? Math.round(elapsed * (1 - overall) / overall) : 0,
+      phase,
+      speed: stats?.speed || 0
+    });
+  }
+
+  completePhase(phase: ExportPhase): void {
+    this.completedWeight += this.weights[phase] || 0;
+  }
+}
+
+/**
+ * One running export. Owns every FFmpeg process and temp directory it creates,
+ * so cancelling the job can stop and clean up all of them.
+ */
+interface ExportJob {
   id: string;
-  process: ChildProcess;
   config: ExportConfig;
   startTime: number;
+  processes: Set<ChildProcess>;
+  tempDirs: Set<string>;
   cancelled: boolean;
+  finished: Promise<void>;
+  markFinished: () => void;
 }
 
+const CANCELLED_MESSAGE = 'Export cancelled';
+
 export class ExportService implements IExportService {
   private static instance: ExportService;
-  private activeExports = new Map<string, ActiveExport>();
+  private jobs = new Map<string, ExportJob>();
   private eventEmitter = new EventEmitter();
+  private audioStreamCache = new Map<string, boolean>();
+  private videoSourceCache = new Map<string, SourceVideoInfo | null>();
+  private lastProgress = new Map<string, ExportProgress>();
 
   private constructor() {}
 
@@ -45,11 +323,13 @@ export class ExportService implements IExportService {
 
   /**
    * Start export process
-   * Returns export ID for tracking
+   * Returns export ID for tracking; the export itself runs in the background and reports
+   * through 'exportProgress' / 'exportComplete' events
    */
   async startExport(
     config: ExportConfig,
-    timeline: { tracks: any[] }
+    timeline: ExportTimeline,
+    range?: ExportRange
   ): Promise<string> {
     const exportId = `export-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     
@@ -57,130 +337,317 @@ export class ExportService implements IExportService {
       outputPath: config.outputPath,
       quality: config.quality,
       resolution: config.resolution,
-      codec: config.codec
+      codec: config.codec,
+      range
     });
 
-    try {
-      // Ensure output directory exists
-      const outputDir = path.dirname(config.outputPath);
-      if (!fs.existsSync(outputDir)) {
-        fs.mkdirSync(outputDir, { recursive: true });
+    // Determine export strategy based on timeline complexity
+    let clips = this.extractClipsFromTimeline(timeline, config, range?.clipIds);
+    if (clips.length === 0) {
+      throw new Error('No clips found in timeline');
+    }
+    
+    if (range) {
+      if (!(range.end - range.start >= MIN_SEGMENT_DURATION) || range.start < 0) {
+        throw new Error(`Invalid export range: ${range.start}s to ${range.end}s`);
       }
-
-      // Determine export strategy based on timeline complexity
-      const clips = this.extractClipsFromTimeline(timeline);
-      
-      if (clips.length === 1) {
-        // Single clip - use fast path
-        await this.exportSingleClip(clips[0], config, (progress) => {
-          this.emitProgress(exportId, progress);
-        });
-      } else if (clips.length > 1) {
-        // Multi-clip - use concatenation
-        await this.exportTimeline(clips, config, (progress) => {
-          this.emitProgress(exportId, progress);
-        });
-      } else {
-        throw new Error('No clips found in timeline');
+      
+      clips = this.clipToRange(clips, range);
+      if (clips.length === 0) {
+        throw new Error('No clips found in the export range');
+      }
+    }
+    
+    clips = this.applyTransitions(clips);
+    
+    // lut3d reads its file when the graph starts, so catch a moved LUT before any work
+    if (config.format !== 'audio') {
+      const missingLut = clips.find(clip => clip.hasVideo && clip.color?.lut && !fs.existsSync(clip.color.lut.file));
+      if (missingLut) {
+        throw new Error(`LUT file not found: ${missingLut.color!.lut!.file}`);
+      }
+      
+      // Text layers are centred line by line with drawtext's text_align, which FFmpeg 6.1 added
+      if (clips.some(clip => clip.text) && !ffmpegManager.isVersionAtLeast(6, 1)) {
+        throw new Error(`Text layers need FFmpeg 6.1 or newer; this FFmpeg is ${ffmpegManager.getVersion()}`);
+      }
+    }
+    
+    if (config.rateControl === 'targetSize') {
+      if ((config.format || 'video') !== 'video' || !TWO_PASS_CODECS.includes(config.codec)) {
+        throw new Error('Target size exports need H.264 or VP9 video');
+      }
+      if (!((config.targetSizeMB || 0) > 0)) {
+        throw new Error(`Invalid target size: ${config.targetSizeMB} MB`);
+      }
+      
+      // Copied video can't be held to a bitrate
+      config = { ...config, smartRender: false };
+    }
+    
+    // Only video containers carry chapters and captions
+    const isVideo = (config.format || 'video') === 'video';
+    const chapters = isVideo ? this.getChapters(timeline.markers, clips, range) : [];
+    const captions = isVideo && config.captions ? this.getCaptionCues(timeline.tracks, clips, range) : [];
+    
+    if (captions.length > 0 && config.captions?.mode === 'embed') {
+      const extension = path.extname(config.outputPath).toLowerCase();
+      if (!SUBTITLE_STREAM_CODECS[extension]) {
+        throw new Error(`${extension || 'This'} files can't carry a subtitle stream`);
       }
+    }
+    if (captions.length > 0 && config.captions?.mode === 'burnIn') {
+      // Copied video can't have captions drawn on it
+      config = { ...config, smartRender: false };
+    }
+
+    // Registered before the ID is returned, so the export can be cancelled from the start
+    this.runExport(this.createJob(exportId, config), clips, chapters, captions);
+    return exportId;
+  }
+
+  /**
+   * Run an export to completion and emit its completion event
+   */
+  private async runExport(
+    job: ExportJob,
+    clips: ExportClip[],
+    chapters: ExportChapter[],
+    captions: CaptionCue[]
+  ): Promise<void> {
+    const { id: exportId, config } = job;
+    
+    // Let the caller subscribe to events for this ID before anything is emitted
+    await new Promise(resolve => setImmediate(resolve));
+
+    try {
+      const outputPath = await this.runJob(job, async (job) => {
+        // Ensure output directory exists
+        const outputDir = path.dirname(config.outputPath);
+        if (!fs.existsSync(outputDir)) {
+          fs.mkdirSync(outputDir, { recursive: true });
+        }
+
+        const onProgress = (progress: ExportProgress) => this.emitProgress(exportId, progress);
+        if (config.format === 'audio') {
+          return this.renderAudio(job, clips, onProgress);
+        }
+        clips = this.prepareTextLayers(job, clips);
+        // Smart render, target size and burned-in captions always go through segments
+        const isVideo = (config.format || 'video') === 'video';
+        const burnInFilter = captions.length > 0 && config.captions?.mode === 'burnIn'
+          ? this.prepareBurnIn(job, captions, config.captions.style)
+          : undefined;
+        const usesSegments = config.smartRender || config.rateControl === 'targetSize' || !!burnInFilter;
+        const output = clips.length === 1 && this.isPlainFullFrameClip(clips[0]) && isVideo && !usesSegments
+          // Single clip - use fast path
+          ? await this.renderSingleClip(job, clips[0], onProgress)
+          // Multi-clip (or hidden/muted single clip) - use concatenation
+          : await this.renderTimeline(job, clips, onProgress, burnInFilter);
+        
+        if (chapters.length > 0) {
+          await this.writeChapters(job, output, chapters);
+        }
+        if (captions.length > 0 && !burnInFilter) {
+          await this.writeCaptions(job, output, captions);
+        }
+        return output;
+      });
+
+      const sizeResult = config.rateControl === 'targetSize' ? this.getSizeResult(config) : undefined;
 
       // Emit completion event
       this.eventEmitter.emit('exportComplete', {
         exportId,
         success: true,
-        outputPath: config.outputPath
+        outputPath,
+        sizeResult
       });
 
       console.log(`✅ Export ${exportId} completed successfully`);
-      return exportId;
 
     } catch (error) {
-      console.error(`❌ Export ${exportId} failed:`, error);
+      const cancelled = error instanceof Error && error.message === CANCELLED_MESSAGE;
+      if (cancelled) {
+        console.log(`🛑 Export ${exportId} cancelled`);
+      } else {
+        console.error(`❌ Export ${exportId} failed:`, error);
+      }
       
       // Emit error event
       this.eventEmitter.emit('exportComplete', {
         exportId,
         success: false,
+        cancelled,
         error: error instanceof Error ? error.message : String(error)
       });
-      
-      throw error;
+    } finally {
+      this.lastProgress.delete(exportId);
+    }
+  }
+
+  /**
+   * Create an export job and register it, so cancelExport can find it from then on
+   */
+  private createJob(id: string, config: ExportConfig): ExportJob {
+    let markFinished: () => void = () => {};
+    const finished = new Promise<void>(resolve => { markFinished = resolve; });
+    const job: ExportJob = {
+      id,
+      config,
+      startTime: Date.now(),
+      processes: new Set(),
+      tempDirs: new Set(),
+      cancelled: false,
+      finished,
+      markFinished: () => markFinished()
+    };
+    this.jobs.set(id, job);
+    return job;
+  }
+
+  /**
+   * Run work as a registered export job. When the work ends - finished, failed or cancelled -
+   * the job's temp directories are removed, and a cancelled job's partial output is deleted.
+   */
+  private async runJob<T>(job: ExportJob, work: (job: ExportJob) => Promise<T>): Promise<T> {
+    const { id, config } = job;
+
+    try {
+      // A job cancelled before its work started doesn't start any
+      if (job.cancelled) {
+        throw new Error(CANCELLED_MESSAGE);
+      }
+      const result = await work(job);
+      if (job.cancelled) {
+        throw new Error(CANCELLED_MESSAGE);
+      }
+      return result;
+    } catch (error) {
+      throw job.cancelled ? new Error(CANCELLED_MESSAGE) : error;
+    } finally {
+      for (const tempDir of job.tempDirs) {
+        try {
+          fs.rmSync(tempDir, { recursive: true, force: true });
+          console.log(`🧹 Cleaned up temp directory: ${tempDir}`);
+        } catch (cleanupError) {
+          console.warn(`⚠️  Failed to cleanup temp directory: ${cleanupError}`);
+        }
+      }
+
+      if (job.cancelled) {
+        try {
+          fs.rmSync(config.outputPath, { force: true });
+        } catch (cleanupError) {
+          console.warn(`⚠️  Failed to remove partial output: ${cleanupError}`);
+        }
+      }
+
+      this.jobs.delete(id);
+      job.markFinished();
     }
   }
 
   /**
    * Cancel ongoing export
+   * Stops every process the export started and resolves once its files are cleaned up
    */
   async cancelExport(exportId: string): Promise<void> {
-    const activeExport = this.activeExports.get(exportId);
+    const job = this.jobs.get(exportId);
     
-    if (!activeExport) {
+    if (!job) {
       console.warn(`⚠️ Export ${exportId} not found or already completed`);
       return;
     }
 
-    console.log(`🛑 Cancelling export ${exportId}...`);
+    console.log(`🛑 Cancelling export ${exportId} (${job.processes.size} running processes)...`);
     
-    try {
-      // Kill the FFmpeg process
-      if (activeExport.process && !activeExport.process.killed) {
-        activeExport.process.kill('SIGTERM');
-        
-        // Force kill after 5 seconds if still running
-        setTimeout(() => {
-          if (!activeExport.process.killed) {
-            activeExport.process.kill('SIGKILL');
-          }
-        }, 5000);
-      }
-
-      // Mark as cancelled
-      activeExport.cancelled = true;
+    // Mark first so no further steps of the export get started
+    job.cancelled = true;
+    
+    for (const process of job.processes) {
+      process.kill('SIGTERM');
       
-      // Clean up output file if it exists
-      if (fs.existsSync(activeExport.config.outputPath)) {
-        fs.unlinkSync(activeExport.config.outputPath);
-      }
-
-      // Remove from active exports
-      this.activeExports.delete(exportId);
-
-      console.log(`✅ Export ${exportId} cancelled successfully`);
-
-    } catch (error) {
-      console.error(`❌ Failed to cancel export ${exportId}:`, error);
-      throw error;
+      // Force kill after 5 seconds if still running
+      setTimeout(() => {
+        if (process.exitCode === null && process.signalCode === null) {
+          process.kill('SIGKILL');
+        }
+      }, 5000);
     }
+
+    await job.finished;
+    console.log(`✅ Export ${exportId} cancelled successfully`);
   }
 
   /**
    * Get export progress
    */
   async getExportProgress(exportId: string): Promise<ExportProgress> {
-    const activeExport = this.activeExports.get(exportId);
+    const progress = this.lastProgress.get(exportId);
     
-    if (!activeExport) {
+    if (!progress) {
       throw new Error(`Export ${exportId} not found`);
     }
 
-    // Return mock progress for now - real progress comes from FFmpeg stderr parsing
-    return {
-      percent: 0,
-      currentFrame: 0,
-      totalFrames: 0,
+    return progress;
+  }
+
+  /**
+   * Export one frame of a source file at full source resolution
+   */
+  async exportFrame(sourceFile: string, sourceTime: number, outputPath: string): Promise<string> {
+    if (!ffmpegManager.isReady()) {
+      throw new Error('FFmpeg not ready');
+    }
+    
+    const imageFormat = /\.jpe?g$/i.test(outputPath) ? 'jpeg' : 'png';
+    
+    // The frame keeps the source's own size, so only the output path matters to the job
+    const config: ExportConfig = {
+      outputPath,
+      quality: 'high',
+      resolution: { width: 0, height: 0 },
       fps: 0,
-      eta: 0
+      codec: 'h264',
+      format: 'images',
+      imageFormat
     };
+    
+    const args = [
+      // Input seeking decodes from the previous keyframe, so the frame is exact
+      '-ss', Math.max(0, sourceTime).toFixed(3),
+      '-i', sourceFile,
+      '-frames:v', '1',
+      ...(imageFormat === 'jpeg' ? ['-q:v', '2'] : []),
+      '-update', '1',
+      '-y',
+      outputPath
+    ];
+    
+    await this.runJob(this.createJob(`frame-${Date.now()}`, config), (job) => this.runFFmpeg(job, 'Frame export', args));
+    
+    console.log(`✅ Frame exported: ${outputPath}`);
+    return outputPath;
   }
 
   /**
    * Export single clip (fast path)
    */
   async exportSingleClip(
-    clip: { sourceFile: string; trimIn: number; trimOut: number },
+    clip: { sourceFile: string; trimIn: number; trimOut: number; gain?: number },
     config: ExportConfig,
     onProgress: (progress: ExportProgress) => void
   ): Promise<string> {
+    return this.runJob(this.createJob(`single-${Date.now()}`, config), (job) => this.renderSingleClip(job, clip, onProgress));
+  }
+
+  private async renderSingleClip(
+    job: ExportJob,
+    clip: { sourceFile: string; trimIn: number; trimOut: number; gain?: number } & Partial<ClipFraming>,
+    onProgress: (progress: ExportProgress) => void
+  ): Promise<string> {
+    const { config } = job;
     console.log(`🎬 Exporting single clip: ${clip.sourceFile}`);
     console.log(`✂️ Trim values:`, {
       trimIn: clip.trimIn,
@@ -193,81 +660,46 @@ export class ExportService implements IExportService {
     }
 
     const ffmpegPath = ffmpegManager.getFFmpegPath();
-    const exportId = `single-${Date.now()}`;
+    const tracker = new ExportProgressTracker(clip.trimOut - clip.trimIn, config.fps, { encoding: 1 }, onProgress);
     
     // Build FFmpeg command for single clip export
     const args = this.buildSingleClipArgs(clip, config);
     
     console.log(`🔧 FFmpeg command: ${ffmpegPath} ${args.join(' ')}`);
     
-    return new Promise((resolve, reject) => {
-      const process = spawn(ffmpegPath, args);
-      
-      // Track this export
-      this.activeExports.set(exportId, {
-        id: exportId,
-        process,
-        config,
-        startTime: Date.now(),
-        cancelled: false
-      });
-
-      let stderr = '';
-      
-      process.stderr.on('data', (data) => {
-        stderr += data.toString();
-        
-        // Parse progress from FFmpeg stderr
-        const progress = this.parseFFmpegProgress(stderr, config);
-        if (progress) {
-          onProgress(progress);
-        }
-      });
-
-      process.on('close', (code) => {
-        this.activeExports.delete(exportId);
-        
-        if (code === 0) {
-          console.log(`✅ Single clip export completed: ${config.outputPath}`);
-          resolve(config.outputPath);
-        } else {
-          const error = new Error(`FFmpeg process exited with code ${code}`);
-          console.error(`❌ Single clip export failed:`, error);
-          reject(error);
-        }
-      });
-
-      process.on('error', (error) => {
-        this.activeExports.delete(exportId);
-        console.error(`❌ FFmpeg process error:`, error);
-        reject(error);
-      });
+    await this.runFFmpeg(job, 'Single clip export', args, (stats) => {
+      tracker.update('encoding', stats.outTime, stats);
     });
+    
+    tracker.update('encoding', clip.trimOut - clip.trimIn);
+    console.log(`✅ Single clip export completed: ${config.outputPath}`);
+    return config.outputPath;
   }
 
   /**
    * Export timeline (complex path)
    */
   async exportTimeline(
-    clips: Array<{ 
-      sourceFile: string; 
-      trimIn: number; 
-      trimOut: number;
-      startTime: number;
-      endTime: number;
-      trackId: string;
-      trackNumber: number;
-    }>,
+    clips: ExportClip[],
     config: ExportConfig,
     onProgress: (progress: ExportProgress) => void
   ): Promise<string> {
+    return this.runJob(this.createJob(`timeline-${Date.now()}`, config), (job) => this.renderTimeline(job, clips, onProgress));
+  }
+
+  private async renderTimeline(
+    job: ExportJob,
+    clips: ExportClip[],
+    onProgress: (progress: ExportProgress) => void,
+    videoFilter?: string
+  ): Promise<string> {
+    const { config } = job;
     console.log(`🎬 Exporting timeline with ${clips.length} clips`);
     
     if (!ffmpegManager.isReady()) {
       throw new Error('FFmpeg not ready');
     }
 
-    const ffmpegPath = ffmpegManager.getFFmpegPath();
     const os = require('os');
     
     // Step 1: Build timeline events (resolve overlaps and gaps)
@@ -277,334 +709,1440 @@ export class ExportService implements IExportService {
       throw new Error('No timeline events to export');
     }
     
-    // Step 2: Create temp directory for segments
-    const tempDir = path.join(os.tmpdir(), `clipforge-export-${Date.now()}`);
-    if (!fs.existsSync(tempDir)) {
-      fs.mkdirSync(tempDir, { recursive: true });
+    const totalDuration = events[events.length - 1].endTime;
+    const isAnimation = config.format === 'gif' || config.format === 'webp';
+    const isTargetSize = config.rateControl === 'targetSize';
+    const weights = isAnimation
+      ? ANIMATION_PHASE_WEIGHTS
+      : config.format === 'images'
+        ? IMAGE_SEQUENCE_PHASE_WEIGHTS
+        : isTargetSize ? TWO_PASS_PHASE_WEIGHTS : TIMELINE_PHASE_WEIGHTS;
+    
+    // Fail before rendering anything when the target can't hold this much video
+    const targetBitrate = isTargetSize ? getTargetVideoBitrate(config.targetSizeMB || 0, totalDuration, this.getAudioSettings(config).bitrate) : 0;
+    if (isTargetSize && targetBitrate < MIN_TARGET_VIDEO_BITRATE) {
+      throw new Error(`Target size of ${config.targetSizeMB} MB is too small for ${totalDuration.toFixed(1)}s of video`);
     }
+    
+    const tracker = new ExportProgressTracker(totalDuration, config.fps, weights, onProgress);
+    
+    // Smart render copies only when a source matches the output; every other part is encoded to match it
+    const smartTarget = config.smartRender && (config.format || 'video') === 'video'
+      ? await this.planSmartRender(events, config)
+      : null;
+    const streamArgs = smartTarget ? this.getSmartEncodeArgs(smartTarget, config) : [];
+    const partExtension = smartTarget ? SMART_RENDER_PART_EXTENSIONS[config.codec] : '.mp4';
+    
+    // Step 2: Create temp directory for segments (removed by the job when it ends)
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'clipforge-export-'));
+    job.tempDirs.add(tempDir);
     console.log(`📁 Temp directory: ${tempDir}`);
     
-    try {
-      // Step 3: Export each segment (clips and gaps)
-      const segmentFiles: string[] = [];
-      let totalProgress = 0;
-      const progressPerSegment = 80 / events.length; // Reserve 20% for final concatenation
-      
-      for (let i = 0; i < events.length; i++) {
-        const event = events[i];
-        const segmentFile = path.join(tempDir, `segment-${i.toString().padStart(3, '0')}.mp4`);
+    // Step 3: Export each segment (clips and gaps)
+    const segmentFiles: string[] = [];
+    
+    for (let i = 0; i < events.length; i++) {
+      const event = events[i];
+      const segmentFile = path.join(tempDir, `segment-${i.toString().padStart(3, '0')}${partExtension}`);
+      
+      // Segment output time counts from the segment's own start
+      const onSegmentStats = (stats: FFmpegProgressStats) => {
+        tracker.update('segments', event.startTime + Math.min(stats.outTime, event.duration), stats);
+      };
+      
+      if (event.type === 'clip') {
+        const smartFiles = smartTarget
+          ? await this.renderSmartSegment(job, event, tempDir, i, smartTarget, (seconds, stats) => {
+              tracker.update('segments', event.startTime + Math.min(seconds, event.duration), stats);
+            })
+          : null;
         
-        if (event.type === 'clip') {
+        if (smartFiles) {
+          segmentFiles.push(...smartFiles);
+        } else {
           // Export clip segment with trim
           console.log(`🎬 Exporting segment ${i + 1}/${events.length}: Clip (${event.duration.toFixed(2)}s)`);
-          await this.exportClipSegment(event, segmentFile, config);
-        } else if (event.type === 'gap') {
-          // Create black frame for gap
-          console.log(`⬛ Creating segment ${i + 1}/${events.length}: Gap (${event.duration.toFixed(2)}s)`);
-          await this.createBlackFrameSegment(event.duration, segmentFile, config);
+          await this.exportClipSegment(job, event, segmentFile, onSegmentStats, streamArgs);
+          segmentFiles.push(segmentFile);
         }
-        
+      } else if (event.type === 'gap') {
+        // Create black frame for gap
+        console.log(`⬛ Creating segment ${i + 1}/${events.length}: Gap (${event.duration.toFixed(2)}s)`);
+        await this.createBlackFrameSegment(job, event.duration, segmentFile, onSegmentStats, streamArgs);
         segmentFiles.push(segmentFile);
-        
-        // Update progress
-        totalProgress += progressPerSegment;
-        onProgress({
-          percent: Math.min(totalProgress, 80),
-          currentFrame: Math.floor(event.endTime * config.fps),
-          totalFrames: Math.floor(events[events.length - 1].endTime * config.fps),
-          fps: config.fps,
-          eta: Math.floor((100 - totalProgress) / progressPerSegment * 2) // Rough estimate
-        });
       }
       
-      // Step 4: Create concat file
-      const concatFile = path.join(tempDir, 'concat.txt');
-      const concatContent = segmentFiles.map(f => `file '${f}'`).join('\n');
-      fs.writeFileSync(concatFile, concatContent);
-      console.log(`📝 Concat file created with ${segmentFiles.length} segments`);
-      
-      // Step 5: Concatenate all segments
-      console.log(`🔗 Concatenating ${segmentFiles.length} segments...`);
-      await this.concatenateSegments(concatFile, config.outputPath, config);
-      
-      // Final progress
-      const finalEvent = events[events.length - 1];
-      onProgress({
-        percent: 100,
-        currentFrame: Math.floor(finalEvent.endTime * config.fps),
-        totalFrames: Math.floor(finalEvent.endTime * config.fps),
-        fps: config.fps,
-        eta: 0
-      });
+      tracker.update('segments', event.endTime);
+    }
+    tracker.completePhase('segments');
+    
+    // Step 4: Create concat file
+    const concatFile = path.join(tempDir, 'concat.txt');
+    const concatContent = segmentFiles.map(f => `file '${f}'`).join('\n');
+    fs.writeFileSync(concatFile, concatContent);
+    console.log(`📝 Concat file created with ${segmentFiles.length} segments`);
+    
+    if (config.format === 'images') {
+      // Step 5: Write every frame of the joined segments as an image
+      const firstFrame = await this.writeImageSequence(job, concatFile, tracker);
+      tracker.update('frames', totalDuration);
       
-      console.log(`✅ Timeline export completed: ${config.outputPath}`);
-      return config.outputPath;
+      console.log(`✅ Image sequence export completed: ${firstFrame}`);
+      return firstFrame;
+    }
+    
+    if (isAnimation) {
+      // Step 5: Encode the joined segments straight into the animation, no audio
+      await this.encodeAnimation(job, concatFile, tempDir, tracker);
+      tracker.update('animation', totalDuration);
       
-    } finally {
-      // Step 6: Cleanup temp files
-      try {
-        if (fs.existsSync(tempDir)) {
-          fs.rmSync(tempDir, { recursive: true, force: true });
-          console.log(`🧹 Cleaned up temp directory: ${tempDir}`);
-        }
-      } catch (cleanupError) {
-        console.warn(`⚠️  Failed to cleanup temp directory: ${cleanupError}`);
-      }
+      console.log(`✅ Animation export completed: ${config.outputPath}`);
+      return config.outputPath;
+    }
+    
+    // Step 5: Mix audio from all unmuted tracks
+    const audioFile = path.join(tempDir, 'audio.wav');
+    await this.mixTimelineAudio(job, clips, totalDuration, audioFile, (stats) => {
+      tracker.update('audio', stats.outTime, stats);
+    });
+    tracker.completePhase('audio');
+    
+    // Step 6: Concatenate all segments with the mixed audio
+    console.log(`🔗 Concatenating ${segmentFiles.length} segments...`);
+    if (isTargetSize) {
+      await this.encodeTwoPass(job, concatFile, audioFile, tempDir, targetBitrate, tracker, videoFilter);
+    } else {
+      await this.concatenateSegments(job, concatFile, audioFile, (stats) => {
+        tracker.update('concat', stats.outTime, stats);
+      }, videoFilter, smartTarget);
+    }
+    
+    // Final progress
+    tracker.update('concat', totalDuration);
+    
+    console.log(`✅ Timeline export completed: ${config.outputPath}`);
+    return config.outputPath;
+  }
+
+  /**
+   * Audio-only export: the timeline mix encoded straight to the output, no video stream.
+   * Uses the same timeline length as a video export, so muted tracks and gaps come out as silence.
+   */
+  private async renderAudio(
+    job: ExportJob,
+    clips: ExportClip[],
+    onProgress: (progress: ExportProgress) => void
+  ): Promise<string> {
+    const { config } = job;
+    const audioFormat = config.audioFormat || 'wav';
+    console.log(`🔊 Exporting timeline audio as ${audioFormat}`);
+    
+    if (!ffmpegManager.isReady()) {
+      throw new Error('FFmpeg not ready');
+    }
+    
+    const events = this.buildTimelineEvents(clips);
+    if (events.length === 0) {
+      throw new Error('No timeline events to export');
     }
+    
+    const totalDuration = events[events.length - 1].endTime;
+    const tracker = new ExportProgressTracker(totalDuration, config.fps, { audio: 1 }, onProgress);
+    const { codec, lossy } = AUDIO_EXPORT_CODECS[audioFormat];
+    const encodeArgs = ['-c:a', codec, ...(lossy ? ['-b:a', this.getAudioSettings(config).bitrate] : [])];
+    
+    await this.mixTimelineAudio(job, clips, totalDuration, config.outputPath, (stats) => {
+      tracker.update('audio', stats.outTime, stats);
+    }, encodeArgs);
+    
+    tracker.update('audio', totalDuration);
+    console.log(`✅ Audio export completed: ${config.outputPath}`);
+    return config.outputPath;
   }
 
   /**
-   * Export a single clip segment (part of timeline export)
+   * Export a timeline segment (part of timeline export)
+   * Composites every visible layer over black in track order. Video only - audio is mixed separately.
    */
   private async exportClipSegment(
-    event: { 
-      sourceFile?: string; 
-      trimIn?: number; 
-      trimOut?: number; 
-      duration: number 
-    },
+    job: ExportJob,
+    event: TimelineEvent,
     outputPath: string,
-    config: ExportConfig
+    onStats?: (stats: FFmpegProgressStats) => void,
+    streamArgs: string[] = []
   ): Promise<void> {
-    const ffmpegPath = ffmpegManager.getFFmpegPath();
-    const preset = this.getQualityPreset(config.quality);
+    const { config } = job;
+    const { width, height } = config.resolution;
+    const duration = event.duration.toFixed(3);
+    
+    // One input per visible layer, seeked to where this segment starts in the source.
+    // Transition layers read both sides from the start of the blend instead, see buildTransitionFilter.
+    const inputArgs: string[] = [];
+    let inputCount = 0;
+    const addInput = (clip: ExportClip, start: number, length: string): number => {
+      inputArgs.push(...this.getInputArgs(clip, start, length, config));
+      return inputCount++;
+    };
     
-    const trimDuration = (event.trimOut || 0) - (event.trimIn || 0);
+    // Video: black base with each visible layer overlaid bottom to top
+    const filters = [`color=c=black:s=${width}x${height}:r=${config.fps}:d=${duration}[base]`];
+    let videoLabel = 'base';
+    event.layers.forEach((layer, index) => {
+      // Hidden tracks and audio files have no picture to read
+      if (!layer.hasVideo) return;
+      
+      if (layer.text) {
+        // Drawn straight onto the layers below, so it needs no input
+        if (!layer.text.textFile) return;
+        
+        filters.push(`[${videoLabel}]${this.buildTextFilter(layer, layer.text, config)}[comp${index}]`);
+        videoLabel = `comp${index}`;
+        return;
+      }
+      
+      if (layer.transition) {
+        const blend = layer.endTime - layer.startTime;
+        const lead = Math.max(0, -layer.trimIn);
+        const fromInput = addInput(layer.transition.from, layer.transition.from.trimIn, blend.toFixed(3));
+        const toInput = addInput(layer, layer.trimIn, (blend - lead).toFixed(3));
+        
+        filters.push(...this.buildTransitionFilter(layer, fromInput, toInput, layer.sourceOffset - layer.trimIn, event.duration, config, `layer${index}`));
+      } else {
+        const input = addInput(layer, layer.sourceOffset, duration);
+        
+        filters.push(`[${input}:v]${this.buildLayerFilter(layer, config)}[layer${index}]`);
+      }
+      filters.push(`[${videoLabel}][layer${index}]overlay=${this.buildOverlayPosition(layer, config)}:eof_action=pass[comp${index}]`);
+      videoLabel = `comp${index}`;
+    });
+    filters.push(`[${videoLabel}]format=yuv420p[vout]`);
     
     const args = [
-      '-i', event.sourceFile!,
-      '-ss', (event.trimIn || 0).toString(),
-      '-t', trimDuration.toString(),
+      ...inputArgs,
+      '-filter_complex', filters.join(';'),
+      '-map', '[vout]',
+      '-an',
+      '-t', duration,
       '-c:v', this.getCodecName(config.codec),
-      '-b:v', config.bitrate || preset.bitrate,
-      '-s', `${config.resolution.width}x${config.resolution.height}`,
+      ...this.getVideoRateArgs(config),
+      ...streamArgs,
       '-r', config.fps.toString(),
-      '-c:a', 'aac',
-      '-b:a', '128k',
       '-y',
       outputPath
     ];
     
-    return new Promise((resolve, reject) => {
-      const process = spawn(ffmpegPath, args);
-      let stderr = '';
-      
-      process.stderr.on('data', (data) => {
-        stderr += data.toString();
-      });
-      
-      process.on('close', (code) => {
-        if (code === 0) {
-          resolve();
-        } else {
-          reject(new Error(`Segment export failed with code ${code}: ${stderr}`));
-        }
-      });
+    await this.runFFmpeg(job, 'Segment export', args, onStats);
+  }
+
+  /**
+   * Pick the stream settings a smart render encodes its parts with: those of the first source
+   * it can copy from. Null when nothing can be copied, so the export is encoded as usual.
+   */
+  private async planSmartRender(events: TimelineEvent[], config: ExportConfig): Promise<SmartStreamParams | null> {
+    for (const event of events) {
+      const layer = event.type === 'clip' ? this.getSmartCopyLayer(event) : undefined;
+      const source = layer && await this.probeVideoSource(layer.sourceFile);
+      
+      if (source && this.matchesExportFormat(source, config)) {
+        const { codecName, profile, level, refs, hasBFrames, timescale } = source;
+        console.log(`⚡ Smart render matching ${codecName} ${profile} level ${level}, ${refs} refs${hasBFrames ? ', B-frames' : ''}`);
+        return { codecName, profile, level, refs, hasBFrames, timescale };
+      }
+    }
+    
+    console.log('⚡ Smart render found no source matching the output, encoding everything');
+    return null;
+  }
+
+  /**
+   * The layer a clip segment could be copied from: its top visible layer, when that's an opaque
+   * full-frame layer at the output size, which hides everything below it
+   */
+  private getSmartCopyLayer(event: TimelineEvent): TimelineEvent['layers'][number] | undefined {
+    const visibleLayers = event.layers.filter(layer => layer.hasVideo);
+    const layer = visibleLayers[visibleLayers.length - 1];
+    
+    return layer && this.isFullFrameLayer(layer) ? layer : undefined;
+  }
+
+  /**
+   * Smart render one clip segment: stream-copy the keyframe-aligned middle of the top layer's source
+   * and re-encode only the partial GOPs before its first and after its last keyframe.
+   * Only sources with the export's stream settings are copied, so every part joins cleanly.
+   * Returns the part files in play order, or null when the segment has to be composited as usual.
+   */
+  private async renderSmartSegment(
+    job: ExportJob,
+    event: TimelineEvent,
+    tempDir: string,
+    index: number,
+    target: SmartStreamParams,
+    onStats?: (eventSeconds: number, stats: FFmpegProgressStats) => void
+  ): Promise<string[] | null> {
+    const layer = this.getSmartCopyLayer(event);
+    if (!layer) return null;
+    
+    const source = await this.probeVideoSource(layer.sourceFile);
+    if (!source || !this.matchesExportFormat(source, job.config) || !this.matchesStreamParams(source, target)) {
+      return null;
+    }
+    
+    const sourceStart = layer.sourceOffset;
+    const sourceEnd = layer.sourceOffset + event.duration;
+    const copyStart = source.keyframes.find(time => time >= sourceStart - EPSILON);
+    const copyEnd = [...source.keyframes].reverse().find(time => time <= sourceEnd + EPSILON);
+    
+    if (copyStart === undefined || copyEnd === undefined || copyEnd - copyStart < MIN_SMART_COPY_DURATION) {
+      return null;
+    }
+    
+    const headDuration = Math.max(0, copyStart - sourceStart);
+    const tailStart = Math.min(event.duration, copyEnd - sourceStart);
+    const baseName = path.join(tempDir, `segment-${index.toString().padStart(3, '0')}`);
+    const extension = SMART_RENDER_PART_EXTENSIONS[job.config.codec];
+    const streamArgs = this.getSmartEncodeArgs(target, job.config);
+    const files: string[] = [];
+    
+    console.log(`⚡ Smart render segment ${index + 1}: copying ${(copyEnd - copyStart).toFixed(2)}s, re-encoding ${(headDuration + event.duration - tailStart).toFixed(2)}s`);
+    
+    if (headDuration >= MIN_SEGMENT_DURATION) {
+      const headFile = `${baseName}-head${extension}`;
+      await this.exportClipSegment(job, this.sliceEvent(event, 0, headDuration), headFile, (stats) => {
+        onStats?.(stats.outTime, stats);
+      }, streamArgs);
+      files.push(headFile);
+    }
+    
+    const copyFile = `${baseName}-copy${extension}`;
+    await this.copyVideoSpan(job, layer.sourceFile, copyStart, copyEnd - copyStart, copyFile, (stats) => {
+      onStats?.(headDuration + stats.outTime, stats);
+    });
+    files.push(copyFile);
+    
+    if (event.duration - tailStart >= MIN_SEGMENT_DURATION) {
+      const tailFile = `${baseName}-tail${extension}`;
+      await this.exportClipSegment(job, this.sliceEvent(event, tailStart, event.duration), tailFile, (stats) => {
+        onStats?.(tailStart + stats.outTime, stats);
+      }, streamArgs);
+      files.push(tailFile);
+    }
+    
+    return files;
+  }
+
+  /**
+   * Part of an event, from `from` to `to` seconds after its start
+   */
+  private sliceEvent(event: TimelineEvent, from: number, to: number): TimelineEvent {
+    return {
+      ...event,
+      startTime: event.startTime + from,
+      endTime: event.startTime + to,
+      duration: to - from,
+      layers: event.layers.map(layer => ({ ...layer, sourceOffset: layer.sourceOffset + from }))
+    };
+  }
+
+  /**
+   * Copy a keyframe-aligned span of a source's video stream without re-encoding
+   */
+  private async copyVideoSpan(
+    job: ExportJob,
+    sourceFile: string,
+    start: number,
+    duration: number,
+    outputPath: string,
+    onStats?: (stats: FFmpegProgressStats) => void
+  ): Promise<void> {
+    const args = [
+      // Full precision so the input seek lands on the keyframe itself, not the one before it
+      '-ss', start.toFixed(6),
+      '-i', sourceFile,
+      '-t', duration.toFixed(6),
+      '-map', '0:v:0',
+      '-c', 'copy',
+      '-an',
+      '-avoid_negative_ts', 'make_zero',
+      '-y',
+      outputPath
+    ];
+    
+    await this.runFFmpeg(job, 'Stream copy', args, onStats);
+  }
+
+  /**
+   * Whether a source's video can be copied into the export as-is: the output codec in a profile the
+   * encoder can match, square pixels and progressive frames like every encoded part
+   */
+  private matchesExportFormat(source: SourceVideoInfo, config: ExportConfig): boolean {
+    return source.codecName === SMART_RENDER_CODEC_NAMES[config.codec]
+      && !!SMART_RENDER_PROFILES[config.codec]?.[source.profile]
+      && source.width === config.resolution.width
+      && source.height === config.resolution.height
+      && Math.abs(source.fps - config.fps) < 0.01
+      && source.pixelFormat === 'yuv420p'
+      && (!source.sampleAspectRatio || source.sampleAspectRatio === '1:1')
+      && (!source.fieldOrder || source.fieldOrder === 'progressive')
+      && source.timescale > 0;
+  }
+
+  /**
+   * Whether a source's stream settings are the ones a smart render encodes its parts with
+   */
+  private matchesStreamParams(source: SmartStreamParams, target: SmartStreamParams): boolean {
+    return source.codecName === target.codecName
+      && source.profile === target.profile
+      && source.level === target.level
+      && source.refs === target.refs
+      && source.hasBFrames === target.hasBFrames
+      && source.timescale === target.timescale;
+  }
+
+  /**
+   * Encoder arguments that give a smart render's encoded parts the copied stream's settings
+   */
+  private getSmartEncodeArgs(target: SmartStreamParams, config: ExportConfig): string[] {
+    const profile = SMART_RENDER_PROFILES[config.codec][target.profile];
+    
+    switch (config.codec) {
+      case 'h264':
+        return [
+          '-profile:v', profile,
+          '-level:v', (target.level / 10).toFixed(1),
+          '-refs', target.refs.toString(),
+          ...(target.hasBFrames ? [] : ['-bf', '0'])
+        ];
+      case 'h265':
+        return [
+          '-profile:v', profile,
+          '-x265-params', `level-idc=${(target.level / 30).toFixed(1)}:ref=${target.refs}${target.hasBFrames ? '' : ':bframes=0'}`
+        ];
+      default:
+        return ['-profile:v', profile];
+    }
+  }
+
+  /**
+   * Muxer arguments for joining smart render parts: the copied stream's timescale, and a sample entry
+   * that lets the parameter sets change between parts (MP4/MOV only, other containers allow it anyway)
+   */
+  private getSmartMuxArgs(target: SmartStreamParams, config: ExportConfig): string[] {
+    const extension = path.extname(config.outputPath).toLowerCase();
+    if (extension !== '.mp4' && extension !== '.mov') return [];
+    
+    const tag = IN_BAND_PARAMETER_TAGS[config.codec];
+    return ['-video_track_timescale', target.timescale.toString(), ...(tag ? ['-tag:v', tag] : [])];
+  }
+
+  /**
+   * Build the per-layer filter chain: reset timestamps, frame into the frame box at the clip's scale, apply opacity
+   */
+  private buildLayerFilter(layer: ExportClip & { sourceOffset: number }, config: ExportConfig): string {
+    if (layer.overlayBox) {
+      return this.buildWebcamLayerFilter(layer, config);
+    }
+    
+    const box = this.getLayerBox(layer, config);
+    const chain = [
+      'setpts=PTS-STARTPTS',
+      ...(layer.color ? this.buildColorFilters(layer.color) : []),
+      ...(layer.kenBurns ? [this.buildKenBurnsFilter(layer.kenBurns, layer.sourceOffset, config)] : []),
+      this.buildFramingFilter(layer, box.width, box.height)
+    ];
+    
+    if (layer.opacity < 1) {
+      chain.push('format=yuva420p', `colorchannelmixer=aa=${Math.max(0, layer.opacity).toFixed(3)}`);
+    }
+    
+    return chain.join(',');
+  }
+
+  /**
+   * Size of a layer's frame box: the output frame at the clip's scale.
+   * Even sizes so padding and cropping stay on chroma sample boundaries.
+   */
+  private getLayerBox(layer: ExportClip, config: ExportConfig): { width: number; height: number } {
+    const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+    const scale = layer.transform.scale > 0 ? layer.transform.scale : 1;
+    
+    return {
+      width: even(config.resolution.width * scale),
+      height: even(config.resolution.height * scale)
+    };
+  }
+
+  /**
+   * Filter chains for a transition layer: both sides framed into the whole output frame (xfade needs
+   * matching frames, so fit bars are black unless a pad color is set), blended with xfade over the
+   * whole transition, then trimmed to the segment and placed like the incoming clip.
+   * `segmentStart` is where the segment starts, in seconds from the start of the transition.
+   */
+  private buildTransitionFilter(
+    layer: ExportClip,
+    fromInput: number,
+    toInput: number,
+    segmentStart: number,
+    segmentDuration: number,
+    config: ExportConfig,
+    outputLabel: string
+  ): string[] {
+    const { type, from } = layer.transition!;
+    const { width, height } = config.resolution;
+    const blend = (layer.endTime - layer.startTime).toFixed(3);
+    const lead = Math.max(0, -layer.trimIn);
+    
+    const side = (clip: ExportClip, inputStart: number) => [
+      'setpts=PTS-STARTPTS',
+      ...(clip.color ? this.buildColorFilters(clip.color) : []),
+      ...(clip.kenBurns ? [this.buildKenBurnsFilter(clip.kenBurns, inputStart, config)] : []),
+      this.buildFramingFilter({ ...clip, padColor: clip.padColor || '#000000' }, width, height),
+      'setsar=1',
+      `fps=${config.fps}`,
+      'format=yuv420p'
+    ].join(',');
+    
+    // Sides the source can't fill hold their first or last frame for the rest of the blend
+    const hold = (startDuration: number) => [
+      `tpad=${startDuration > 0 ? `start_mode=clone:start_duration=${startDuration.toFixed(3)}:` : ''}stop_mode=clone:stop_duration=${blend}`,
+      `trim=duration=${blend}`
+    ].join(',');
+    
+    const box = this.getLayerBox(layer, config);
+    const placement = [
+      `xfade=transition=${XFADE_TRANSITIONS[type]}:duration=${blend}:offset=0`,
+      `trim=start=${Math.max(0, segmentStart).toFixed(3)}:duration=${segmentDuration.toFixed(3)}`,
+      'setpts=PTS-STARTPTS'
+    ];
+    if (box.width !== width || box.height !== height) {
+      placement.push(`scale=${box.width}:${box.height}`);
+    }
+    if (layer.opacity < 1) {
+      placement.push('format=yuva420p', `colorchannelmixer=aa=${Math.max(0, layer.opacity).toFixed(3)}`);
+    }
+    
+    return [
+      `[${fromInput}:v]${side(from, from.trimIn)},${hold(0)}[${outputLabel}from]`,
+      `[${toInput}:v]${side(layer, Math.max(0, layer.trimIn))},${hold(lead)}[${outputLabel}to]`,
+      `[${outputLabel}from][${outputLabel}to]${placement.join(',')}[${outputLabel}]`
+    ];
+  }
+
+  /**
+   * Frame a source into a width x height box by its scaling mode:
+   * fit scales down to fit (padding to the box when there's a pad color), fill scales up and
+   * centre-crops, stretch scales to the box ignoring aspect ratio
+   */
+  private buildFramingFilter(framing: ClipFraming, width: number, height: number): string {
+    const crop = framing.crop ? `${this.buildCropFilter(framing.crop)},` : '';
+    
+    switch (framing.scalingMode) {
+      case 'fill':
+        return `${crop}scale=w=${width}:h=${height}:force_original_aspect_ratio=increase,crop=${width}:${height}`;
+      case 'stretch':
+        return `${crop}scale=w=${width}:h=${height},setsar=1`;
+      default: {
+        const fit = `${crop}scale=w=${width}:h=${height}:force_original_aspect_ratio=decrease:force_divisible_by=2`;
+        const color = this.toFFmpegColor(framing.padColor);
+        return color ? `${fit},pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:color=${color}` : fit;
+      }
+    }
+  }
+
+  /**
+   * Pan and zoom a still across its Ken Burns windows into a whole output frame. The image is
+   * padded out to the frame's shape first, so zoompan's uniform zoom matches windows drawn in
+   * that shape. `inputStart` is the clip time at the input's first frame.
+   */
+  private buildKenBurnsFilter(kenBurns: ExportKenBurns, inputStart: number, config: ExportConfig): string {
+    const { width, height } = config.resolution;
+    const frameAspect = width / height;
+    // Share of the padded picture the image covers on each axis
+    const coverX = Math.min(1, kenBurns.sourceAspect / frameAspect);
+    const coverY = Math.min(1, frameAspect / kenBurns.sourceAspect);
+    
+    const progress = `clip((${inputStart.toFixed(3)}+on/${config.fps})/${Math.max(MIN_SEGMENT_DURATION, kenBurns.duration).toFixed(3)},0,1)`;
+    const mix = (from: number, to: number, cover: number) =>
+      `(${(from * cover / 100).toFixed(5)}+${((to - from) * cover / 100).toFixed(5)}*${progress})`;
+    const { start, end } = kenBurns;
+    
+    return [
+      'format=yuva420p',
+      `pad=w=${this.escapeFilterValue(`max(iw,ih*${frameAspect.toFixed(5)})`)}:h=${this.escapeFilterValue(`max(ih,iw/${frameAspect.toFixed(5)})`)}:x=0:y=0:color=black@0`,
+      // Oversampled so the window's whole-pixel steps don't jitter
+      `scale=${width * 2}:${height * 2}`,
+      [
+        `zoompan=z=${this.escapeFilterValue(`1/${mix(start.width, end.width, coverX)}`)}`,
+        `x=${this.escapeFilterValue(`iw*${mix(start.x, end.x, coverX)}`)}`,
+        `y=${this.escapeFilterValue(`ih*${mix(start.y, end.y, coverY)}`)}`,
+        `d=1:s=${width}x${height}:fps=${config.fps}`
+      ].join(':'),
+      'setsar=1'
+    ].join(',');
+  }
+
+  /**
+   * Color correct a clip's source picture: eq for brightness, contrast, saturation and gamma,
+   * colortemperature for white balance, then the LUT
+   */
+  private buildColorFilters(color: ClipColor): string[] {
+    const filters: string[] = [];
+    
+    if (color.brightness !== 0 || color.contrast !== 1 || color.saturation !== 1 || color.gamma !== 1) {
+      filters.push(`eq=brightness=${color.brightness.toFixed(3)}:contrast=${color.contrast.toFixed(3)}:saturation=${color.saturation.toFixed(3)}:gamma=${color.gamma.toFixed(3)}`);
+    }
+    if (color.temperature !== NEUTRAL_COLOR_TEMPERATURE) {
+      filters.push(`colortemperature=temperature=${Math.round(color.temperature)}`);
+    }
+    if (color.lut) {
+      filters.push(`lut3d=file=${this.escapeFilterValue(color.lut.file)}`);
+    }
+    
+    return filters;
+  }
+
+  /**
+   * Cut a clip's crop window (percent of the source frame) out of its source
+   */
+  private buildCropFilter(crop: ClipCrop): string {
+    const fraction = (value: number) => (Math.max(0, Math.min(100, value)) / 100).toFixed(4);
+    return `crop=w=iw*${fraction(crop.width)}:h=ih*${fraction(crop.height)}:x=iw*${fraction(crop.x)}:y=ih*${fraction(crop.y)}`;
+  }
+
+  /**
+   * Build the drawtext filter for a text layer: centred on its position, sized to the frame height,
+   * faded by an alpha expression over the segment's time (t counts from the segment start)
+   */
+  private buildTextFilter(layer: ExportClip & { sourceOffset: number }, text: ExportText, config: ExportConfig): string {
+    const { settings } = text;
+    const fontSize = Math.max(1, Math.round(config.resolution.height * settings.fontSize / 100));
+    const elapsed = `(t+${layer.sourceOffset.toFixed(3)})`;
+    
+    const fades: string[] = [];
+    if (settings.fadeIn > 0) fades.push(`${elapsed}/${settings.fadeIn.toFixed(3)}`);
+    if (settings.fadeOut > 0) fades.push(`(${text.duration.toFixed(3)}-${elapsed})/${settings.fadeOut.toFixed(3)}`);
+    const fade = fades.length === 2 ? `min(${fades[0]},${fades[1]})` : fades[0];
+    const opacity = Math.max(0, Math.min(1, layer.opacity)).toFixed(3);
+    const alpha = fade ? `${opacity}*clip(${fade},0,1)` : opacity;
+    
+    const options = [
+      `fontfile=${this.escapeFilterValue(this.getFontFile(settings.font))}`,
+      `textfile=${this.escapeFilterValue(text.textFile || '')}`,
+      'expansion=none',
+      'text_align=C',
+      `fontsize=${fontSize}`,
+      `fontcolor=${this.toFFmpegColor(settings.color) || 'white'}`,
+      `x=w*${(settings.position.x / 100).toFixed(4)}-text_w/2`,
+      `y=h*${(settings.position.y / 100).toFixed(4)}-text_h/2`,
+      `alpha=${this.escapeFilterValue(alpha)}`
+    ];
+    
+    const boxColor = this.toFFmpegColor(settings.boxColor);
+    if (boxColor) {
+      options.push(
+        'box=1',
+        `boxcolor=${boxColor}@${Math.max(0, Math.min(1, settings.boxOpacity)).toFixed(2)}`,
+        `boxborderw=${Math.round(fontSize * TEXT_BOX_PADDING)}`
+      );
+    }
+    
+    return `drawtext=${options.join(':')}`;
+  }
+
+  /**
+   * Path of a bundled text font: resources/fonts in development, the app's extra resources when packaged
+   */
+  private getFontFile(font: TextFont): string {
+    const fontsDir = process.env.NODE_ENV === 'development'
+      ? path.join(__dirname, '../../../../resources/fonts')
+      : path.join(process.resourcesPath, 'resources', 'fonts');
+    const fontFile = path.join(fontsDir, TEXT_FONT_FILES[font] || TEXT_FONT_FILES.sans);
+    
+    if (!fs.existsSync(fontFile)) {
+      throw new Error(`Text font not found: ${fontFile}`);
+    }
+    return fontFile;
+  }
+
+  /**
+   * '#rrggbb' as FFmpeg's 0xRRGGBB, or undefined when it isn't a hex color
+   */
+  private toFFmpegColor(color?: string): string | undefined {
+    return color && /^#[0-9a-f]{6}$/i.test(color) ? `0x${color.slice(1).toUpperCase()}` : undefined;
+  }
+
+  /**
+   * Build overlay x/y: centred in the frame, then offset by the clip transform (percent of frame)
+   */
+  private buildOverlayPosition(layer: ExportClip, config: ExportConfig): string {
+    if (layer.overlayBox) {
+      const box = this.getWebcamBox(layer.overlayBox, config);
+      return `x=${box.x}:y=${box.y}`;
+    }
+    
+    const offset = (value: number) => value >= 0 ? `+${value}` : `-${-value}`;
+    const offsetX = Math.round(config.resolution.width * layer.transform.x / 100);
+    const offsetY = Math.round(config.resolution.height * layer.transform.y / 100);
+    
+    return `x=(W-w)/2${offset(offsetX)}:y=(H-h)/2${offset(offsetY)}`;
+  }
+
+  /**
+   * Webcam layers fill the overlay box like the preview's object-fit: cover - scale up, then centre-crop
+   */
+  private buildWebcamLayerFilter(layer: ExportClip, config: ExportConfig): string {
+    const box = this.getWebcamBox(layer.overlayBox!, config);
+    
+    const chain = [
+      'setpts=PTS-STARTPTS',
+      ...(layer.color ? this.buildColorFilters(layer.color) : []),
+      `scale=w=${box.width}:h=${box.height}:force_original_aspect_ratio=increase`,
+      `crop=${box.width}:${box.height}`
+    ];
+    
+    if (layer.opacity < 1) {
+      chain.push('format=yuva420p', `colorchannelmixer=aa=${Math.max(0, layer.opacity).toFixed(3)}`);
+    }
+    
+    return chain.join(',');
+  }
+
+  /**
+   * Webcam box in output pixels. Matches WebcamOverlay: left/top and width are percentages
+   * of the frame, and the height always follows width at 4:3.
+   */
+  private getWebcamBox(overlay: WebcamExportOverlay, config: ExportConfig): { x: number; y: number; width: number; height: number } {
+    const { width: frameWidth, height: frameHeight } = config.resolution;
+    const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+    
+    const width = even(frameWidth * overlay.size.width / 100);
+    const height = even(width * 3 / 4);
+    
+    return {
+      x: Math.max(0, Math.min(frameWidth - width, Math.round(frameWidth * overlay.position.x / 100))),
+      y: Math.max(0, Math.min(frameHeight - height, Math.round(frameHeight * overlay.position.y / 100))),
+      width,
+      height
+    };
+  }
+
+  /**
+   * Check whether a source file has an audio stream (cached per file)
+   */
+  private async probeHasAudio(sourceFile: string): Promise<boolean> {
+    const cached = this.audioStreamCache.get(sourceFile);
+    if (cached !== undefined) {
+      return cached;
+    }
+    
+    const output = await this.runFFprobe(['-v', 'error', '-select_streams', 'a', '-show_entries', 'stream=index', '-of', 'csv=p=0', sourceFile]);
+    const hasAudio = !!output && output.trim().length > 0;
+    
+    this.audioStreamCache.set(sourceFile, hasAudio);
+    return hasAudio;
+  }
+
+  /**
+   * Probe a source's video format and keyframe (GOP) positions for smart render (cached per file).
+   * Resolves null when the file has no video stream or can't be probed.
+   */
+  private async probeVideoSource(sourceFile: string): Promise<SourceVideoInfo | null> {
+    const cached = this.videoSourceCache.get(sourceFile);
+    if (cached !== undefined) {
+      return cached;
+    }
+    
+    let info: SourceVideoInfo | null = null;
+    
+    const streamOutput = await this.runFFprobe([
+      '-v', 'error',
+      '-select_streams', 'v:0',
+      '-show_entries', 'stream=codec_name,profile,level,width,height,r_frame_rate,time_base,pix_fmt,sample_aspect_ratio,field_order,refs,has_b_frames:format=start_time',
+      '-of', 'json',
+      sourceFile
+    ]);
+    
+    // Packet flags mark keyframes without decoding anything
+    const packetOutput = streamOutput && await this.runFFprobe([
+      '-v', 'error',
+      '-select_streams', 'v:0',
+      '-show_entries', 'packet=pts_time,flags',
+      '-of', 'csv=p=0',
+      sourceFile
+    ]);
+    
+    if (streamOutput && packetOutput) {
+      try {
+        const probe = JSON.parse(streamOutput);
+        const stream = probe.streams?.[0];
+        
+        if (stream) {
+          // Trim points count from the start of the file, not from its first timestamp
+          const startTime = parseFloat(probe.format?.start_time) || 0;
+          const [numerator, denominator] = String(stream.r_frame_rate || '0/1').split('/').map(Number);
+          const [, timescale] = String(stream.time_base || '0/0').split('/').map(Number);
+          const known = (value?: string) => value && value !== 'unknown' && value !== 'N/A' && value !== '0:1' ? value : undefined;
+          
+          info = {
+            codecName: stream.codec_name,
+            profile: stream.profile || '',
+            level: Number(stream.level) || 0,
+            refs: Number(stream.refs) || 1,
+            hasBFrames: Number(stream.has_b_frames) > 0,
+            timescale: timescale || 0,
+            width: stream.width,
+            height: stream.height,
+            fps: denominator ? numerator / denominator : 0,
+            pixelFormat: stream.pix_fmt,
+            sampleAspectRatio: known(stream.sample_aspect_ratio),
+            fieldOrder: known(stream.field_order),
+            keyframes: packetOutput
+              .split('\n')
+              .map(line => line.trim().split(','))
+              .filter(([, flags]) => flags?.startsWith('K'))
+              .map(([time]) => parseFloat(time) - startTime)
+              .filter(time => Number.isFinite(time))
+              .sort((a, b) => a - b)
+          };
+        }
+      } catch (error) {
+        console.warn(`⚠️ Failed to parse probe output for ${sourceFile}: ${error}`);
+      }
+    }
+    
+    this.videoSourceCache.set(sourceFile, info);
+    return info;
+  }
+
+  /**
+   * Run ffprobe and resolve with its stdout, or null if it fails
+   */
+  private runFFprobe(args: string[]): Promise<string | null> {
+    const ffprobePath = ffmpegManager.getFFprobePath();
+    
+    return new Promise((resolve) => {
+      const process = spawn(ffprobePath, args);
+      let stdout = '';
+      
+      process.stdout.on('data', (data) => {
+        stdout += data.toString();
+      });
+      
+      process.on('close', (code) => {
+        resolve(code === 0 ? stdout : null);
+      });
+      
+      process.on('error', () => resolve(null));
+    });
+  }
+
+  /**
+   * Create a black frame video segment for gaps
+   */
+  private async createBlackFrameSegment(
+    job: ExportJob,
+    duration: number,
+    outputPath: string,
+    onStats?: (stats: FFmpegProgressStats) => void,
+    streamArgs: string[] = []
+  ): Promise<void> {
+    const { config } = job;
+    
+    const args = [
+      '-f', 'lavfi',
+      '-i', `color=c=black:s=${config.resolution.width}x${config.resolution.height}:d=${duration}:r=${config.fps}`,
+      '-t', duration.toString(),
+      '-c:v', this.getCodecName(config.codec),
+      ...this.getVideoRateArgs(config),
+      ...streamArgs,
+      '-y',
+      outputPath
+    ];
+    
+    await this.runFFmpeg(job, 'Black frame creation', args, onStats);
+  }
+
+  /**
+   * Mix the audio of every unmuted clip on every track into one timeline-long track.
+   * Each clip is delayed to its timeline position and scaled by its gain; silence fills the gaps.
+   * Written as 16-bit PCM unless other encoder arguments are given.
+   */
+  private async mixTimelineAudio(
+    job: ExportJob,
+    clips: ExportClip[],
+    duration: number,
+    outputPath: string,
+    onStats?: (stats: FFmpegProgressStats) => void,
+    encodeArgs: string[] = ['-c:a', 'pcm_s16le']
+  ): Promise<void> {
+    const { config } = job;
+    const { sampleRate } = this.getAudioSettings(config);
+    
+    const inputArgs: string[] = [];
+    const filters = [`anullsrc=r=${sampleRate}:cl=stereo,atrim=duration=${duration.toFixed(3)}[abase]`];
+    const mixInputs = ['[abase]'];
+    let inputCount = 0;
+    
+    // One clip's sound from `start` in its source, at its gain, delayed by `delayMs`, then `finish`
+    const addClipAudio = (clip: ExportClip, start: number, length: number, delayMs: number, label: string, finish = '') => {
+      inputArgs.push('-ss', start.toFixed(3), '-t', length.toFixed(3), '-i', clip.sourceFile);
+      filters.push(
+        `[${inputCount++}:a]asetpts=PTS-STARTPTS,aresample=${sampleRate},aformat=channel_layouts=stereo,` +
+        `volume=${clip.gain.toFixed(3)},adelay=${delayMs}:all=1${finish}[${label}]`
+      );
+    };
+    
+    for (const clip of clips) {
+      const index = mixInputs.length - 1;
+      const delayMs = Math.round(clip.startTime * 1000);
+      
+      if (clip.transition && clip.hasAudio) {
+        // Both sides are padded with silence to the whole transition, then crossfaded over all of it
+        const blend = clip.endTime - clip.startTime;
+        const lead = Math.max(0, -clip.trimIn);
+        const sides: Array<[ExportClip, number, number, number]> = [
+          [clip.transition.from, clip.transition.from.trimIn, blend, 0],
+          [clip, Math.max(0, clip.trimIn), blend - lead, lead]
+        ];
+        
+        for (const [sideIndex, [side, start, length, sideLead]] of sides.entries()) {
+          const label = `a${index}s${sideIndex}`;
+          if (side.gain > 0 && await this.probeHasAudio(side.sourceFile)) {
+            addClipAudio(side, start, length, Math.round(sideLead * 1000), label, `,apad,atrim=duration=${blend.toFixed(3)}`);
+          } else {
+            filters.push(`anullsrc=r=${sampleRate}:cl=stereo,atrim=duration=${blend.toFixed(3)}[${label}]`);
+          }
+        }
+        
+        filters.push(`[a${index}s0][a${index}s1]acrossfade=d=${blend.toFixed(3)},adelay=${delayMs}:all=1[a${index}]`);
+        mixInputs.push(`[a${index}]`);
+        continue;
+      }
+      
+      if (!clip.hasAudio || clip.gain <= 0) continue;
+      if (!(await this.probeHasAudio(clip.sourceFile))) continue;
+      
+      addClipAudio(clip, clip.trimIn, clip.endTime - clip.startTime, delayMs, `a${index}`);
+      mixInputs.push(`[a${index}]`);
+    }
+    
+    // normalize=0 keeps every input at its own gain instead of dividing by the input count
+    filters.push(`${mixInputs.join('')}amix=inputs=${mixInputs.length}:duration=first:dropout_transition=0:normalize=0[aout]`);
+    
+    console.log(`🔊 Mixing audio from ${mixInputs.length - 1} clips at ${sampleRate} Hz`);
+    
+    const args = [
+      ...inputArgs,
+      '-filter_complex', filters.join(';'),
+      '-map', '[aout]',
+      '-t', duration.toFixed(3),
+      ...encodeArgs,
+      '-ar', sampleRate.toString(),
+      '-y',
+      outputPath
+    ];
+    
+    await this.runFFmpeg(job, 'Audio mix', args, onStats);
+  }
+
+  /**
+   * Concatenate video segment files and mux in the mixed timeline audio.
+   * A video filter (burned-in captions) is applied to the joined picture.
+   */
+  private async concatenateSegments(
+    job: ExportJob,
+    concatFile: string,
+    audioFile: string,
+    onStats?: (stats: FFmpegProgressStats) => void,
+    videoFilter?: string,
+    smartTarget?: SmartStreamParams | null
+  ): Promise<void> {
+    const { config } = job;
+    const { outputPath } = config;
+    const audio = this.getAudioSettings(config);
+    
+    const args = [
+      '-f', 'concat',
+      '-safe', '0',
+      '-i', concatFile,
+      '-i', audioFile,
+      '-map', '0:v:0',
+      '-map', '1:a:0',
+      // Smart render segments are already in the output format, some of them copied from the sources
+      ...(smartTarget
+        ? ['-c:v', 'copy', ...this.getSmartMuxArgs(smartTarget, config)]
+        : ['-c:v', this.getCodecName(config.codec), ...this.getVideoRateArgs(config)]),
+      ...(videoFilter ? ['-vf', videoFilter] : []),
+      '-c:a', 'aac',
+      '-b:a', audio.bitrate,
+      '-ar', audio.sampleRate.toString(),
+      '-shortest',
+      '-y',
+      outputPath
+    ];
+    
+    await this.runFFmpeg(job, 'Concatenation', args, onStats);
+  }
+
+  /**
+   * Two-pass encode of the concatenated segments at a fixed video bitrate, muxing in the mixed audio.
+   * The first pass only writes rate-control stats into the temp directory.
+   */
+  private async encodeTwoPass(
+    job: ExportJob,
+    concatFile: string,
+    audioFile: string,
+    tempDir: string,
+    videoBitrate: number,
+    tracker: ExportProgressTracker,
+    videoFilter?: string
+  ): Promise<void> {
+    const { config } = job;
+    const audio = this.getAudioSettings(config);
+    const nullDevice = process.platform === 'win32' ? 'NUL' : '/dev/null';
+    const videoArgs = [
+      '-c:v', this.getCodecName(config.codec),
+      '-b:v', `${videoBitrate}k`,
+      '-passlogfile', path.join(tempDir, 'twopass'),
+      // Both passes must see the same picture
+      ...(videoFilter ? ['-vf', videoFilter] : [])
+    ];
+    
+    console.log(`🎯 Two-pass encode at ${videoBitrate}k for a ${config.targetSizeMB} MB target`);
+    
+    await this.runFFmpeg(job, 'Two-pass analysis', [
+      '-f', 'concat',
+      '-safe', '0',
+      '-i', concatFile,
+      '-map', '0:v:0',
+      ...videoArgs,
+      '-pass', '1',
+      '-an',
+      '-f', 'null',
+      '-y',
+      nullDevice
+    ], (stats) => {
+      tracker.update('analysis', stats.outTime, stats);
+    });
+    tracker.completePhase('analysis');
+    
+    await this.runFFmpeg(job, 'Two-pass encode', [
+      '-f', 'concat',
+      '-safe', '0',
+      '-i', concatFile,
+      '-i', audioFile,
+      '-map', '0:v:0',
+      '-map', '1:a:0',
+      ...videoArgs,
+      '-pass', '2',
+      '-c:a', 'aac',
+      '-b:a', audio.bitrate,
+      '-ar', audio.sampleRate.toString(),
+      '-shortest',
+      '-y',
+      config.outputPath
+    ], (stats) => {
+      tracker.update('concat', stats.outTime, stats);
+    });
+  }
+
+  /**
+   * Add chapters to a finished video by remuxing it with an FFMETADATA file (streams are copied),
+   * and write the YouTube chapter list next to it when the config asks for one
+   */
+  private async writeChapters(job: ExportJob, outputPath: string, chapters: ExportChapter[]): Promise<void> {
+    const os = require('os');
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'clipforge-chapters-'));
+    job.tempDirs.add(tempDir);
+    
+    // FFMETADATA needs =, ;, #, \ and newlines escaped with a backslash
+    const escape = (value: string) => value.replace(/[=;#\\\n]/g, (char) => `\\${char}`);
+    const metadata = [
+      ';FFMETADATA1',
+      ...chapters.flatMap(chapter => [
+        '[CHAPTER]',
+        'TIMEBASE=1/1000',
+        `START=${Math.round(chapter.start * 1000)}`,
+        `END=${Math.round(chapter.end * 1000)}`,
+        `title=${escape(chapter.title)}`
+      ])
+    ].join('\n');
+    
+    const metadataFile = path.join(tempDir, 'chapters.txt');
+    const remuxFile = path.join(tempDir, `chapters${path.extname(outputPath)}`);
+    fs.writeFileSync(metadataFile, metadata);
+    
+    console.log(`📑 Writing ${chapters.length} chapters`);
+    await this.runFFmpeg(job, 'Chapter remux', [
+      '-i', outputPath,
+      '-i', metadataFile,
+      '-map', '0',
+      '-map_metadata', '0',
+      '-map_chapters', '1',
+      '-c', 'copy',
+      '-y',
+      remuxFile
+    ]);
+    // Copy rather than rename: the temp directory may be on another drive
+    await fs.promises.copyFile(remuxFile, outputPath);
+    
+    if (job.config.chapterList) {
+      const { dir, name } = path.parse(outputPath);
+      const listFile = path.join(dir, `${name}.chapters.txt`);
+      const lines = chapters.map(chapter => `${this.formatChapterTime(chapter.start)} ${chapter.title}`);
+      await fs.promises.writeFile(listFile, lines.join('\n') + '\n', 'utf-8');
+      console.log(`📝 Chapter list written: ${listFile}`);
+    }
+  }
+
+  /**
+   * Chapter start as YouTube reads it: MM:SS, or H:MM:SS from an hour on
+   */
+  private formatChapterTime(seconds: number): string {
+    const total = Math.floor(seconds);
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor((total % 3600) / 60);
+    const secs = total % 60;
+    const pad = (value: number) => value.toString().padStart(2, '0');
+    
+    return hours > 0 ? `${hours}:${pad(minutes)}:${pad(secs)}` : `${pad(minutes)}:${pad(secs)}`;
+  }
+
+  /**
+   * Write the cues to an SRT file in a job temp directory and build the subtitles filter
+   * that draws them in the given style
+   */
+  private prepareBurnIn(job: ExportJob, cues: CaptionCue[], style: CaptionStyle): string {
+    const os = require('os');
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'clipforge-captions-'));
+    job.tempDirs.add(tempDir);
+    
+    const captionsFile = path.join(tempDir, 'captions.srt');
+    fs.writeFileSync(captionsFile, captionService.formatCaptions(cues, 'srt'), 'utf-8');
+    
+    // libass style overrides; colours are &HAABBGGRR with 00 for opaque
+    const toAssColor = (color: string) => /^#[0-9a-f]{6}$/i.test(color)
+      ? `&H00${color.slice(5, 7)}${color.slice(3, 5)}${color.slice(1, 3)}`.toUpperCase()
+      : '&H00FFFFFF';
+    const forceStyle = [
+      `FontSize=${style.fontSize}`,
+      `PrimaryColour=${toAssColor(style.color)}`,
+      `OutlineColour=${toAssColor(style.outlineColor)}`,
+      'BorderStyle=1',
+      'Outline=1',
+      `Alignment=${style.position === 'top' ? 8 : 2}`
+    ].join(',');
+    
+    console.log(`💬 Burning in ${cues.length} captions`);
+    return `subtitles=filename=${this.escapeFilterValue(captionsFile)}:force_style=${this.escapeFilterValue(forceStyle)}`;
+  }
+
+  /**
+   * Write each text clip's content to a file in a job temp directory for drawtext to read,
+   * which keeps quotes, colons and line breaks out of the filtergraph
+   */
+  private prepareTextLayers(job: ExportJob, clips: ExportClip[]): ExportClip[] {
+    const textClips = clips.filter(clip => clip.text && clip.text.settings.content.trim());
+    if (textClips.length === 0) return clips;
+    
+    const os = require('os');
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'clipforge-text-'));
+    job.tempDirs.add(tempDir);
+    
+    console.log(`🔤 Drawing ${textClips.length} text clip${textClips.length === 1 ? '' : 's'}`);
+    return clips.map((clip, index) => {
+      if (!clip.text || !textClips.includes(clip)) return clip;
       
-      process.on('error', reject);
+      const textFile = path.join(tempDir, `text-${index}.txt`);
+      fs.writeFileSync(textFile, clip.text.settings.content, 'utf-8');
+      return { ...clip, text: { ...clip.text, textFile } };
     });
   }
 
   /**
-   * Create a black frame video segment for gaps
+   * Escape a filter option value for both levels FFmpeg unescapes it at: the filtergraph
+   * parser (\ ' [ ] , ;) and then the option parser (\ ' :). Windows paths get forward slashes.
    */
-  private async createBlackFrameSegment(
-    duration: number,
-    outputPath: string,
-    config: ExportConfig
-  ): Promise<void> {
-    const ffmpegPath = ffmpegManager.getFFmpegPath();
-    const preset = this.getQualityPreset(config.quality);
+  private escapeFilterValue(value: string): string {
+    return value
+      .replace(/\\/g, '/')
+      .replace(/[\\':]/g, (char) => `\\${char}`)
+      .replace(/[\\'\[\],;]/g, (char) => `\\${char}`);
+  }
+
+  /**
+   * Deliver captions that aren't burned in: as an SRT/WebVTT sidecar next to the output,
+   * or as a subtitle stream remuxed into it (the other streams are copied)
+   */
+  private async writeCaptions(job: ExportJob, outputPath: string, cues: CaptionCue[]): Promise<void> {
+    const { captions } = job.config;
+    if (!captions) return;
     
-    const args = [
-      '-f', 'lavfi',
-      '-i', `color=c=black:s=${config.resolution.width}x${config.resolution.height}:d=${duration}:r=${config.fps}`,
-      '-f', 'lavfi',
-      '-i', 'anullsrc=channel_layout=stereo:sample_rate=48000',
-      '-t', duration.toString(),
-      '-c:v', this.getCodecName(config.codec),
-      '-b:v', config.bitrate || preset.bitrate,
-      '-c:a', 'aac',
-      '-b:a', '128k',
-      '-shortest',
-      '-y',
-      outputPath
-    ];
+    if (captions.mode === 'sidecar') {
+      const { dir, name } = path.parse(outputPath);
+      const sidecarFile = path.join(dir, `${name}.${captions.format}`);
+      await fs.promises.writeFile(sidecarFile, captionService.formatCaptions(cues, captions.format), 'utf-8');
+      console.log(`📝 Captions written: ${sidecarFile}`);
+      return;
+    }
     
-    return new Promise((resolve, reject) => {
-      const process = spawn(ffmpegPath, args);
-      let stderr = '';
-      
-      process.stderr.on('data', (data) => {
-        stderr += data.toString();
-      });
-      
-      process.on('close', (code) => {
-        if (code === 0) {
-          resolve();
-        } else {
-          reject(new Error(`Black frame creation failed with code ${code}: ${stderr}`));
-        }
-      });
-      
-      process.on('error', reject);
-    });
+    const os = require('os');
+    const subtitle = SUBTITLE_STREAM_CODECS[path.extname(outputPath).toLowerCase()];
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'clipforge-captions-'));
+    job.tempDirs.add(tempDir);
+    
+    const captionsFile = path.join(tempDir, `captions.${subtitle.format}`);
+    const remuxFile = path.join(tempDir, `captions${path.extname(outputPath)}`);
+    fs.writeFileSync(captionsFile, captionService.formatCaptions(cues, subtitle.format), 'utf-8');
+    
+    console.log(`💬 Muxing ${cues.length} captions as a ${subtitle.codec} stream`);
+    await this.runFFmpeg(job, 'Subtitle mux', [
+      '-i', outputPath,
+      '-i', captionsFile,
+      '-map', '0',
+      '-map', '1:0',
+      '-map_metadata', '0',
+      '-c', 'copy',
+      '-c:s', subtitle.codec,
+      '-y',
+      remuxFile
+    ]);
+    // Copy rather than rename: the temp directory may be on another drive
+    await fs.promises.copyFile(remuxFile, outputPath);
   }
 
   /**
-   * Concatenate multiple segment files into final output
+   * Write the concatenated segments as numbered frames next to the output path
+   * (`shot.png` becomes `shot_00001.png`, `shot_00002.png`, ...). Returns the first frame's path.
    */
-  private async concatenateSegments(
+  private async writeImageSequence(
+    job: ExportJob,
     concatFile: string,
-    outputPath: string,
-    config: ExportConfig
-  ): Promise<void> {
-    const ffmpegPath = ffmpegManager.getFFmpegPath();
-    const preset = this.getQualityPreset(config.quality);
+    tracker: ExportProgressTracker
+  ): Promise<string> {
+    const { config } = job;
+    const isJpeg = config.imageFormat === 'jpeg';
+    const extension = isJpeg ? 'jpg' : 'png';
+    const { dir, name } = path.parse(config.outputPath);
+    const isFrameFile = (file: string) =>
+      /^\d{5}$/.test(file.slice(name.length + 1, -(extension.length + 1)))
+      && file.startsWith(`${name}_`)
+      && file.endsWith(`.${extension}`);
     
-    const args = [
-      '-f', 'concat',
-      '-safe', '0',
-      '-i', concatFile,
-      '-c:v', this.getCodecName(config.codec),
-      '-b:v', config.bitrate || preset.bitrate,
-      '-c:a', 'aac',
-      '-b:a', '192k',
-      '-y',
-      outputPath
-    ];
+    console.log(`🖼️ Writing ${extension.toUpperCase()} frames at ${config.fps} FPS to ${dir}`);
     
-    return new Promise((resolve, reject) => {
-      const process = spawn(ffmpegPath, args);
-      let stderr = '';
-      
-      process.stderr.on('data', (data) => {
-        stderr += data.toString();
-      });
-      
-      process.on('close', (code) => {
-        if (code === 0) {
-          resolve();
-        } else {
-          reject(new Error(`Concatenation failed with code ${code}: ${stderr}`));
+    try {
+      await this.runFFmpeg(job, 'Image sequence', [
+        '-f', 'concat',
+        '-safe', '0',
+        '-i', concatFile,
+        '-vf', `fps=${config.fps}`,
+        ...(isJpeg ? ['-q:v', '2'] : []),
+        '-start_number', '1',
+        '-y',
+        path.join(dir, `${name}_%05d.${extension}`)
+      ], (stats) => tracker.update('frames', stats.outTime, stats));
+    } catch (error) {
+      if (job.cancelled) {
+        // A cancelled sequence leaves no partial frames behind
+        for (const file of fs.readdirSync(dir).filter(isFrameFile)) {
+          fs.rmSync(path.join(dir, file), { force: true });
         }
-      });
-      
-      process.on('error', reject);
-    });
+      }
+      throw error;
+    }
+    
+    return path.join(dir, `${name}_00001.${extension}`);
   }
 
   /**
-   * Create picture-in-picture overlay
+   * Encode the concatenated segments as an animated GIF or WebP.
+   * GIF takes two passes: palettegen builds a palette from the frames, paletteuse maps the frames onto it.
    */
-  async exportWithOverlay(
-    mainClip: string,
-    overlayClip: string,
-    config: ExportConfig,
-    onProgress: (progress: ExportProgress) => void
-  ): Promise<string> {
-    console.log(`🎬 Creating PiP overlay: ${mainClip} + ${overlayClip}`);
+  private async encodeAnimation(
+    job: ExportJob,
+    concatFile: string,
+    tempDir: string,
+    tracker: ExportProgressTracker
+  ): Promise<void> {
+    const { config } = job;
+    const settings = { ...DEFAULT_ANIMATION_SETTINGS, ...config.animation };
+    const width = Math.max(2, Math.round(settings.width / 2) * 2);
+    const frames = `fps=${settings.fps},scale=${width}:-2:flags=lanczos`;
+    const input = ['-f', 'concat', '-safe', '0', '-i', concatFile];
+    const onStats = (stats: FFmpegProgressStats) => tracker.update('animation', stats.outTime, stats);
     
-    if (!ffmpegManager.isReady()) {
-      throw new Error('FFmpeg not ready');
+    console.log(`🎞️ Encoding ${config.format} at ${width}px wide, ${settings.fps} FPS`);
+    
+    if (config.format === 'webp') {
+      await this.runFFmpeg(job, 'WebP encode', [
+        ...input,
+        '-vf', frames,
+        '-an',
+        '-c:v', 'libwebp',
+        '-lossless', '0',
+        '-q:v', '75',
+        '-loop', settings.loop.toString(),
+        '-y',
+        config.outputPath
+      ], onStats);
+      return;
     }
+    
+    const paletteFile = path.join(tempDir, 'palette.png');
+    await this.runFFmpeg(job, 'Palette generation', [
+      ...input,
+      '-vf', `${frames},palettegen=stats_mode=diff`,
+      '-y',
+      paletteFile
+    ], (stats) => tracker.update('palette', stats.outTime, stats));
+    tracker.completePhase('palette');
+    
+    const dither = settings.dither === 'bayer' ? 'bayer:bayer_scale=3' : settings.dither;
+    // The GIF muxer counts repeats after the first play: -1 plays once, 0 loops forever
+    const gifLoop = settings.loop === 0 ? 0 : settings.loop === 1 ? -1 : settings.loop - 1;
+    
+    await this.runFFmpeg(job, 'GIF encode', [
+      ...input,
+      '-i', paletteFile,
+      '-lavfi', `[0:v]${frames}[frames];[frames][1:v]paletteuse=dither=${dither}:diff_mode=rectangle`,
+      '-an',
+      '-loop', gifLoop.toString(),
+      '-y',
+      config.outputPath
+    ], onStats);
+  }
 
+  /**
+   * Run FFmpeg with machine-readable progress on stdout.
+   * The process belongs to the job until it exits, so cancelling the job kills it.
+   * Resolves when the process exits cleanly; rejects with the tail of stderr otherwise.
+   */
+  private runFFmpeg(
+    job: ExportJob,
+    label: string,
+    args: string[],
+    onStats?: (stats: FFmpegProgressStats) => void
+  ): Promise<void> {
     const ffmpegPath = ffmpegManager.getFFmpegPath();
-    const exportId = `pip-${Date.now()}`;
-    
-    // Build FFmpeg command for PiP overlay
-    const args = this.buildPiPArgs(mainClip, overlayClip, config);
     
-    console.log(`🔧 FFmpeg command: ${ffmpegPath} ${args.join(' ')}`);
+    if (job.cancelled) {
+      return Promise.reject(new Error(CANCELLED_MESSAGE));
+    }
     
     return new Promise((resolve, reject) => {
-      const process = spawn(ffmpegPath, args);
-      
-      // Track this export
-      this.activeExports.set(exportId, {
-        id: exportId,
-        process,
-        config,
-        startTime: Date.now(),
-        cancelled: false
-      });
-
+      const process = spawn(ffmpegPath, ['-progress', 'pipe:1', '-nostats', ...args]);
+      job.processes.add(process);
+      
       let stderr = '';
+      let pending = '';
+      let block: Record<string, string> = {};
       
-      process.stderr.on('data', (data) => {
-        stderr += data.toString();
+      // -progress writes key=value lines, ending each update with progress=continue|end
+      process.stdout.on('data', (data) => {
+        pending += data.toString();
+        const lines = pending.split('\n');
+        pending = lines.pop() || '';
         
-        // Parse progress from FFmpeg stderr
-        const progress = this.parseFFmpegProgress(stderr, config);
-        if (progress) {
-          onProgress(progress);
+        for (const line of lines) {
+          const separator = line.indexOf('=');
+          if (separator < 0) continue;
+          
+          const key = line.slice(0, separator).trim();
+          block[key] = line.slice(separator + 1).trim();
+          
+          if (key === 'progress') {
+            onStats?.(this.parseProgressBlock(block));
+            block = {};
+          }
         }
       });
-
+      
+      process.stderr.on('data', (data) => {
+        // Only the tail is useful for error reports
+        stderr = (stderr + data.toString()).slice(-4000);
+      });
+      
       process.on('close', (code) => {
-        this.activeExports.delete(exportId);
+        job.processes.delete(process);
         
-        if (code === 0) {
-          console.log(`✅ PiP export completed: ${config.outputPath}`);
-          resolve(config.outputPath);
+        if (job.cancelled) {
+          reject(new Error(CANCELLED_MESSAGE));
+        } else if (code === 0) {
+          resolve();
         } else {
-          const error = new Error(`FFmpeg process exited with code ${code}`);
-          console.error(`❌ PiP export failed:`, error);
-          reject(error);
+          reject(new Error(`${label} failed with code ${code}: ${stderr.trim()}`));
         }
       });
-
+      
       process.on('error', (error) => {
-        this.activeExports.delete(exportId);
-        console.error(`❌ FFmpeg process error:`, error);
+        job.processes.delete(process);
         reject(error);
       });
     });
   }
 
   /**
-   * Get quality preset configuration
-   */
-  private getQualityPreset(quality: ExportQuality): {
-    resolution: { width: number; height: number };
-    bitrate: string;
-    fps: number;
-  } {
-    const presets = {
-      low: {
-        resolution: { width: 1280, height: 720 },
-        bitrate: '2000k',
-        fps: 30
-      },
-      medium: {
-        resolution: { width: 1920, height: 1080 },
-        bitrate: '5000k',
-        fps: 30
-      },
-      high: {
-        resolution: { width: 1920, height: 1080 },
-        bitrate: '8000k',
-        fps: 30
-      },
-      ultra: {
-        resolution: { width: 3840, height: 2160 },
-        bitrate: '15000k',
-        fps: 30
-      }
+   * Parse one -progress update. out_time_us and (despite its name) out_time_ms are both microseconds.
+   */
+  private parseProgressBlock(block: Record<string, string>): FFmpegProgressStats {
+    const micros = parseInt(block.out_time_us ?? block.out_time_ms ?? '', 10);
+    
+    return {
+      outTime: Number.isFinite(micros) && micros > 0 ? micros / 1000000 : 0,
+      frame: parseInt(block.frame, 10) || 0,
+      fps: parseFloat(block.fps) || 0,
+      speed: parseFloat(block.speed) || 0
+    };
+  }
+
+  /**
+   * Get audio encode settings, following the project's sample rate when provided
+   */
+  private getAudioSettings(config: ExportConfig): { sampleRate: number; bitrate: string } {
+    return {
+      sampleRate: config.audioSampleRate || DEFAULT_AUDIO_SAMPLE_RATE,
+      bitrate: config.audioBitrate || DEFAULT_AUDIO_BITRATE
     };
+  }
 
-    return presets[quality];
+  /**
+   * Compare a finished target-size export with its target
+   */
+  private getSizeResult(config: ExportConfig): ExportSizeResult {
+    const targetBytes = Math.round((config.targetSizeMB || 0) * BYTES_PER_MB);
+    const actualBytes = fs.statSync(config.outputPath).size;
+    
+    console.log(`🎯 Output is ${(actualBytes / BYTES_PER_MB).toFixed(2)} MB, ${(actualBytes / targetBytes * 100).toFixed(1)}% of the ${config.targetSizeMB} MB target`);
+    return { targetBytes, actualBytes };
+  }
+
+  /**
+   * Video rate control: the config's own CRF or bitrate, else the rate of the preset it came from.
+   * A CRF means constant quality; libvpx-vp9 only runs that way with the bitrate set to 0.
+   */
+  private getVideoRateArgs(config: ExportConfig): string[] {
+    const preset = config.crf !== undefined || config.bitrate
+      ? undefined
+      : exportPresetService.getPreset(config.presetId || config.quality);
+    const crf = config.crf ?? preset?.crf;
+    
+    if (crf !== undefined) {
+      return ['-crf', crf.toString(), ...(config.codec === 'vp9' ? ['-b:v', '0'] : [])];
+    }
+    return ['-b:v', config.bitrate || preset?.bitrate || DEFAULT_VIDEO_BITRATE];
   }
 
   /**
    * Build FFmpeg arguments for single clip export
    */
   private buildSingleClipArgs(
-    clip: { sourceFile: string; trimIn: number; trimOut: number },
+    clip: { sourceFile: string; trimIn: number; trimOut: number; gain?: number } & Partial<ClipFraming>,
     config: ExportConfig
   ): string[] {
-    const preset = this.getQualityPreset(config.quality);
+    const audio = this.getAudioSettings(config);
     const trimDuration = clip.trimOut - clip.trimIn;
+    const gain = clip.gain ?? 1;
+    const videoFilter = this.buildOutputFramingFilter(clip, config);
     
     const args = [
       '-i', clip.sourceFile,
@@ -612,11 +2150,13 @@ export class ExportService implements IExportService {
       '-ss', clip.trimIn.toString(),      // Start at trim point
       '-t', trimDuration.toString(),      // Duration of trim
       '-c:v', this.getCodecName(config.codec),
-      '-b:v', config.bitrate || preset.bitrate,
-      '-s', `${config.resolution.width}x${config.resolution.height}`,
+      ...this.getVideoRateArgs(config),
+      '-vf', videoFilter,
       '-r', config.fps.toString(),
+      ...(gain !== 1 ? ['-af', `volume=${gain.toFixed(3)}`] : []),
       '-c:a', 'aac',
-      '-b:a', '128k',
+      '-b:a', audio.bitrate,
+      '-ar', audio.sampleRate.toString(),
       '-y', // Overwrite output file
       config.outputPath
     ];
@@ -625,133 +2165,58 @@ export class ExportService implements IExportService {
   }
 
   /**
-   * Build FFmpeg arguments for timeline export (concatenation)
-   */
-  /**
-   * Build timeline events with gap and overlap resolution
+   * Build timeline events: one event per span where the set of active clips doesn't change.
+   * Each clip event carries every active layer (bottom to top) so segments can be composited.
    */
-  private buildTimelineEvents(clips: Array<{
-    sourceFile: string;
-    trimIn: number;
-    trimOut: number;
-    startTime: number;
-    endTime: number;
-    trackId: string;
-    trackNumber: number;
-  }>): Array<{
-    type: 'clip' | 'gap';
-    startTime: number;
-    endTime: number;
-    duration: number;
-    sourceFile?: string;
-    trimIn?: number;
-    trimOut?: number;
-    trackId?: string;
-  }> {
+  private buildTimelineEvents(clips: ExportClip[]): TimelineEvent[] {
     if (clips.length === 0) return [];
     
-    // Sort clips by startTime, then by trackNumber (higher track wins overlaps)
-    const sortedClips = [...clips].sort((a, b) => {
-      if (a.startTime !== b.startTime) {
-        return a.startTime - b.startTime;
-      }
-      // If same startTime, higher track number comes first (to handle overlaps)
-      return b.trackNumber - a.trackNumber;
-    });
+    // Every clip edge is a potential cut between segments
+    const boundaries = Array.from(new Set([0, ...clips.flatMap(clip => [clip.startTime, clip.endTime])]))
+      .sort((a, b) => a - b);
     
-    const events: Array<{
-      type: 'clip' | 'gap';
-      startTime: number;
-      endTime: number;
-      duration: number;
-      sourceFile?: string;
-      trimIn?: number;
-      trimOut?: number;
-      trackId?: string;
-    }> = [];
-    
-    let currentTime = 0;
-    const resolvedClips: typeof sortedClips = [];
-    
-    // First pass: Resolve overlaps (higher track wins)
-    for (const clip of sortedClips) {
-      let clipStart = clip.startTime;
-      let clipEnd = clip.endTime;
-      let shouldAdd = true;
-      
-      // Check if this clip overlaps with any already resolved clips
-      for (const resolved of resolvedClips) {
-        // Check for overlap
-        if (clipStart < resolved.endTime && clipEnd > resolved.startTime) {
-          // Overlap detected
-          if (clip.trackNumber > resolved.trackNumber) {
-            // Current clip wins - it will be added
-            console.log(`⚠️  Overlap: Track ${clip.trackNumber} (${clip.trackId}) wins over Track ${resolved.trackNumber} (${resolved.trackId})`);
-          } else {
-            // Resolved clip wins - skip or truncate current clip
-            if (clipStart >= resolved.startTime && clipEnd <= resolved.endTime) {
-              // Current clip is completely covered
-              shouldAdd = false;
-              console.log(`⚠️  Overlap: Track ${resolved.trackNumber} completely covers Track ${clip.trackNumber} - skipping`);
-              break;
-            } else if (clipStart < resolved.startTime && clipEnd > resolved.startTime) {
-              // Truncate current clip end
-              clipEnd = resolved.startTime;
-              console.log(`⚠️  Overlap: Truncating Track ${clip.trackNumber} at ${clipEnd}s`);
-            } else if (clipStart < resolved.endTime && clipEnd > resolved.endTime) {
-              // Truncate current clip start
-              clipStart = resolved.endTime;
-              console.log(`⚠️  Overlap: Truncating Track ${clip.trackNumber} start to ${clipStart}s`);
-            }
-          }
-        }
-      }
+    const events: TimelineEvent[] = [];
+    
+    for (let i = 0; i < boundaries.length - 1; i++) {
+      const startTime = boundaries[i];
+      const endTime = boundaries[i + 1];
+      const duration = endTime - startTime;
       
-      if (shouldAdd && clipEnd > clipStart) {
-        const adjustedClip = {
+      // Skip slivers left over from floating point clip edges
+      if (duration < MIN_SEGMENT_DURATION) continue;
+      
+      const layers = clips
+        .filter(clip => clip.startTime <= startTime + EPSILON && clip.endTime >= endTime - EPSILON)
+        .sort((a, b) => a.trackNumber - b.trackNumber)
+        .map(clip => ({
           ...clip,
-          startTime: clipStart,
-          endTime: clipEnd
-        };
-        resolvedClips.push(adjustedClip);
-      }
-    }
-    
-    // Sort resolved clips by startTime
-    resolvedClips.sort((a, b) => a.startTime - b.startTime);
-    
-    // Second pass: Build events with gaps
-    for (const clip of resolvedClips) {
-      // Check for gap before this clip
-      if (clip.startTime > currentTime) {
-        const gapDuration = clip.startTime - currentTime;
-        events.push({
-          type: 'gap',
-          startTime: currentTime,
-          endTime: clip.startTime,
-          duration: gapDuration
-        });
-        console.log(`⬛ Gap: ${gapDuration.toFixed(2)}s from ${currentTime.toFixed(2)}s to ${clip.startTime.toFixed(2)}s`);
+          sourceOffset: clip.trimIn + (startTime - clip.startTime)
+        }));
+      
+      const previous = events[events.length - 1];
+      if (layers.length === 0 && previous?.type === 'gap') {
+        // Extend the previous gap rather than rendering two black segments
+        previous.endTime = endTime;
+        previous.duration = previous.endTime - previous.startTime;
+        continue;
       }
       
-      // Add clip event
-      const clipDuration = clip.endTime - clip.startTime;
       events.push({
-        type: 'clip',
-        startTime: clip.startTime,
-        endTime: clip.endTime,
-        duration: clipDuration,
-        sourceFile: clip.sourceFile,
-        trimIn: clip.trimIn,
-        trimOut: clip.trimOut,
-        trackId: clip.trackId
+        type: layers.length > 0 ? 'clip' : 'gap',
+        startTime,
+        endTime,
+        duration,
+        layers
       });
-      console.log(`🎬 Clip: ${clipDuration.toFixed(2)}s from ${clip.startTime.toFixed(2)}s to ${clip.endTime.toFixed(2)}s (Track: ${clip.trackId})`);
       
-      currentTime = clip.endTime;
+      if (layers.length > 0) {
+        console.log(`🎬 Segment: ${duration.toFixed(2)}s from ${startTime.toFixed(2)}s (${layers.length} layer${layers.length === 1 ? '' : 's'})`);
+      } else {
+        console.log(`⬛ Gap: ${duration.toFixed(2)}s from ${startTime.toFixed(2)}s to ${endTime.toFixed(2)}s`);
+      }
     }
     
-    console.log(`📊 Timeline events: ${events.length} (${events.filter(e => e.type === 'clip').length} clips, ${events.filter(e => e.type === 'gap').length} gaps)`);
+    console.log(`📊 Timeline events: ${events.length} (${events.filter(e => e.type === 'clip').length} segments, ${events.filter(e => e.type === 'gap').length} gaps)`);
     return events;
   }
 
@@ -759,7 +2224,6 @@ export class ExportService implements IExportService {
     clips: Array<{ sourceFile: string; trimIn: number; trimOut: number }>,
     config: ExportConfig
   ): string[] {
-    const preset = this.getQualityPreset(config.quality);
     
     // Create concat file list
     const concatFile = path.join(path.dirname(config.outputPath), `concat-${Date.now()}.txt`);
@@ -776,11 +2240,12 @@ export class ExportService implements IExportService {
       '-safe', '0',
       '-i', concatFile,
       '-c:v', this.getCodecName(config.codec),
-      '-b:v', config.bitrate || preset.bitrate,
-      '-s', `${config.resolution.width}x${config.resolution.height}`,
+      ...this.getVideoRateArgs(config),
+      '-vf', this.buildOutputFramingFilter({}, config),
       '-r', config.fps.toString(),
       '-c:a', 'aac',
-      '-b:a', '128k',
+      '-b:a', this.getAudioSettings(config).bitrate,
+      '-ar', this.getAudioSettings(config).sampleRate.toString(),
       '-y', // Overwrite output file
       config.outputPath
     ];
@@ -795,42 +2260,6 @@ export class ExportService implements IExportService {
     return args;
   }
 
-  /**
-   * Build FFmpeg arguments for picture-in-picture overlay
-   */
-  private buildPiPArgs(
-    mainClip: string,
-    overlayClip: string,
-    config: ExportConfig
-  ): string[] {
-    const preset = this.getQualityPreset(config.quality);
-    
-    // Calculate overlay position (bottom-right corner with 10px margin)
-    const overlayWidth = Math.floor(config.resolution.width * 0.3); // 30% of main video width
-    const overlayHeight = Math.floor(config.resolution.height * 0.3); // 30% of main video height
-    const overlayX = config.resolution.width - overlayWidth - 10;
-    const overlayY = config.resolution.height - overlayHeight - 10;
-    
-    const args = [
-      '-i', mainClip,
-      '-i', overlayClip,
-      '-filter_complex', 
-      `[0:v][1:v]overlay=${overlayX}:${overlayY}:enable='between(t,0,999999)'[v]`,
-      '-map', '[v]',
-      '-map', '0:a',
-      '-c:v', this.getCodecName(config.codec),
-      '-b:v', config.bitrate || preset.bitrate,
-      '-s', `${config.resolution.width}x${config.resolution.height}`,
-      '-r', config.fps.toString(),
-      '-c:a', 'aac',
-      '-b:a', '128k',
-      '-y', // Overwrite output file
-      config.outputPath
-    ];
-
-    return args;
-  }
-
   /**
    * Get codec name for FFmpeg
    */
@@ -845,85 +2274,328 @@ export class ExportService implements IExportService {
   }
 
   /**
-   * Parse FFmpeg progress from stderr output
+   * Input arguments reading `length` seconds of a clip's source from `start`.
+   * Still images are looped at the output frame rate instead, as they have no time of their own.
    */
-  private parseFFmpegProgress(stderr: string, config: ExportConfig): ExportProgress | null {
-    // Look for progress line like: frame=  123 fps= 25.0 q=28.0 size=    1024kB time=00:00:05.00 bitrate=1677.7kbits/s
-    const progressMatch = stderr.match(/frame=\s*(\d+)\s+fps=\s*([\d.]+)\s+q=([\d.]+)\s+size=\s*(\d+)kB\s+time=([\d:.]+)/);
-    
-    if (!progressMatch) {
-      return null;
-    }
+  private getInputArgs(clip: ExportClip, start: number, length: string, config: ExportConfig): string[] {
+    return clip.isStill
+      ? ['-loop', '1', '-framerate', config.fps.toString(), '-t', length, '-i', clip.sourceFile]
+      : ['-ss', Math.max(0, start).toFixed(3), '-t', length, '-i', clip.sourceFile];
+  }
+
+  /**
+   * Whether a clip can skip compositing: full frame, opaque, with both picture and sound
+   */
+  private isPlainFullFrameClip(clip: ExportClip): boolean {
+    return this.isFullFrameLayer(clip)
+      && clip.hasVideo
+      && clip.hasAudio;
+  }
+
+  /**
+   * Whether a layer is drawn opaque over the whole frame at its own size
+   */
+  private isFullFrameLayer(clip: ExportClip): boolean {
+    return !clip.overlayBox
+      && !clip.transition
+      && !clip.text
+      && !clip.isStill
+      && !clip.crop
+      && !clip.color
+      && clip.opacity >= 1
+      && clip.transform.scale === 1
+      && clip.transform.x === 0
+      && clip.transform.y === 0;
+  }
 
-    const currentFrame = parseInt(progressMatch[1]);
-    const fps = parseFloat(progressMatch[2]);
-    const timeStr = progressMatch[5];
+  /**
+   * A clip's scaling mode and pad color, falling back to the project's from the config
+   */
+  private resolveFraming(clip: Partial<ClipFraming>, config: ExportConfig): ClipFraming {
+    return {
+      scalingMode: clip.scalingMode || config.scalingMode || DEFAULT_SCALING_MODE,
+      padColor: clip.padColor || config.padColor,
+      crop: this.isCropped(clip.crop) ? clip.crop : undefined
+    };
+  }
+
+  /**
+   * Whether a clip's color settings change its picture at all
+   */
+  private hasColorCorrection(color?: ClipColor): color is ClipColor {
+    return !!color && (
+      color.brightness !== 0
+      || color.contrast !== 1
+      || color.saturation !== 1
+      || color.gamma !== 1
+      || color.temperature !== NEUTRAL_COLOR_TEMPERATURE
+      || !!color.lut
+    );
+  }
+
+  /**
+   * Whether a crop window leaves out any of the source; anything else is treated as no crop
+   */
+  private isCropped(crop?: ClipCrop): crop is ClipCrop {
+    return !!crop
+      && crop.width > 0 && crop.height > 0
+      && (crop.x > 0 || crop.y > 0 || crop.width < 100 || crop.height < 100);
+  }
+
+  /**
+   * -vf chain framing a single source into the whole output frame.
+   * Nothing is drawn below it, so fit bars are black unless a pad color is set.
+   */
+  private buildOutputFramingFilter(clip: Partial<ClipFraming>, config: ExportConfig): string {
+    const framing = this.resolveFraming(clip, config);
+    return this.buildFramingFilter(
+      { ...framing, padColor: framing.padColor || '#000000' },
+      config.resolution.width,
+      config.resolution.height
+    );
+  }
+
+  /**
+   * Chapters from the titled markers, timed from the start of the output. With a range, times are
+   * shifted to its start, and the chapter already running when the range begins opens the export.
+   */
+  private getChapters(markers: TimelineMarker[] | undefined, clips: ExportClip[], range?: ExportRange): ExportChapter[] {
+    const offset = range?.start ?? 0;
+    const duration = Math.max(0, ...clips.map(clip => clip.endTime));
     
-    // Parse time string (HH:MM:SS.ms)
-    const timeParts = timeStr.split(':');
-    const hours = parseInt(timeParts[0]) || 0;
-    const minutes = parseInt(timeParts[1]) || 0;
-    const seconds = parseFloat(timeParts[2]) || 0;
-    const currentTime = hours * 3600 + minutes * 60 + seconds;
+    const points = (markers || [])
+      .filter(marker => typeof marker.title === 'string' && marker.title.trim() && Number.isFinite(marker.time))
+      .map(marker => ({ time: marker.time - offset, title: marker.title.trim() }))
+      .sort((a, b) => a.time - b.time);
     
-    // Estimate total frames based on duration and fps
-    const totalFrames = Math.floor(config.fps * 60); // Assume 1 minute for now
-    const percent = Math.min((currentFrame / totalFrames) * 100, 100);
+    const opening = [...points].reverse().find(point => point.time <= EPSILON);
+    const starts = [
+      ...(opening ? [{ ...opening, time: 0 }] : []),
+      ...points.filter(point => point.time > EPSILON && point.time < duration - MIN_SEGMENT_DURATION)
+    ];
     
-    // Calculate ETA
-    const elapsedTime = (Date.now() - Date.now()) / 1000; // This would be actual elapsed time
-    const eta = fps > 0 ? (totalFrames - currentFrame) / fps : 0;
+    return starts
+      .map((point, index) => ({
+        start: point.time,
+        end: starts[index + 1]?.time ?? duration,
+        title: point.title
+      }))
+      // Markers stacked at the same time would make empty chapters
+      .filter(chapter => chapter.end - chapter.start >= MIN_SEGMENT_DURATION);
+  }
 
-    return {
-      percent,
-      currentFrame,
-      totalFrames,
-      fps,
-      eta
-    };
+  /**
+   * Cues of the visible caption tracks, timed from the start of the output like the chapters.
+   * Cues crossing the range edges or running past the last clip are cut to fit.
+   */
+  private getCaptionCues(tracks: ExportTimeline['tracks'], clips: ExportClip[], range?: ExportRange): CaptionCue[] {
+    const offset = range?.start ?? 0;
+    const duration = Math.max(0, ...clips.map(clip => clip.endTime));
+    
+    return tracks
+      .filter(track => track.kind === 'caption' && track.visible !== false)
+      .flatMap((track): CaptionCue[] => track.cues || [])
+      .filter(cue => typeof cue.text === 'string' && cue.text.trim())
+      .map(cue => ({
+        ...cue,
+        startTime: Math.max(0, cue.startTime - offset),
+        endTime: Math.min(duration, cue.endTime - offset)
+      }))
+      .filter(cue => cue.endTime - cue.startTime >= MIN_SEGMENT_DURATION)
+      .sort((a, b) => a.startTime - b.startTime);
+  }
+
+  /**
+   * Keep the parts of clips inside a timeline range, shifted so the range starts at 0.
+   * Clips crossing either edge are trimmed to it, so every later step (events, audio mix)
+   * sees the range as a timeline of its own.
+   */
+  private clipToRange(clips: ExportClip[], range: ExportRange): ExportClip[] {
+    return clips
+      .filter(clip => clip.endTime > range.start + EPSILON && clip.startTime < range.end - EPSILON)
+      .map(clip => {
+        const startTime = Math.max(clip.startTime, range.start);
+        const endTime = Math.min(clip.endTime, range.end);
+        const trimIn = clip.trimIn + (startTime - clip.startTime);
+        
+        return {
+          ...clip,
+          trimIn,
+          trimOut: trimIn + (endTime - startTime),
+          startTime: startTime - range.start,
+          endTime: endTime - range.start
+        };
+      });
+  }
+
+  /**
+   * Turn transitions between touching clips on a track into blend layers centred on the cut.
+   * The outgoing clip ends half the transition early and the incoming one starts half of it late;
+   * the layer between them plays both, each running half the transition past its trim point.
+   * Each clip gives at most half its length to each cut, so transitions never overlap.
+   */
+  private applyTransitions(clips: ExportClip[]): ExportClip[] {
+    const result = clips.map(clip => ({ ...clip }));
+    const layers: ExportClip[] = [];
+    
+    clips.forEach((to, toIndex) => {
+      // The webcam box has its own framing, so its clips always cut
+      if (!to.transitionIn || !XFADE_TRANSITIONS[to.transitionIn.type] || to.overlayBox) return;
+      
+      const fromIndex = clips.findIndex(clip =>
+        clip !== to && clip.trackId === to.trackId && Math.abs(clip.endTime - to.startTime) < EPSILON
+      );
+      if (fromIndex < 0) return;
+      
+      const from = clips[fromIndex];
+      const duration = Math.min(to.transitionIn.duration, from.endTime - from.startTime, to.endTime - to.startTime);
+      if (!(duration >= MIN_SEGMENT_DURATION)) return;
+      
+      const half = duration / 2;
+      const cut = to.startTime;
+      result[fromIndex].endTime -= half;
+      result[fromIndex].trimOut -= half;
+      result[toIndex].startTime += half;
+      result[toIndex].trimIn += half;
+      
+      layers.push({
+        ...to,
+        trimIn: to.trimIn - half,
+        trimOut: to.trimIn + half,
+        startTime: cut - half,
+        endTime: cut + half,
+        transitionIn: undefined,
+        transition: {
+          type: to.transitionIn.type,
+          from: { ...from, trimIn: from.trimOut - half, trimOut: from.trimOut + half, startTime: cut - half, endTime: cut + half }
+        }
+      });
+    });
+    
+    if (layers.length > 0) {
+      console.log(`🔀 Rendering ${layers.length} transition${layers.length === 1 ? '' : 's'}`);
+    }
+    return [...result, ...layers];
   }
 
   /**
-   * Extract clips from timeline data
-   */
-  private extractClipsFromTimeline(timeline: { tracks: any[] }): Array<{
-    sourceFile: string;
-    trimIn: number;
-    trimOut: number;
-    startTime: number;
-    endTime: number;
-    trackId: string;
-    trackNumber: number;
-  }> {
-    const clips: Array<{
-      sourceFile: string;
-      trimIn: number;
-      trimOut: number;
-      startTime: number;
-      endTime: number;
-      trackId: string;
-      trackNumber: number;
-    }> = [];
-    
-    for (const track of timeline.tracks) {
+   * Extract clips from timeline data, only the given timeline clips when `clipIds` is set
+   */
+  private extractClipsFromTimeline(timeline: ExportTimeline, config: ExportConfig, clipIds?: string[]): ExportClip[] {
+    const clips: ExportClip[] = [];
+    const { webcam } = timeline;
+    
+    timeline.tracks.forEach((track, trackIndex) => {
+      // Caption tracks carry cues, which getCaptionCues picks up
+      if (track.kind === 'caption') return;
+      
       if (track.clips && Array.isArray(track.clips)) {
-        // Extract track number from trackId (e.g., "track-1" -> 1)
-        const trackNumber = parseInt(track.id.replace(/\D/g, '')) || 0;
+        // Stacking follows track order like the preview: each track is drawn over the ones before it.
+        // The webcam track goes above every other track, like the preview's overlay.
+        const isWebcamTrack = webcam?.trackId === track.id;
+        const trackNumber = isWebcamTrack ? timeline.tracks.length + 1 : trackIndex + 1;
+        
+        // Hidden tracks contribute no picture, muted tracks no sound; audio tracks only ever sound
+        const hasVideo = track.visible !== false && track.kind !== 'audio';
+        const hasAudio = track.muted !== true;
+        
+        if (!hasVideo && !hasAudio) {
+          console.log(`⚠️ Skipping hidden and muted track: ${track.name || track.id}`);
+          return;
+        }
         
         for (const clip of track.clips) {
+          // Selected-clip exports leave everything else out; the gaps between them stay black
+          if (clipIds && !clipIds.includes(clip.id)) continue;
+          
           const duration = (clip.trimOut - clip.trimIn) || clip.metadata?.duration || 0;
           
+          if (track.kind === 'text') {
+            if (!clip.text || !hasVideo) continue;
+            
+            clips.push({
+              sourceFile: '',
+              trimIn: 0,
+              trimOut: duration,
+              startTime: clip.startTime || 0,
+              endTime: (clip.startTime || 0) + duration,
+              trackId: track.id,
+              trackNumber,
+              hasVideo,
+              hasAudio: false,
+              gain: 0,
+              transform: { x: 0, y: 0, scale: 1 },
+              opacity: clip.opacity ?? 1,
+              scalingMode: DEFAULT_SCALING_MODE,
+              text: { settings: clip.text, duration }
+            });
+            continue;
+          }
+          
+          // A still's source time counts from the clip start, which is what its Ken Burns move follows
+          const isStill = clip.metadata?.kind === 'image';
+          const { width, height } = clip.metadata?.resolution || { width: 0, height: 0 };
+          const kenBurns: ExportKenBurns | undefined = isStill && clip.kenBurns
+            ? {
+                ...clip.kenBurns,
+                duration,
+                sourceAspect: width > 0 && height > 0 ? width / height : config.resolution.width / config.resolution.height
+              }
+            : undefined;
+          
           clips.push({
             sourceFile: clip.sourceFile,
-            trimIn: clip.trimIn || 0,
-            trimOut: clip.trimOut || clip.metadata?.duration || 0,
+            trimIn: isStill ? 0 : clip.trimIn || 0,
+            trimOut: isStill ? duration : clip.trimOut || clip.metadata?.duration || 0,
             startTime: clip.startTime || 0,
             endTime: (clip.startTime || 0) + duration,
             trackId: track.id,
-            trackNumber: trackNumber
+            trackNumber: trackNumber,
+            hasVideo,
+            hasAudio,
+            gain: (track.gain ?? 1) * (clip.gain ?? 1),
+            transform: {
+              x: clip.transform?.x ?? 0,
+              y: clip.transform?.y ?? 0,
+              scale: clip.transform?.scale ?? 1
+            },
+            opacity: clip.opacity ?? 1,
+            // The Ken Burns windows replace the crop
+            ...this.resolveFraming(kenBurns ? { ...clip, crop: undefined } : clip, config),
+            overlayBox: isWebcamTrack ? webcam : undefined,
+            transitionIn: clip.transitionIn,
+            isStill,
+            kenBurns,
+            color: this.hasColorCorrection(clip.color) ? clip.color : undefined
           });
         }
       }
+    });
+    
+    // A media clip chosen as the webcam source plays in the box from the start, picture only
+    if (webcam?.clip) {
+      const { clip } = webcam;
+      const trimIn = clip.trimIn || 0;
+      const trimOut = clip.trimOut || clip.metadata?.duration || 0;
+      
+      clips.push({
+        sourceFile: clip.sourceFile,
+        trimIn,
+        trimOut,
+        startTime: 0,
+        endTime: trimOut - trimIn,
+        trackId: 'webcam',
+        trackNumber: timeline.tracks.length + 1,
+        hasVideo: true,
+        hasAudio: false,
+        gain: 1,
+        transform: { x: 0, y: 0, scale: 1 },
+        opacity: clip.opacity ?? 1,
+        scalingMode: 'fill', // The webcam box always crops to fill, see buildWebcamLayerFilter
+        overlayBox: webcam,
+        isStill: clip.metadata?.kind === 'image',
+        color: this.hasColorCorrection(clip.color) ? clip.color : undefined
+      });
     }
     
     console.log(`📊 Extracted ${clips.length} clips from ${timeline.tracks.length} tracks`);
@@ -934,6 +2606,7 @@ export class ExportService implements IExportService {
    * Emit progress event
    */
   private emitProgress(exportId: string, progress: ExportProgress): void {
+    this.lastProgress.set(exportId, progress);
     this.eventEmitter.emit('exportProgress', {
       exportId,
       progress
@@ -0,0 +1,18 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ffmpegManager } from './FFmpegManager';
+
+vi.mock('electron', () => ({ app: { getPath: () => '' } }));
+
+describe('FFmpegManager.parseVersion', () => {
+  const parse = (firstLine: string) => ffmpegManager['parseVersion'](`${firstLine}\nbuilt with gcc 13\n`);
+
+  it('reads major.minor from release and distribution builds', () => {
+    expect(parse('ffmpeg version 6.1.1-3ubuntu5 Copyright (c) 2000-2023 the FFmpeg developers')).toEqual({ major: 6, minor: 1 });
+    expect(parse('ffmpeg version n7.0 Copyright (c) 2000-2024 the FFmpeg developers')).toEqual({ major: 7, minor: 0 });
+    expect(parse('ffmpeg version 5.1.4-0+deb12u1 Copyright (c) 2000-2023 the FFmpeg developers')).toEqual({ major: 5, minor: 1 });
+  });
+
+  it('reports no version for git snapshots', () => {
+    expect(parse('ffmpeg version N-113456-g0a5c1e9b3e-20240101 Copyright (c) 2000-2024 the FFmpeg developers')).toBeNull();
+  });
+});
@@ -14,6 +14,7 @@ export class FFmpegManager implements IFFmpegManager {
   private static instance: FFmpegManager;
   private ffmpegPath: string | null = null;
   private ffprobePath: string | null = null;
+  private version: { major: number; minor: number } | null = null;
   private isInitialized = false;
 
   private constructor() {}
@@ -52,6 +53,11 @@ export class FFmpegManager implements IFFmpegManager {
         }
       }
 
+      if (this.ffmpegPath !== 'mock') {
+        this.version = await this.readVersion(this.ffmpegPath);
+        console.log('🔍 FFmpeg version:', this.getVersion() ?? 'unknown');
+      }
+
       // Validate FFprobe binary
       if (await this.validateBinary(binaryPaths.ffprobe)) {
         this.ffprobePath = binaryPaths.ffprobe;
@@ -103,6 +109,22 @@ export class FFmpegManager implements IFFmpegManager {
     return this.ffmpegPath === 'mock' || this.ffprobePath === 'mock';
   }
 
+  /**
+   * FFmpeg's major.minor version, e.g. '6.1'; null in mock mode or for builds that don't report one
+   */
+  getVersion(): string | null {
+    return this.version ? `${this.version.major}.${this.version.minor}` : null;
+  }
+
+  /**
+   * Check FFmpeg is at least major.minor. Builds without a release number (e.g. git snapshots)
+   * are taken to be recent enough.
+   */
+  isVersionAtLeast(major: number, minor = 0): boolean {
+    if (!this.version) return true;
+    return this.version.major > major || (this.version.major === major && this.version.minor >= minor);
+  }
+
   async getAvailableCodecs(): Promise<string[]> {
     if (!this.isReady()) {
       throw new Error('FFmpeg not ready');
@@ -196,6 +218,28 @@ export class FFmpegManager implements IFFmpegManager {
     };
   }
 
+  /**
+   * Read the release number from `ffmpeg -version`: "ffmpeg version 6.1.1-3ubuntu5 ..." or "... n6.1 ..."
+   */
+  private async readVersion(binaryPath: string): Promise<{ major: number; minor: number } | null> {
+    try {
+      const { exec } = await import('child_process');
+      const { promisify } = await import('util');
+      const execAsync = promisify(exec);
+      
+      const { stdout } = await execAsync(`"${binaryPath}" -version`, { timeout: 5000 });
+      return this.parseVersion(stdout);
+    } catch (error) {
+      console.warn(`Failed to read FFmpeg version from ${binaryPath}:`, error);
+      return null;
+    }
+  }
+
+  private parseVersion(output: string): { major: number; minor: number } | null {
+    const match = output.match(/^ffmpeg version n?(\d+)\.(\d+)/m);
+    return match ? { major: Number(match[1]), minor: Number(match[2]) } : null;
+  }
+
   private async validateBinary(binaryPath: string): Promise<boolean> {
     try {
       // Check if file exists
@@ -0,0 +1,84 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { lutService } from './LutService';
+
+// Identity LUT of the given size, red changing fastest
+const identityCube = (size: number, header = `LUT_3D_SIZE ${size}`) => {
+  const rows: string[] = [];
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        rows.push([r, g, b].map(value => (value / (size - 1)).toFixed(6)).join(' '));
+      }
+    }
+  }
+  return `${header}\n${rows.join('\n')}\n`;
+};
+
+const parseCube = (content: string) => lutService['parseCube'](content);
+
+describe('LutService.parseCube', () => {
+  it('reads the title, size and table, ignoring comments and domain lines', () => {
+    const content = [
+      '# Made by hand',
+      'TITLE "Warm look"',
+      'DOMAIN_MIN 0 0 0',
+      'DOMAIN_MAX 1 1 1',
+      identityCube(2).trimEnd() + '  # last entry'
+    ].join('\r\n');
+
+    const lut = parseCube(content);
+
+    expect(lut.title).toBe('Warm look');
+    expect(lut.size).toBe(2);
+    expect(lut.table).toHaveLength(8);
+    expect(lut.table[1]).toEqual([1, 0, 0]);
+    expect(lut.table[7]).toEqual([1, 1, 1]);
+  });
+
+  it('reads signed, fractional and exponent entries', () => {
+    const entries = ['-0.1 .5 1e-1', '+1 1 1', ...Array(6).fill('0 0 0')];
+    const lut = parseCube(['LUT_3D_SIZE 2', ...entries].join('\n'));
+
+    expect(lut.table[0]).toEqual([-0.1, 0.5, 0.1]);
+    expect(lut.table[1]).toEqual([1, 1, 1]);
+  });
+
+  it('rejects 1D LUTs', () => {
+    expect(() => parseCube('LUT_1D_SIZE 2\n0 0 0\n1 1 1')).toThrow('Only 3D LUTs are supported');
+  });
+
+  it('rejects a missing or out of range size', () => {
+    expect(() => parseCube('0 0 0\n1 1 1')).toThrow('Missing or invalid LUT_3D_SIZE');
+    expect(() => parseCube(identityCube(2, 'LUT_3D_SIZE 1'))).toThrow('Missing or invalid LUT_3D_SIZE');
+    expect(() => parseCube('LUT_3D_SIZE 257')).toThrow('Missing or invalid LUT_3D_SIZE');
+  });
+
+  it('rejects a table of the wrong length', () => {
+    expect(() => parseCube(identityCube(2, 'LUT_3D_SIZE 3'))).toThrow('Expected 27 LUT entries, found 8');
+  });
+
+  it('rejects malformed entries', () => {
+    expect(() => parseCube('LUT_3D_SIZE 2\n0 0\n')).toThrow('Invalid LUT entry: 0 0');
+    expect(() => parseCube('LUT_3D_SIZE 2\n0 0 x\n')).toThrow('Invalid LUT entry: 0 0 x');
+  });
+});
+
+describe('LutService.readLutFile', () => {
+  it('names the LUT after the file when it has no title and samples its grey axis', async () => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'lut-'));
+    const file = path.join(dir, 'identity.cube');
+
+    try {
+      await fs.promises.writeFile(file, identityCube(3));
+      const lut = await lutService.readLutFile(file);
+
+      expect(lut).toMatchObject({ file, name: 'identity' });
+      expect(lut.previewCurves).toEqual({ r: [0, 0.5, 1], g: [0, 0.5, 1], b: [0, 0.5, 1] });
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * LUT Service
+ *
+ * Implements ILutService: reading the .cube 3D LUTs clips are color graded with.
+ *
+ * Features:
+ * - Adobe/Resolve .cube parsing (TITLE, LUT_3D_SIZE, DOMAIN_MIN/MAX, red-fastest table)
+ * - Grey axis curves the preview approximates the LUT with; the export applies the file itself
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ILutService } from '../../shared/contracts/services';
+import { ClipLut } from '../../shared/types';
+
+// FFmpeg's lut3d reads tables up to this size
+const MAX_LUT_SIZE = 256;
+
+interface CubeLut {
+  title?: string;
+  size: number;
+  table: number[][];            // size^3 RGB entries, red changing fastest
+}
+
+export class LutService implements ILutService {
+  private static instance: LutService;
+
+  private constructor() {}
+
+  static getInstance(): LutService {
+    if (!LutService.instance) {
+      LutService.instance = new LutService();
+    }
+    return LutService.instance;
+  }
+
+  async readLutFile(filePath: string): Promise<ClipLut> {
+    const content = await fs.promises.readFile(filePath, 'utf-8');
+    const lut = this.parseCube(content);
+
+    console.log(`🎨 Read ${lut.size}³ LUT from ${filePath}`);
+    return {
+      file: filePath,
+      name: lut.title || path.basename(filePath, path.extname(filePath)),
+      previewCurves: this.getGreyCurves(lut)
+    };
+  }
+
+  private parseCube(content: string): CubeLut {
+    let title: string | undefined;
+    let size = 0;
+    const table: number[][] = [];
+
+    for (const rawLine of content.replace(/^\uFEFF/, '').split(/\r\n?|\n/)) {
+      const line = rawLine.replace(/#.*/, '').trim();
+      if (!line) continue;
+
+      const [keyword, ...values] = line.split(/\s+/);
+      if (keyword === 'TITLE') {
+        title = line.slice('TITLE'.length).trim().replace(/^"|"$/g, '') || undefined;
+      } else if (keyword === 'LUT_3D_SIZE') {
+        size = parseInt(values[0], 10);
+      } else if (keyword === 'LUT_1D_SIZE') {
+        throw new Error('Only 3D LUTs are supported');
+      } else if (/^[-+.\d]/.test(keyword)) {
+        const entry = [keyword, ...values].map(Number);
+        if (entry.length !== 3 || entry.some(isNaN)) {
+          throw new Error(`Invalid LUT entry: ${line}`);
+        }
+        table.push(entry);
+      }
+      // DOMAIN_MIN/MAX and other keywords only matter to lut3d
+    }
+
+    if (!(size >= 2 && size <= MAX_LUT_SIZE)) {
+      throw new Error('Missing or invalid LUT_3D_SIZE');
+    }
+    if (table.length !== size ** 3) {
+      throw new Error(`Expected ${size ** 3} LUT entries, found ${table.length}`);
+    }
+
+    return { title, size, table };
+  }
+
+  /**
+   * Each channel's output along the grey axis (equal red, green and blue in), clamped to 0-1
+   */
+  private getGreyCurves({ size, table }: CubeLut): ClipLut['previewCurves'] {
+    const grey = Array.from({ length: size }, (_, i) => table[i + i * size + i * size * size]);
+    const channel = (index: number) => grey.map(entry => Math.max(0, Math.min(1, entry[index])));
+
+    return { r: channel(0), g: channel(1), b: channel(2) };
+  }
+}
+
+// Export singleton instance
+export const lutService = LutService.getInstance();
@@ -0,0 +1,86 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import ffmpeg, { FfprobeData, FfprobeStream } from 'fluent-ffmpeg';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { mediaService } from './MediaService';
+
+// FFmpeg is found and probing is answered by each test
+vi.mock('./FFmpegManager', () => ({
+  ffmpegManager: {
+    isReady: () => true,
+    isMockMode: () => false,
+    getFFmpegPath: () => 'ffmpeg',
+    getFFprobePath: () => 'ffprobe'
+  }
+}));
+
+let mediaDir: string;
+
+beforeAll(() => {
+  mediaDir = fs.mkdtempSync(path.join(os.tmpdir(), 'clipforge-media-'));
+});
+
+afterAll(() => {
+  fs.rmSync(mediaDir, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// An empty file with the given name; only its extension and what ffprobe says about it matter
+const mediaFile = (name: string) => {
+  const file = path.join(mediaDir, name);
+  fs.writeFileSync(file, '');
+  return file;
+};
+
+const probeAs = (streams: Partial<FfprobeStream>[], format: FfprobeData['format'] = {}) => {
+  const data = { streams, format, chapters: [] } as FfprobeData;
+  vi.spyOn(ffmpeg, 'ffprobe').mockImplementation(
+    ((_file: string, callback: (err: unknown, data: FfprobeData) => void) => callback(null, data)) as typeof ffmpeg.ffprobe
+  );
+};
+
+describe('MediaService.getMetadata for stills', () => {
+  it('gives images the longest still length and no frame rate', async () => {
+    probeAs([{ codec_type: 'video', codec_name: 'mjpeg', width: 4032, height: 3024 }]);
+
+    const metadata = await mediaService.getMetadata(mediaFile('photo.JPG'));
+
+    expect(metadata).toMatchObject({
+      kind: 'image',
+      duration: 3600,
+      resolution: { width: 4032, height: 3024 },
+      frameRate: 0,
+      codec: 'mjpeg'
+    });
+  });
+});
+
+describe('MediaService.getMetadata for sound files', () => {
+  it('reads audio files as sound only, even when they carry cover art', async () => {
+    probeAs([
+      { codec_type: 'video', codec_name: 'png', width: 600, height: 600 },
+      { codec_type: 'audio', codec_name: 'mp3', sample_rate: 44100, channels: 2 }
+    ], { duration: 184.2 });
+
+    const metadata = await mediaService.getMetadata(mediaFile('song.mp3'));
+
+    expect(metadata).toMatchObject({
+      kind: 'audio',
+      duration: 184.2,
+      resolution: { width: 0, height: 0 },
+      frameRate: 0,
+      codec: 'mp3',
+      audio: { codec: 'mp3', sampleRate: 44100, channels: 2 }
+    });
+  });
+
+  it('rejects audio files without a sound stream', async () => {
+    probeAs([{ codec_type: 'video', codec_name: 'png' }]);
+
+    await expect(mediaService.getMetadata(mediaFile('art.flac'))).rejects.toThrow('No audio stream found in file');
+  });
+});
@@ -3,15 +3,26 @@
  * 
  * Implements IMediaService interface for video processing operations.
  * Uses FFmpeg for metadata extraction, thumbnail generation, and video manipulation.
+ * PNG and JPEG stills are imported alongside video, as clips with no source length.
+ * WAV, MP3, AAC, FLAC and OGG files are imported as sound-only media for audio tracks.
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import ffmpeg from 'fluent-ffmpeg';
 import { IMediaService } from '../../shared/contracts/services';
-import { VideoMetadata } from '../../shared/types';
+import { AudioStreamInfo, VideoMetadata } from '../../shared/types';
 import { ffmpegManager } from './FFmpegManager';
 
+// Still image formats that can be imported as clips
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg'];
+
+// Sound-only formats that can be imported onto audio tracks
+const AUDIO_EXTENSIONS = ['.wav', '.mp3', '.aac', '.flac', '.ogg'];
+
+// Still images have no source length, so their clips can be trimmed out to this length
+const STILL_IMAGE_MAX_DURATION = 3600;
+
 export class MediaService implements IMediaService {
   private ffmpeg: typeof ffmpeg;
 
@@ -32,13 +43,34 @@ export class MediaService implements IMediaService {
     // Mock mode for development/testing
     if (ffmpegManager.isMockMode()) {
       console.log('🎭 Using mock metadata for:', filePath);
-      return {
-        duration: 30.5,
-        resolution: { width: 1920, height: 1080 },
-        frameRate: 29.97,
-        codec: 'h264',
-        size: fs.statSync(filePath).size,
-      };
+      if (this.isAudioFile(filePath)) {
+        return {
+          duration: 30.5,
+          resolution: { width: 0, height: 0 },
+          frameRate: 0,
+          codec: 'mp3',
+          size: fs.statSync(filePath).size,
+          kind: 'audio',
+          audio: { codec: 'mp3', sampleRate: 44100, channels: 2 },
+        };
+      }
+      return this.isImageFile(filePath)
+        ? {
+            duration: STILL_IMAGE_MAX_DURATION,
+            resolution: { width: 1920, height: 1080 },
+            frameRate: 0,
+            codec: 'png',
+            size: fs.statSync(filePath).size,
+            kind: 'image',
+          }
+        : {
+            duration: 30.5,
+            resolution: { width: 1920, height: 1080 },
+            frameRate: 29.97,
+            codec: 'h264',
+            size: fs.statSync(filePath).size,
+            audio: { codec: 'aac', sampleRate: 48000, channels: 2 },
+          };
     }
 
     return new Promise((resolve, reject) => {
@@ -49,14 +81,68 @@ export class MediaService implements IMediaService {
         }
 
         try {
+          const audioStream = metadata.streams.find(stream => stream.codec_type === 'audio');
+          const audio: AudioStreamInfo | undefined = audioStream
+            ? {
+                codec: audioStream.codec_name || 'unknown',
+                sampleRate: Number(audioStream.sample_rate) || 0,
+                channels: audioStream.channels || 0,
+              }
+            : undefined;
+
+          // Audio files can carry cover art as a video stream, so they're told apart by extension
+          if (this.isAudioFile(filePath)) {
+            if (!audioStream || !audio) {
+              reject(new Error('No audio stream found in file'));
+              return;
+            }
+
+            const duration = parseFloat(String(metadata.format?.duration ?? audioStream.duration ?? ''));
+            if (isNaN(duration) || duration <= 0) {
+              reject(new Error('Could not determine audio duration'));
+              return;
+            }
+
+            const audioMetadata: VideoMetadata = {
+              duration,
+              resolution: { width: 0, height: 0 },
+              frameRate: 0,
+              codec: audio.codec,
+              size: fs.statSync(filePath).size,
+              kind: 'audio',
+              audio,
+            };
+
+            console.log('✅ Parsed audio metadata:', audioMetadata);
+            resolve(audioMetadata);
+            return;
+          }
+
           const videoStream = metadata.streams.find(stream => stream.codec_type === 'video');
           if (!videoStream) {
             reject(new Error('No video stream found in file'));
             return;
           }
 
-          const audioStream = metadata.streams.find(stream => stream.codec_type === 'audio');
-          
+          // Images probe as a single-frame video stream with no usable duration
+          if (this.isImageFile(filePath)) {
+            const imageMetadata: VideoMetadata = {
+              duration: STILL_IMAGE_MAX_DURATION,
+              resolution: {
+                width: videoStream.width || 0,
+                height: videoStream.height || 0,
+              },
+              frameRate: 0,
+              codec: videoStream.codec_name || 'unknown',
+              size: fs.statSync(filePath).size,
+              kind: 'image',
+            };
+
+            console.log('✅ Parsed image metadata:', imageMetadata);
+            resolve(imageMetadata);
+            return;
+          }
+
           // Debug logging for duration parsing
           console.log('🔍 FFprobe metadata format:', {
             formatDuration: metadata.format?.duration,
@@ -117,6 +203,7 @@ export class MediaService implements IMediaService {
             frameRate: this.parseFrameRate(videoStream.r_frame_rate || '0/1'),
             codec: videoStream.codec_name || 'unknown',
             size: fs.statSync(filePath).size,
+            audio,
           };
 
           console.log('✅ Parsed metadata:', videoMetadata);
@@ -192,7 +279,7 @@ export class MediaService implements IMediaService {
     });
   }
 
-  async validateVideoFile(filePath: string): Promise<{ isValid: boolean; error?: string }> {
+  async validateMediaFile(filePath: string): Promise<{ isValid: boolean; error?: string }> {
     try {
       if (!fs.existsSync(filePath)) {
         return { isValid: false, error: 'File does not exist' };
@@ -203,7 +290,7 @@ export class MediaService implements IMediaService {
         return { isValid: false, error: 'File is empty' };
       }
 
-      // Try to get metadata to validate it's a proper video file
+      // Try to get metadata to validate it's a proper video, image or audio file
       await this.getMetadata(filePath);
       return { isValid: true };
 
@@ -331,6 +418,14 @@ export class MediaService implements IMediaService {
     }
   }
 
+  private isImageFile(filePath: string): boolean {
+    return IMAGE_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+  }
+
+  private isAudioFile(filePath: string): boolean {
+    return AUDIO_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+  }
+
   private parseFrameRate(frameRate: string): number {
     try {
       const [numerator, denominator] = frameRate.split('/').map(Number);
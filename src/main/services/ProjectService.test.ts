@@ -0,0 +1,73 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterAll, describe, expect, it, vi } from 'vitest';
+import { Project } from '../../shared/types';
+import { projectService } from './ProjectService';
+
+// Recent projects are kept in userData, which a test run keeps in a temp folder
+vi.mock('electron', async () => {
+  const fs = await import('fs');
+  const os = await import('os');
+  const path = await import('path');
+  const userData = fs.mkdtempSync(path.join(os.tmpdir(), 'clipforge-'));
+  return { app: { getPath: () => userData } };
+});
+
+const projectsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'clipforge-projects-'));
+
+afterAll(() => {
+  fs.rmSync(projectsDir, { recursive: true, force: true });
+});
+
+const thumbnail = `data:image/jpeg;base64,${Buffer.from('thumbnail').toString('base64')}`;
+
+const withMedia = (project: Project, itemThumbnail: string): Project => ({
+  ...project,
+  mediaLibrary: {
+    items: [{
+      id: 'item-1',
+      clip: {
+        id: 'clip-1',
+        sourceFile: '/media/a.mp4',
+        startTime: 0,
+        endTime: 5,
+        trimIn: 0,
+        trimOut: 5,
+        trackId: '',
+        metadata: { duration: 5, resolution: { width: 1920, height: 1080 }, frameRate: 30, codec: 'h264', size: 1, thumbnail }
+      },
+      addedAt: new Date(0).toISOString(),
+      thumbnail: itemThumbnail
+    }]
+  }
+});
+
+const readProjectFile = (filePath: string): Project => JSON.parse(fs.readFileSync(filePath, 'utf8'));
+
+describe('ProjectService media thumbnails', () => {
+  it('writes thumbnails to a cache folder beside the project and reads them back on load', async () => {
+    const filePath = path.join(projectsDir, 'trip.clipforge');
+
+    await projectService.saveProject(withMedia(projectService.createProject('Trip'), thumbnail), filePath);
+
+    const [saved] = readProjectFile(filePath).mediaLibrary!.items;
+    expect(saved.thumbnail).toBe(path.join('trip.thumbnails', 'item-1.jpg'));
+    expect(saved.clip.metadata.thumbnail).toBeUndefined();
+
+    const [loaded] = (await projectService.loadProject(filePath)).mediaLibrary!.items;
+    expect(loaded.thumbnail).toBe(thumbnail);
+  });
+
+  it('caches a thumbnail still held as a cache reference again when saved to another folder', async () => {
+    const project = projectService.createProject('Trip');
+    await projectService.saveProject(withMedia(project, thumbnail), path.join(projectsDir, 'first', 'trip.clipforge'));
+
+    const copyPath = path.join(projectsDir, 'second', 'copy.clipforge');
+    await projectService.saveProject(withMedia(project, path.join('trip.thumbnails', 'item-1.jpg')), copyPath);
+
+    const [saved] = readProjectFile(copyPath).mediaLibrary!.items;
+    expect(saved.thumbnail).toBe(path.join('copy.thumbnails', 'item-1.jpg'));
+    expect(fs.readFileSync(path.join(projectsDir, 'second', 'copy.thumbnails', 'item-1.jpg'), 'utf8')).toBe('thumbnail');
+  });
+});
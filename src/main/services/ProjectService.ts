@@ -9,11 +9,12 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import { app } from 'electron';
 import { IProjectService } from '../../shared/contracts/services';
-import { Project, ProjectSettings, ProjectMetadata } from '../../shared/types';
+import { Project, ProjectSettings, ProjectMetadata, ProjectMediaItem } from '../../shared/types';
 
 export class ProjectService implements IProjectService {
   private readonly recentProjectsFile: string;
   private readonly maxRecentProjects: number = 10;
+  private readonly projectFiles = new Map<string, string>(); // Project ID -> file it was last loaded from or saved to
 
   constructor() {
     // Store recent projects in userData directory
@@ -45,9 +46,15 @@ export class ProjectService implements IProjectService {
       const dir = path.dirname(finalFilePath);
       await fs.mkdir(dir, { recursive: true });
       
+      // Write media library thumbnails to the cache folder instead of inlining base64
+      const mediaLibrary = project.mediaLibrary
+        ? { items: await this.cacheMediaThumbnails(project.mediaLibrary.items, finalFilePath, this.projectFiles.get(project.id)) }
+        : undefined;
+      
       // Serialize project to JSON
       const projectData = {
         ...project,
+        mediaLibrary,
         metadata: {
           ...project.metadata,
           modified: new Date(),
@@ -58,6 +65,7 @@ export class ProjectService implements IProjectService {
       
       // Write to file
       await fs.writeFile(finalFilePath, jsonData, 'utf8');
+      this.projectFiles.set(project.id, finalFilePath);
       
       // Add to recent projects
       await this.addToRecentProjects(finalFilePath);
@@ -82,7 +90,13 @@ export class ProjectService implements IProjectService {
       const projectData = JSON.parse(jsonData);
       
       // Validate project structure
-      this.validateProject(projectData);
+      this.validateProjectStructure(projectData);
+      
+      // Restore cached thumbnails and flag media whose source file has gone missing
+      if (projectData.mediaLibrary && Array.isArray(projectData.mediaLibrary.items)) {
+        projectData.mediaLibrary.items = await this.restoreMediaLibrary(projectData.mediaLibrary.items, filePath);
+      }
+      this.projectFiles.set(projectData.id, filePath);
       
       // Add to recent projects
       await this.addToRecentProjects(filePath);
@@ -232,6 +246,129 @@ export class ProjectService implements IProjectService {
     if (!project.timeline || typeof project.timeline !== 'object') {
       throw new Error('Project must have valid timeline');
     }
+    
+    if (!Array.isArray(project.timeline.tracks)) {
+      throw new Error('Project timeline must have a tracks array');
+    }
+    
+    for (const track of project.timeline.tracks) {
+      if (!track || typeof track.id !== 'string' || !Array.isArray(track.clips)) {
+        throw new Error('Project timeline contains an invalid track');
+      }
+    }
+  }
+
+  private getThumbnailCacheDir(projectFilePath: string): string {
+    const baseName = path.basename(projectFilePath, path.extname(projectFilePath));
+    return path.join(path.dirname(projectFilePath), `${baseName}.thumbnails`);
+  }
+
+  private async cacheMediaThumbnails(
+    items: ProjectMediaItem[],
+    projectFilePath: string,
+    previousFilePath = projectFilePath
+  ): Promise<ProjectMediaItem[]> {
+    const cacheDir = this.getThumbnailCacheDir(projectFilePath);
+    const cachedFiles = new Set<string>();
+    const savedItems: ProjectMediaItem[] = [];
+    
+    for (const item of items) {
+      let thumbnail = item.thumbnail || item.clip.metadata.thumbnail;
+      if (thumbnail && !thumbnail.startsWith('data:')) {
+        // Still a cache reference (e.g. item never had its thumbnail reloaded). It's relative to the
+        // file it was saved with, so it's read from there and cached again for this one
+        thumbnail = await this.readCachedThumbnail(thumbnail, previousFilePath);
+      }
+      const savedItem: ProjectMediaItem = {
+        id: item.id,
+        clip: { ...item.clip, metadata: { ...item.clip.metadata, thumbnail: undefined } },
+        addedAt: item.addedAt,
+      };
+      
+      const match = thumbnail?.match(/^data:image\/(\w+);base64,(.+)$/);
+      if (match) {
+        try {
+          const fileName = `${item.id}.${match[1] === 'jpeg' ? 'jpg' : match[1]}`;
+          await fs.mkdir(cacheDir, { recursive: true });
+          await fs.writeFile(path.join(cacheDir, fileName), Buffer.from(match[2], 'base64'));
+          savedItem.thumbnail = path.join(path.basename(cacheDir), fileName);
+          cachedFiles.add(fileName);
+        } catch (error) {
+          // A missing thumbnail is regenerated by the media library, so don't fail the save
+          console.error(`⚠️ Failed to cache thumbnail for ${item.clip.sourceFile}: ${error}`);
+        }
+      }
+      
+      savedItems.push(savedItem);
+    }
+    
+    // Remove thumbnails of items that were deleted from the library
+    try {
+      const existingFiles = await fs.readdir(cacheDir);
+      for (const fileName of existingFiles) {
+        if (!cachedFiles.has(fileName)) {
+          await fs.unlink(path.join(cacheDir, fileName));
+        }
+      }
+    } catch {
+      // No cache folder yet
+    }
+    
+    return savedItems;
+  }
+
+  private async restoreMediaLibrary(items: ProjectMediaItem[], projectFilePath: string): Promise<ProjectMediaItem[]> {
+    const restoredItems: ProjectMediaItem[] = [];
+    
+    for (const item of items) {
+      if (!item || !item.clip || typeof item.clip.sourceFile !== 'string') {
+        console.log('⚠️ Skipping invalid media library item');
+        continue;
+      }
+      
+      let offline = false;
+      try {
+        await fs.access(item.clip.sourceFile);
+      } catch {
+        console.log(`⚠️ Media file is offline: ${item.clip.sourceFile}`);
+        offline = true;
+      }
+      
+      const thumbnail = item.thumbnail && !item.thumbnail.startsWith('data:')
+        ? await this.readCachedThumbnail(item.thumbnail, projectFilePath)
+        : item.thumbnail;
+      
+      restoredItems.push({
+        ...item,
+        clip: { ...item.clip, metadata: { ...item.clip.metadata, thumbnail } },
+        thumbnail,
+        offline,
+      });
+    }
+    
+    return restoredItems;
+  }
+
+  /**
+   * Read a thumbnail cache reference back as a data URL
+   */
+  private async readCachedThumbnail(reference: string, projectFilePath: string): Promise<string | undefined> {
+    // Only files in this project's own cache folder are read, whatever the project file says
+    const cacheDir = path.resolve(this.getThumbnailCacheDir(projectFilePath));
+    const thumbnailFile = path.resolve(path.dirname(projectFilePath), reference);
+    if (path.dirname(thumbnailFile) !== cacheDir) {
+      console.log(`⚠️ Ignoring thumbnail outside the project's cache folder: ${reference}`);
+      return undefined;
+    }
+    
+    try {
+      const buffer = await fs.readFile(thumbnailFile);
+      const ext = path.extname(reference).slice(1).toLowerCase();
+      return `data:image/${ext === 'jpg' ? 'jpeg' : ext};base64,${buffer.toString('base64')}`;
+    } catch {
+      console.log(`⚠️ Cached thumbnail missing: ${reference}`);
+      return undefined;
+    }
   }
 
   private async getRecentProjects(): Promise<string[]> {
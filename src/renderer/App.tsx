@@ -3,15 +3,21 @@
  * Track 8 Test: Media Library UI
  */
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { MediaLibrary } from './components/media/MediaLibrary';
 import { VideoPreview } from './components/preview/VideoPreview';
 import { Timeline } from './components/timeline/Timeline';
+import { ClipInspector } from './components/timeline/ClipInspector';
 import { RecordDialog } from './components/recording/RecordDialog';
 import { RecordingDrawer } from './components/recording/RecordingDrawer';
 import { Toolbar } from './components/layout/Toolbar';
 import { ResizableSplitter } from './components/layout/ResizableSplitter';
+import { ExportDialog } from './components/export/ExportDialog';
+import { ExportQueuePanel } from './components/export/ExportQueuePanel';
 import { useMediaStore } from './store/mediaStore';
+import { useExportStore } from './store/exportStore';
+import { useTimelineStore } from './store/timelineStore';
+import { useProjectStore } from './store/projectStore';
 import { RecordingSource } from '../shared/types';
 
 export const App: React.FC = () => {
@@ -20,6 +26,42 @@ export const App: React.FC = () => {
   const [selectedRecordingSource, setSelectedRecordingSource] = useState<RecordingSource | null>(null);
   const [recordingStream, setRecordingStream] = useState<MediaStream | null>(null);
   const addItems = useMediaStore((state) => state.addItems);
+  const exportStore = useExportStore();
+  const timelineDuration = useTimelineStore((state) => state.duration);
+  // Re-read the export range choices when the marks or the selection change
+  const inPoint = useTimelineStore((state) => state.inPoint);
+  const outPoint = useTimelineStore((state) => state.outPoint);
+  const selectedClipIds = useTimelineStore((state) => state.selectedClipIds);
+  const timelineTracks = useTimelineStore((state) => state.tracks);
+  const projectName = useProjectStore((state) => state.project?.name);
+  const inOutRange = useMemo(
+    () => useTimelineStore.getState().getInOutRange(),
+    [inPoint, outPoint, timelineDuration]
+  );
+  const selectionRange = useMemo(
+    () => useTimelineStore.getState().getSelectionRange(),
+    [selectedClipIds, timelineTracks]
+  );
+  // Cues the export can include; hidden caption tracks are left out like hidden video
+  const captionCount = useMemo(
+    () => timelineTracks
+      .filter(track => track.kind === 'caption' && track.visible !== false)
+      .reduce((count, track) => count + (track.cues?.length || 0), 0),
+    [timelineTracks]
+  );
+
+  // Mirror the main-process export queue
+  useEffect(() => {
+    const { refreshQueue, setQueue } = useExportStore.getState();
+    refreshQueue().catch((error) => console.error('❌ Failed to load export queue:', error));
+    return window.api.export.onQueueUpdated(({ jobs, concurrency }) => setQueue(jobs, concurrency));
+  }, []);
+
+  // Export presets live in the main process registry
+  useEffect(() => {
+    useExportStore.getState().loadPresets()
+      .catch((error) => console.error('❌ Failed to load export presets:', error));
+  }, []);
   
   // Panel size state (percentages)
   // Media Library width (horizontal split)
@@ -104,7 +146,7 @@ export const App: React.FC = () => {
     const files = Array.from(e.dataTransfer.files);
     const videoFiles = files.filter(file => {
       const extension = file.name.split('.').pop()?.toLowerCase();
-      return ['mp4', 'mov', 'webm', 'mkv', 'avi', 'm4v'].includes(extension || '');
+      return ['mp4', 'mov', 'webm', 'mkv', 'avi', 'm4v', 'png', 'jpg', 'jpeg', 'wav', 'mp3', 'aac', 'flac', 'ogg'].includes(extension || '');
     });
 
     if (videoFiles.length === 0) {
@@ -227,13 +269,20 @@ export const App: React.FC = () => {
         >
           {/* Video Preview */}
           <div 
-            className="border-b border-editor-border flex flex-col flex-shrink-0 overflow-hidden"
+            className="border-b border-editor-border flex flex-shrink-0 overflow-hidden"
             style={{ 
               height: `${videoPreviewHeight}%`,
               minHeight: '300px'
             }}
           >
-            <VideoPreview recordingStream={recordingStream} />
+            <div className="flex flex-col flex-1 min-w-0">
+              <VideoPreview recordingStream={recordingStream} />
+            </div>
+
+            {/* Clip Inspector */}
+            <div className="w-64 flex-shrink-0 border-l border-editor-border bg-editor-panel">
+              <ClipInspector className="h-full" />
+            </div>
           </div>
 
           {/* Vertical Splitter - Video Preview / Timeline */}
@@ -264,6 +313,68 @@ export const App: React.FC = () => {
         onClose={() => setIsRecordDialogOpen(false)}
         onSourceSelected={handleSourceSelected}
       />
+
+      {/* Export Dialog */}
+      <ExportDialog
+        isOpen={exportStore.showExportDialog}
+        isExporting={exportStore.isExporting}
+        progress={exportStore.progress}
+        config={exportStore.config}
+        onConfigChange={exportStore.updateConfig}
+        onStartExport={() => exportStore.startExport(exportStore.config)}
+        onCancelExport={exportStore.cancelExport}
+        onClose={() => exportStore.showDialog(false)}
+        onAddToQueue={async () => {
+          await exportStore.enqueueExport(exportStore.config);
+          exportStore.showDialog(false);
+          exportStore.showQueue(true);
+        }}
+        duration={timelineDuration}
+        captionCount={captionCount}
+        rangeMode={exportStore.rangeMode}
+        onRangeModeChange={exportStore.setRangeMode}
+        inOutRange={inOutRange}
+        selectionRange={selectionRange}
+        currentFrame={exportStore.currentFrame}
+        totalFrames={exportStore.totalFrames}
+        fps={exportStore.fps}
+        eta={exportStore.eta}
+        phase={exportStore.phase}
+        speed={exportStore.speed}
+        error={exportStore.error}
+        sizeResult={exportStore.sizeResult}
+        presets={exportStore.presets}
+        projectName={projectName}
+        onCreatePreset={exportStore.createPreset}
+        onUpdatePreset={(id, updates) => {
+          exportStore.updatePreset(id, updates).catch((error) => alert(`Failed to update preset: ${error.message}`));
+        }}
+        onDeletePreset={(id) => {
+          exportStore.deletePreset(id).catch((error) => alert(`Failed to delete preset: ${error.message}`));
+        }}
+        onImportPresets={() => {
+          exportStore.importPresets().catch((error) => alert(`Failed to import presets: ${error.message}`));
+        }}
+        onExportPresets={() => {
+          exportStore.exportPresets().catch((error) => alert(`Failed to export presets: ${error.message}`));
+        }}
+      />
+
+      {/* Export Queue */}
+      <ExportQueuePanel
+        isOpen={exportStore.showQueuePanel}
+        jobs={exportStore.queue}
+        concurrency={exportStore.queueConcurrency}
+        onPause={exportStore.pauseJob}
+        onResume={exportStore.resumeJob}
+        onRetry={exportStore.retryJob}
+        onRemove={exportStore.removeJob}
+        onMove={exportStore.moveJob}
+        onReveal={exportStore.revealOutput}
+        onClearFinished={exportStore.clearFinishedJobs}
+        onConcurrencyChange={exportStore.setQueueConcurrency}
+        onClose={() => exportStore.showQueue(false)}
+      />
     </div>
   );
 };
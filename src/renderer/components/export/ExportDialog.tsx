@@ -2,7 +2,7 @@
  * Export Dialog Component
  * 
  * Main modal dialog for video export functionality.
- * Contains export settings, progress tracking, and controls.
+ * Contains the export range choice, export settings, progress tracking, and controls.
  */
 
 import React, { useEffect, useState } from 'react';
@@ -11,7 +11,11 @@ import { Button } from '../common/Button';
 import { ExportSettings } from './ExportSettings';
 import { ExportProgress } from './ExportProgress';
 import { ExportComponentProps } from '../../../shared/contracts/components';
-import { ExportConfig } from '../../../shared/types';
+import { ExportConfig, ExportRange, ExportRangeMode } from '../../../shared/types';
+import { formatDuration, formatFileSize } from '../../utils/formatUtils';
+
+const formatRange = (range: ExportRange): string =>
+  `${formatDuration(range.start)}–${formatDuration(range.end)} (${(range.end - range.start).toFixed(1)}s)`;
 
 export const ExportDialog: React.FC<ExportComponentProps.ExportDialog> = ({
   isOpen,
@@ -21,7 +25,23 @@ export const ExportDialog: React.FC<ExportComponentProps.ExportDialog> = ({
   onConfigChange,
   onStartExport,
   onCancelExport,
-  onClose
+  onClose,
+  onAddToQueue,
+  duration,
+  captionCount = 0,
+  rangeMode = 'entire',
+  onRangeModeChange,
+  inOutRange = null,
+  selectionRange = null,
+  currentFrame = 0,
+  totalFrames = 0,
+  fps = 0,
+  eta = 0,
+  phase = null,
+  speed = 0,
+  error = null,
+  sizeResult = null,
+  ...presetControls
 }) => {
   const [currentStep, setCurrentStep] = useState<'settings' | 'progress' | 'complete'>('settings');
 
@@ -39,12 +59,47 @@ export const ExportDialog: React.FC<ExportComponentProps.ExportDialog> = ({
     }
   }, [isExporting]);
 
-  // Switch to complete step when export finishes
+  // Switch to complete step when export finishes, or back to settings when it fails or is cancelled
   useEffect(() => {
-    if (!isExporting && progress === 100 && currentStep === 'progress') {
-      setCurrentStep('complete');
+    if (!isExporting && currentStep === 'progress') {
+      setCurrentStep(progress === 100 && !error ? 'complete' : 'settings');
+    }
+  }, [isExporting, progress, error, currentStep]);
+
+  const rangeOptions: Array<{ mode: ExportRangeMode; label: string; detail: string; disabled: boolean }> = [
+    {
+      mode: 'entire',
+      label: 'Entire timeline',
+      detail: duration ? formatRange({ start: 0, end: duration }) : '',
+      disabled: false
+    },
+    {
+      mode: 'inOut',
+      label: 'In–Out range',
+      detail: inOutRange ? formatRange(inOutRange) : 'Set with I / O on the timeline',
+      disabled: !inOutRange
+    },
+    {
+      mode: 'selection',
+      label: 'Selected clips',
+      detail: selectionRange
+        ? `${formatRange(selectionRange)}, ${selectionRange.clipIds?.length} clip${selectionRange.clipIds?.length === 1 ? '' : 's'} only`
+        : 'No clips selected',
+      disabled: !selectionRange
     }
-  }, [isExporting, progress, currentStep]);
+  ];
+
+  // Range choices whose range went away fall back to the whole timeline
+  const selectedRangeOption = rangeOptions.find(option => option.mode === rangeMode);
+  useEffect(() => {
+    if (isOpen && selectedRangeOption?.disabled) {
+      onRangeModeChange?.('entire');
+    }
+  }, [isOpen, selectedRangeOption?.disabled, onRangeModeChange]);
+
+  // Length of what will be exported, for the size estimate
+  const activeRange = rangeMode === 'inOut' ? inOutRange : rangeMode === 'selection' ? selectionRange : null;
+  const exportDuration = activeRange ? activeRange.end - activeRange.start : duration;
 
   const handleStartExport = () => {
     if (!config.outputPath) {
@@ -54,6 +109,14 @@ export const ExportDialog: React.FC<ExportComponentProps.ExportDialog> = ({
     onStartExport();
   };
 
+  const handleAddToQueue = () => {
+    if (!config.outputPath) {
+      alert('Please select an output path');
+      return;
+    }
+    onAddToQueue?.();
+  };
+
   const handleClose = () => {
     if (isExporting) {
       onCancelExport();
@@ -62,10 +125,18 @@ export const ExportDialog: React.FC<ExportComponentProps.ExportDialog> = ({
   };
 
   const handleOpenFile = () => {
-    if (config.outputPath) {
-      // Open the exported file in the default application
-      window.api?.system?.openExternal?.({ url: config.outputPath });
+    if (!config.outputPath) return;
+    
+    if (config.format === 'images') {
+      // Frames are numbered from the output name (shot.png -> shot_00001.png, ...); show the first in its folder
+      const extension = config.imageFormat === 'jpeg' ? 'jpg' : 'png';
+      const firstFrame = config.outputPath.replace(/(\.[^./\\]+)?$/, `_00001.${extension}`);
+      window.api?.system?.showItem?.({ path: firstFrame });
+      return;
     }
+    
+    // Open the exported file in the default application
+    window.api?.system?.openExternal?.({ url: config.outputPath });
   };
 
   const renderContent = () => {
@@ -80,9 +151,47 @@ export const ExportDialog: React.FC<ExportComponentProps.ExportDialog> = ({
               </p>
             </div>
             
+            {error && (
+              <div className="bg-red-900/30 border border-red-500/40 rounded-lg p-3 text-sm text-red-300 break-words">
+                Export failed: {error}
+              </div>
+            )}
+            
+            {onRangeModeChange && (
+              <div>
+                <label className="block text-sm font-medium text-white mb-2">
+                  Export Range
+                </label>
+                <div className="space-y-1">
+                  {rangeOptions.map(option => (
+                    <label
+                      key={option.mode}
+                      className={`flex items-center gap-3 px-3 py-2 rounded-md ${
+                        option.disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-gray-700'
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name="export-range"
+                        checked={rangeMode === option.mode}
+                        disabled={option.disabled}
+                        onChange={() => onRangeModeChange(option.mode)}
+                        className="accent-blue-500"
+                      />
+                      <span className="text-sm text-white">{option.label}</span>
+                      <span className="text-xs text-gray-400 ml-auto">{option.detail}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+            
             <ExportSettings
               config={config}
+              duration={exportDuration}
+              captionCount={captionCount}
               onChange={onConfigChange}
+              {...presetControls}
             />
             
             <div className="flex justify-end gap-3 pt-4 border-t border-gray-700">
@@ -93,6 +202,15 @@ export const ExportDialog: React.FC<ExportComponentProps.ExportDialog> = ({
               >
                 Cancel
               </Button>
+              {onAddToQueue && (
+                <Button
+                  onClick={handleAddToQueue}
+                  variant="secondary"
+                  disabled={!config.outputPath}
+                >
+                  Add to Queue
+                </Button>
+              )}
               <Button
                 onClick={handleStartExport}
                 variant="primary"
@@ -116,10 +234,12 @@ export const ExportDialog: React.FC<ExportComponentProps.ExportDialog> = ({
             
             <ExportProgress
               progress={progress}
-              currentFrame={0} // Will be updated by parent
-              totalFrames={0} // Will be updated by parent
-              fps={0} // Will be updated by parent
-              eta={0} // Will be updated by parent
+              currentFrame={currentFrame}
+              totalFrames={totalFrames}
+              fps={fps}
+              eta={eta}
+              phase={phase}
+              speed={speed}
               onCancel={onCancelExport}
             />
           </div>
@@ -151,10 +271,24 @@ export const ExportDialog: React.FC<ExportComponentProps.ExportDialog> = ({
                   variant="ghost"
                   size="sm"
                 >
-                  Open File
+                  {config.format === 'images' ? 'Show Frames' : 'Open File'}
                 </Button>
               </div>
             </div>
+
+            {/* Target size accuracy */}
+            {sizeResult && (
+              <div className="bg-gray-800 rounded-lg p-4 text-sm">
+                <div className="flex justify-between text-gray-300">
+                  <span>File size:</span>
+                  <span>{formatFileSize(sizeResult.actualBytes)} of {formatFileSize(sizeResult.targetBytes)} target</span>
+                </div>
+                <p className={`text-xs mt-1 ${sizeResult.actualBytes > sizeResult.targetBytes ? 'text-yellow-400' : 'text-gray-400'}`}>
+                  {(sizeResult.actualBytes / sizeResult.targetBytes * 100).toFixed(1)}% of the target
+                  {sizeResult.actualBytes > sizeResult.targetBytes && ' - over the limit, try a slightly smaller target'}
+                </p>
+              </div>
+            )}
             
             <div className="flex justify-end gap-3 pt-4 border-t border-gray-700">
               <Button
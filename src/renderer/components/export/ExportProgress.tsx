@@ -9,6 +9,19 @@ import React from 'react';
 import { ProgressBar } from '../common/ProgressBar';
 import { Button } from '../common/Button';
 import { ExportComponentProps } from '../../../shared/contracts/components';
+import { ExportPhase } from '../../../shared/types';
+
+// What each export phase is doing, as shown to the user
+const PHASE_LABELS: Record<ExportPhase, string> = {
+  encoding: 'Encoding',
+  segments: 'Rendering segments',
+  audio: 'Mixing audio',
+  analysis: 'Analyzing (pass 1)',
+  concat: 'Joining segments',
+  palette: 'Building palette',
+  animation: 'Encoding animation',
+  frames: 'Writing frames'
+};
 
 export const ExportProgress: React.FC<ExportComponentProps.ExportProgress> = ({
   progress,
@@ -16,6 +29,8 @@ export const ExportProgress: React.FC<ExportComponentProps.ExportProgress> = ({
   totalFrames,
   fps,
   eta,
+  phase,
+  speed = 0,
   onCancel
 }) => {
   // Format time duration
@@ -50,7 +65,9 @@ export const ExportProgress: React.FC<ExportComponentProps.ExportProgress> = ({
       {/* Main Progress Bar */}
       <div className="space-y-3">
         <div className="flex justify-between items-center">
-          <span className="text-sm font-medium text-white">Export Progress</span>
+          <span className="text-sm font-medium text-white">
+            {phase ? PHASE_LABELS[phase] : 'Export Progress'}
+          </span>
           <span className="text-sm text-gray-400">{progress.toFixed(1)}%</span>
         </div>
         
@@ -80,7 +97,7 @@ export const ExportProgress: React.FC<ExportComponentProps.ExportProgress> = ({
             {fps.toFixed(1)} FPS
           </div>
           <div className="text-xs text-gray-500">
-            {fps > 0 ? 'Real-time' : 'Processing...'}
+            {speed > 0 ? `${speed.toFixed(2)}x real-time` : 'Processing...'}
           </div>
         </div>
 
@@ -102,7 +119,7 @@ export const ExportProgress: React.FC<ExportComponentProps.ExportProgress> = ({
             {progress === 100 ? 'Complete' : 'Exporting'}
           </div>
           <div className="text-xs text-gray-500">
-            {progress === 100 ? 'Ready!' : 'In progress...'}
+            {progress === 100 ? 'Ready!' : phase ? `${PHASE_LABELS[phase]}...` : 'Starting...'}
           </div>
         </div>
       </div>
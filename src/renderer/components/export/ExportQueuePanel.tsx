@@ -0,0 +1,215 @@
+/**
+ * Export Queue Panel Component
+ *
+ * Lists queued, running and finished export jobs with their output paths.
+ * Supports pause/resume, reordering, retry, removal and revealing finished files.
+ */
+
+import React from 'react';
+import { Dialog } from '../common/Dialog';
+import { Button } from '../common/Button';
+import { ProgressBar } from '../common/ProgressBar';
+import { ExportComponentProps } from '../../../shared/contracts/components';
+import { ExportJobStatus, ExportQueueJob } from '../../../shared/types';
+import { formatFileSize } from '../../utils/formatUtils';
+
+const STATUS_STYLES: Record<ExportJobStatus, { label: string; className: string }> = {
+  pending: { label: 'Queued', className: 'bg-gray-600 text-gray-200' },
+  paused: { label: 'Paused', className: 'bg-yellow-600 text-white' },
+  running: { label: 'Exporting', className: 'bg-blue-600 text-white' },
+  completed: { label: 'Done', className: 'bg-green-600 text-white' },
+  failed: { label: 'Failed', className: 'bg-red-600 text-white' },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-700 text-gray-300' }
+};
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+export const ExportQueuePanel: React.FC<ExportComponentProps.ExportQueuePanel> = ({
+  isOpen,
+  jobs,
+  concurrency,
+  onPause,
+  onResume,
+  onRetry,
+  onRemove,
+  onMove,
+  onReveal,
+  onClearFinished,
+  onConcurrencyChange,
+  onClose
+}) => {
+  const hasFinished = jobs.some(job => ['completed', 'failed', 'cancelled'].includes(job.status));
+
+  return (
+    <Dialog
+      isOpen={isOpen}
+      title="Export Queue"
+      onClose={onClose}
+      maxWidth="2xl"
+    >
+      <div className="space-y-4">
+        {/* Queue settings */}
+        <div className="flex items-center justify-between">
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            Run at once
+            <select
+              value={concurrency}
+              onChange={(e) => onConcurrencyChange(parseInt(e.target.value, 10))}
+              className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-white text-sm"
+            >
+              {CONCURRENCY_OPTIONS.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          </label>
+          <Button
+            onClick={onClearFinished}
+            variant="ghost"
+            size="sm"
+            disabled={!hasFinished}
+          >
+            Clear Finished
+          </Button>
+        </div>
+
+        {/* Jobs */}
+        {jobs.length === 0 ? (
+          <div className="text-center text-sm text-gray-500 py-8">
+            No exports queued. Use "Add to Queue" in the export dialog.
+          </div>
+        ) : (
+          <ul className="space-y-2 max-h-[60vh] overflow-y-auto">
+            {jobs.map((job, index) => (
+              <QueueJobRow
+                key={job.id}
+                job={job}
+                isFirst={index === 0}
+                isLast={index === jobs.length - 1}
+                onPause={() => onPause(job.id)}
+                onResume={() => onResume(job.id)}
+                onRetry={() => onRetry(job.id)}
+                onRemove={() => onRemove(job.id)}
+                onMoveUp={() => onMove(job.id, index - 1)}
+                onMoveDown={() => onMove(job.id, index + 1)}
+                onReveal={() => onReveal(job.config.outputPath)}
+              />
+            ))}
+          </ul>
+        )}
+      </div>
+    </Dialog>
+  );
+};
+
+interface QueueJobRowProps {
+  job: ExportQueueJob;
+  isFirst: boolean;
+  isLast: boolean;
+  onPause: () => void;
+  onResume: () => void;
+  onRetry: () => void;
+  onRemove: () => void;
+  onMoveUp: () => void;
+  onMoveDown: () => void;
+  onReveal: () => void;
+}
+
+const QueueJobRow: React.FC<QueueJobRowProps> = ({
+  job,
+  isFirst,
+  isLast,
+  onPause,
+  onResume,
+  onRetry,
+  onRemove,
+  onMoveUp,
+  onMoveDown,
+  onReveal
+}) => {
+  const status = STATUS_STYLES[job.status];
+  const { resolution, codec, format = 'video', animation, audioFormat = 'wav' } = job.config;
+  const details = format === 'video'
+    ? `${resolution.width}×${resolution.height} · ${codec.toUpperCase()} · ${job.config.quality}`
+    : format === 'audio'
+      ? `Audio · ${audioFormat.toUpperCase()}`
+      : format === 'images'
+        ? `${(job.config.imageFormat || 'png').toUpperCase()} frames · ${resolution.width}×${resolution.height} · ${job.config.fps} FPS`
+        : `${format.toUpperCase()}${animation ? ` · ${animation.width}px · ${animation.fps} FPS` : ''}`;
+
+  return (
+    <li className="bg-gray-800 rounded-lg p-3 space-y-2">
+      <div className="flex items-start gap-3">
+        {/* Reorder */}
+        <div className="flex flex-col">
+          <button
+            onClick={onMoveUp}
+            disabled={isFirst}
+            className="text-gray-400 hover:text-white disabled:opacity-30 text-xs leading-none px-1"
+            aria-label="Move up"
+          >
+            ▲
+          </button>
+          <button
+            onClick={onMoveDown}
+            disabled={isLast}
+            className="text-gray-400 hover:text-white disabled:opacity-30 text-xs leading-none px-1"
+            aria-label="Move down"
+          >
+            ▼
+          </button>
+        </div>
+
+        {/* Details */}
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium text-white truncate">{job.name}</span>
+            <span className={`text-xs px-1.5 py-0.5 rounded ${status.className}`}>{status.label}</span>
+          </div>
+          <p className="text-xs text-gray-500 font-mono truncate" title={job.config.outputPath}>
+            {job.config.outputPath}
+          </p>
+          <p className="text-xs text-gray-500">
+            {details}
+            {job.range && ` · ${job.range.start.toFixed(1)}s–${job.range.end.toFixed(1)}s`}
+            {job.config.rateControl === 'targetSize' && ` · ${job.config.targetSizeMB} MB target`}
+          </p>
+          {job.sizeResult && (
+            <p className="text-xs text-gray-400">
+              {formatFileSize(job.sizeResult.actualBytes)} ({(job.sizeResult.actualBytes / job.sizeResult.targetBytes * 100).toFixed(1)}% of target)
+            </p>
+          )}
+          {job.error && (
+            <p className="text-xs text-red-400 truncate" title={job.error}>{job.error}</p>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="flex items-center gap-1 shrink-0">
+          {(job.status === 'pending' || job.status === 'running') && (
+            <Button onClick={onPause} variant="ghost" size="sm">Pause</Button>
+          )}
+          {job.status === 'paused' && (
+            <Button onClick={onResume} variant="ghost" size="sm">Resume</Button>
+          )}
+          {(job.status === 'failed' || job.status === 'cancelled') && (
+            <Button onClick={onRetry} variant="ghost" size="sm">Retry</Button>
+          )}
+          {job.status === 'completed' && (
+            <Button onClick={onReveal} variant="ghost" size="sm">Show in Folder</Button>
+          )}
+          <Button onClick={onRemove} variant="ghost" size="sm" aria-label="Remove job">
+            ✕
+          </Button>
+        </div>
+      </div>
+
+      {job.status === 'running' && (
+        <ProgressBar
+          value={job.progress?.percent ?? 0}
+          height="sm"
+          showPercent={false}
+        />
+      )}
+    </li>
+  );
+};
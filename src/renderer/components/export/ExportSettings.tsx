@@ -2,35 +2,171 @@
  * Export Settings Component
  * 
  * Configuration panel for export settings including output path,
- * resolution, FPS, codec, and quality presets.
+ * aspect ratio, resolution, FPS, codec, container and export presets (built-in and user presets
+ * from the main-process registry). GIF/WebP output adds frame rate, width, loop
+ * and dither controls with a size estimate. Caption tracks can be burned in, written as a
+ * sidecar file or muxed as a subtitle stream.
  */
 
 import React, { useState } from 'react';
 import { Button } from '../common/Button';
 import { QualityPreset } from './QualityPreset';
 import { ExportComponentProps } from '../../../shared/contracts/components';
-import { ExportConfig, ExportQuality, ExportCodec } from '../../../shared/types';
+import { formatFileSize } from '../../utils/formatUtils';
+import { ASPECT_RATIO_PRESETS, DEFAULT_ASPECT_RATIO, findAspectRatio, fitResolutionToAspect } from '../../utils/frameUtils';
+import { CAPTION_FONT_SIZES, DEFAULT_CAPTION_SETTINGS } from '../../utils/captionUtils';
+import {
+  DEFAULT_ANIMATION_SETTINGS,
+  DEFAULT_AUDIO_BITRATE,
+  MIN_TARGET_VIDEO_BITRATE,
+  TWO_PASS_CODECS,
+  getTargetVideoBitrate
+} from '../../../shared/utils/exportUtils';
+import {
+  AnimationDither,
+  AnimationExportSettings,
+  AspectRatioPreset,
+  AudioExportFormat,
+  CaptionExportMode,
+  CaptionExportSettings,
+  CaptionFormat,
+  CaptionStyle,
+  ExportCodec,
+  ExportConfig,
+  ExportContainer,
+  ExportFormat,
+  ExportPreset,
+  ExportPresetInput,
+  ExportQuality,
+  ExportRateControl,
+  ImageExportFormat
+} from '../../../shared/types';
+
+// Common upload limits, in MB
+const TARGET_SIZE_PRESETS = [8, 25, 50, 100];
+const DEFAULT_TARGET_SIZE_MB = 25;
+
+// Rough bytes per output pixel per frame, from typical screen recordings
+const ANIMATION_BYTES_PER_PIXEL: Record<'gif' | 'webp', number> = {
+  gif: 0.12,
+  webp: 0.03
+};
+
+// Matches the subtitle stream the export service muxes into each container
+const SUBTITLE_STREAM_LABELS: Record<ExportContainer, string> = {
+  mp4: 'MP4 timed text',
+  mov: 'QuickTime timed text',
+  mkv: 'SRT',
+  webm: 'WebVTT'
+};
+
+const CAPTION_MODE_OPTIONS: Array<{ label: string; value: CaptionExportMode }> = [
+  { label: 'Burn In', value: 'burnIn' },
+  { label: 'Sidecar File', value: 'sidecar' },
+  { label: 'Subtitle Track', value: 'embed' }
+];
+
+// AAC goes in an MP4 audio container
+const AUDIO_EXTENSIONS: Record<AudioExportFormat, string> = {
+  wav: 'wav',
+  mp3: 'mp3',
+  aac: 'm4a',
+  flac: 'flac'
+};
+
+// Matches the preset registry's checks: VP9 doesn't go in MOV, H.264/H.265 don't go in WebM
+const isContainerSupported = (container: ExportContainer, codec: ExportCodec): boolean =>
+  codec === 'vp9' ? container !== 'mov' : container !== 'webm';
+
+const getVideoContainer = (config: ExportConfig): ExportContainer => {
+  if (config.container && isContainerSupported(config.container, config.codec)) return config.container;
+  return config.codec === 'vp9' ? 'webm' : 'mp4';
+};
+
+const getOutputExtension = (config: ExportConfig): string => {
+  const format = config.format || 'video';
+  if (format === 'audio') return AUDIO_EXTENSIONS[config.audioFormat || 'wav'];
+  if (format === 'images') return config.imageFormat === 'jpeg' ? 'jpg' : 'png';
+  if (format !== 'video') return format;
+  return getVideoContainer(config);
+};
+
+const replaceExtension = (filePath: string, extension: string): string =>
+  filePath ? filePath.replace(/\.[^./\\]*$/, '') + `.${extension}` : filePath;
+
+// Swap the file name, keeping the folder and extension
+const replaceFileName = (filePath: string, name: string): string => {
+  const separator = Math.max(filePath.lastIndexOf('/'), filePath.lastIndexOf('\\'));
+  const extension = filePath.match(/\.[^./\\]*$/)?.[0] || '';
+  return filePath.slice(0, separator + 1) + name + extension;
+};
+
+// Fill a preset's filename template: {project}, {preset}, {date}, {time}, {width}, {height}
+const renderFilenameTemplate = (template: string, preset: ExportPreset, projectName: string): string => {
+  const now = new Date();
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  const values: Record<string, string> = {
+    project: projectName,
+    preset: preset.name,
+    date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+    time: `${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`,
+    width: preset.resolution.width.toString(),
+    height: preset.resolution.height.toString()
+  };
+
+  return template
+    .replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match)
+    .replace(/[\\/:*?"<>|]/g, '-');
+};
 
 export const ExportSettings: React.FC<ExportComponentProps.ExportSettings> = ({
   config,
-  onChange
+  duration = 0,
+  captionCount = 0,
+  onChange,
+  presets = [],
+  projectName,
+  onCreatePreset,
+  onUpdatePreset,
+  onDeletePreset,
+  onImportPresets,
+  onExportPresets
 }) => {
   const [isSelectingPath, setIsSelectingPath] = useState(false);
+  const [newPresetName, setNewPresetName] = useState('');
+  const format = config.format || 'video';
+  const isAnimation = format === 'gif' || format === 'webp';
+  const isAudio = format === 'audio';
+  const isImages = format === 'images';
+  const audioFormat = config.audioFormat || 'wav';
+  const isLossyAudio = audioFormat === 'mp3' || audioFormat === 'aac';
+  const animation = { ...DEFAULT_ANIMATION_SETTINGS, ...config.animation };
+  const isTargetSize = format === 'video' && config.rateControl === 'targetSize';
+  const targetSizeMB = config.targetSizeMB || DEFAULT_TARGET_SIZE_MB;
+  const selectedPreset = presets.find(preset => preset.id === (config.presetId || config.quality));
+  // Rate the export runs at: the config's own, else the selected preset's (as the export service resolves it)
+  const effectiveCrf = config.crf ?? (config.bitrate ? undefined : selectedPreset?.crf);
+  const effectiveBitrate = config.bitrate || selectedPreset?.bitrate || '8000k';
 
-  // Quality presets
-  const qualityPresets: Array<{ value: ExportQuality; label: string; description: string }> = [
-    { value: 'low', label: 'Low', description: '720p, 2Mbps' },
-    { value: 'medium', label: 'Medium', description: '1080p, 5Mbps' },
-    { value: 'high', label: 'High', description: '1080p, 8Mbps' },
-    { value: 'ultra', label: 'Ultra', description: '4K, 15Mbps' }
-  ];
+  const aspectRatio = findAspectRatio(config.resolution);
 
-  // Resolution options
+  // Resolution options, in the current shape (1080p is 1080x1920 at 9:16)
   const resolutionOptions = [
-    { label: '720p (1280x720)', value: { width: 1280, height: 720 } },
-    { label: '1080p (1920x1080)', value: { width: 1920, height: 1080 } },
-    { label: '1440p (2560x1440)', value: { width: 2560, height: 1440 } },
-    { label: '4K (3840x2160)', value: { width: 3840, height: 2160 } }
+    { label: '720p', shortSide: 720 },
+    { label: '1080p', shortSide: 1080 },
+    { label: '1440p', shortSide: 1440 },
+    { label: '4K', shortSide: 2160 }
+  ].map(({ label, shortSide }) => {
+    const value = fitResolutionToAspect({ width: shortSide, height: shortSide }, aspectRatio || DEFAULT_ASPECT_RATIO);
+    return { label: `${label} (${value.width}x${value.height})`, value };
+  });
+
+  // Video containers
+  const containerOptions: Array<{ label: string; value: ExportContainer }> = [
+    { label: 'MP4', value: 'mp4' },
+    { label: 'MOV', value: 'mov' },
+    { label: 'MKV', value: 'mkv' },
+    { label: 'WebM', value: 'webm' }
   ];
 
   // FPS options
@@ -40,6 +176,41 @@ export const ExportSettings: React.FC<ExportComponentProps.ExportSettings> = ({
     { label: '60 FPS', value: 60 }
   ];
 
+  // Output formats
+  const formatOptions: Array<{ label: string; value: ExportFormat }> = [
+    { label: 'Video', value: 'video' },
+    { label: 'GIF', value: 'gif' },
+    { label: 'WebP', value: 'webp' },
+    { label: 'Audio', value: 'audio' },
+    { label: 'Images', value: 'images' }
+  ];
+
+  // Image sequence options
+  const imageFormatOptions: Array<{ label: string; value: ImageExportFormat }> = [
+    { label: 'PNG (lossless)', value: 'png' },
+    { label: 'JPEG', value: 'jpeg' }
+  ];
+
+  // Audio-only options
+  const audioFormatOptions: Array<{ label: string; value: AudioExportFormat }> = [
+    { label: 'WAV (uncompressed)', value: 'wav' },
+    { label: 'MP3', value: 'mp3' },
+    { label: 'AAC (M4A)', value: 'aac' },
+    { label: 'FLAC (lossless)', value: 'flac' }
+  ];
+  const audioBitrateOptions = ['96k', '128k', '192k', '256k', '320k'];
+  const sampleRateOptions = [22050, 44100, 48000, 96000];
+
+  // Animation options
+  const animationFpsOptions = [5, 10, 12, 15, 20, 24, 30];
+  const animationWidthOptions = [320, 480, 640, 800, 960, 1280];
+  const ditherOptions: Array<{ label: string; value: AnimationDither }> = [
+    { label: 'Sierra (smooth)', value: 'sierra2_4a' },
+    { label: 'Floyd-Steinberg', value: 'floyd_steinberg' },
+    { label: 'Bayer (pattern, smaller)', value: 'bayer' },
+    { label: 'None (banding, smallest)', value: 'none' }
+  ];
+
   // Codec options
   const codecOptions = [
     { label: 'H.264 (MP4)', value: 'h264' as ExportCodec },
@@ -48,57 +219,74 @@ export const ExportSettings: React.FC<ExportComponentProps.ExportSettings> = ({
   ];
 
   // Handle output path selection
-  const handleSelectPath = () => {
+  const handleSelectPath = async () => {
     setIsSelectingPath(true);
-    // For now, use a simple file input
-    // In a real implementation, this would use the system save dialog
-    const input = document.createElement('input');
-    input.type = 'file';
-    input.accept = '.mp4,.webm';
-    input.onchange = (e) => {
-      const file = (e.target as HTMLInputElement).files?.[0];
-      if (file) {
-        onChange({ outputPath: file.name });
+    try {
+      const result = await window.api.project.openSaveDialog({
+        defaultPath: config.outputPath || `output.${getOutputExtension(config)}`
+      });
+      if (result.filePath) {
+        // Image sequences follow the extension chosen in the dialog, which offers PNG and JPEG
+        onChange(config.format === 'images'
+          ? { outputPath: result.filePath, imageFormat: /\.jpe?g$/i.test(result.filePath) ? 'jpeg' : 'png' }
+          : { outputPath: result.filePath });
       }
+    } catch (error) {
+      console.error('Failed to choose output path:', error);
+    } finally {
       setIsSelectingPath(false);
-    };
-    input.click();
+    }
   };
 
-  // Handle quality preset selection
-  const handleQualityPreset = (quality: ExportQuality) => {
-    const presetConfigs = {
-      low: {
-        quality: 'low' as ExportQuality,
-        resolution: { width: 1280, height: 720 },
-        fps: 30,
-        codec: 'h264' as ExportCodec,
-        bitrate: '2000k'
-      },
-      medium: {
-        quality: 'medium' as ExportQuality,
-        resolution: { width: 1920, height: 1080 },
-        fps: 30,
-        codec: 'h264' as ExportCodec,
-        bitrate: '5000k'
-      },
-      high: {
-        quality: 'high' as ExportQuality,
-        resolution: { width: 1920, height: 1080 },
-        fps: 30,
-        codec: 'h264' as ExportCodec,
-        bitrate: '8000k'
-      },
-      ultra: {
-        quality: 'ultra' as ExportQuality,
-        resolution: { width: 3840, height: 2160 },
-        fps: 30,
-        codec: 'h265' as ExportCodec,
-        bitrate: '15000k'
-      }
+  // Apply an export preset; video exports are also renamed from the preset's filename template
+  const handlePresetSelect = (preset: ExportPreset) => {
+    const next: ExportConfig = {
+      ...config,
+      presetId: preset.id,
+      ...(preset.builtIn ? { quality: preset.id as ExportQuality } : {}),
+      container: preset.container,
+      codec: preset.codec,
+      crf: preset.crf,
+      bitrate: preset.bitrate,
+      resolution: preset.resolution,
+      fps: preset.fps,
+      audioBitrate: preset.audioBitrate,
+      audioSampleRate: preset.audioSampleRate,
+      ...(TWO_PASS_CODECS.includes(preset.codec) ? {} : { rateControl: 'bitrate' as ExportRateControl })
     };
 
-    onChange(presetConfigs[quality]);
+    const outputPath = format === 'video' && config.outputPath
+      ? replaceFileName(config.outputPath, renderFilenameTemplate(preset.filenameTemplate, preset, projectName || 'export'))
+      : config.outputPath;
+
+    onChange({ ...next, outputPath: replaceExtension(outputPath, getOutputExtension(next)) });
+  };
+
+  // Current video settings as preset fields
+  const buildPresetInput = (name: string): ExportPresetInput => ({
+    name,
+    container: getVideoContainer(config),
+    codec: config.codec,
+    ...(effectiveCrf !== undefined ? { crf: effectiveCrf } : { bitrate: effectiveBitrate }),
+    resolution: config.resolution,
+    fps: config.fps,
+    audioBitrate: config.audioBitrate || DEFAULT_AUDIO_BITRATE,
+    audioSampleRate: config.audioSampleRate || 48000,
+    filenameTemplate: selectedPreset?.filenameTemplate || '{project}-{preset}'
+  });
+
+  const handleCreatePreset = async () => {
+    const name = newPresetName.trim();
+    if (!name || !onCreatePreset) return;
+
+    try {
+      const preset = await onCreatePreset(buildPresetInput(name));
+      onChange({ presetId: preset.id });
+      setNewPresetName('');
+    } catch (error) {
+      console.error('Failed to save preset:', error);
+      alert(`Failed to save preset: ${error instanceof Error ? error.message : error}`);
+    }
   };
 
   // Handle resolution change
@@ -106,16 +294,81 @@ export const ExportSettings: React.FC<ExportComponentProps.ExportSettings> = ({
     onChange({ resolution });
   };
 
+  // Reshape the output, keeping its size class
+  const handleAspectRatioChange = (nextAspectRatio: AspectRatioPreset) => {
+    onChange({ resolution: fitResolutionToAspect(config.resolution, nextAspectRatio) });
+  };
+
   // Handle FPS change
   const handleFpsChange = (fps: number) => {
     onChange({ fps });
   };
 
-  // Handle codec change
+  // Handle codec change; two-pass target size is only offered for H.264 and VP9
   const handleCodecChange = (codec: ExportCodec) => {
-    onChange({ codec });
+    onChange({
+      codec,
+      container: getVideoContainer({ ...config, codec }),
+      outputPath: replaceExtension(config.outputPath, getOutputExtension({ ...config, codec })),
+      ...(TWO_PASS_CODECS.includes(codec) ? {} : { rateControl: 'bitrate' as ExportRateControl })
+    });
   };
 
+  const handleContainerChange = (container: ExportContainer) => {
+    onChange({ container, outputPath: replaceExtension(config.outputPath, container) });
+  };
+
+  const handleRateControlChange = (rateControl: ExportRateControl) => {
+    onChange({ rateControl, targetSizeMB });
+  };
+
+  const handleCaptionChange = (updates: Partial<CaptionExportSettings>) => {
+    onChange({ captions: { ...DEFAULT_CAPTION_SETTINGS, ...config.captions, ...updates } });
+  };
+
+  const handleCaptionStyleChange = (updates: Partial<CaptionStyle>) => {
+    handleCaptionChange({ style: { ...(config.captions || DEFAULT_CAPTION_SETTINGS).style, ...updates } });
+  };
+
+  // Handle output format change, keeping the output file's extension in step
+  const handleFormatChange = (nextFormat: ExportFormat) => {
+    const next = { ...config, format: nextFormat };
+    onChange({
+      format: nextFormat,
+      animation: nextFormat === 'video' ? config.animation : animation,
+      outputPath: replaceExtension(config.outputPath, getOutputExtension(next))
+    });
+  };
+
+  const handleAudioFormatChange = (nextAudioFormat: AudioExportFormat) => {
+    onChange({
+      audioFormat: nextAudioFormat,
+      outputPath: replaceExtension(config.outputPath, AUDIO_EXTENSIONS[nextAudioFormat])
+    });
+  };
+
+  const handleImageFormatChange = (nextImageFormat: ImageExportFormat) => {
+    onChange({
+      imageFormat: nextImageFormat,
+      outputPath: replaceExtension(config.outputPath, nextImageFormat === 'jpeg' ? 'jpg' : 'png')
+    });
+  };
+
+  const handleAnimationChange = (updates: Partial<AnimationExportSettings>) => {
+    onChange({ animation: { ...animation, ...updates } });
+  };
+
+  // Estimated animation size; GIF/WebP size grows with pixels x frames
+  const estimateAnimationSize = (): number => {
+    if (!isAnimation) return 0;
+    const height = Math.round(animation.width * config.resolution.height / config.resolution.width);
+    const frames = duration * animation.fps;
+    return Math.round(animation.width * height * frames * ANIMATION_BYTES_PER_PIXEL[format as 'gif' | 'webp']);
+  };
+
+  // Video bitrate (kbps) a target-size export will encode at, once the audio is taken out
+  const targetVideoBitrate = getTargetVideoBitrate(targetSizeMB, duration, config.audioBitrate || DEFAULT_AUDIO_BITRATE);
+
   // Get current resolution label
   const getCurrentResolutionLabel = () => {
     const option = resolutionOptions.find(
@@ -150,108 +403,674 @@ export const ExportSettings: React.FC<ExportComponentProps.ExportSettings> = ({
         </div>
       </div>
 
-      {/* Quality Presets */}
+      {/* Output Format */}
       <div>
-        <label className="block text-sm font-medium text-white mb-3">
-          Quality Preset
+        <label className="block text-sm font-medium text-white mb-2">
+          Format
         </label>
-        <div className="grid grid-cols-2 gap-2">
-          {qualityPresets.map((preset) => (
-            <QualityPreset
-              key={preset.value}
-              value={preset.value}
-              label={preset.label}
-              selected={config.quality === preset.value}
-              onSelect={handleQualityPreset}
-            />
+        <div className="grid grid-cols-5 gap-2">
+          {formatOptions.map(opt => (
+            <button
+              key={opt.value}
+              onClick={() => handleFormatChange(opt.value)}
+              className={`px-3 py-2 rounded-md text-sm transition-colors ${
+                format === opt.value
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {opt.label}
+            </button>
           ))}
         </div>
       </div>
 
-      {/* Advanced Settings */}
-      <div className="space-y-4">
-        <h3 className="text-sm font-medium text-white border-b border-gray-700 pb-2">
-          Advanced Settings
-        </h3>
+      {/* Animation */}
+      {isAnimation && (
+        <div className="space-y-4">
+          <h3 className="text-sm font-medium text-white border-b border-gray-700 pb-2">
+            Animation
+          </h3>
 
-        {/* Resolution */}
-        <div>
-          <label className="block text-sm font-medium text-white mb-2">
-            Resolution
-          </label>
-          <select
-            value={JSON.stringify(config.resolution)}
-            onChange={(e) => {
-              const resolution = JSON.parse(e.target.value);
-              handleResolutionChange(resolution);
-            }}
-            className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-          >
-            {resolutionOptions.map(opt => (
-              <option key={opt.label} value={JSON.stringify(opt.value)}>
-                {opt.label}
-              </option>
-            ))}
-          </select>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-white mb-2">
+                Frame Rate
+              </label>
+              <select
+                value={animation.fps}
+                onChange={(e) => handleAnimationChange({ fps: parseInt(e.target.value) })}
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {animationFpsOptions.map(fps => (
+                  <option key={fps} value={fps}>{fps} FPS</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-white mb-2">
+                Width
+              </label>
+              <select
+                value={animation.width}
+                onChange={(e) => handleAnimationChange({ width: parseInt(e.target.value) })}
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {animationWidthOptions.map(width => (
+                  <option key={width} value={width}>{width}px</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-white mb-2">
+                Loop Count
+              </label>
+              <input
+                type="number"
+                min={0}
+                value={animation.loop}
+                onChange={(e) => handleAnimationChange({ loop: Math.max(0, parseInt(e.target.value) || 0) })}
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <p className="text-xs text-gray-400 mt-1">Times to play, 0 loops forever</p>
+            </div>
+
+            {format === 'gif' && (
+              <div>
+                <label className="block text-sm font-medium text-white mb-2">
+                  Dithering
+                </label>
+                <select
+                  value={animation.dither}
+                  onChange={(e) => handleAnimationChange({ dither: e.target.value as AnimationDither })}
+                  className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {ditherOptions.map(opt => (
+                    <option key={opt.value} value={opt.value}>{opt.label}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
         </div>
+      )}
 
-        {/* FPS */}
-        <div>
-          <label className="block text-sm font-medium text-white mb-2">
-            Frame Rate
-          </label>
-          <select
-            value={config.fps}
-            onChange={(e) => handleFpsChange(parseInt(e.target.value))}
-            className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-          >
-            {fpsOptions.map(opt => (
-              <option key={opt.label} value={opt.value}>
-                {opt.label}
-              </option>
-            ))}
-          </select>
+      {/* Audio */}
+      {isAudio && (
+        <div className="space-y-4">
+          <h3 className="text-sm font-medium text-white border-b border-gray-700 pb-2">
+            Audio
+          </h3>
+
+          <div>
+            <label className="block text-sm font-medium text-white mb-2">
+              Audio Format
+            </label>
+            <select
+              value={audioFormat}
+              onChange={(e) => handleAudioFormatChange(e.target.value as AudioExportFormat)}
+              className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {audioFormatOptions.map(opt => (
+                <option key={opt.value} value={opt.value}>{opt.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            {isLossyAudio && (
+              <div>
+                <label className="block text-sm font-medium text-white mb-2">
+                  Bitrate
+                </label>
+                <select
+                  value={config.audioBitrate || DEFAULT_AUDIO_BITRATE}
+                  onChange={(e) => onChange({ audioBitrate: e.target.value })}
+                  className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {audioBitrateOptions.map(bitrate => (
+                    <option key={bitrate} value={bitrate}>{bitrate}bps</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-white mb-2">
+                Sample Rate
+              </label>
+              <select
+                value={config.audioSampleRate || 48000}
+                onChange={(e) => onChange({ audioSampleRate: parseInt(e.target.value) })}
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {sampleRateOptions.map(rate => (
+                  <option key={rate} value={rate}>{rate / 1000} kHz</option>
+                ))}
+              </select>
+            </div>
+          </div>
         </div>
+      )}
 
-        {/* Codec */}
+      {/* Image Sequence */}
+      {isImages && (
         <div>
           <label className="block text-sm font-medium text-white mb-2">
-            Codec
+            Image Format
           </label>
           <select
-            value={config.codec}
-            onChange={(e) => handleCodecChange(e.target.value as ExportCodec)}
+            value={config.imageFormat || 'png'}
+            onChange={(e) => handleImageFormatChange(e.target.value as ImageExportFormat)}
             className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
           >
-            {codecOptions.map(opt => (
-              <option key={opt.label} value={opt.value}>
-                {opt.label}
-              </option>
+            {imageFormatOptions.map(opt => (
+              <option key={opt.value} value={opt.value}>{opt.label}</option>
             ))}
           </select>
+          <p className="text-xs text-gray-400 mt-1">
+            Frames are numbered after the output name: name_00001, name_00002, ...
+          </p>
         </div>
-      </div>
+      )}
+
+      {/* Picture settings; audio-only exports have no video stream */}
+      {!isAudio && (
+        <>
+          {/* Presets */}
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <label className="block text-sm font-medium text-white">
+                Preset
+              </label>
+              <div className="flex gap-2">
+                {onImportPresets && (
+                  <button onClick={onImportPresets} className="text-xs text-gray-400 hover:text-white transition-colors">
+                    Import…
+                  </button>
+                )}
+                {onExportPresets && (
+                  <button
+                    onClick={onExportPresets}
+                    disabled={!presets.some(preset => !preset.builtIn)}
+                    className="text-xs text-gray-400 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    Export…
+                  </button>
+                )}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {presets.map((preset) => (
+                <QualityPreset
+                  key={preset.id}
+                  preset={preset}
+                  selected={selectedPreset?.id === preset.id}
+                  onSelect={handlePresetSelect}
+                  onDelete={!preset.builtIn && onDeletePreset ? () => onDeletePreset(preset.id) : undefined}
+                />
+              ))}
+            </div>
+
+            {/* Save the current settings as a preset */}
+            {format === 'video' && onCreatePreset && (
+              <div className="flex gap-2 mt-3">
+                <input
+                  type="text"
+                  value={newPresetName}
+                  onChange={(e) => setNewPresetName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleCreatePreset()}
+                  placeholder="New preset name"
+                  className="flex-1 px-3 py-1.5 bg-gray-700 border border-gray-600 rounded-md text-white text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <Button onClick={handleCreatePreset} variant="secondary" size="sm" disabled={!newPresetName.trim()}>
+                  Save Preset
+                </Button>
+                {selectedPreset && !selectedPreset.builtIn && onUpdatePreset && (
+                  <Button
+                    onClick={() => onUpdatePreset(selectedPreset.id, buildPresetInput(selectedPreset.name))}
+                    variant="ghost"
+                    size="sm"
+                    title={`Save the current settings into "${selectedPreset.name}"`}
+                  >
+                    Update
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Advanced Settings */}
+          <div className="space-y-4">
+            <h3 className="text-sm font-medium text-white border-b border-gray-700 pb-2">
+              Advanced Settings
+            </h3>
+
+            {/* Aspect Ratio */}
+            <div>
+              <label className="block text-sm font-medium text-white mb-2">
+                Aspect Ratio
+              </label>
+              <div className="grid grid-cols-4 gap-2">
+                {ASPECT_RATIO_PRESETS.map(preset => (
+                  <button
+                    key={preset}
+                    onClick={() => handleAspectRatioChange(preset)}
+                    className={`px-3 py-2 rounded-md text-sm transition-colors ${
+                      aspectRatio === preset
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                    }`}
+                  >
+                    {preset}
+                  </button>
+                ))}
+              </div>
+              <p className="mt-1 text-xs text-gray-400">
+                Set a clip's crop window in the preview to choose what stays in frame.
+              </p>
+            </div>
+
+            {/* Resolution */}
+            <div>
+              <label className="block text-sm font-medium text-white mb-2">
+                Resolution
+              </label>
+              <select
+                value={JSON.stringify(config.resolution)}
+                onChange={(e) => {
+                  const resolution = JSON.parse(e.target.value);
+                  handleResolutionChange(resolution);
+                }}
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {resolutionOptions.map(opt => (
+                  <option key={opt.label} value={JSON.stringify(opt.value)}>
+                    {opt.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Animations use their own frame rate; only video has a codec */}
+            {!isAnimation && (
+              <>
+                {/* FPS */}
+                <div>
+                  <label className="block text-sm font-medium text-white mb-2">
+                    Frame Rate
+                  </label>
+                  <select
+                    value={config.fps}
+                    onChange={(e) => handleFpsChange(parseInt(e.target.value))}
+                    className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {fpsOptions.map(opt => (
+                      <option key={opt.label} value={opt.value}>
+                        {opt.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {format === 'video' && (
+                  <>
+                    {/* Codec */}
+                    <div>
+                      <label className="block text-sm font-medium text-white mb-2">
+                        Codec
+                      </label>
+                      <select
+                        value={config.codec}
+                        onChange={(e) => handleCodecChange(e.target.value as ExportCodec)}
+                        className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      >
+                        {codecOptions.map(opt => (
+                          <option key={opt.label} value={opt.value}>
+                            {opt.label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
+                    {/* Container */}
+                    <div>
+                      <label className="block text-sm font-medium text-white mb-2">
+                        Container
+                      </label>
+                      <select
+                        value={getVideoContainer(config)}
+                        onChange={(e) => handleContainerChange(e.target.value as ExportContainer)}
+                        className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      >
+                        {containerOptions
+                          .filter(opt => isContainerSupported(opt.value, config.codec))
+                          .map(opt => (
+                            <option key={opt.value} value={opt.value}>{opt.label}</option>
+                          ))}
+                      </select>
+                    </div>
+
+                    {/* Rate Control */}
+                    <div>
+                      <label className="block text-sm font-medium text-white mb-2">
+                        Bitrate
+                      </label>
+                      <div className="grid grid-cols-2 gap-2">
+                        {([
+                          { label: 'From quality preset', value: 'bitrate' },
+                          { label: 'Target file size', value: 'targetSize' }
+                        ] as Array<{ label: string; value: ExportRateControl }>).map(opt => (
+                          <button
+                            key={opt.value}
+                            onClick={() => handleRateControlChange(opt.value)}
+                            disabled={opt.value === 'targetSize' && !TWO_PASS_CODECS.includes(config.codec)}
+                            title={opt.value === 'targetSize' ? 'Two-pass encode, available for H.264 and VP9' : undefined}
+                            className={`px-3 py-2 rounded-md text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                              (config.rateControl || 'bitrate') === opt.value
+                                ? 'bg-blue-600 text-white'
+                                : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                            }`}
+                          >
+                            {opt.label}
+                          </button>
+                        ))}
+                      </div>
+
+                      {isTargetSize && (
+                        <div className="mt-3 space-y-2">
+                          <div className="flex items-center gap-2">
+                            <input
+                              type="number"
+                              min={1}
+                              step={1}
+                              value={targetSizeMB}
+                              onChange={(e) => onChange({ targetSizeMB: Math.max(1, parseFloat(e.target.value) || 0) })}
+                              className="w-24 px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            />
+                            <span className="text-sm text-gray-400">MB</span>
+                            {TARGET_SIZE_PRESETS.map(size => (
+                              <button
+                                key={size}
+                                onClick={() => onChange({ targetSizeMB: size })}
+                                className={`px-2 py-1 rounded text-xs transition-colors ${
+                                  targetSizeMB === size
+                                    ? 'bg-blue-600 text-white'
+                                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                                }`}
+                              >
+                                {size} MB
+                              </button>
+                            ))}
+                          </div>
+                          {duration > 0 && (
+                            <p className={`text-xs ${targetVideoBitrate < MIN_TARGET_VIDEO_BITRATE ? 'text-red-400' : 'text-gray-400'}`}>
+                              {targetVideoBitrate < MIN_TARGET_VIDEO_BITRATE
+                                ? `Too small for ${duration.toFixed(1)}s of video - raise the target or shorten the range`
+                                : `Video encodes at ${targetVideoBitrate} kbps plus ${config.audioBitrate || DEFAULT_AUDIO_BITRATE}bps audio, in two passes`}
+                            </p>
+                          )}
+                        </div>
+                      )}
+                    </div>
+
+                    {/* Smart Render; copied video can't be held to a target size */}
+                    <label className={`flex items-start gap-3 ${isTargetSize ? 'opacity-50' : 'cursor-pointer'}`}>
+                      <input
+                        type="checkbox"
+                        checked={!!config.smartRender && !isTargetSize}
+                        disabled={isTargetSize}
+                        onChange={(e) => onChange({ smartRender: e.target.checked })}
+                        className="mt-1 accent-blue-500"
+                      />
+                      <span>
+                        <span className="block text-sm font-medium text-white">Smart Render</span>
+                        <span className="block text-xs text-gray-400">
+                          Copy untouched video straight from sources that already match this codec, resolution and frame rate.
+                          Only the frames around cuts are re-encoded.
+                        </span>
+                      </span>
+                    </label>
+
+                    {/* Chapters come from titled markers and are always embedded; the list file is optional */}
+                    <label className="flex items-start gap-3 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={!!config.chapterList}
+                        onChange={(e) => onChange({ chapterList: e.target.checked })}
+                        className="mt-1 accent-blue-500"
+                      />
+                      <span>
+                        <span className="block text-sm font-medium text-white">YouTube Chapter List</span>
+                        <span className="block text-xs text-gray-400">
+                          Titled timeline markers are embedded as chapters. Also write them as "00:00 Title" lines
+                          to a .chapters.txt file next to the video, timed from the start of the export.
+                        </span>
+                      </span>
+                    </label>
+
+                    {/* Captions from the visible caption tracks */}
+                    {captionCount > 0 && (
+                      <div>
+                        <label className="flex items-start gap-3 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={!!config.captions}
+                            onChange={(e) => onChange({ captions: e.target.checked ? DEFAULT_CAPTION_SETTINGS : undefined })}
+                            className="mt-1 accent-blue-500"
+                          />
+                          <span>
+                            <span className="block text-sm font-medium text-white">Captions</span>
+                            <span className="block text-xs text-gray-400">
+                              Include the {captionCount} caption{captionCount === 1 ? '' : 's'} on visible caption tracks,
+                              timed from the start of the export.
+                            </span>
+                          </span>
+                        </label>
+
+                        {config.captions && (
+                          <div className="mt-3 ml-7 space-y-3">
+                            <div className="grid grid-cols-3 gap-2">
+                              {CAPTION_MODE_OPTIONS.map(opt => (
+                                <button
+                                  key={opt.value}
+                                  onClick={() => handleCaptionChange({ mode: opt.value })}
+                                  className={`px-3 py-2 rounded-md text-sm transition-colors ${
+                                    config.captions?.mode === opt.value
+                                      ? 'bg-blue-600 text-white'
+                                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                                  }`}
+                                >
+                                  {opt.label}
+                                </button>
+                              ))}
+                            </div>
+
+                            {config.captions.mode === 'burnIn' && (
+                              <>
+                                <div className="flex items-center gap-2">
+                                  {CAPTION_FONT_SIZES.map(size => (
+                                    <button
+                                      key={size.fontSize}
+                                      onClick={() => handleCaptionStyleChange({ fontSize: size.fontSize })}
+                                      className={`px-2 py-1 rounded text-xs transition-colors ${
+                                        config.captions?.style.fontSize === size.fontSize
+                                          ? 'bg-blue-600 text-white'
+                                          : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                                      }`}
+                                    >
+                                      {size.label}
+                                    </button>
+                                  ))}
+                                  <select
+                                    value={config.captions.style.position}
+                                    onChange={(e) => handleCaptionStyleChange({ position: e.target.value as CaptionStyle['position'] })}
+                                    className="ml-auto px-2 py-1 bg-gray-700 border border-gray-600 rounded text-xs text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                  >
+                                    <option value="bottom">Bottom</option>
+                                    <option value="top">Top</option>
+                                  </select>
+                                </div>
+                                <div className="flex items-center gap-4 text-xs text-gray-300">
+                                  <label className="flex items-center gap-2">
+                                    <input
+                                      type="color"
+                                      value={config.captions.style.color}
+                                      onChange={(e) => handleCaptionStyleChange({ color: e.target.value })}
+                                      className="w-8 h-6 bg-transparent border border-gray-600 rounded cursor-pointer"
+                                    />
+                                    Text
+                                  </label>
+                                  <label className="flex items-center gap-2">
+                                    <input
+                                      type="color"
+                                      value={config.captions.style.outlineColor}
+                                      onChange={(e) => handleCaptionStyleChange({ outlineColor: e.target.value })}
+                                      className="w-8 h-6 bg-transparent border border-gray-600 rounded cursor-pointer"
+                                    />
+                                    Outline
+                                  </label>
+                                </div>
+                                <p className="text-xs text-gray-400">
+                                  Drawn into the picture as the preview shows them. All video is re-encoded, so Smart Render is skipped.
+                                </p>
+                              </>
+                            )}
+
+                            {config.captions.mode === 'sidecar' && (
+                              <div className="flex items-center gap-2">
+                                <select
+                                  value={config.captions.format}
+                                  onChange={(e) => handleCaptionChange({ format: e.target.value as CaptionFormat })}
+                                  className="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-xs text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                >
+                                  <option value="srt">SRT</option>
+                                  <option value="vtt">WebVTT</option>
+                                </select>
+                                <span className="text-xs text-gray-400">
+                                  Written next to the video with the same name.
+                                </span>
+                              </div>
+                            )}
+
+                            {config.captions.mode === 'embed' && (
+                              <p className="text-xs text-gray-400">
+                                Added as a {SUBTITLE_STREAM_LABELS[getVideoContainer(config)]} subtitle track that players can turn on and off.
+                              </p>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </>
+                )}
+              </>
+            )}
+          </div>
+        </>
+      )}
 
       {/* Export Summary */}
       <div className="bg-gray-800 rounded-lg p-4">
         <h4 className="text-sm font-medium text-white mb-2">Export Summary</h4>
         <div className="space-y-1 text-sm text-gray-300">
-          <div className="flex justify-between">
-            <span>Resolution:</span>
-            <span>{config.resolution.width}x{config.resolution.height}</span>
-          </div>
-          <div className="flex justify-between">
-            <span>Frame Rate:</span>
-            <span>{config.fps} FPS</span>
-          </div>
-          <div className="flex justify-between">
-            <span>Codec:</span>
-            <span>{config.codec.toUpperCase()}</span>
-          </div>
-          <div className="flex justify-between">
-            <span>Quality:</span>
-            <span className="capitalize">{config.quality}</span>
-          </div>
+          {isAudio ? (
+            <>
+              <div className="flex justify-between">
+                <span>Format:</span>
+                <span>{audioFormat.toUpperCase()}</span>
+              </div>
+              {isLossyAudio && (
+                <div className="flex justify-between">
+                  <span>Bitrate:</span>
+                  <span>{config.audioBitrate || DEFAULT_AUDIO_BITRATE}bps</span>
+                </div>
+              )}
+              <div className="flex justify-between">
+                <span>Sample Rate:</span>
+                <span>{config.audioSampleRate || 48000} Hz</span>
+              </div>
+            </>
+          ) : isImages ? (
+            <>
+              <div className="flex justify-between">
+                <span>Format:</span>
+                <span>{(config.imageFormat || 'png').toUpperCase()} sequence</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Resolution:</span>
+                <span>{config.resolution.width}x{config.resolution.height}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Frames:</span>
+                <span>{duration > 0 ? Math.round(duration * config.fps) : '—'}</span>
+              </div>
+            </>
+          ) : isAnimation ? (
+            <>
+              <div className="flex justify-between">
+                <span>Format:</span>
+                <span>{format.toUpperCase()}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Size:</span>
+                <span>{animation.width}x{Math.round(animation.width * config.resolution.height / config.resolution.width)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Frame Rate:</span>
+                <span>{animation.fps} FPS</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Loop:</span>
+                <span>{animation.loop === 0 ? 'Forever' : `${animation.loop}×`}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Estimated File Size:</span>
+                <span>{duration > 0 ? `~${formatFileSize(estimateAnimationSize())}` : '—'}</span>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="flex justify-between">
+                <span>Resolution:</span>
+                <span>{config.resolution.width}x{config.resolution.height}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Frame Rate:</span>
+                <span>{config.fps} FPS</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Codec:</span>
+                <span>{config.codec.toUpperCase()} in {getVideoContainer(config).toUpperCase()}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Preset:</span>
+                <span>{selectedPreset?.name || 'Custom'}</span>
+              </div>
+              {!isTargetSize && (
+                <div className="flex justify-between">
+                  <span>Rate:</span>
+                  <span>{effectiveCrf !== undefined ? `CRF ${effectiveCrf}` : `${effectiveBitrate}bps`}</span>
+                </div>
+              )}
+              {isTargetSize && (
+                <div className="flex justify-between">
+                  <span>Target Size:</span>
+                  <span>
+                    {targetSizeMB} MB{duration > 0 && targetVideoBitrate >= MIN_TARGET_VIDEO_BITRATE ? ` (${targetVideoBitrate} kbps)` : ''}
+                  </span>
+                </div>
+              )}
+              {config.smartRender && !isTargetSize && (
+                <div className="flex justify-between">
+                  <span>Smart Render:</span>
+                  <span>On</span>
+                </div>
+              )}
+            </>
+          )}
         </div>
       </div>
     </div>
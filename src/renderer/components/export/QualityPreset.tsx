@@ -1,80 +1,93 @@
 /**
  * Quality Preset Component
- * 
- * Individual quality preset button with visual indication
+ *
+ * Individual export preset button with visual indication
  * of selection and preset details.
  */
 
 import React from 'react';
 import { ExportComponentProps } from '../../../shared/contracts/components';
+import { ExportPreset } from '../../../shared/types';
+
+// Look of the built-in presets; user presets share one style
+const BUILT_IN_STYLES: Record<string, { color: string; icon: string }> = {
+  low: { color: 'bg-red-500', icon: '📱' },
+  medium: { color: 'bg-yellow-500', icon: '💻' },
+  high: { color: 'bg-blue-500', icon: '🖥️' },
+  ultra: { color: 'bg-purple-500', icon: '🎬' }
+};
+
+const USER_PRESET_STYLE = { color: 'bg-green-500', icon: '⭐' };
+
+// e.g. '1080p • 8Mbps' or '4K • CRF 20 • H265'
+const describePreset = (preset: ExportPreset): string => {
+  const { height } = preset.resolution;
+  const size = height === 2160 ? '4K' : `${height}p`;
+  const kbps = parseInt(preset.bitrate || '', 10);
+  const rate = preset.crf !== undefined
+    ? `CRF ${preset.crf}`
+    : kbps >= 1000 ? `${parseFloat((kbps / 1000).toFixed(1))}Mbps` : `${kbps}kbps`;
+
+  return [size, rate, ...(preset.codec !== 'h264' ? [preset.codec.toUpperCase()] : [])].join(' • ');
+};
 
 export const QualityPreset: React.FC<ExportComponentProps.QualityPreset> = ({
-  value,
-  label,
+  preset,
   selected,
-  onSelect
+  onSelect,
+  onDelete
 }) => {
-  // Preset configurations for display
-  const presetConfigs = {
-    low: {
-      color: 'bg-red-500',
-      description: '720p • 2Mbps',
-      icon: '📱'
-    },
-    medium: {
-      color: 'bg-yellow-500',
-      description: '1080p • 5Mbps',
-      icon: '💻'
-    },
-    high: {
-      color: 'bg-blue-500',
-      description: '1080p • 8Mbps',
-      icon: '🖥️'
-    },
-    ultra: {
-      color: 'bg-purple-500',
-      description: '4K • 15Mbps',
-      icon: '🎬'
-    }
-  };
-
-  const config = presetConfigs[value];
+  const style = (preset.builtIn && BUILT_IN_STYLES[preset.id]) || USER_PRESET_STYLE;
 
   return (
-    <button
-      onClick={() => onSelect(value)}
-      className={`
-        relative p-4 rounded-lg border-2 transition-all duration-200
-        ${selected 
-          ? 'border-blue-400 bg-blue-500/20' 
-          : 'border-gray-600 bg-gray-700 hover:border-gray-500 hover:bg-gray-600'
-        }
-        focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50
-      `}
-    >
-      {/* Selection indicator */}
-      {selected && (
-        <div className="absolute -top-1 -right-1 w-6 h-6 bg-blue-500 rounded-full flex items-center justify-center">
-          <span className="text-white text-xs">✓</span>
+    <div className="relative">
+      <button
+        onClick={() => onSelect(preset)}
+        className={`
+          relative w-full p-4 rounded-lg border-2 transition-all duration-200
+          ${selected
+            ? 'border-blue-400 bg-blue-500/20'
+            : 'border-gray-600 bg-gray-700 hover:border-gray-500 hover:bg-gray-600'
+          }
+          focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50
+        `}
+      >
+        {/* Selection indicator */}
+        {selected && (
+          <div className="absolute -top-1 -right-1 w-6 h-6 bg-blue-500 rounded-full flex items-center justify-center">
+            <span className="text-white text-xs">✓</span>
+          </div>
+        )}
+
+        {/* Preset content */}
+        <div className="text-center">
+          {/* Icon */}
+          <div className="text-2xl mb-2">{style.icon}</div>
+
+          {/* Label */}
+          <div className="text-white font-medium mb-1 truncate">{preset.name}</div>
+
+          {/* Description */}
+          <div className="text-xs text-gray-400">{describePreset(preset)}</div>
         </div>
-      )}
 
-      {/* Preset content */}
-      <div className="text-center">
-        {/* Icon */}
-        <div className="text-2xl mb-2">{config.icon}</div>
-        
-        {/* Label */}
-        <div className="text-white font-medium mb-1">{label}</div>
-        
-        {/* Description */}
-        <div className="text-xs text-gray-400">{config.description}</div>
-      </div>
+        {/* Quality indicator bar */}
+        <div className="absolute bottom-0 left-0 right-0 h-1 rounded-b-lg overflow-hidden">
+          <div className={`h-full ${style.color} opacity-60`} />
+        </div>
+      </button>
 
-      {/* Quality indicator bar */}
-      <div className="absolute bottom-0 left-0 right-0 h-1 rounded-b-lg overflow-hidden">
-        <div className={`h-full ${config.color} opacity-60`} />
-      </div>
-    </button>
+      {/* Delete (user presets only) */}
+      {onDelete && (
+        <button
+          onClick={onDelete}
+          className="absolute top-1 left-1 w-5 h-5 rounded-full text-xs text-gray-400 hover:text-white hover:bg-red-600 transition-colors"
+          aria-label={`Delete preset ${preset.name}`}
+          title="Delete preset"
+        >
+          ✕
+        </button>
+      )}
+    </div>
   );
 };
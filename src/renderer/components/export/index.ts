@@ -7,5 +7,6 @@
 export { ExportDialog } from './ExportDialog';
 export { ExportSettings } from './ExportSettings';
 export { ExportProgress } from './ExportProgress';
+export { ExportQueuePanel } from './ExportQueuePanel';
 export { QualityPreset } from './QualityPreset';
 export { ExportUITest } from './ExportUITest';
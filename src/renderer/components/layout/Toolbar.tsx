@@ -9,8 +9,10 @@ import React from 'react';
 import { useStore } from '../../store';
 import { useTimelineStore } from '../../store/timelineStore';
 import { useMediaStore } from '../../store/mediaStore';
+import { useProjectStore } from '../../store/projectStore';
 import { Button } from '../common';
 import { ImportButton } from '../media/ImportButton';
+import { fitResolutionToAspect } from '../../utils/frameUtils';
 
 export interface ToolbarProps {
   onRecordClick?: () => void;  // Callback to open RecordDialog
@@ -19,6 +21,7 @@ export interface ToolbarProps {
 
 export const Toolbar: React.FC<ToolbarProps> = ({ onRecordClick, isRecordingDrawerOpen = false }) => {
   const { export: exportStore } = useStore();
+  const activeJobCount = exportStore.queue.filter(job => job.status === 'pending' || job.status === 'running').length;
   const addItems = useMediaStore((state) => state.addItems);
   
   // Direct subscriptions to timeline store for reactive updates
@@ -64,60 +67,29 @@ export const Toolbar: React.FC<ToolbarProps> = ({ onRecordClick, isRecordingDraw
     console.log('═══════════════════════════════════════');
   };
 
-  // Handle export action
-  const handleExport = async () => {
+  // Handle export action - opens the export dialog, which runs and tracks the export
+  const handleExport = () => {
     console.log('🎬 Export button clicked!');
     
-    try {
-      // Get current timeline tracks
-      const tracks = useTimelineStore.getState().tracks;
-      const allClips = tracks.flatMap(track => track.clips);
-      
-      console.log('📊 Clips to export:', allClips.length);
-      
-      if (allClips.length === 0) {
-        alert('⚠️ Add clips to timeline first!');
-        return;
-      }
-      
-      // Show save dialog
-      const result = await window.api.project.openSaveDialog({
-        defaultPath: 'output.mp4'
-      });
-      
-      console.log('💾 Save dialog result:', result);
-      
-      if (!result.filePath) {
-        console.log('❌ Export canceled');
-        return;
-      }
-      
-      console.log('📤 Exporting to:', result.filePath);
-      alert('🎬 Exporting... (This will take a moment)');
-      
-      // Call export via IPC with correct format
-      await window.api.export.start({
-        config: {
-          outputPath: result.filePath,
-          quality: 'medium',
-          resolution: { width: 1920, height: 1080 },
-          fps: 30,
-          codec: 'h264'
-        },
-        timeline: {
-          tracks: tracks
-        }
-      });
-      
-      alert('✅ Export complete!\n' + result.filePath);
-      
-      // Open file location
-      await window.api.system.showItem({ path: result.filePath });
-      
-    } catch (error: any) {
-      console.error('❌ Export failed:', error);
-      alert('❌ Export failed: ' + error.message);
+    const allClips = useTimelineStore.getState().tracks.flatMap(track => track.clips);
+    console.log('📊 Clips to export:', allClips.length);
+    
+    if (allClips.length === 0) {
+      alert('⚠️ Add clips to timeline first!');
+      return;
     }
+    
+    const settings = useProjectStore.getState().project?.settings;
+    exportStore.updateConfig({
+      // Start from the project's frame shape; the dialog can still change it
+      ...(settings?.aspectRatio
+        ? { resolution: fitResolutionToAspect(exportStore.config.resolution, settings.aspectRatio) }
+        : {}),
+      audioSampleRate: settings?.audioSampleRate,
+      scalingMode: settings?.scalingMode,
+      padColor: settings?.padColor
+    });
+    exportStore.showDialog(true);
   };
 
   // Handle play/pause action
@@ -219,6 +191,15 @@ export const Toolbar: React.FC<ToolbarProps> = ({ onRecordClick, isRecordingDraw
             </svg>
             {exportStore.isExporting ? 'Exporting...' : 'Export'}
           </Button>
+
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => exportStore.showQueue(true)}
+            aria-label="Show export queue"
+          >
+            Queue{activeJobCount > 0 ? ` (${activeJobCount})` : ''}
+          </Button>
         </div>
 
         {/* Timeline Controls */}
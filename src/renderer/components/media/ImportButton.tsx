@@ -1,7 +1,7 @@
 /**
  * Import Button Component
  *
- * Button for importing video files into the media library.
+ * Button for importing video and image files into the media library.
  * Calls window.api.media.openFilePicker() and handles the import process.
  */
 
@@ -31,7 +31,7 @@ export const ImportButton: React.FC<ImportButtonProps> = ({
       const result = await window.api.media.openFilePicker({
         allowMultiple: true,
         filters: [
-          { name: 'Video Files', extensions: ['mp4', 'mov', 'webm', 'mkv', 'avi', 'm4v'] },
+          { name: 'Media Files', extensions: ['mp4', 'mov', 'webm', 'mkv', 'avi', 'm4v', 'png', 'jpg', 'jpeg', 'wav', 'mp3', 'aac', 'flac', 'ogg'] },
           { name: 'All Files', extensions: ['*'] }
         ]
       });
@@ -74,11 +74,11 @@ export const ImportButton: React.FC<ImportButtonProps> = ({
     const files = Array.from(e.dataTransfer.files);
     const videoFiles = files.filter(file => {
       const extension = file.name.split('.').pop()?.toLowerCase();
-      return ['mp4', 'mov', 'webm', 'mkv', 'avi', 'm4v'].includes(extension || '');
+      return ['mp4', 'mov', 'webm', 'mkv', 'avi', 'm4v', 'png', 'jpg', 'jpeg', 'wav', 'mp3', 'aac', 'flac', 'ogg'].includes(extension || '');
     });
 
     if (videoFiles.length === 0) {
-      setImportError('No valid video files found');
+      setImportError('No valid video, image or audio files found');
       return;
     }
 
@@ -180,7 +180,7 @@ export const ImportButton: React.FC<ImportButtonProps> = ({
               <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
               </svg>
-              Import Video
+              Import Media
             </>
           )}
         </Button>
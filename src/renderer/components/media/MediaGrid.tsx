@@ -29,6 +29,7 @@ export const MediaGrid: React.FC<MediaLibraryComponentProps.MediaGrid> = ({
             id={item.id}
             clip={item.clip}
             thumbnail={item.thumbnail}
+            offline={item.offline}
             isSelected={selectedIds.includes(item.id)}
             onSelect={onSelectItem}
             onDragStart={onDragStart}
@@ -75,7 +76,7 @@ const EmptyState: React.FC = () => {
 
         {/* Description */}
         <p className="text-gray-400 mb-6">
-          Import video files to get started with your project. 
+          Import video, image or audio files to get started with your project. 
           Drag and drop files or use the import button to add media to your library.
         </p>
 
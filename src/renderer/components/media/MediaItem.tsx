@@ -13,17 +13,27 @@ export const MediaItem: React.FC<MediaLibraryComponentProps.MediaItem> = ({
   id,
   clip,
   thumbnail,
+  offline = false,
   isSelected,
   onSelect,
   onDragStart,
   onDoubleClick,
 }) => {
+  const isImage = clip.metadata.kind === 'image';
+  const isAudio = clip.metadata.kind === 'audio';
+
   const handleClick = (e: React.MouseEvent) => {
     e.preventDefault();
     onSelect(id, e.ctrlKey || e.metaKey);
   };
 
   const handleDragStart = (e: React.DragEvent) => {
+    // Offline media can't be placed on the timeline until the file is back
+    if (offline) {
+      e.preventDefault();
+      return;
+    }
+
     e.dataTransfer.effectAllowed = 'copy';
     
     // Set comprehensive clip data for timeline drop handler
@@ -36,6 +46,8 @@ export const MediaItem: React.FC<MediaLibraryComponentProps.MediaItem> = ({
       fps: clip.metadata.frameRate,
       codec: clip.metadata.codec,
       size: clip.metadata.size,
+      kind: clip.metadata.kind,
+      audio: clip.metadata.audio,
       thumbnail,
     };
     
@@ -109,7 +121,8 @@ export const MediaItem: React.FC<MediaLibraryComponentProps.MediaItem> = ({
   return (
     <div
       className={`
-        media-item group cursor-grab active:cursor-grabbing select-none
+        media-item group select-none
+        ${offline ? 'cursor-not-allowed opacity-60' : 'cursor-grab active:cursor-grabbing'}
         ${isSelected 
           ? 'ring-2 ring-blue-500 bg-editor-hover shadow-lg shadow-blue-500/20' 
           : 'hover:bg-editor-hover hover:border-gray-600 hover:shadow-md'
@@ -120,9 +133,11 @@ export const MediaItem: React.FC<MediaLibraryComponentProps.MediaItem> = ({
       `}
       onClick={handleClick}
       onDoubleClick={handleDoubleClick}
-      draggable
+      draggable={!offline}
       onDragStart={handleDragStart}
-      title={`${getFileName(clip.sourceFile)} - ${formatDuration(clip.metadata.duration)}`}
+      title={offline
+        ? `${getFileName(clip.sourceFile)} - offline (file not found: ${clip.sourceFile})`
+        : `${getFileName(clip.sourceFile)} - ${isImage ? 'still image' : formatDuration(clip.metadata.duration)}`}
       tabIndex={0}
       role="button"
       aria-label={`Media clip: ${getFileName(clip.sourceFile)}`}
@@ -140,17 +155,24 @@ export const MediaItem: React.FC<MediaLibraryComponentProps.MediaItem> = ({
         ) : (
           <div className="w-full h-full flex items-center justify-center bg-gray-700">
             <div className="text-center text-gray-400">
-              <div className="text-2xl mb-1">🎬</div>
+              <div className="text-2xl mb-1">{isAudio ? '🎵' : '🎬'}</div>
               <div className="text-xs">{getFileExtension(clip.sourceFile)}</div>
             </div>
           </div>
         )}
         
-        {/* Duration Badge */}
+        {/* Duration Badge (images have no length of their own) */}
         <div className="absolute bottom-2 right-2 bg-black bg-opacity-75 text-white text-xs px-2 py-1 rounded">
-          {formatDuration(clip.metadata.duration)}
+          {isImage ? 'Image' : formatDuration(clip.metadata.duration)}
         </div>
 
+        {/* Offline Badge */}
+        {offline && (
+          <div className="absolute top-2 left-2 bg-red-600 text-white text-xs font-medium px-2 py-1 rounded">
+            Offline
+          </div>
+        )}
+
         {/* Selection Indicator */}
         {isSelected && (
           <div className="absolute top-2 right-2 w-4 h-4 bg-editor-accent rounded-full flex items-center justify-center">
@@ -180,8 +202,17 @@ export const MediaItem: React.FC<MediaLibraryComponentProps.MediaItem> = ({
         {/* Metadata */}
         <div className="text-xs text-gray-400 space-y-1">
           <div className="flex items-center justify-between">
-            <span>{clip.metadata.resolution.width}×{clip.metadata.resolution.height}</span>
-            <span>{clip.metadata.frameRate.toFixed(1)}fps</span>
+            {isAudio ? (
+              <>
+                <span>{((clip.metadata.audio?.sampleRate || 0) / 1000).toFixed(1)}kHz</span>
+                <span>{formatChannels(clip.metadata.audio?.channels || 0)}</span>
+              </>
+            ) : (
+              <>
+                <span>{clip.metadata.resolution.width}×{clip.metadata.resolution.height}</span>
+                {!isImage && <span>{clip.metadata.frameRate.toFixed(1)}fps</span>}
+              </>
+            )}
           </div>
           <div className="flex items-center justify-between">
             <span>{clip.metadata.codec.toUpperCase()}</span>
@@ -200,6 +231,13 @@ export const MediaItem: React.FC<MediaLibraryComponentProps.MediaItem> = ({
   );
 };
 
+// Helper function to name a channel count
+const formatChannels = (channels: number): string => {
+  if (channels === 1) return 'Mono';
+  if (channels === 2) return 'Stereo';
+  return `${channels} ch`;
+};
+
 // Helper function to format file size
 const formatFileSize = (bytes: number): string => {
   if (bytes === 0) return '0 B';
@@ -31,11 +31,12 @@ export const MediaLibrary: React.FC<MediaLibraryComponentProps.MediaLibrary> = (
   useEffect(() => {
     const loadThumbnails = async () => {
       for (const item of items) {
-        if (!item.thumbnail) {
+        // Audio files have no picture to take one from
+        if (!item.thumbnail && !item.offline && item.clip.metadata.kind !== 'audio') {
           try {
             console.log(`🖼️ Generating thumbnail for: ${item.clip.sourceFile}`);
-            // Generate thumbnail at 5 seconds or 10% of duration
-            const timestamp = Math.min(5, item.clip.metadata.duration * 0.1);
+            // Generate thumbnail at 5 seconds or 10% of duration (images only have one frame)
+            const timestamp = item.clip.metadata.kind === 'image' ? 0 : Math.min(5, item.clip.metadata.duration * 0.1);
             const thumbnail = await window.api.media.generateThumbnail({
               filePath: item.clip.sourceFile,
               timestamp,
@@ -149,6 +150,7 @@ export const MediaLibrary: React.FC<MediaLibraryComponentProps.MediaLibrary> = (
               id: item.id,
               clip: item.clip,
               thumbnail: item.thumbnail,
+              offline: item.offline,
             }))}
             selectedIds={selectedItemIds}
             onSelectItem={handleSelectItem}
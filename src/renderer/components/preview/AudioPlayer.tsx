@@ -0,0 +1,104 @@
+/**
+ * Audio Player Component
+ *
+ * Hidden audio element playing a clip from an audio track. Like VideoPlayer it follows the clip
+ * time it's given and reports its own while playing, so an audio track can keep timeline playback
+ * moving where there's no picture. It reads the source from the clip's in point and ends at its out point.
+ */
+
+import React, { forwardRef, useEffect, useImperativeHandle, useRef } from 'react';
+import { VideoPreviewComponentProps } from '../../../shared/contracts/components';
+import { VideoPlayerRef } from './VideoPlayer';
+
+export const AudioPlayer = forwardRef<VideoPlayerRef, VideoPreviewComponentProps.VideoPlayer>(
+  ({ clip, currentTime, isPlaying, volume, onTimeUpdate, onEnded }, ref) => {
+    const audioRef = useRef<HTMLAudioElement>(null);
+
+    const trimIn = clip?.trimIn ?? 0;
+    const length = clip ? clip.endTime - clip.startTime : 0;
+
+    useImperativeHandle(ref, () => ({
+      play: () => audioRef.current?.play(),
+      pause: () => audioRef.current?.pause(),
+      seek: (time: number) => {
+        if (audioRef.current) {
+          audioRef.current.currentTime = trimIn + time;
+        }
+      },
+      getCurrentTime: () => (audioRef.current?.currentTime ?? trimIn) - trimIn,
+      getDuration: () => length,
+    }));
+
+    // Seek when the timeline jumps; during playback the element drives the time
+    useEffect(() => {
+      const audio = audioRef.current;
+      if (audio && Math.abs(audio.currentTime - (trimIn + currentTime)) > 0.1) {
+        audio.currentTime = trimIn + currentTime;
+      }
+    }, [currentTime, trimIn]);
+
+    // Play/pause follows the store
+    useEffect(() => {
+      const audio = audioRef.current;
+      if (!audio) return;
+
+      if (isPlaying) {
+        if (audio.paused) {
+          audio.play().catch((err) => {
+            // Ignore AbortError - it's benign and happens during rapid state changes
+            if (err.name !== 'AbortError') {
+              console.error('Audio play error:', err);
+            }
+          });
+        }
+      } else if (!audio.paused) {
+        audio.pause();
+      }
+    }, [isPlaying, clip?.sourceFile]);
+
+    useEffect(() => {
+      if (audioRef.current) {
+        audioRef.current.volume = volume;
+      }
+    }, [volume]);
+
+    const handleTimeUpdate = () => {
+      const audio = audioRef.current;
+      if (!audio) return;
+
+      // The source usually runs on past the clip's out point
+      const time = audio.currentTime - trimIn;
+      if (time >= length) {
+        audio.pause();
+        onEnded();
+        return;
+      }
+
+      onTimeUpdate(time);
+    };
+
+    const handleLoadedMetadata = () => {
+      if (audioRef.current) {
+        audioRef.current.currentTime = trimIn + currentTime;
+      }
+    };
+
+    if (!clip) return null;
+
+    // Same media:// URL as VideoPlayer: forward slashes, no drive letter colon
+    const normalized = clip.sourceFile.replace(/\\/g, '/').replace(':', '');
+
+    return (
+      <audio
+        ref={audioRef}
+        src={`media://${normalized}`}
+        preload="auto"
+        onTimeUpdate={handleTimeUpdate}
+        onEnded={onEnded}
+        onLoadedMetadata={handleLoadedMetadata}
+      />
+    );
+  }
+);
+
+AudioPlayer.displayName = 'AudioPlayer';
@@ -0,0 +1,58 @@
+/**
+ * Caption Overlay Component
+ *
+ * Captions at the playhead drawn over the preview frame in the burn-in style, so the
+ * preview matches a burned-in export: sizes are fractions of the frame height, as libass
+ * scales them, with libass's default outline and margin.
+ */
+
+import React from 'react';
+import { CaptionCue, CaptionStyle } from '../../../shared/types';
+import { CAPTION_SCRIPT_HEIGHT } from '../../utils/captionUtils';
+
+export interface CaptionOverlayProps {
+  cues: CaptionCue[];
+  style: CaptionStyle;
+}
+
+// libass defaults for SRT captions, in subtitle units
+const CAPTION_OUTLINE = 1;
+const CAPTION_MARGIN = 10;
+
+// Subtitle units as a length that follows the frame height
+const toFrameHeight = (units: number): string => `${units / CAPTION_SCRIPT_HEIGHT * 100}cqh`;
+
+export const CaptionOverlay: React.FC<CaptionOverlayProps> = ({ cues, style }) => {
+  if (cues.length === 0) return null;
+
+  const outline = toFrameHeight(CAPTION_OUTLINE);
+  const outlineShadow = [
+    `${outline} 0`, `-${outline} 0`, `0 ${outline}`, `0 -${outline}`
+  ].map(offset => `${offset} 0 ${style.outlineColor}`).join(', ');
+
+  // Container query units inside resolve against this frame-sized box
+  return (
+    <div className="absolute inset-0 z-[1100] pointer-events-none" style={{ containerType: 'size' }}>
+      <div
+        className={`h-full flex flex-col items-center ${style.position === 'top' ? 'justify-start' : 'justify-end'}`}
+        style={{ padding: toFrameHeight(CAPTION_MARGIN) }}
+      >
+        {cues.map(cue => (
+          <div
+            key={cue.id}
+            className="text-center whitespace-pre-line"
+            style={{
+              fontFamily: 'Arial, sans-serif',
+              fontSize: toFrameHeight(style.fontSize),
+              lineHeight: 1.2,
+              color: style.color,
+              textShadow: outlineShadow
+            }}
+          >
+            {cue.text}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
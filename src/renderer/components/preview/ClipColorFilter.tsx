@@ -0,0 +1,62 @@
+/**
+ * Clip Color Filter Component
+ *
+ * SVG filter approximating a clip's color correction in the preview, in the export's order:
+ * eq's brightness, contrast and gamma curve, then saturation, then the white balance gains,
+ * then the LUT's grey axis curves. Players reference it through getClipColorFilter.
+ */
+
+import React from 'react';
+import { Clip } from '../../../shared/types';
+import {
+  NEUTRAL_COLOR_TEMPERATURE,
+  getEqCurve,
+  getTemperatureGains,
+  hasColorCorrection
+} from '../../utils/colorUtils';
+
+export interface ClipColorFilterProps {
+  clip: Clip;
+}
+
+const filterId = (clip: Clip) => `clip-color-${clip.id}`;
+
+/**
+ * CSS filter value for a clip's color correction, if it has any
+ */
+export const getClipColorFilter = (clip: Clip | null | undefined): string | undefined =>
+  clip && hasColorCorrection(clip.color) ? `url(#${filterId(clip)})` : undefined;
+
+const ChannelTables: React.FC<{ r: number[]; g: number[]; b: number[] }> = ({ r, g, b }) => (
+  <feComponentTransfer>
+    <feFuncR type="table" tableValues={r.join(' ')} />
+    <feFuncG type="table" tableValues={g.join(' ')} />
+    <feFuncB type="table" tableValues={b.join(' ')} />
+  </feComponentTransfer>
+);
+
+export const ClipColorFilter: React.FC<ClipColorFilterProps> = ({ clip }) => {
+  const color = clip.color;
+  if (!hasColorCorrection(color)) return null;
+
+  const curve = getEqCurve(color);
+  const gains = getTemperatureGains(color.temperature);
+
+  return (
+    <svg width="0" height="0" className="absolute" aria-hidden>
+      <filter id={filterId(clip)} colorInterpolationFilters="sRGB">
+        <ChannelTables r={curve} g={curve} b={curve} />
+        {color.saturation !== 1 && (
+          <feColorMatrix type="saturate" values={String(color.saturation)} />
+        )}
+        {color.temperature !== NEUTRAL_COLOR_TEMPERATURE && (
+          <feColorMatrix
+            type="matrix"
+            values={`${gains.r} 0 0 0 0  0 ${gains.g} 0 0 0  0 0 ${gains.b} 0 0  0 0 0 1 0`}
+          />
+        )}
+        {color.lut && <ChannelTables {...color.lut.previewCurves} />}
+      </filter>
+    </svg>
+  );
+};
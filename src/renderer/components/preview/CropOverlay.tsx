@@ -0,0 +1,127 @@
+/**
+ * Crop Overlay Component
+ *
+ * Draggable and resizable crop window drawn over a clip's whole source picture.
+ * The window keeps the frame's aspect ratio, so the cropped region fills the output
+ * frame without bars or distortion. Values are percentages of the source frame,
+ * exactly as the export crops them. Still images place their Ken Burns windows with it too.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Clip, ClipCrop } from '../../../shared/types';
+
+export interface CropOverlayProps {
+  clip: Clip;
+  crop: ClipCrop;
+  frameAspect: number;          // Width over height of the preview frame
+  label?: string;               // Tag on the window (default: 'Crop')
+  onChange: (crop: ClipCrop) => void;
+}
+
+// Smallest window, as a percentage of the source width
+const MIN_CROP_WIDTH = 5;
+
+export const CropOverlay: React.FC<CropOverlayProps> = ({ clip, crop, frameAspect, label = 'Crop', onChange }) => {
+  const sourceRef = useRef<HTMLDivElement>(null);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number; crop: ClipCrop } | null>(null);
+  const [resizeStart, setResizeStart] = useState<{ x: number; crop: ClipCrop } | null>(null);
+
+  const { width, height } = clip.metadata.resolution;
+  const sourceAspect = width > 0 && height > 0 ? width / height : frameAspect;
+
+  // Where the source sits in the preview frame when shown whole (object-fit: contain)
+  const sourceBox = sourceAspect > frameAspect
+    ? { width: 100, height: frameAspect / sourceAspect * 100 }
+    : { width: sourceAspect / frameAspect * 100, height: 100 };
+
+  // Width over height of the window in source percentages that gives the frame's shape
+  const cropRatio = frameAspect / sourceAspect;
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDragStart({ x: e.clientX, y: e.clientY, crop });
+  };
+
+  const handleResizeStart = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setResizeStart({ x: e.clientX, crop });
+  };
+
+  // Track the mouse on the document so fast drags don't lose the window
+  useEffect(() => {
+    if (!dragStart && !resizeStart) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const rect = sourceRef.current?.getBoundingClientRect();
+      if (!rect) return;
+
+      if (dragStart) {
+        const deltaX = (e.clientX - dragStart.x) / rect.width * 100;
+        const deltaY = (e.clientY - dragStart.y) / rect.height * 100;
+        const start = dragStart.crop;
+
+        onChange({
+          ...start,
+          x: Math.max(0, Math.min(100 - start.width, start.x + deltaX)),
+          y: Math.max(0, Math.min(100 - start.height, start.y + deltaY))
+        });
+      }
+
+      if (resizeStart) {
+        const start = resizeStart.crop;
+        const deltaX = (e.clientX - resizeStart.x) / rect.width * 100;
+        // Grow from the top-left corner, staying inside the source and at the frame's shape
+        const maxWidth = Math.min(100 - start.x, (100 - start.y) * cropRatio);
+        const nextWidth = Math.max(MIN_CROP_WIDTH, Math.min(maxWidth, start.width + deltaX));
+
+        onChange({ ...start, width: nextWidth, height: nextWidth / cropRatio });
+      }
+    };
+
+    const handleMouseUp = () => {
+      setDragStart(null);
+      setResizeStart(null);
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [dragStart, resizeStart, cropRatio, onChange]);
+
+  return (
+    <div className="absolute inset-0 z-[150] flex items-center justify-center pointer-events-none">
+      <div
+        ref={sourceRef}
+        className="relative overflow-hidden"
+        style={{ width: `${sourceBox.width}%`, height: `${sourceBox.height}%` }}
+      >
+        <div
+          onMouseDown={handleMouseDown}
+          className="absolute border-2 border-yellow-400 cursor-move pointer-events-auto"
+          style={{
+            left: `${crop.x}%`,
+            top: `${crop.y}%`,
+            width: `${crop.width}%`,
+            height: `${crop.height}%`,
+            // Dim everything outside the window
+            boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.55)'
+          }}
+        >
+          <div className="absolute top-1 left-1 px-1.5 py-0.5 bg-yellow-400 text-black text-[10px] font-semibold rounded">
+            {label}
+          </div>
+          <div
+            onMouseDown={handleResizeStart}
+            className="absolute -bottom-1.5 -right-1.5 w-3 h-3 bg-yellow-400 rounded-sm cursor-se-resize"
+            title="Resize"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
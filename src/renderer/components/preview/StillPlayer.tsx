@@ -0,0 +1,89 @@
+/**
+ * Still Player Component
+ *
+ * Stand-in for VideoPlayer when a clip is a still image. The picture never changes, so while
+ * playing it runs the clip's time on an animation frame loop and reports it through onTimeUpdate
+ * and onEnded, the way the video element does, so stills keep timeline playback moving.
+ */
+
+import React, { forwardRef, useEffect, useImperativeHandle, useRef } from 'react';
+import { VideoPreviewComponentProps } from '../../../shared/contracts/components';
+import { VideoPlayerRef } from './VideoPlayer';
+import { ClipColorFilter, getClipColorFilter } from './ClipColorFilter';
+
+export const StillPlayer = forwardRef<VideoPlayerRef, VideoPreviewComponentProps.VideoPlayer>(
+  ({ clip, currentTime, isPlaying, onTimeUpdate, onEnded, objectFit = 'contain' }, ref) => {
+    // Latest props for the frame loop, which outlives renders
+    const currentTimeRef = useRef(currentTime);
+    const callbacksRef = useRef({ onTimeUpdate, onEnded });
+    currentTimeRef.current = currentTime;
+    callbacksRef.current = { onTimeUpdate, onEnded };
+
+    const length = clip ? clip.endTime - clip.startTime : 0;
+
+    useImperativeHandle(ref, () => ({
+      // Playback is driven by the isPlaying prop
+      play: () => {},
+      pause: () => {},
+      seek: () => {},
+      getCurrentTime: () => currentTimeRef.current,
+      getDuration: () => length,
+    }));
+
+    // Advance the clip's time with the wall clock while playing
+    useEffect(() => {
+      if (!isPlaying || !clip) return;
+
+      let frame = 0;
+      let clockStart = performance.now();
+      let timeStart = currentTimeRef.current;
+      let lastReported = timeStart;
+
+      const tick = (now: number) => {
+        // A seek while playing moves the starting point
+        if (Math.abs(currentTimeRef.current - lastReported) > 0.1) {
+          clockStart = now;
+          timeStart = currentTimeRef.current;
+        }
+
+        const time = timeStart + (now - clockStart) / 1000;
+        if (time >= length) {
+          callbacksRef.current.onEnded();
+          return;
+        }
+
+        lastReported = time;
+        callbacksRef.current.onTimeUpdate(time);
+        frame = requestAnimationFrame(tick);
+      };
+
+      frame = requestAnimationFrame(tick);
+      return () => cancelAnimationFrame(frame);
+    }, [isPlaying, clip?.id, length]);
+
+    if (!clip) return null;
+
+    // Same media:// URL as VideoPlayer: forward slashes, no drive letter colon
+    const normalized = clip.sourceFile.replace(/\\/g, '/').replace(':', '');
+
+    return (
+      <>
+        <ClipColorFilter clip={clip} />
+        <img
+          src={`media://${normalized}`}
+          alt=""
+          draggable={false}
+          className="w-full h-full"
+          style={{
+            // Transparent letterbox so lower tracks show around a stacked clip, as in export
+            backgroundColor: 'transparent',
+            objectFit,
+            filter: getClipColorFilter(clip),
+          }}
+        />
+      </>
+    );
+  }
+);
+
+StillPlayer.displayName = 'StillPlayer';
@@ -0,0 +1,57 @@
+/**
+ * Text Overlay Component
+ *
+ * A text clip drawn over the preview frame the way the export's drawtext draws it:
+ * the bundled font, a size that follows the frame height, centred on its position,
+ * with the same box and fades.
+ */
+
+import React from 'react';
+import { Clip } from '../../../shared/types';
+import { TEXT_FONTS, getTextFadeAlpha } from '../../utils/textUtils';
+
+export interface TextOverlayProps {
+  clip: Clip;
+  time: number;
+  zIndex: number;
+}
+
+// Matches the export service's box border, as a fraction of the font size
+const TEXT_BOX_PADDING = 0.3;
+
+// '#rrggbb' and an opacity as a CSS color
+const toRgba = (color: string, alpha: number): string => {
+  const value = parseInt(color.slice(1), 16);
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`;
+};
+
+export const TextOverlay: React.FC<TextOverlayProps> = ({ clip, time, zIndex }) => {
+  const text = clip.text;
+  if (!text || !text.content.trim()) return null;
+
+  const font = TEXT_FONTS[text.font];
+
+  // Container query units inside resolve against this frame-sized box
+  return (
+    <div className="absolute inset-0 pointer-events-none" style={{ containerType: 'size', zIndex }}>
+      <div
+        className="absolute text-center whitespace-pre"
+        style={{
+          left: `${text.position.x}%`,
+          top: `${text.position.y}%`,
+          transform: 'translate(-50%, -50%)',
+          fontFamily: `'${font.family}', sans-serif`,
+          fontWeight: font.weight,
+          fontSize: `${text.fontSize}cqh`,
+          lineHeight: 1.2,
+          color: text.color,
+          backgroundColor: text.boxColor ? toRgba(text.boxColor, text.boxOpacity) : undefined,
+          padding: text.boxColor ? `${TEXT_BOX_PADDING}em` : undefined,
+          opacity: (clip.opacity ?? 1) * getTextFadeAlpha(clip, time)
+        }}
+      >
+        {text.content}
+      </div>
+    </div>
+  );
+};
@@ -7,6 +7,7 @@
 
 import React, { forwardRef, useEffect, useImperativeHandle, useRef } from 'react';
 import { VideoPreviewComponentProps } from '../../../shared/contracts/components';
+import { ClipColorFilter, getClipColorFilter } from './ClipColorFilter';
 
 export interface VideoPlayerRef {
   play: () => void;
@@ -17,7 +18,7 @@ export interface VideoPlayerRef {
 }
 
 export const VideoPlayer = forwardRef<VideoPlayerRef, VideoPreviewComponentProps.VideoPlayer>(
-  ({ clip, currentTime, isPlaying, volume, onTimeUpdate, onPlay, onPause, onEnded }, ref) => {
+  ({ clip, currentTime, isPlaying, volume, onTimeUpdate, onPlay, onPause, onEnded, objectFit = 'contain' }, ref) => {
     const videoRef = useRef<HTMLVideoElement>(null);
     const lastTimeRef = useRef<number>(0);
 
@@ -171,25 +172,31 @@ export const VideoPlayer = forwardRef<VideoPlayerRef, VideoPreviewComponentProps
     }
 
     return (
-      <video
-        ref={videoRef}
-        className="w-full h-full object-contain"
-        preload="metadata"
-        playsInline
-        onTimeUpdate={handleTimeUpdate}
-        onEnded={handleEnded}
-        onLoadedMetadata={handleLoadedMetadata}
-        onSeeked={handleSeeked}
-        onCanPlay={handleCanPlay}
-        onError={handleError}
-        onLoadStart={handleLoadStart}
-        onLoadedData={handleLoadedData}
-        style={{
-          backgroundColor: '#000',
-        }}
-      >
-        Your browser does not support the video tag.
-      </video>
+      <>
+        <ClipColorFilter clip={clip} />
+        <video
+          ref={videoRef}
+          className="w-full h-full"
+          preload="metadata"
+          playsInline
+          onTimeUpdate={handleTimeUpdate}
+          onEnded={handleEnded}
+          onLoadedMetadata={handleLoadedMetadata}
+          onSeeked={handleSeeked}
+          onCanPlay={handleCanPlay}
+          onError={handleError}
+          onLoadStart={handleLoadStart}
+          onLoadedData={handleLoadedData}
+          style={{
+            // Transparent letterbox so lower tracks show around a stacked clip, as in export
+            backgroundColor: 'transparent',
+            objectFit,
+            filter: getClipColorFilter(clip),
+          }}
+        >
+          Your browser does not support the video tag.
+        </video>
+      </>
     );
   }
 );
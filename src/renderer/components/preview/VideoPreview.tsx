@@ -3,21 +3,69 @@
  *
  * Container for video preview player synced with timeline.
  * Displays VideoPlayer and PlaybackControls, listens to timeline.currentTime.
+ * The frame takes the project's aspect ratio; the selected clip's crop window is placed here,
+ * and caption cues at the playhead are shown in the export's caption style.
+ * Text clips are drawn over their track's layer in the bundled fonts the export uses.
+ * Still images keep playback running on a timer, and their Ken Burns windows are placed here too.
+ * Audio tracks play through hidden audio elements and keep the playhead moving past the picture.
+ * Transitions between clips are approximated with CSS while they play.
  */
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { VideoPreviewComponentProps } from '../../../shared/contracts/components';
 import { useTimelineStore } from '../../store/timelineStore';
 import { useWebcamStore } from '../../store/webcamStore';
+import { useMediaStore } from '../../store/mediaStore';
+import { useProjectStore } from '../../store/projectStore';
+import { useExportStore } from '../../store/exportStore';
+import { Clip, ClipCrop, ScalingMode, Track, WebcamSource } from '../../../shared/types';
 import { usePlayback } from '../../hooks/usePlayback';
 import { VideoPlayer } from './VideoPlayer';
+import { StillPlayer } from './StillPlayer';
+import { AudioPlayer } from './AudioPlayer';
 import { PlaybackControls } from './PlaybackControls';
+import { findClipAtTime, findCuesAtTime, findTransitionAtTime, getClipFraming, getSourceTime } from '../../utils/timelineUtils';
+import { DEFAULT_CAPTION_STYLE } from '../../utils/captionUtils';
+import { DEFAULT_ASPECT_RATIO, getAspectRatioValue, getDefaultCrop, getKenBurnsCrop } from '../../utils/frameUtils';
 import { WebcamOverlay } from './WebcamOverlay';
+import { CropOverlay } from './CropOverlay';
+import { CaptionOverlay } from './CaptionOverlay';
+import { TextOverlay } from './TextOverlay';
 
 export interface VideoPreviewProps extends VideoPreviewComponentProps.VideoPreview {
   recordingStream?: MediaStream | null;
 }
 
+// Window placed with the crop overlay: the clip's crop, or either end of a still's Ken Burns move
+type CropTarget = 'crop' | 'kenBurnsStart' | 'kenBurnsEnd';
+
+// Preview framing for each scaling mode, matching the export's scale/pad/crop filters
+const OBJECT_FIT: Record<ScalingMode, 'contain' | 'cover' | 'fill'> = {
+  fit: 'contain',
+  fill: 'cover',
+  stretch: 'fill'
+};
+
+/**
+ * Size of a cropped clip's picture in the frame, as percentages, framed by its scaling mode
+ * the way the export scales the cropped region
+ */
+const getCroppedPictureSize = (
+  crop: ClipCrop,
+  sourceAspect: number,
+  frameAspect: number,
+  scalingMode: ScalingMode
+): { width: number; height: number } => {
+  if (scalingMode === 'stretch') return { width: 100, height: 100 };
+
+  const cropAspect = crop.width / crop.height * sourceAspect;
+  // Fit matches the frame on the crop's longer side, fill on its shorter side
+  const matchWidth = (cropAspect > frameAspect) === (scalingMode === 'fit');
+  return matchWidth
+    ? { width: 100, height: frameAspect / cropAspect * 100 }
+    : { width: cropAspect / frameAspect * 100, height: 100 };
+};
+
 export const VideoPreview: React.FC<VideoPreviewProps> = ({ 
   className = '',
   recordingStream = null
@@ -43,7 +91,30 @@ export const VideoPreview: React.FC<VideoPreviewProps> = ({
   const previewContainerRef = useRef<HTMLDivElement>(null);
   
   // Webcam controls
-  const { isEnabled: webcamEnabled, enableWebcam, disableWebcam } = useWebcamStore();
+  const {
+    isEnabled: webcamEnabled,
+    enableWebcam,
+    disableWebcam,
+    source: webcamSource,
+    setSource: setWebcamSource
+  } = useWebcamStore();
+  const mediaItems = useMediaStore((state) => state.items);
+  const projectSettings = useProjectStore((state) => state.project?.settings);
+  const updateClip = useTimelineStore((state) => state.updateClip);
+  const aspectRatio = projectSettings?.aspectRatio || DEFAULT_ASPECT_RATIO;
+  const frameAspect = getAspectRatioValue(aspectRatio);
+  const captionStyle = useExportStore((state) => state.config.captions?.style) || DEFAULT_CAPTION_STYLE;
+
+  // Clip whose crop window is being placed; the preview shows its whole source meanwhile
+  const [cropClipId, setCropClipId] = useState<string | null>(null);
+  const [cropTarget, setCropTarget] = useState<CropTarget>('crop');
+  const selectedClip: Clip | undefined = selectedClipIds.length === 1
+    ? tracks.flatMap(track => track.clips).find(clip => clip.id === selectedClipIds[0])
+    : undefined;
+  const cropClip = selectedClip && selectedClip.id === cropClipId ? selectedClip : undefined;
+  const cropWindow = cropTarget === 'crop'
+    ? cropClip?.crop
+    : cropClip?.kenBurns?.[cropTarget === 'kenBurnsStart' ? 'start' : 'end'];
 
   // Set recording stream as video source when available
   useEffect(() => {
@@ -54,23 +125,7 @@ export const VideoPreview: React.FC<VideoPreviewProps> = ({
 
   // Find the current clip based on timeline position
   useEffect(() => {
-    const findCurrentClip = () => {
-      // Small tolerance for floating point comparisons (50ms)
-      const EPSILON = 0.05;
-      
-      for (const track of tracks) {
-        for (const clip of track.clips) {
-          // Use epsilon tolerance: if currentTime is within 50ms of the clip range, consider it a match
-          if (currentTime >= clip.startTime - EPSILON && currentTime <= clip.endTime + EPSILON) {
-            return clip;
-          }
-        }
-      }
-      return null;
-    };
-
-    const clip = findCurrentClip();
-    setCurrentClip(clip);
+    setCurrentClip(findClipAtTime(tracks, currentTime));
   }, [currentTime, tracks]);
 
   // Sync video with timeline when timeline changes
@@ -86,11 +141,9 @@ export const VideoPreview: React.FC<VideoPreviewProps> = ({
     }
   }, [currentTime, currentClip]);
 
-  // Handle video time updates
-  const handleTimeUpdate = (time: number) => {
-    if (!currentClip) return;
-    
-    const timelineTime = currentClip.startTime + time;
+  // Handle time updates from the player driving playback, in its clip's time
+  const handleTimeUpdate = (clip: Clip, time: number) => {
+    const timelineTime = clip.startTime + time;
     
     // Update timeline time more frequently for smooth playback (reduced threshold)
     if (Math.abs(timelineTime - currentTime) > 0.016) {
@@ -142,6 +195,9 @@ export const VideoPreview: React.FC<VideoPreviewProps> = ({
     // Search all tracks for the clip with the earliest start time after current time
     // OR clips that are currently playing (currentTime is within the clip's range)
     for (const track of tracks) {
+      // Text clips have no video to play, and muted audio tracks have no player
+      if (track.kind === 'text' || (track.kind === 'audio' && track.muted)) continue;
+
       for (const clip of track.clips) {
         const isCurrentlyPlaying = currentTime >= clip.startTime && currentTime < clip.endTime;
         const startsAfterNow = clip.startTime >= currentTime - 0.01;
@@ -195,16 +251,240 @@ export const VideoPreview: React.FC<VideoPreviewProps> = ({
 
   // Helper function to calculate z-index based on track index
   const getTrackZIndex = (trackIndex: number): number => {
-    return 100 - (trackIndex * 10);
-    // Track 0 (Track 1) = z-index 100 (top)
-    // Track 1 (Track 2) = z-index 90
-    // Track 2 (Track 3) = z-index 80
-    // etc.
+    return 10 + trackIndex * 2;
+    // Track 0 (Track 1) = z-index 10 (bottom)
+    // Track 1 (Track 2) = z-index 12, drawn over Track 1 like the export
+    // Track 2 (Track 3) = z-index 14
+    // etc. The odd step in between is for the incoming side of a transition
   };
 
   // Calculate total duration
   const totalDuration = duration;
 
+  // Webcam source at the playhead - drawn in the webcam box instead of as a full-frame layer
+  const webcamTrackId = webcamSource?.type === 'track' ? webcamSource.trackId : null;
+
+  // The first track with a player at the playhead drives the timeline, so playback carries on
+  // through later tracks and audio tracks when the first one has nothing there
+  const clockTrackId = tracks.find(track =>
+    track.kind !== 'text'
+    && track.id !== webcamTrackId
+    && !(track.muted && (track.kind === 'audio' || track.visible === false))
+    && track.clips.some(clip => currentTime >= clip.startTime && currentTime < clip.endTime)
+  )?.id;
+
+  const webcamView = ((): { clip: Clip; time: number; volume: number } | null => {
+    if (webcamSource?.type === 'track') {
+      const track = tracks.find(t => t.id === webcamSource.trackId);
+      const clip = track?.clips.find(c => currentTime >= c.startTime && currentTime < c.endTime);
+      if (!track || !clip || track.visible === false) return null;
+
+      return {
+        clip,
+        time: clip.trimIn + (currentTime - clip.startTime),
+        volume: track.muted ? 0 : Math.min(1, volume * (track.gain ?? 1) * (clip.gain ?? 1))
+      };
+    }
+
+    if (webcamSource?.type === 'clip') {
+      // Media clips play from the start of the timeline, picture only
+      const clip = mediaItems.find(item => item.clip.id === webcamSource.clipId)?.clip;
+      if (!clip || currentTime >= clip.trimOut - clip.trimIn) return null;
+
+      return { clip, time: clip.trimIn + currentTime, volume: 0 };
+    }
+
+    return null;
+  })();
+
+  // Start placing one of the selected clip's windows; a new crop begins from the largest one in the frame's shape
+  const handleToggleCrop = (target: CropTarget) => {
+    if (!selectedClip || (cropClip && cropTarget === target)) {
+      setCropClipId(null);
+      return;
+    }
+
+    if (target === 'crop' && !selectedClip.crop) {
+      updateClip(selectedClip.id, { crop: getDefaultCrop(selectedClip, frameAspect) });
+    }
+    setCropTarget(target);
+    setCropClipId(selectedClip.id);
+  };
+
+  // Leave crop placement when the clip is deselected
+  useEffect(() => {
+    if (cropClipId && !cropClip) setCropClipId(null);
+  }, [cropClipId, cropClip]);
+
+  const handleCropChange = useCallback((crop: ClipCrop) => {
+    if (!cropClip) return;
+
+    if (cropTarget === 'crop') {
+      updateClip(cropClip.id, { crop });
+    } else if (cropClip.kenBurns) {
+      updateClip(cropClip.id, {
+        kenBurns: { ...cropClip.kenBurns, [cropTarget === 'kenBurnsStart' ? 'start' : 'end']: crop }
+      });
+    }
+  }, [cropClip, cropTarget, updateClip]);
+
+  // Export the frame at the playhead at the source's full resolution
+  const handleExportFrame = async () => {
+    const clip = findClipAtTime(tracks, currentTime);
+    if (!clip) return;
+
+    try {
+      const clipName = clip.sourceFile.split(/[/\\]/).pop()?.replace(/\.[^.]+$/, '') || 'frame';
+      const { filePath } = await window.api.project.openSaveDialog({
+        defaultPath: `${clipName}-${currentTime.toFixed(2).replace('.', '_')}s.png`
+      });
+      if (!filePath) return;
+
+      const { outputPath } = await window.api.export.exportFrame({
+        sourceFile: clip.sourceFile,
+        sourceTime: getSourceTime(clip, currentTime),
+        outputPath: filePath
+      });
+      console.log('🖼️ Exported frame to:', outputPath);
+    } catch (error) {
+      console.error('Failed to export frame:', error);
+      alert('Failed to export frame.');
+    }
+  };
+
+  // Encode the webcam source for the picker: '' | 'track:<id>' | 'clip:<id>'
+  const webcamSourceValue = webcamSource
+    ? `${webcamSource.type}:${webcamSource.type === 'track' ? webcamSource.trackId : webcamSource.clipId}`
+    : '';
+
+  const handleWebcamSourceChange = (value: string) => {
+    const separator = value.indexOf(':');
+    const type = value.slice(0, separator);
+    const id = value.slice(separator + 1);
+
+    let source: WebcamSource | null = null;
+    if (type === 'track') source = { type: 'track', trackId: id };
+    if (type === 'clip') source = { type: 'clip', clipId: id };
+    setWebcamSource(source);
+  };
+
+  const webcamOverlay = (
+    <WebcamOverlay
+      containerRef={previewContainerRef}
+      sourceClip={webcamView?.clip ?? null}
+      sourceTime={webcamView?.time ?? 0}
+      isPlaying={isPlaying}
+      volume={webcamView?.volume ?? 0}
+    />
+  );
+
+  // One clip's picture, placed and framed the way the export does it. During a transition both
+  // clips are drawn; only the one at the playhead (the primary) drives the timeline and plays sound.
+  const renderClipLayer = (
+    clip: Clip,
+    track: Track,
+    trackIndex: number,
+    isPrimary: boolean,
+    blend: ReturnType<typeof findTransitionAtTime>
+  ) => {
+    const isHidden = track.visible === false;
+    const isClock = isPrimary && track.id === clockTrackId;
+
+    // Calculate video time relative to clip start
+    // Don't clamp to clip duration - let video play to end naturally to trigger onEnded
+    // A clip whose transition hasn't reached its start yet holds its first frame
+    const videoTime = Math.max(0, currentTime - clip.startTime);
+
+    // Same placement as export: centred, offset by percent of frame, scaled from fit
+    // The clip whose crop is being placed is shown whole, untransformed, under the crop window
+    const isCropping = clip.id === cropClip?.id;
+    const transform = (!isCropping && clip.transform) || { x: 0, y: 0, scale: 1 };
+    const framing = getClipFraming(clip, projectSettings);
+    // A Ken Burns still shows its moving window in place of the crop
+    const crop = isCropping ? undefined : getKenBurnsCrop(clip, currentTime) ?? clip.crop;
+    const { width: sourceWidth, height: sourceHeight } = clip.metadata.resolution;
+    const sourceAspect = sourceWidth > 0 && sourceHeight > 0 ? sourceWidth / sourceHeight : frameAspect;
+
+    const Player = clip.metadata.kind === 'image' ? StillPlayer : VideoPlayer;
+    const player = (
+      <Player
+        ref={isClock ? videoRef : undefined}
+        clip={clip}
+        currentTime={videoTime}
+        isPlaying={isPlaying && currentTime >= clip.startTime}
+        // Only the clip at the playhead is heard
+        volume={track.muted || !isPrimary ? 0 : Math.min(1, volume * (track.gain ?? 1) * (clip.gain ?? 1))}
+        onTimeUpdate={isClock ? (time) => handleTimeUpdate(clip, time) : () => {}}
+        onEnded={isPrimary ? handleEnded : () => {}}
+        objectFit={crop ? 'fill' : isCropping ? 'contain' : OBJECT_FIT[framing.scalingMode]}
+      />
+    );
+    const picture = crop && getCroppedPictureSize(crop, sourceAspect, frameAspect, framing.scalingMode);
+    const opacity = isCropping ? 1 : clip.opacity ?? 1;
+    const zIndex = getTrackZIndex(trackIndex);
+
+    // Approximation of the export's xfade: dip to black darkens the clip at the playhead,
+    // crossfades and wipes reveal the incoming clip over the outgoing one
+    const blendStyle = ((): React.CSSProperties => {
+      if (!blend) return {};
+      const { transition, progress } = blend;
+      if (transition.type === 'dipToBlack') return { filter: `brightness(${Math.abs(1 - 2 * progress)})` };
+      if (clip.id !== blend.to.id) return {};
+      return transition.type === 'crossfade'
+        ? { zIndex: zIndex + 1, opacity: opacity * progress }
+        : { zIndex: zIndex + 1, clipPath: `inset(0 0 0 ${(1 - progress) * 100}%)` };
+    })();
+
+    return (
+      <div 
+        key={`${track.id}-${clip.id}`}
+        style={{
+          position: 'absolute',
+          top: 0,
+          left: 0,
+          width: '100%',
+          height: '100%',
+          zIndex,
+          transform: `translate(${transform.x}%, ${transform.y}%) scale(${transform.scale})`,
+          opacity,
+          // Fit bars take the pad color, like the export's pad filter
+          backgroundColor: framing.scalingMode === 'fit' && !isCropping ? framing.padColor : undefined,
+          overflow: 'hidden',
+          // Keep hidden tracks mounted so their audio still plays
+          visibility: isHidden ? 'hidden' : 'visible',
+          ...blendStyle
+        }}
+      >
+        {crop && picture ? (
+          // Picture sized to the framed crop region; the full source inside it is
+          // scaled up and offset so only the crop window shows
+          <div
+            className="absolute overflow-hidden"
+            style={{
+              left: '50%',
+              top: '50%',
+              width: `${picture.width}%`,
+              height: `${picture.height}%`,
+              transform: 'translate(-50%, -50%)'
+            }}
+          >
+            <div
+              className="absolute"
+              style={{
+                left: `${-crop.x / crop.width * 100}%`,
+                top: `${-crop.y / crop.height * 100}%`,
+                width: `${100 / crop.width * 100}%`,
+                height: `${100 / crop.height * 100}%`
+              }}
+            >
+              {player}
+            </div>
+          </div>
+        ) : player}
+      </div>
+    );
+  };
+
   return (
     <div className={`video-preview flex flex-col h-full ${className}`}>
       {/* Video Player Container with proper centering - min-h-0 allows it to shrink */}
@@ -212,10 +492,11 @@ export const VideoPreview: React.FC<VideoPreviewProps> = ({
         <div 
           className="max-w-full" 
           style={{ 
-            aspectRatio: '16/9',
-            width: '100%',
-            maxHeight: '100%',
-            height: 'auto'
+            aspectRatio: aspectRatio.replace(':', '/'),
+            // Wide frames fill the width, tall and square frames the height
+            ...(frameAspect > 1
+              ? { width: '100%', maxHeight: '100%', height: 'auto' }
+              : { height: '100%', maxWidth: '100%', width: 'auto' })
           }}
         >
           <div 
@@ -241,7 +522,7 @@ export const VideoPreview: React.FC<VideoPreviewProps> = ({
                 />
 
                 {/* Webcam Overlay */}
-                <WebcamOverlay containerRef={previewContainerRef} />
+                {webcamOverlay}
               </>
             ) : tracks.length > 0 ? (
               /* Timeline clips preview */
@@ -255,37 +536,65 @@ export const VideoPreview: React.FC<VideoPreviewProps> = ({
 
                   if (!clipAtTime) return null;
 
-                  // Calculate video time relative to clip start
-                  // Don't clamp to clip duration - let video play to end naturally to trigger onEnded
-                  const videoTime = Math.max(0, currentTime - clipAtTime.startTime);
+                  // The webcam source track is shown inside the webcam overlay
+                  if (track.id === webcamTrackId) return null;
 
-                  return (
-                    <div 
-                      key={`${track.id}-${clipAtTime.id}`}
-                      style={{
-                        position: 'absolute',
-                        top: 0,
-                        left: 0,
-                        width: '100%',
-                        height: '100%',
-                        zIndex: getTrackZIndex(trackIndex)
-                      }}
-                    >
-                      <VideoPlayer
-                        ref={trackIndex === 0 ? videoRef : undefined}
+                  // Same rules as export: hidden tracks show no picture, muted tracks play no sound
+                  if (track.visible === false && track.muted) return null;
+
+                  // Text has no sound, so a hidden text track shows nothing
+                  if (track.kind === 'text') {
+                    if (track.visible === false) return null;
+                    return <TextOverlay key={track.id} clip={clipAtTime} time={currentTime} zIndex={getTrackZIndex(trackIndex)} />;
+                  }
+
+                  // Audio has no picture, so a muted audio track plays nothing
+                  if (track.kind === 'audio') {
+                    if (track.muted) return null;
+                    const isClock = track.id === clockTrackId;
+                    return (
+                      <AudioPlayer
+                        key={`${track.id}-${clipAtTime.id}`}
+                        ref={isClock ? videoRef : undefined}
                         clip={clipAtTime}
-                        currentTime={videoTime}
+                        currentTime={currentTime - clipAtTime.startTime}
                         isPlaying={isPlaying}
-                        volume={track.muted ? 0 : volume}
-                        onTimeUpdate={trackIndex === 0 ? handleTimeUpdate : () => {}}
-                        onEnded={handleEnded}
+                        volume={Math.min(1, volume * (track.gain ?? 1) * (clipAtTime.gain ?? 1))}
+                        onTimeUpdate={isClock ? (time) => handleTimeUpdate(clipAtTime, time) : () => {}}
+                        // A track below the clock ending changes nothing
+                        onEnded={isClock ? handleEnded : () => {}}
                       />
-                    </div>
+                    );
+                  }
+
+                  // Crossfades and wipes also show the other clip of the transition. Clips stay in timeline
+                  // order so neither player is remounted when the playhead crosses the cut.
+                  const blend = findTransitionAtTime(track, currentTime);
+                  const layerClips = blend && blend.transition.type !== 'dipToBlack' ? [blend.from, blend.to] : [clipAtTime];
+
+                  return (
+                    <React.Fragment key={track.id}>
+                      {layerClips.map(clip => renderClipLayer(clip, track, trackIndex, clip.id === clipAtTime.id, blend))}
+                    </React.Fragment>
                   );
                 })}
 
+                {/* Crop window for the selected clip, while it's at the playhead */}
+                {cropClip && cropWindow && currentTime >= cropClip.startTime && currentTime < cropClip.endTime && (
+                  <CropOverlay
+                    clip={cropClip}
+                    crop={cropWindow}
+                    label={cropTarget === 'crop' ? 'Crop' : cropTarget === 'kenBurnsStart' ? 'Start' : 'End'}
+                    frameAspect={frameAspect}
+                    onChange={handleCropChange}
+                  />
+                )}
+
                 {/* Webcam Overlay */}
-                <WebcamOverlay containerRef={previewContainerRef} />
+                {webcamOverlay}
+
+                {/* Captions go over everything, as they're burned in last */}
+                <CaptionOverlay cues={findCuesAtTime(tracks, currentTime)} style={captionStyle} />
               </>
             ) : (
               <div className="w-full h-full flex items-center justify-center">
@@ -303,7 +612,69 @@ export const VideoPreview: React.FC<VideoPreviewProps> = ({
       {/* Playback Controls - always visible at bottom */}
       <div className="flex-shrink-0">
         {/* Webcam Toggle Button (above playback controls) */}
-        <div className="px-4 pb-2 flex justify-end">
+        <div className="px-4 pb-2 flex justify-end items-center gap-2">
+          {selectedClip?.kenBurns ? (
+            // A Ken Burns still is framed by its start and end windows instead of a crop
+            (['kenBurnsStart', 'kenBurnsEnd'] as const).map(target => (
+              <button
+                key={target}
+                onClick={() => handleToggleCrop(target)}
+                className={`px-3 py-1.5 rounded-md text-xs font-medium transition-all ${
+                  cropClip && cropTarget === target
+                    ? 'bg-yellow-500 hover:bg-yellow-600 text-black'
+                    : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                }`}
+                title={`Place the window the Ken Burns move ${target === 'kenBurnsStart' ? 'starts' : 'ends'} on`}
+              >
+                {cropClip && cropTarget === target ? 'Done' : target === 'kenBurnsStart' ? 'Start Window' : 'End Window'}
+              </button>
+            ))
+          ) : (
+            <button
+              onClick={() => handleToggleCrop('crop')}
+              disabled={!selectedClip || !!selectedClip.text || selectedClip.metadata.kind === 'audio'}
+              className={`px-3 py-1.5 rounded-md text-xs font-medium transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
+                cropClip
+                  ? 'bg-yellow-500 hover:bg-yellow-600 text-black'
+                  : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+              }`}
+              title={`Choose the part of the selected clip that stays in the ${aspectRatio} frame`}
+            >
+              {cropClip ? 'Done Cropping' : 'Crop'}
+            </button>
+          )}
+          <button
+            onClick={handleExportFrame}
+            disabled={!currentClip}
+            className="px-3 py-1.5 rounded-md text-xs font-medium bg-gray-700 hover:bg-gray-600 text-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+            title="Save the frame at the playhead as an image"
+          >
+            Export Frame
+          </button>
+          <select
+            value={webcamSourceValue}
+            onChange={(e) => handleWebcamSourceChange(e.target.value)}
+            className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-xs text-gray-300"
+            title="Track or clip shown in the webcam box and burned into exports"
+          >
+            <option value="">No webcam source</option>
+            {tracks.length > 0 && (
+              <optgroup label="Tracks">
+                {tracks.map(track => (
+                  <option key={track.id} value={`track:${track.id}`}>{track.name}</option>
+                ))}
+              </optgroup>
+            )}
+            {mediaItems.length > 0 && (
+              <optgroup label="Media clips">
+                {mediaItems.map(item => (
+                  <option key={item.id} value={`clip:${item.clip.id}`}>
+                    {item.clip.sourceFile.split(/[/\\]/).pop()}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+          </select>
           <button
             onClick={handleWebcamToggle}
             className={`px-3 py-1.5 rounded-md text-xs font-medium transition-all ${
@@ -3,19 +3,34 @@
  * 
  * Draggable and resizable webcam overlay for video preview.
  * Position and size persist per-project.
+ * Shows the live webcam, or - when a webcam source is chosen - that source at the playhead,
+ * framed exactly as export burns it in.
  */
 
 import React, { useRef, useState, useEffect } from 'react';
+import { Clip } from '../../../shared/types';
 import { useWebcamStore } from '../../store/webcamStore';
+import { VideoPlayer } from './VideoPlayer';
 
 export interface WebcamOverlayProps {
   containerRef: React.RefObject<HTMLDivElement | null>;
+  sourceClip?: Clip | null;     // Webcam source clip at the playhead
+  sourceTime?: number;          // Position within sourceClip's file (seconds)
+  isPlaying?: boolean;
+  volume?: number;
 }
 
-export const WebcamOverlay: React.FC<WebcamOverlayProps> = ({ containerRef }) => {
+export const WebcamOverlay: React.FC<WebcamOverlayProps> = ({
+  containerRef,
+  sourceClip = null,
+  sourceTime = 0,
+  isPlaying = false,
+  volume = 0
+}) => {
   const {
     isEnabled,
     stream,
+    source,
     position,
     size,
     isDragging,
@@ -146,8 +161,9 @@ export const WebcamOverlay: React.FC<WebcamOverlayProps> = ({ containerRef }) =>
     };
   }, [isDragging, isResizing, dragStart, resizeStart, position, size, containerRef, setPosition, setSize, setDragging, setResizing]);
 
-  // Don't render if not enabled (MUST be after all hooks)
-  if (!isEnabled || !stream) {
+  // Don't render without something to show (MUST be after all hooks)
+  const showingSource = source !== null;
+  if (showingSource ? !sourceClip : (!isEnabled || !stream)) {
     return null;
   }
 
@@ -172,20 +188,35 @@ export const WebcamOverlay: React.FC<WebcamOverlayProps> = ({ containerRef }) =>
       }}
       onMouseDown={handleMouseDown}
     >
-      {/* Video element with mirrored display */}
-      <video
-        ref={videoRef}
-        autoPlay
-        playsInline
-        muted
-        style={{
-          width: '100%',
-          height: '100%',
-          objectFit: 'cover', // Fill container completely (container is 4:3, matching webcam)
-          transform: 'scaleX(-1)', // Mirror horizontally
-          pointerEvents: 'none'
-        }}
-      />
+      {showingSource ? (
+        /* Webcam source from the timeline - not mirrored, same as export */
+        <div style={{ width: '100%', height: '100%', pointerEvents: 'none' }}>
+          <VideoPlayer
+            clip={sourceClip}
+            currentTime={sourceTime}
+            isPlaying={isPlaying}
+            volume={volume}
+            onTimeUpdate={() => {}}
+            onEnded={() => {}}
+            objectFit="cover"
+          />
+        </div>
+      ) : (
+        /* Video element with mirrored display */
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          muted
+          style={{
+            width: '100%',
+            height: '100%',
+            objectFit: 'cover', // Fill container completely (container is 4:3, matching webcam)
+            transform: 'scaleX(-1)', // Mirror horizontally
+            pointerEvents: 'none'
+          }}
+        />
+      )}
 
       {/* Visual indicators */}
       <div
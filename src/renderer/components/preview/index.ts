@@ -6,6 +6,12 @@
 
 export { VideoPreview } from './VideoPreview';
 export { VideoPlayer } from './VideoPlayer';
+export { StillPlayer } from './StillPlayer';
+export { AudioPlayer } from './AudioPlayer';
 export { PlaybackControls } from './PlaybackControls';
 export { WebcamOverlay } from './WebcamOverlay';
+export { CropOverlay } from './CropOverlay';
+export { CaptionOverlay } from './CaptionOverlay';
+export { TextOverlay } from './TextOverlay';
+export { ClipColorFilter } from './ClipColorFilter';
 export type { VideoPlayerRef } from './VideoPlayer';
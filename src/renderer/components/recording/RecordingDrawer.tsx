@@ -10,6 +10,7 @@ import { RecordingSource } from '../../../shared/types';
 import { useWebcamStore } from '../../store/webcamStore';
 import { useMediaStore } from '../../store/mediaStore';
 import { useTimelineStore } from '../../store/timelineStore';
+import { canTrackHoldClip } from '../../utils/timelineUtils';
 
 export interface RecordingDrawerProps {
   isOpen: boolean;
@@ -270,7 +271,8 @@ export const RecordingDrawer: React.FC<RecordingDrawerProps> = ({
       const timelineStore = useTimelineStore.getState();
       const tracks = timelineStore.tracks;
 
-      const emptyTrack = tracks.find(track => track.clips.length === 0);
+      // Caption, text and audio tracks can't take a recording
+      const emptyTrack = tracks.find(track => track.clips.length === 0 && canTrackHoldClip(track, newClip));
 
       if (emptyTrack) {
         console.log(`Adding clip to empty track: ${emptyTrack.name}`);
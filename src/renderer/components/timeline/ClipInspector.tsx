@@ -0,0 +1,711 @@
+/**
+ * Clip Inspector Component
+ *
+ * Side panel for editing properties of the selected timeline clip.
+ * Shows layer placement (position, scale) and opacity used when tracks are stacked,
+ * plus clip and track audio gain used by the export mix.
+ * Framing (fit, fill, stretch) and the crop window are set per clip, with the project's
+ * frame shape and default framing below.
+ * A clip that starts where the previous one on its track ends can blend in with a transition.
+ * Still images can pan and zoom between two windows (Ken Burns) in place of a crop.
+ * Clips with a picture can be color corrected and graded with a .cube LUT.
+ * Text clips show their text, font, box, position and fades in place of the media sections.
+ * Audio clips have no picture, so they show only their transition and gain.
+ */
+
+import React from 'react';
+import { AspectRatioPreset, Clip, ClipColor, ClipTransform, ScalingMode, TextClipSettings, TextFont, TransitionType } from '@types';
+import { useTimelineStore } from '../../store/timelineStore';
+import { useProjectStore } from '../../store/projectStore';
+import {
+  DEFAULT_SCALING_MODE,
+  DEFAULT_TRANSITION_DURATION,
+  MIN_TRANSITION_DURATION,
+  TRANSITION_LABELS,
+  getClipFraming,
+  getMaxTransitionDuration,
+  getTransitionPartner
+} from '../../utils/timelineUtils';
+import {
+  ASPECT_RATIO_PRESETS,
+  DEFAULT_ASPECT_RATIO,
+  fitResolutionToAspect,
+  getAspectRatioValue,
+  getDefaultKenBurns
+} from '../../utils/frameUtils';
+import { TEXT_FONTS } from '../../utils/textUtils';
+import { DEFAULT_CLIP_COLOR } from '../../utils/colorUtils';
+
+interface ClipInspectorProps {
+  className?: string;
+}
+
+const DEFAULT_TRANSFORM: ClipTransform = { x: 0, y: 0, scale: 1 };
+
+const SCALING_MODE_LABELS: Record<ScalingMode, string> = {
+  fit: 'Fit (pad)',
+  fill: 'Fill (crop)',
+  stretch: 'Stretch'
+};
+
+// Shown in the color picker while no pad color is set
+const DEFAULT_PAD_COLOR = '#000000';
+
+// Shown in the color picker while a text clip has no background box
+const DEFAULT_BOX_COLOR = '#000000';
+
+export const ClipInspector: React.FC<ClipInspectorProps> = ({ className = '' }) => {
+  const { tracks, selectedClipIds, updateClip, updateTrack } = useTimelineStore();
+  const projectSettings = useProjectStore((state) => state.project?.settings);
+
+  // Only a single selected clip can be edited
+  const selectedClip: Clip | undefined = selectedClipIds.length === 1
+    ? tracks.flatMap(track => track.clips).find(clip => clip.id === selectedClipIds[0])
+    : undefined;
+
+  if (!selectedClip) {
+    return (
+      <div className={`clip-inspector p-4 space-y-4 overflow-y-auto ${className}`}>
+        <p className="text-sm text-gray-500">Select a clip to edit its properties</p>
+        <ProjectFramingSettings />
+      </div>
+    );
+  }
+
+  const track = tracks.find(t => t.id === selectedClip.trackId);
+  const transform = selectedClip.transform || DEFAULT_TRANSFORM;
+  const opacity = selectedClip.opacity ?? 1;
+  const text = selectedClip.text;
+  const isImage = selectedClip.metadata.kind === 'image';
+  const isAudio = selectedClip.metadata.kind === 'audio';
+  const frameAspect = getAspectRatioValue(projectSettings?.aspectRatio || DEFAULT_ASPECT_RATIO);
+  const clipName = text ? text.content.split('\n')[0] : selectedClip.sourceFile.split(/[/\\]/).pop() || 'Unknown';
+  const framing = getClipFraming(selectedClip, projectSettings);
+  const transitionIn = selectedClip.transitionIn;
+  const transitionPartner = track && getTransitionPartner(track, selectedClip);
+  const maxTransitionDuration = transitionPartner ? getMaxTransitionDuration(transitionPartner, selectedClip) : 0;
+
+  const handleTransitionTypeChange = (type: TransitionType | '') => {
+    updateClip(selectedClip.id, {
+      transitionIn: type
+        ? { type, duration: transitionIn?.duration ?? Math.min(DEFAULT_TRANSITION_DURATION, maxTransitionDuration) }
+        : undefined
+    });
+  };
+
+  const handleTransformChange = (updates: Partial<ClipTransform>) => {
+    updateClip(selectedClip.id, { transform: { ...transform, ...updates } });
+  };
+
+  const handleReset = () => {
+    updateClip(selectedClip.id, {
+      transform: { ...DEFAULT_TRANSFORM },
+      opacity: 1,
+      gain: 1,
+      scalingMode: undefined,
+      padColor: undefined,
+      crop: undefined,
+      kenBurns: undefined,
+      color: undefined
+    });
+  };
+
+  return (
+    <div className={`clip-inspector p-4 space-y-4 overflow-y-auto ${className}`}>
+      <div>
+        <h3 className="text-sm font-semibold text-white">{text ? 'Text' : isAudio ? 'Audio' : 'Clip'}</h3>
+        <p className="text-xs text-gray-400 truncate" title={selectedClip.sourceFile}>{clipName}</p>
+      </div>
+
+      {text && (
+        <TextSettings
+          text={text}
+          onChange={(updates) => updateClip(selectedClip.id, { text: { ...text, ...updates } })}
+        />
+      )}
+
+      {/* Clips with a picture only */}
+      {!text && !isAudio && (
+        <>
+          {/* Transform */}
+          <div className="space-y-3">
+            <h4 className="text-xs font-semibold text-gray-300 uppercase tracking-wide">Transform</h4>
+            <InspectorSlider
+              label="Position X"
+              value={transform.x}
+              min={-100}
+              max={100}
+              step={1}
+              format={(value) => `${value}%`}
+              onChange={(x) => handleTransformChange({ x })}
+            />
+            <InspectorSlider
+              label="Position Y"
+              value={transform.y}
+              min={-100}
+              max={100}
+              step={1}
+              format={(value) => `${value}%`}
+              onChange={(y) => handleTransformChange({ y })}
+            />
+            <InspectorSlider
+              label="Scale"
+              value={transform.scale}
+              min={0.1}
+              max={2}
+              step={0.05}
+              format={(value) => `${Math.round(value * 100)}%`}
+              onChange={(scale) => handleTransformChange({ scale })}
+            />
+          </div>
+
+          {/* Framing */}
+          <div className="space-y-3">
+            <h4 className="text-xs font-semibold text-gray-300 uppercase tracking-wide">Framing</h4>
+            <label className="block">
+              <div className="text-xs text-gray-400 mb-1">Scaling</div>
+              <select
+                value={selectedClip.scalingMode || ''}
+                onChange={(e) => updateClip(selectedClip.id, { scalingMode: (e.target.value || undefined) as ScalingMode | undefined })}
+                className="w-full bg-gray-700 border border-gray-600 rounded px-2 py-1 text-xs text-white"
+              >
+                <option value="">Project default ({SCALING_MODE_LABELS[projectSettings?.scalingMode || DEFAULT_SCALING_MODE]})</option>
+                {(Object.keys(SCALING_MODE_LABELS) as ScalingMode[]).map(mode => (
+                  <option key={mode} value={mode}>{SCALING_MODE_LABELS[mode]}</option>
+                ))}
+              </select>
+            </label>
+            {framing.scalingMode === 'fit' && (
+              <PadColorInput
+                label="Pad Color"
+                value={selectedClip.padColor}
+                fallback={projectSettings?.padColor}
+                onChange={(padColor) => updateClip(selectedClip.id, { padColor })}
+              />
+            )}
+            {!selectedClip.kenBurns && (
+              <div>
+                <div className="flex items-center justify-between text-xs mb-1">
+                  <span className="text-gray-400">Crop</span>
+                  <span className="text-gray-300 font-mono">
+                    {selectedClip.crop
+                      ? `${Math.round(selectedClip.crop.width)}×${Math.round(selectedClip.crop.height)}% at ${Math.round(selectedClip.crop.x)}, ${Math.round(selectedClip.crop.y)}`
+                      : 'Whole frame'}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <p className="flex-1 text-xs text-gray-500">Place it with Crop under the preview</p>
+                  <button
+                    onClick={() => updateClip(selectedClip.id, { crop: undefined })}
+                    disabled={!selectedClip.crop}
+                    className="px-2 py-0.5 bg-gray-700 hover:bg-gray-600 text-gray-300 text-xs rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Clear
+                  </button>
+                </div>
+              </div>
+            )}
+            {isImage && (
+              <div>
+                <label className="flex items-center gap-2 text-xs text-gray-400">
+                  <input
+                    type="checkbox"
+                    checked={!!selectedClip.kenBurns}
+                    onChange={(e) => updateClip(selectedClip.id, {
+                      kenBurns: e.target.checked ? getDefaultKenBurns(selectedClip, frameAspect) : undefined
+                    })}
+                    className="accent-blue-500"
+                  />
+                  Ken Burns (pan and zoom)
+                </label>
+                {selectedClip.kenBurns && (
+                  <p className="mt-1 text-xs text-gray-500">Place the start and end windows under the preview</p>
+                )}
+              </div>
+            )}
+          </div>
+
+          <ColorSettings
+            color={selectedClip.color || DEFAULT_CLIP_COLOR}
+            onChange={(updates) => updateClip(selectedClip.id, {
+              color: { ...(selectedClip.color || DEFAULT_CLIP_COLOR), ...updates }
+            })}
+          />
+        </>
+      )}
+
+      {/* Opacity (audio has no picture) */}
+      {!isAudio && (
+        <div className="space-y-3">
+          <h4 className="text-xs font-semibold text-gray-300 uppercase tracking-wide">Compositing</h4>
+          <InspectorSlider
+            label="Opacity"
+            value={opacity}
+            min={0}
+            max={1}
+            step={0.01}
+            format={(value) => `${Math.round(value * 100)}%`}
+            onChange={(value) => updateClip(selectedClip.id, { opacity: value })}
+          />
+        </div>
+      )}
+
+      {/* Media clips only */}
+      {!text && (
+        <>
+          {/* Transition from the previous clip */}
+          <div className="space-y-3">
+            <h4 className="text-xs font-semibold text-gray-300 uppercase tracking-wide">Transition In</h4>
+            {transitionPartner ? (
+              <>
+                <label className="block">
+                  <div className="text-xs text-gray-400 mb-1">Type</div>
+                  <select
+                    value={transitionIn?.type || ''}
+                    onChange={(e) => handleTransitionTypeChange(e.target.value as TransitionType | '')}
+                    className="w-full bg-gray-700 border border-gray-600 rounded px-2 py-1 text-xs text-white"
+                  >
+                    <option value="">None (cut)</option>
+                    {/* Sound can only be crossfaded */}
+                    {((isAudio ? ['crossfade'] : Object.keys(TRANSITION_LABELS)) as TransitionType[]).map(type => (
+                      <option key={type} value={type}>{TRANSITION_LABELS[type]}</option>
+                    ))}
+                  </select>
+                </label>
+                {transitionIn && (
+                  <InspectorSlider
+                    label="Duration"
+                    value={Math.min(transitionIn.duration, maxTransitionDuration)}
+                    min={MIN_TRANSITION_DURATION}
+                    max={Math.max(MIN_TRANSITION_DURATION, maxTransitionDuration)}
+                    step={0.1}
+                    format={(value) => `${value.toFixed(1)}s`}
+                    onChange={(duration) => updateClip(selectedClip.id, {
+                      transitionIn: { ...transitionIn, duration }
+                    })}
+                  />
+                )}
+              </>
+            ) : (
+              <p className="text-xs text-gray-500">Place the clip right after another on its track to blend between them</p>
+            )}
+          </div>
+
+          {/* Audio (images have no sound) */}
+          {!isImage && (
+            <div className="space-y-3">
+              <h4 className="text-xs font-semibold text-gray-300 uppercase tracking-wide">Audio</h4>
+              <InspectorSlider
+                label="Clip Gain"
+                value={selectedClip.gain ?? 1}
+                min={0}
+                max={2}
+                step={0.05}
+                format={formatGain}
+                onChange={(gain) => updateClip(selectedClip.id, { gain })}
+              />
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Track */}
+      {track && (
+        <div className="space-y-3">
+          <h4 className="text-xs font-semibold text-gray-300 uppercase tracking-wide">Track: {track.name}</h4>
+          <div className="flex gap-2">
+            {!text && (
+              <button
+                onClick={() => updateTrack(track.id, { muted: !track.muted })}
+                className={`flex-1 px-2 py-1 text-xs rounded transition-colors ${
+                  track.muted ? 'bg-red-600 hover:bg-red-700 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                }`}
+              >
+                {track.muted ? 'Muted' : 'Mute'}
+              </button>
+            )}
+            {!isAudio && (
+              <button
+                onClick={() => updateTrack(track.id, { visible: !track.visible })}
+                className={`flex-1 px-2 py-1 text-xs rounded transition-colors ${
+                  !track.visible ? 'bg-yellow-600 hover:bg-yellow-700 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                }`}
+              >
+                {track.visible ? 'Hide' : 'Hidden'}
+              </button>
+            )}
+          </div>
+          {!text && (
+            <InspectorSlider
+              label="Track Gain"
+              value={track.gain ?? 1}
+              min={0}
+              max={2}
+              step={0.05}
+              format={formatGain}
+              onChange={(gain) => updateTrack(track.id, { gain })}
+            />
+          )}
+        </div>
+      )}
+
+      <button
+        onClick={handleReset}
+        className="w-full px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 text-xs rounded transition-colors"
+      >
+        Reset
+      </button>
+
+      <ProjectFramingSettings />
+    </div>
+  );
+};
+
+/**
+ * The project's default framing, used by every clip that doesn't set its own
+ */
+const ProjectFramingSettings: React.FC = () => {
+  const settings = useProjectStore((state) => state.project?.settings);
+  const updateProjectSettings = useProjectStore((state) => state.updateProjectSettings);
+
+  // Settings live on the project, so there's nothing to edit before one exists
+  if (!settings) return null;
+
+  const scalingMode = settings.scalingMode || DEFAULT_SCALING_MODE;
+
+  // The resolution follows the shape, so exports started from the project match the preview
+  const handleAspectRatioChange = (aspectRatio: AspectRatioPreset) => {
+    updateProjectSettings({ aspectRatio, resolution: fitResolutionToAspect(settings.resolution, aspectRatio) });
+  };
+
+  return (
+    <div className="space-y-3 pt-4 border-t border-gray-700">
+      <h4 className="text-xs font-semibold text-gray-300 uppercase tracking-wide">Project Framing</h4>
+      <label className="block">
+        <div className="text-xs text-gray-400 mb-1">Aspect Ratio</div>
+        <select
+          value={settings.aspectRatio || DEFAULT_ASPECT_RATIO}
+          onChange={(e) => handleAspectRatioChange(e.target.value as AspectRatioPreset)}
+          className="w-full bg-gray-700 border border-gray-600 rounded px-2 py-1 text-xs text-white"
+        >
+          {ASPECT_RATIO_PRESETS.map(aspectRatio => (
+            <option key={aspectRatio} value={aspectRatio}>{aspectRatio}</option>
+          ))}
+        </select>
+      </label>
+      <label className="block">
+        <div className="text-xs text-gray-400 mb-1">Default Scaling</div>
+        <select
+          value={scalingMode}
+          onChange={(e) => updateProjectSettings({ scalingMode: e.target.value as ScalingMode })}
+          className="w-full bg-gray-700 border border-gray-600 rounded px-2 py-1 text-xs text-white"
+        >
+          {(Object.keys(SCALING_MODE_LABELS) as ScalingMode[]).map(mode => (
+            <option key={mode} value={mode}>{SCALING_MODE_LABELS[mode]}</option>
+          ))}
+        </select>
+      </label>
+      {scalingMode === 'fit' && (
+        <PadColorInput
+          label="Default Pad Color"
+          value={settings.padColor}
+          onChange={(padColor) => updateProjectSettings({ padColor })}
+        />
+      )}
+    </div>
+  );
+};
+
+interface TextSettingsProps {
+  text: TextClipSettings;
+  onChange: (updates: Partial<TextClipSettings>) => void;
+}
+
+/**
+ * What a text clip says and how it's drawn; sizes and positions are relative to the frame
+ */
+const TextSettings: React.FC<TextSettingsProps> = ({ text, onChange }) => (
+  <div className="space-y-3">
+    <h4 className="text-xs font-semibold text-gray-300 uppercase tracking-wide">Text</h4>
+    <textarea
+      value={text.content}
+      onChange={(e) => onChange({ content: e.target.value })}
+      // Keep typing out of the timeline's shortcuts (Delete removes the clip, S splits)
+      onKeyDown={(e) => e.stopPropagation()}
+      rows={3}
+      placeholder="Text"
+      className="w-full bg-gray-700 border border-gray-600 rounded px-2 py-1 text-xs text-white resize-y focus:outline-none"
+    />
+    <label className="block">
+      <div className="text-xs text-gray-400 mb-1">Font</div>
+      <select
+        value={text.font}
+        onChange={(e) => onChange({ font: e.target.value as TextFont })}
+        className="w-full bg-gray-700 border border-gray-600 rounded px-2 py-1 text-xs text-white"
+      >
+        {(Object.keys(TEXT_FONTS) as TextFont[]).map(font => (
+          <option key={font} value={font}>{TEXT_FONTS[font].label}</option>
+        ))}
+      </select>
+    </label>
+    <InspectorSlider
+      label="Size"
+      value={text.fontSize}
+      min={1}
+      max={30}
+      step={0.5}
+      format={(value) => `${value}% of height`}
+      onChange={(fontSize) => onChange({ fontSize })}
+    />
+    <label className="block">
+      <div className="flex items-center justify-between text-xs mb-1">
+        <span className="text-gray-400">Color</span>
+        <span className="text-gray-300 font-mono">{text.color}</span>
+      </div>
+      <input
+        type="color"
+        value={text.color}
+        onChange={(e) => onChange({ color: e.target.value })}
+        className="h-6 w-full bg-gray-700 border border-gray-600 rounded cursor-pointer"
+      />
+    </label>
+    <div>
+      <div className="flex items-center justify-between text-xs mb-1">
+        <span className="text-gray-400">Background Box</span>
+        <span className="text-gray-300 font-mono">{text.boxColor || 'None'}</span>
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="color"
+          value={text.boxColor || DEFAULT_BOX_COLOR}
+          onChange={(e) => onChange({ boxColor: e.target.value })}
+          className="h-6 flex-1 bg-gray-700 border border-gray-600 rounded cursor-pointer"
+        />
+        <button
+          onClick={() => onChange({ boxColor: undefined })}
+          disabled={!text.boxColor}
+          className="px-2 py-0.5 bg-gray-700 hover:bg-gray-600 text-gray-300 text-xs rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          None
+        </button>
+      </div>
+    </div>
+    {text.boxColor && (
+      <InspectorSlider
+        label="Box Opacity"
+        value={text.boxOpacity}
+        min={0}
+        max={1}
+        step={0.01}
+        format={(value) => `${Math.round(value * 100)}%`}
+        onChange={(boxOpacity) => onChange({ boxOpacity })}
+      />
+    )}
+    <InspectorSlider
+      label="Position X"
+      value={text.position.x}
+      min={0}
+      max={100}
+      step={1}
+      format={(value) => `${value}%`}
+      onChange={(x) => onChange({ position: { ...text.position, x } })}
+    />
+    <InspectorSlider
+      label="Position Y"
+      value={text.position.y}
+      min={0}
+      max={100}
+      step={1}
+      format={(value) => `${value}%`}
+      onChange={(y) => onChange({ position: { ...text.position, y } })}
+    />
+    <InspectorSlider
+      label="Fade In"
+      value={text.fadeIn}
+      min={0}
+      max={5}
+      step={0.1}
+      format={(value) => `${value.toFixed(1)}s`}
+      onChange={(fadeIn) => onChange({ fadeIn })}
+    />
+    <InspectorSlider
+      label="Fade Out"
+      value={text.fadeOut}
+      min={0}
+      max={5}
+      step={0.1}
+      format={(value) => `${value.toFixed(1)}s`}
+      onChange={(fadeOut) => onChange({ fadeOut })}
+    />
+  </div>
+);
+
+interface ColorSettingsProps {
+  color: ClipColor;
+  onChange: (updates: Partial<ClipColor>) => void;
+}
+
+/**
+ * Adjustments applied to the clip's source picture, then the LUT it's graded with
+ */
+const ColorSettings: React.FC<ColorSettingsProps> = ({ color, onChange }) => {
+  const handleLoadLut = async () => {
+    try {
+      const { lut } = await window.api.media.importLut();
+      if (!lut) return; // Cancelled
+
+      onChange({ lut });
+      console.log(`🎨 Loaded LUT ${lut.name}`);
+    } catch (error) {
+      console.error('❌ LUT import failed:', error);
+      alert(error instanceof Error ? error.message : 'LUT import failed');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-xs font-semibold text-gray-300 uppercase tracking-wide">Color</h4>
+      <InspectorSlider
+        label="Brightness"
+        value={color.brightness}
+        min={-1}
+        max={1}
+        step={0.01}
+        format={(value) => `${value > 0 ? '+' : ''}${value.toFixed(2)}`}
+        onChange={(brightness) => onChange({ brightness })}
+      />
+      <InspectorSlider
+        label="Contrast"
+        value={color.contrast}
+        min={0}
+        max={2}
+        step={0.01}
+        format={(value) => `${Math.round(value * 100)}%`}
+        onChange={(contrast) => onChange({ contrast })}
+      />
+      <InspectorSlider
+        label="Saturation"
+        value={color.saturation}
+        min={0}
+        max={3}
+        step={0.01}
+        format={(value) => `${Math.round(value * 100)}%`}
+        onChange={(saturation) => onChange({ saturation })}
+      />
+      <InspectorSlider
+        label="Gamma"
+        value={color.gamma}
+        min={0.1}
+        max={3}
+        step={0.01}
+        format={(value) => value.toFixed(2)}
+        onChange={(gamma) => onChange({ gamma })}
+      />
+      <InspectorSlider
+        label="Temperature"
+        value={color.temperature}
+        min={2000}
+        max={12000}
+        step={100}
+        format={(value) => `${value}K`}
+        onChange={(temperature) => onChange({ temperature })}
+      />
+      <div>
+        <div className="flex items-center justify-between text-xs mb-1">
+          <span className="text-gray-400">LUT</span>
+          <span className="text-gray-300 font-mono truncate ml-2" title={color.lut?.file}>{color.lut?.name || 'None'}</span>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handleLoadLut}
+            className="flex-1 px-2 py-0.5 bg-gray-700 hover:bg-gray-600 text-gray-300 text-xs rounded transition-colors"
+          >
+            Load…
+          </button>
+          <button
+            onClick={() => onChange({ lut: undefined })}
+            disabled={!color.lut}
+            className="px-2 py-0.5 bg-gray-700 hover:bg-gray-600 text-gray-300 text-xs rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Clear
+          </button>
+        </div>
+        {color.lut && (
+          <p className="mt-1 text-xs text-gray-500">The preview shows the LUT's tone curve; the export applies it in full</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface PadColorInputProps {
+  label: string;
+  value?: string;
+  fallback?: string;           // Inherited color shown while value is unset
+  onChange: (value: string | undefined) => void;
+}
+
+// Color picker that can be cleared back to the inherited color, or to transparent bars
+const PadColorInput: React.FC<PadColorInputProps> = ({ label, value, fallback, onChange }) => {
+  const inherited = fallback ? 'Project' : 'Transparent';
+
+  return (
+    <div>
+      <div className="flex items-center justify-between text-xs mb-1">
+        <span className="text-gray-400">{label}</span>
+        <span className="text-gray-300 font-mono">{value || fallback || 'Transparent'}</span>
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="color"
+          value={value || fallback || DEFAULT_PAD_COLOR}
+          onChange={(e) => onChange(e.target.value)}
+          className="h-6 flex-1 bg-gray-700 border border-gray-600 rounded cursor-pointer"
+        />
+        <button
+          onClick={() => onChange(undefined)}
+          disabled={!value}
+          className="px-2 py-0.5 bg-gray-700 hover:bg-gray-600 text-gray-300 text-xs rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          title={fallback ? 'Use the project pad color' : 'Leave the bars transparent'}
+        >
+          {inherited}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Show linear gain in dB, which is how editors usually read levels
+const formatGain = (gain: number): string => {
+  if (gain <= 0) return '-∞ dB';
+  const db = 20 * Math.log10(gain);
+  return `${db >= 0 ? '+' : ''}${db.toFixed(1)} dB`;
+};
+
+interface InspectorSliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  onChange: (value: number) => void;
+}
+
+const InspectorSlider: React.FC<InspectorSliderProps> = ({ label, value, min, max, step, format, onChange }) => (
+  <label className="block">
+    <div className="flex items-center justify-between text-xs mb-1">
+      <span className="text-gray-400">{label}</span>
+      <span className="text-gray-300 font-mono">{format(value)}</span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="w-full accent-blue-500"
+    />
+  </label>
+);
@@ -1,7 +1,8 @@
 /**
  * Time Ruler Component
  * 
- * Renders time markings and labels at the top of the timeline.
+ * Renders time markings and labels at the top of the timeline,
+ * plus the in/out export range when one is marked.
  * Implements TimelineComponentProps.TimeRuler interface.
  */
 
@@ -20,7 +21,9 @@ const COLORS = {
   border: '#444',
   tick: '#888',
   text: '#ffffff',
-  playhead: '#ff4757'
+  playhead: '#ff4757',
+  range: 'rgba(74, 144, 226, 0.25)',
+  rangeMark: '#4a90e2'
 };
 
 export const TimeRuler: React.FC<{
@@ -28,12 +31,16 @@ export const TimeRuler: React.FC<{
   zoom: number;
   scrollLeft: number;
   currentTime: number;
+  inPoint?: number | null;
+  outPoint?: number | null;
   onSeek: (time: number) => void;
 }> = ({
   duration,
   zoom,
   scrollLeft,
   currentTime,
+  inPoint = null,
+  outPoint = null,
   onSeek
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -74,13 +81,41 @@ export const TimeRuler: React.FC<{
     ctx.lineWidth = 1;
     ctx.strokeRect(0, 0, width, height);
 
+    // Draw in/out range under the ticks
+    drawInOutRange(ctx, height);
+
     // Draw time ticks and labels
     drawTimeTicks(ctx, width);
 
     // Draw playhead
     drawPlayhead(ctx, currentTime, height);
 
-  }, [duration, pixelsPerSecond, scrollLeft, currentTime]);
+  }, [duration, pixelsPerSecond, scrollLeft, currentTime, inPoint, outPoint]);
+
+  // Draw the in/out range: shaded span with bracket marks at each set point
+  const drawInOutRange = (ctx: CanvasRenderingContext2D, height: number) => {
+    if (inPoint === null && outPoint === null) return;
+
+    const startX = timeToPixels(inPoint ?? 0);
+    const endX = timeToPixels(outPoint ?? duration);
+
+    ctx.fillStyle = COLORS.range;
+    ctx.fillRect(startX, 0, Math.max(0, endX - startX), height);
+
+    ctx.strokeStyle = COLORS.rangeMark;
+    ctx.lineWidth = 2;
+    const drawBracket = (x: number, direction: 1 | -1) => {
+      ctx.beginPath();
+      ctx.moveTo(x + direction * 6, 1);
+      ctx.lineTo(x, 1);
+      ctx.lineTo(x, height - 1);
+      ctx.lineTo(x + direction * 6, height - 1);
+      ctx.stroke();
+    };
+
+    if (inPoint !== null) drawBracket(startX, 1);
+    if (outPoint !== null) drawBracket(endX, -1);
+  };
 
   // Draw time ticks and labels
   const drawTimeTicks = (ctx: CanvasRenderingContext2D, width: number) => {
@@ -9,8 +9,10 @@ import React, { useRef, useEffect, useState, useCallback } from 'react';
 import { useTimelineStore } from '../../store/timelineStore';
 import { TimelineCanvas } from './TimelineCanvas';
 import { TimeRuler } from './TimeRuler';
+import { TimelineMarkers } from './TimelineMarkers';
 import { TimelineControls } from './TimelineControls';
 import { TrimDialog } from './TrimDialog';
+import { DEFAULT_STILL_DURATION, canTrackHoldClip } from '../../utils/timelineUtils';
 import { Clip, Track } from '@types';
 
 export const Timeline: React.FC<{ className?: string }> = ({ className = '' }) => {
@@ -79,6 +81,20 @@ export const Timeline: React.FC<{ className?: string }> = ({ className = '' }) =
   const addTrack = useTimelineStore((state) => state.addTrack);
   const removeTrack = useTimelineStore((state) => state.removeTrack);
   const updateTrack = useTimelineStore((state) => state.updateTrack);
+  const inPoint = useTimelineStore((state) => state.inPoint);
+  const outPoint = useTimelineStore((state) => state.outPoint);
+  const setInPoint = useTimelineStore((state) => state.setInPoint);
+  const setOutPoint = useTimelineStore((state) => state.setOutPoint);
+  const clearInOutPoints = useTimelineStore((state) => state.clearInOutPoints);
+  const markers = useTimelineStore((state) => state.markers);
+  const addMarker = useTimelineStore((state) => state.addMarker);
+  const updateMarker = useTimelineStore((state) => state.updateMarker);
+  const removeMarker = useTimelineStore((state) => state.removeMarker);
+  const addCaptionTrack = useTimelineStore((state) => state.addCaptionTrack);
+  const addTextTrack = useTimelineStore((state) => state.addTextTrack);
+  const addAudioTrack = useTimelineStore((state) => state.addAudioTrack);
+  const addTextClip = useTimelineStore((state) => state.addTextClip);
+  const updateClip = useTimelineStore((state) => state.updateClip);
 
   // Timeline constants
   const PIXELS_PER_SECOND_BASE = 100;
@@ -270,6 +286,30 @@ export const Timeline: React.FC<{ className?: string }> = ({ className = '' }) =
     }
   };
 
+  // Import an SRT/WebVTT file as a new caption track named after it
+  const handleImportCaptions = useCallback(async () => {
+    try {
+      const { fileName, cues } = await window.api.media.importCaptions();
+      if (!fileName) return; // Cancelled
+      
+      addCaptionTrack(fileName.replace(/\.(srt|vtt)$/i, ''), cues);
+      console.log(`💬 Imported ${cues.length} captions from ${fileName}`);
+    } catch (error) {
+      console.error('❌ Caption import failed:', error);
+      alert(error instanceof Error ? error.message : 'Caption import failed');
+    }
+  }, [addCaptionTrack]);
+
+  // Add a text clip at the playhead on the first text track, creating one if needed
+  const handleAddText = useCallback(() => {
+    let textTrack = tracks.find(track => track.kind === 'text');
+    if (!textTrack) {
+      addTextTrack(`Text ${tracks.filter(track => track.kind === 'text').length + 1}`);
+      textTrack = useTimelineStore.getState().tracks.find(track => track.kind === 'text');
+    }
+    if (textTrack) addTextClip(textTrack.id, currentTime);
+  }, [tracks, currentTime, addTextTrack, addTextClip]);
+
   // Handle trim clip request (right-click context menu)
   const handleTrimClip = useCallback((clipId: string) => {
     // Find the clip
@@ -517,8 +557,19 @@ export const Timeline: React.FC<{ className?: string }> = ({ className = '' }) =
           console.log('✂️ Split clip at', currentTime.toFixed(3), 's');
         }
       }
+    } else if ((e.key === 'i' || e.key === 'I') && !e.ctrlKey && !e.metaKey) {
+      // Mark export range at the playhead; Alt clears the mark
+      e.preventDefault();
+      setInPoint(e.altKey ? null : undefined);
+    } else if ((e.key === 'o' || e.key === 'O') && !e.ctrlKey && !e.metaKey) {
+      e.preventDefault();
+      setOutPoint(e.altKey ? null : undefined);
+    } else if ((e.key === 'm' || e.key === 'M') && !e.ctrlKey && !e.metaKey) {
+      // Drop a marker at the playhead; double-click it on the ruler to title it
+      e.preventDefault();
+      addMarker();
     }
-  }, [selectedClipIds, deleteSelectedClips, tracks, currentTime, splitClip]);
+  }, [selectedClipIds, deleteSelectedClips, tracks, currentTime, splitClip, setInPoint, setOutPoint, addMarker]);
 
   // Drop zone state
   const [dropZone, setDropZone] = useState<{
@@ -600,10 +651,24 @@ export const Timeline: React.FC<{ className?: string }> = ({ className = '' }) =
       }
       
       const trackIndex = Math.max(0, Math.min(tracks.length - 1, Math.floor((y - 40) / (TRACK_HEIGHT + TRACK_MARGIN))));
-      const targetTrack = tracks[trackIndex];
+      const isImage = clipInfo.kind === 'image';
+      const isAudio = clipInfo.kind === 'audio';
+      let targetTrack: Track | undefined = tracks[trackIndex];
+      
+      // Audio files dropped off an audio track go on the first one, which is added if there isn't one
+      if (isAudio && targetTrack?.kind !== 'audio') {
+        targetTrack = tracks.find(track => track.kind === 'audio');
+        if (!targetTrack) {
+          addAudioTrack('Audio 1');
+          targetTrack = useTimelineStore.getState().tracks.find(track => track.kind === 'audio');
+        }
+      }
       
-      if (targetTrack) {
-        const duration = clipInfo.duration || 5;
+      if (targetTrack && !isAudio && (targetTrack.kind ?? 'video') !== 'video') {
+        console.warn(`Clips can't be dropped on a ${targetTrack.kind} track`);
+      } else if (targetTrack) {
+        // Images have no length of their own, so they start at the default one
+        const duration = isImage ? DEFAULT_STILL_DURATION : clipInfo.duration || 5;
         
         // Snap drop time to nearby clips and/or grid
         const snappedTime = snapTime(dropTime);
@@ -618,14 +683,19 @@ export const Timeline: React.FC<{ className?: string }> = ({ className = '' }) =
           trimIn: 0,
           trimOut: duration,
           metadata: {
-            duration,
-            resolution: {
-              width: clipInfo.width || 1920,
-              height: clipInfo.height || 1080
-            },
-            frameRate: clipInfo.fps || 30,
+            duration: isImage ? clipInfo.duration : duration,
+            // Audio files have no picture
+            resolution: isAudio
+              ? { width: 0, height: 0 }
+              : {
+                  width: clipInfo.width || 1920,
+                  height: clipInfo.height || 1080
+                },
+            frameRate: isImage || isAudio ? 0 : clipInfo.fps || 30,
             codec: clipInfo.codec || 'h264',
-            size: clipInfo.size || 0
+            size: clipInfo.size || 0,
+            kind: clipInfo.kind,
+            audio: clipInfo.audio
           }
         };
         
@@ -671,7 +741,7 @@ export const Timeline: React.FC<{ className?: string }> = ({ className = '' }) =
     } finally {
       setDropZone(null);
     }
-  }, [pixelsToTime, tracks, updateTrack, snapTime, selectClip]);
+  }, [pixelsToTime, tracks, updateTrack, snapTime, selectClip, addAudioTrack]);
 
   // Global mouse events for drag
   useEffect(() => {
@@ -762,6 +832,9 @@ export const Timeline: React.FC<{ className?: string }> = ({ className = '' }) =
           let minDistance = Infinity;
           
           for (const t of tracks) {
+            // Caption tracks only hold cues, and text clips stay on text tracks
+            if (!canTrackHoldClip(t, clip)) continue;
+            
             const trackIndex = tracks.indexOf(t);
             // IMPORTANT: Must match TimelineCanvas.tsx positioning (no ruler offset)
             const trackY = trackIndex * (TRACK_HEIGHT + TRACK_MARGIN);
@@ -878,6 +951,7 @@ export const Timeline: React.FC<{ className?: string }> = ({ className = '' }) =
         onZoomOut={zoomOut}
         onFitToWindow={fitToWindow}
         onAddTrack={() => addTrack(`Track ${tracks.length + 1}`)}
+        onAddAudioTrack={() => addAudioTrack(`Audio ${tracks.filter(track => track.kind === 'audio').length + 1}`)}
         onDeleteTrack={() => {
           // Delete the last track
           if (tracks.length > 1) {
@@ -891,6 +965,14 @@ export const Timeline: React.FC<{ className?: string }> = ({ className = '' }) =
         canSplitClip={canSplitClip}
         onToggleGridSnap={toggleGridSnap}
         isGridSnapEnabled={isGridSnapEnabled}
+        onSetInPoint={() => setInPoint()}
+        onSetOutPoint={() => setOutPoint()}
+        onClearInOut={clearInOutPoints}
+        hasInOut={inPoint !== null || outPoint !== null}
+        onAddMarker={() => addMarker()}
+        onAddCaptionTrack={() => addCaptionTrack(`Captions ${tracks.filter(track => track.kind === 'caption').length + 1}`)}
+        onImportCaptions={handleImportCaptions}
+        onAddText={handleAddText}
       />
 
       {/* Main Timeline Area */}
@@ -935,8 +1017,17 @@ export const Timeline: React.FC<{ className?: string }> = ({ className = '' }) =
               zoom={zoom}
                 scrollLeft={0} // Pass 0 since we're offsetting the container
               currentTime={currentTime}
+              inPoint={inPoint}
+              outPoint={outPoint}
                 onSeek={(time) => seek(time)} // Wrap to handle offset
             />
+            <TimelineMarkers
+              markers={markers}
+              pixelsPerSecond={pixelsPerSecond}
+              onSeek={seek}
+              onUpdate={updateMarker}
+              onRemove={removeMarker}
+            />
             </div>
           </div>
 
@@ -1091,6 +1182,9 @@ export const Timeline: React.FC<{ className?: string }> = ({ className = '' }) =
                 splitClip(clipId, currentTime);
                 console.log('✂️ Split clip via context menu at', currentTime.toFixed(3), 's');
               }}
+              onTransitionChange={(clipId, transition) => {
+                updateClip(clipId, { transitionIn: transition });
+              }}
             />
             
             {/* Drop Zone Indicator */}
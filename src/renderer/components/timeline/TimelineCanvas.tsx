@@ -6,9 +6,11 @@
  */
 
 import React, { useCallback, useRef } from 'react';
-import { Track, Clip } from '@types';
+import { Track, Clip, ClipTransition } from '@types';
 import { TimelineClip } from './TimelineClip';
+import { TimelineCaptionCues } from './TimelineCaptionCues';
 import { Playhead } from './Playhead';
+import { getMaxTransitionDuration, getTransitionPartner } from '../../utils/timelineUtils';
 
 // Timeline rendering constants
 const TRACK_HEIGHT = 60;
@@ -21,6 +23,7 @@ const PIXELS_PER_SECOND_BASE = 100; // Base pixels per second at zoom 1.0
 // Colors
 const COLORS = {
   trackBackground: '#2a2a2a',
+  audioTrackBackground: '#1f2b24', // Sets sound-only lanes apart from picture lanes
   trackBorder: '#444',
   gridLine: '#333'
 };
@@ -47,6 +50,7 @@ export const TimelineCanvas: React.FC<{
   onPlayheadDrag: (time: number) => void;
   onTrim?: (clipId: string) => void;
   onSplit?: (clipId: string) => void;
+  onTransitionChange?: (clipId: string, transition: ClipTransition | undefined) => void;
 }> = ({
   tracks,
   currentTime,
@@ -61,7 +65,8 @@ export const TimelineCanvas: React.FC<{
   onTrimHandleDrag,
   onPlayheadDrag,
   onTrim,
-  onSplit
+  onSplit,
+  onTransitionChange
 }) => {
   // Calculate pixels per second based on zoom
   const pixelsPerSecond = PIXELS_PER_SECOND_BASE * zoom;
@@ -72,7 +77,11 @@ export const TimelineCanvas: React.FC<{
   }, [pixelsPerSecond, scrollLeft]);
 
   // Calculate duration for grid lines
-  const duration = Math.max(...tracks.map(t => Math.max(...t.clips.map(c => c.endTime), 0)), 10);
+  const duration = Math.max(...tracks.map(t => Math.max(
+    ...t.clips.map(c => c.endTime),
+    ...(t.cues || []).map(cue => cue.endTime),
+    0
+  )), 10);
 
   // Calculate the total width of the timeline based on duration and zoom
   // Add extra padding at the end (20% of duration or minimum 5 seconds)
@@ -108,7 +117,7 @@ export const TimelineCanvas: React.FC<{
                 top: trackY,
                 width: '100%',
                 height: TRACK_HEIGHT, // Track background height (60px), margin is spacing between tracks
-                backgroundColor: COLORS.trackBackground,
+                backgroundColor: track.kind === 'audio' ? COLORS.audioTrackBackground : COLORS.trackBackground,
                 borderBottom: `1px solid ${COLORS.trackBorder}`
               }}
             >
@@ -132,16 +141,44 @@ export const TimelineCanvas: React.FC<{
                 <span style={{ color: '#888', fontFamily: 'monospace', fontSize: '11px', minWidth: '1.5rem' }}>
                   {trackIndex + 1}
                 </span>
+                {track.kind === 'caption' && (
+                  <span style={{ color: '#5eead4', fontSize: '10px', fontWeight: 700, border: '1px solid #5eead4', borderRadius: '3px', padding: '0 3px' }}>
+                    CC
+                  </span>
+                )}
+                {track.kind === 'text' && (
+                  <span style={{ color: '#c084fc', fontSize: '10px', fontWeight: 700, border: '1px solid #c084fc', borderRadius: '3px', padding: '0 3px' }}>
+                    T
+                  </span>
+                )}
+                {track.kind === 'audio' && (
+                  <span style={{ color: '#4ade80', fontSize: '10px', fontWeight: 700, border: '1px solid #4ade80', borderRadius: '3px', padding: '0 3px' }}>
+                    ♪
+                  </span>
+                )}
                 <span style={{ color: '#e5e5e5' }}>{track.name}</span>
               </div>
             </div>
             
+            {/* Caption tracks show their cues instead of clips */}
+            {track.kind === 'caption' && (
+              <TimelineCaptionCues
+                track={track}
+                y={trackY + (TRACK_HEIGHT - CLIP_HEIGHT) / 2}
+                height={CLIP_HEIGHT}
+                pixelsPerSecond={pixelsPerSecond}
+                timeToPixels={timeToPixels}
+              />
+            )}
+            
             {/* Render clips in this track */}
             {track.clips.map((clip) => {
               const clipX = timeToPixels(clip.startTime);
               const clipWidth = timeToPixels(clip.endTime) - clipX;
               // Center clip vertically within track row (60px height): (TRACK_HEIGHT - CLIP_HEIGHT) / 2 = (60 - 52) / 2 = 4px
               const clipY = trackY + (TRACK_HEIGHT - CLIP_HEIGHT) / 2;
+              // Transitions only show while the previous clip still touches this one
+              const transitionPartner = clip.transitionIn ? getTransitionPartner(track, clip) : undefined;
               
               return (
                 <TimelineClip
@@ -168,6 +205,10 @@ export const TimelineCanvas: React.FC<{
                   }}
                   onTrim={onTrim}
                   onSplit={onSplit}
+                  transition={transitionPartner && clip.transitionIn}
+                  maxTransitionDuration={transitionPartner && getMaxTransitionDuration(transitionPartner, clip)}
+                  pixelsPerSecond={pixelsPerSecond}
+                  onTransitionChange={onTransitionChange}
                 />
               );
             })}
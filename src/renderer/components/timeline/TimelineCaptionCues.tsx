@@ -0,0 +1,179 @@
+/**
+ * Timeline Caption Cues Component
+ *
+ * Row of caption cues on a caption track. Drag a cue to move it, drag its edges to change
+ * its timing, double-click it to edit the text, right-click to delete it. Double-clicking
+ * empty space on the row adds a cue there.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { CaptionCue, Track } from '../../../shared/types';
+import { useTimelineStore } from '../../store/timelineStore';
+
+interface TimelineCaptionCuesProps {
+  track: Track;
+  y: number;                    // Top of the cue blocks
+  height: number;
+  pixelsPerSecond: number;
+  timeToPixels: (time: number) => number;
+}
+
+type CueDragMode = 'move' | 'trim-start' | 'trim-end';
+
+// Matches TimelineClip's trim handle width
+const CUE_HANDLE_WIDTH = 8;
+const MIN_CUE_DURATION = 0.2;
+
+export const TimelineCaptionCues: React.FC<TimelineCaptionCuesProps> = ({
+  track,
+  y,
+  height,
+  pixelsPerSecond,
+  timeToPixels
+}) => {
+  const addCue = useTimelineStore((state) => state.addCue);
+  const updateCue = useTimelineStore((state) => state.updateCue);
+  const removeCue = useTimelineStore((state) => state.removeCue);
+  const seek = useTimelineStore((state) => state.seek);
+
+  const [selectedCueId, setSelectedCueId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftText, setDraftText] = useState('');
+  const [drag, setDrag] = useState<{ mode: CueDragMode; startX: number; cue: CaptionCue } | null>(null);
+
+  const cues = track.cues || [];
+
+  const startEditing = (cue: CaptionCue) => {
+    setEditingId(cue.id);
+    setDraftText(cue.text);
+  };
+
+  const commitEditing = () => {
+    if (editingId) updateCue(editingId, { text: draftText.trim() });
+    setEditingId(null);
+  };
+
+  const handleCueMouseDown = (e: React.MouseEvent, cue: CaptionCue, mode: CueDragMode) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    setSelectedCueId(cue.id);
+    setDrag({ mode, startX: e.clientX, cue });
+  };
+
+  // Track the mouse on the document so fast drags don't lose the cue
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const delta = (e.clientX - drag.startX) / pixelsPerSecond;
+      const { startTime, endTime } = drag.cue;
+
+      if (drag.mode === 'move') {
+        const nextStart = Math.max(0, startTime + delta);
+        updateCue(drag.cue.id, { startTime: nextStart, endTime: nextStart + (endTime - startTime) });
+      } else if (drag.mode === 'trim-start') {
+        updateCue(drag.cue.id, { startTime: Math.max(0, Math.min(endTime - MIN_CUE_DURATION, startTime + delta)) });
+      } else {
+        updateCue(drag.cue.id, { endTime: Math.max(startTime + MIN_CUE_DURATION, endTime + delta) });
+      }
+    };
+
+    const handleMouseUp = (e: MouseEvent) => {
+      // A click without a drag shows the cue in the preview
+      if (drag.mode === 'move' && Math.abs(e.clientX - drag.startX) < 3) {
+        seek(drag.cue.startTime);
+      }
+      setDrag(null);
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [drag, pixelsPerSecond, updateCue, seek]);
+
+  return (
+    <div
+      className="absolute left-0 w-full"
+      style={{ top: y, height }}
+      onDoubleClick={(e) => {
+        // timeToPixels(0) is where time 0 sits in the row, so the click maps to the ruler's time
+        const rect = e.currentTarget.getBoundingClientRect();
+        const time = (e.clientX - rect.left - timeToPixels(0)) / pixelsPerSecond;
+        addCue(track.id, Math.max(0, time));
+      }}
+    >
+      {cues.length === 0 && (
+        <div className="absolute inset-0 flex items-center pl-32 text-[11px] text-gray-500 pointer-events-none select-none">
+          Double-click to add a caption
+        </div>
+      )}
+
+      {cues.map(cue => {
+        const x = timeToPixels(cue.startTime);
+        const width = Math.max(CUE_HANDLE_WIDTH * 2, timeToPixels(cue.endTime) - x);
+        const isSelected = cue.id === selectedCueId;
+
+        return (
+          <div
+            key={cue.id}
+            className={`absolute top-0 h-full rounded border text-[11px] leading-tight text-white overflow-hidden ${
+              isSelected ? 'bg-teal-600 border-white' : 'bg-teal-700/90 border-teal-400/60'
+            } ${track.visible === false ? 'opacity-50' : ''}`}
+            style={{ left: x, width, cursor: drag ? 'grabbing' : 'grab' }}
+            onMouseDown={(e) => handleCueMouseDown(e, cue, 'move')}
+            onDoubleClick={(e) => {
+              e.stopPropagation();
+              startEditing(cue);
+            }}
+            onContextMenu={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              removeCue(cue.id);
+            }}
+            title={`${cue.text || 'Empty caption'}: double-click to edit, right-click to delete`}
+          >
+            {editingId === cue.id ? (
+              <textarea
+                autoFocus
+                value={draftText}
+                onChange={(e) => setDraftText(e.target.value)}
+                onBlur={commitEditing}
+                onKeyDown={(e) => {
+                  // Keep typing out of the timeline's shortcuts; Shift+Enter starts a new line
+                  e.stopPropagation();
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    commitEditing();
+                  }
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                onMouseDown={(e) => e.stopPropagation()}
+                placeholder="Caption text"
+                className="absolute inset-0 w-full h-full px-2 py-1 bg-gray-900 text-white text-[11px] resize-none focus:outline-none"
+              />
+            ) : (
+              <div className="px-2 py-1 whitespace-pre-line line-clamp-3 select-none">
+                {cue.text || <span className="italic text-teal-200/70">Empty</span>}
+              </div>
+            )}
+
+            {/* Timing handles */}
+            <div
+              className="absolute top-0 left-0 h-full cursor-ew-resize hover:bg-white/30"
+              style={{ width: CUE_HANDLE_WIDTH }}
+              onMouseDown={(e) => handleCueMouseDown(e, cue, 'trim-start')}
+            />
+            <div
+              className="absolute top-0 right-0 h-full cursor-ew-resize hover:bg-white/30"
+              style={{ width: CUE_HANDLE_WIDTH }}
+              onMouseDown={(e) => handleCueMouseDown(e, cue, 'trim-end')}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -3,10 +3,12 @@
  * 
  * Renders individual clips with trim handles and hit detection.
  * Handles visual feedback for drag states and selection.
+ * A transition into the clip is drawn centred on its start; drag its edges to change the duration.
  */
 
-import React from 'react';
-import { Clip } from '@types';
+import React, { useEffect, useState } from 'react';
+import { Clip, ClipTransition, TransitionType } from '@types';
+import { MIN_TRANSITION_DURATION, TRANSITION_LABELS } from '../../utils/timelineUtils';
 
 // Clip rendering constants
 const CLIP_HEIGHT = 52; // TRACK_HEIGHT - 8
@@ -14,16 +16,22 @@ const TRIM_HANDLE_WIDTH = 8;
 const TRIM_HANDLE_COLOR = '#666';
 const TRIM_HANDLE_HOVER_COLOR = '#888';
 const TRIM_HANDLE_ACTIVE_COLOR = '#4a90e2';
+const TRANSITION_HANDLE_WIDTH = 6;
+const TRANSITION_TYPES: TransitionType[] = ['crossfade', 'dipToBlack', 'wipe'];
 
 // Colors
 const COLORS = {
   background: '#4a90e2',
+  textBackground: '#8e44ad',
+  audioBackground: '#27ae60',
   selected: '#f39c12',
   border: '#666',
   text: '#ffffff',
   trimHandle: TRIM_HANDLE_COLOR,
   trimHandleHover: TRIM_HANDLE_HOVER_COLOR,
-  trimHandleActive: TRIM_HANDLE_ACTIVE_COLOR
+  trimHandleActive: TRIM_HANDLE_ACTIVE_COLOR,
+  transition: 'rgba(168, 85, 247, 0.55)',
+  transitionBorder: '#c084fc'
 };
 
 interface TimelineClipProps {
@@ -41,6 +49,10 @@ interface TimelineClipProps {
   onDragStart: (clipId: string, dragType: 'clip' | 'trim-left' | 'trim-right', mouseX: number, mouseY: number) => void;
   onTrim?: (clipId: string) => void;
   onSplit?: (clipId: string) => void;
+  transition?: ClipTransition;        // Set only while the previous clip touches this one
+  maxTransitionDuration?: number;
+  pixelsPerSecond?: number;
+  onTransitionChange?: (clipId: string, transition: ClipTransition | undefined) => void;
 }
 
 export const TimelineClip: React.FC<TimelineClipProps> = ({
@@ -57,11 +69,48 @@ export const TimelineClip: React.FC<TimelineClipProps> = ({
   onSelect,
   onDragStart,
   onTrim,
-  onSplit
+  onSplit,
+  transition,
+  maxTransitionDuration = 0,
+  pixelsPerSecond = 100,
+  onTransitionChange
 }) => {
   // Calculate clip dimensions
   const clipWidth = Math.max(width, 20); // Minimum width for visibility
   const showTrimHandles = clipWidth > 40 && zoom > 0.5; // Show handles when zoomed in enough
+  const isAudio = clip.metadata.kind === 'audio';
+
+  // Transition edge being dragged; both edges move together since the transition stays centred on the cut
+  const [transitionDrag, setTransitionDrag] = useState<{ edge: 'left' | 'right'; startX: number; duration: number } | null>(null);
+
+  const handleTransitionEdgeDown = (e: React.MouseEvent, edge: 'left' | 'right') => {
+    if (e.button !== 0 || !transition) return;
+    e.stopPropagation();
+    setTransitionDrag({ edge, startX: e.clientX, duration: transition.duration });
+  };
+
+  // Track the mouse on the document so fast drags don't lose the handle
+  useEffect(() => {
+    if (!transitionDrag || !transition || !onTransitionChange) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const delta = (e.clientX - transitionDrag.startX) / pixelsPerSecond * 2;
+      const duration = transitionDrag.duration + (transitionDrag.edge === 'right' ? delta : -delta);
+      onTransitionChange(clip.id, {
+        ...transition,
+        duration: Math.max(MIN_TRANSITION_DURATION, Math.min(maxTransitionDuration, duration))
+      });
+    };
+
+    const handleMouseUp = () => setTransitionDrag(null);
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [transitionDrag, transition, clip.id, pixelsPerSecond, maxTransitionDuration, onTransitionChange]);
 
   // Handle mouse down
   const handleMouseDown = (e: React.MouseEvent) => {
@@ -154,8 +203,9 @@ export const TimelineClip: React.FC<TimelineClipProps> = ({
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
-  // Get clip filename
+  // Get clip filename (text clips show their first line)
   const getClipName = (): string => {
+    if (clip.text) return clip.text.content.split('\n')[0] || 'Empty text';
     const filename = clip.sourceFile.split('/').pop() || 'Unknown';
     return filename.length > 20 ? filename.substring(0, 17) + '...' : filename;
   };
@@ -175,230 +225,297 @@ export const TimelineClip: React.FC<TimelineClipProps> = ({
     return `${width}×${height}`;
   };
 
-  return (
-    <div
-      onMouseDown={handleMouseDown}
-      onContextMenu={handleContextMenu}
-      style={{
-        position: 'absolute',
-        left: x,
-        top: y,
-        width: clipWidth,
-        height: CLIP_HEIGHT,
-        backgroundColor: isSelected ? COLORS.selected : COLORS.background,
-        border: `2px solid ${isSelected ? COLORS.selected : COLORS.border}`,
-        borderRadius: '4px',
-        cursor: isDragging ? 'grabbing' : 'grab',
-        userSelect: 'none',
-        display: 'flex',
-        flexDirection: 'column',
-        justifyContent: 'space-between',
-        padding: '4px',
-        boxSizing: 'border-box',
-        overflow: 'hidden',
-        // Enhanced drag feedback
-        opacity: isDragging ? 0.6 : 1,
-        transform: isDragging ? 'scale(1.02)' : 'scale(1)',
-        boxShadow: isDragging 
-          ? '0 8px 16px rgba(0, 0, 0, 0.5), 0 0 0 2px rgba(59, 130, 246, 0.5)' 
-          : 'none',
-        transition: isDragging ? 'none' : 'all 0.15s ease',
-        zIndex: isDragging ? 100 : 1
-      }}
-    >
-      {/* Left trim handle */}
-      {showTrimHandles && (
-        <div
-          style={{
-            position: 'absolute',
-            left: 0,
-            top: 0,
-            width: TRIM_HANDLE_WIDTH,
-            height: '100%',
-            backgroundColor: dragType === 'trim-left' ? COLORS.trimHandleActive : COLORS.trimHandle,
-            cursor: 'ew-resize',
-            borderTopLeftRadius: '4px',
-            borderBottomLeftRadius: '4px',
-            display: 'flex',
-            alignItems: 'center',
-            justifyContent: 'center'
-          }}
-        >
-          <div
-            style={{
-              width: '2px',
-              height: '60%',
-              backgroundColor: '#fff',
-              borderRadius: '1px'
-            }}
-          />
-        </div>
-      )}
+  // Drawn over both clips, so it's centred on this clip's start
+  const transitionWidth = transition
+    ? Math.max(TRANSITION_HANDLE_WIDTH * 2, Math.min(transition.duration, maxTransitionDuration) * pixelsPerSecond)
+    : 0;
 
-      {/* Right trim handle */}
-      {showTrimHandles && (
-        <div
-          style={{
-            position: 'absolute',
-            right: 0,
-            top: 0,
-            width: TRIM_HANDLE_WIDTH,
-            height: '100%',
-            backgroundColor: dragType === 'trim-right' ? COLORS.trimHandleActive : COLORS.trimHandle,
-            cursor: 'ew-resize',
-            borderTopRightRadius: '4px',
-            borderBottomRightRadius: '4px',
-            display: 'flex',
-            alignItems: 'center',
-            justifyContent: 'center'
-          }}
-        >
-          <div
-            style={{
-              width: '2px',
-              height: '60%',
-              backgroundColor: '#fff',
-              borderRadius: '1px'
-            }}
-          />
-        </div>
-      )}
-
-      {/* Clip content */}
+  return (
+    <>
       <div
+        onMouseDown={handleMouseDown}
+        onContextMenu={handleContextMenu}
         style={{
-          flex: 1,
+          position: 'absolute',
+          left: x,
+          top: y,
+          width: clipWidth,
+          height: CLIP_HEIGHT,
+          backgroundColor: isSelected
+            ? COLORS.selected
+            : clip.text ? COLORS.textBackground : isAudio ? COLORS.audioBackground : COLORS.background,
+          border: `2px solid ${isSelected ? COLORS.selected : COLORS.border}`,
+          borderRadius: '4px',
+          cursor: isDragging ? 'grabbing' : 'grab',
+          userSelect: 'none',
           display: 'flex',
-          flexDirection: 'row',
-          gap: '4px',
-          marginLeft: showTrimHandles ? TRIM_HANDLE_WIDTH : 0,
-          marginRight: showTrimHandles ? TRIM_HANDLE_WIDTH : 0,
+          flexDirection: 'column',
+          justifyContent: 'space-between',
+          padding: '4px',
+          boxSizing: 'border-box',
           overflow: 'hidden',
-          alignItems: 'center'
+          // Enhanced drag feedback
+          opacity: isDragging ? 0.6 : 1,
+          transform: isDragging ? 'scale(1.02)' : 'scale(1)',
+          boxShadow: isDragging 
+            ? '0 8px 16px rgba(0, 0, 0, 0.5), 0 0 0 2px rgba(59, 130, 246, 0.5)' 
+            : 'none',
+          transition: isDragging ? 'none' : 'all 0.15s ease',
+          zIndex: isDragging ? 100 : 1
         }}
       >
-        {/* Thumbnail preview (if clip is wide enough) */}
-        {clipWidth > 80 && (
+        {/* Left trim handle */}
+        {showTrimHandles && (
           <div
             style={{
-              width: '44px',
-              height: '44px',
-              backgroundColor: '#1a1a1a',
-              borderRadius: '3px',
+              position: 'absolute',
+              left: 0,
+              top: 0,
+              width: TRIM_HANDLE_WIDTH,
+              height: '100%',
+              backgroundColor: dragType === 'trim-left' ? COLORS.trimHandleActive : COLORS.trimHandle,
+              cursor: 'ew-resize',
+              borderTopLeftRadius: '4px',
+              borderBottomLeftRadius: '4px',
               display: 'flex',
               alignItems: 'center',
-              justifyContent: 'center',
-              flexShrink: 0,
-              overflow: 'hidden'
+              justifyContent: 'center'
             }}
           >
             <div
               style={{
-                color: '#666',
-                fontSize: '20px'
+                width: '2px',
+                height: '60%',
+                backgroundColor: '#fff',
+                borderRadius: '1px'
               }}
-            >
-              🎬
-            </div>
+            />
           </div>
         )}
-        
-        {/* Text content */}
-        <div
-          style={{
-            flex: 1,
-            display: 'flex',
-            flexDirection: 'column',
-            justifyContent: 'space-between',
-            minWidth: 0,
-            height: '100%',
-            paddingTop: '2px',
-            paddingBottom: '2px'
-          }}
-        >
-          {/* Clip name */}
+
+        {/* Right trim handle */}
+        {showTrimHandles && (
           <div
             style={{
-              color: COLORS.text,
-              fontSize: '11px',
-              fontWeight: '500',
-              whiteSpace: 'nowrap',
-              overflow: 'hidden',
-              textOverflow: 'ellipsis',
-              lineHeight: '1.2'
+              position: 'absolute',
+              right: 0,
+              top: 0,
+              width: TRIM_HANDLE_WIDTH,
+              height: '100%',
+              backgroundColor: dragType === 'trim-right' ? COLORS.trimHandleActive : COLORS.trimHandle,
+              cursor: 'ew-resize',
+              borderTopRightRadius: '4px',
+              borderBottomRightRadius: '4px',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center'
             }}
           >
-            {getClipName()}
+            <div
+              style={{
+                width: '2px',
+                height: '60%',
+                backgroundColor: '#fff',
+                borderRadius: '1px'
+              }}
+            />
           </div>
+        )}
 
-          {/* Aspect ratio badge */}
-          {clipWidth > 100 && (
+        {/* Clip content */}
+        <div
+          style={{
+            flex: 1,
+            display: 'flex',
+            flexDirection: 'row',
+            gap: '4px',
+            marginLeft: showTrimHandles ? TRIM_HANDLE_WIDTH : 0,
+            marginRight: showTrimHandles ? TRIM_HANDLE_WIDTH : 0,
+            overflow: 'hidden',
+            alignItems: 'center'
+          }}
+        >
+          {/* Thumbnail preview (if clip is wide enough) */}
+          {clipWidth > 80 && (
             <div
               style={{
-                fontSize: '9px',
-                opacity: 0.7,
-                color: COLORS.text,
-                backgroundColor: 'rgba(0, 0, 0, 0.3)',
-                padding: '1px 4px',
+                width: '44px',
+                height: '44px',
+                backgroundColor: '#1a1a1a',
                 borderRadius: '3px',
-                alignSelf: 'flex-start',
-                whiteSpace: 'nowrap'
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                flexShrink: 0,
+                overflow: 'hidden'
               }}
             >
-              {getAspectRatioDisplay()}
+              <div
+                style={{
+                  color: '#666',
+                  fontSize: '20px'
+                }}
+              >
+                {clip.text ? 'T' : isAudio ? '🎵' : clip.metadata.kind === 'image' ? '🖼️' : '🎬'}
+              </div>
             </div>
           )}
-
-          {/* Duration */}
-          {clipWidth > 60 && (
+        
+          {/* Text content */}
+          <div
+            style={{
+              flex: 1,
+              display: 'flex',
+              flexDirection: 'column',
+              justifyContent: 'space-between',
+              minWidth: 0,
+              height: '100%',
+              paddingTop: '2px',
+              paddingBottom: '2px'
+            }}
+          >
+            {/* Clip name */}
             <div
               style={{
                 color: COLORS.text,
-                fontSize: '10px',
-                opacity: 0.8,
-                alignSelf: 'flex-end'
+                fontSize: '11px',
+                fontWeight: '500',
+                whiteSpace: 'nowrap',
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+                lineHeight: '1.2'
               }}
             >
-              {formatDuration(clip.endTime - clip.startTime)}
+              {getClipName()}
             </div>
-          )}
+
+            {/* Aspect ratio badge */}
+            {clipWidth > 100 && !clip.text && !isAudio && (
+              <div
+                style={{
+                  fontSize: '9px',
+                  opacity: 0.7,
+                  color: COLORS.text,
+                  backgroundColor: 'rgba(0, 0, 0, 0.3)',
+                  padding: '1px 4px',
+                  borderRadius: '3px',
+                  alignSelf: 'flex-start',
+                  whiteSpace: 'nowrap'
+                }}
+              >
+                {getAspectRatioDisplay()}
+              </div>
+            )}
+
+            {/* Duration */}
+            {clipWidth > 60 && (
+              <div
+                style={{
+                  color: COLORS.text,
+                  fontSize: '10px',
+                  opacity: 0.8,
+                  alignSelf: 'flex-end'
+                }}
+              >
+                {formatDuration(clip.endTime - clip.startTime)}
+              </div>
+            )}
+          </div>
         </div>
+
+        {/* Drag indicator */}
+        {isDragging && dragType === 'clip' && (
+          <div
+            style={{
+              position: 'absolute',
+              top: -2,
+              left: -2,
+              right: -2,
+              bottom: -2,
+              border: `2px dashed ${COLORS.text}`,
+              borderRadius: '6px',
+              pointerEvents: 'none',
+              opacity: 0.7
+            }}
+          />
+        )}
+
+        {/* Trim handle indicators */}
+        {isDragging && (dragType === 'trim-left' || dragType === 'trim-right') && (
+          <div
+            style={{
+              position: 'absolute',
+              top: -2,
+              left: dragType === 'trim-left' ? -2 : 'auto',
+              right: dragType === 'trim-right' ? -2 : 'auto',
+              bottom: -2,
+              width: TRIM_HANDLE_WIDTH + 4,
+              border: `2px dashed ${COLORS.text}`,
+              borderRadius: '6px',
+              pointerEvents: 'none',
+              opacity: 0.7
+            }}
+          />
+        )}
       </div>
 
-      {/* Drag indicator */}
-      {isDragging && dragType === 'clip' && (
+      {/* Transition from the previous clip: double-click to change the type, right-click to remove */}
+      {transition && (
         <div
-          style={{
-            position: 'absolute',
-            top: -2,
-            left: -2,
-            right: -2,
-            bottom: -2,
-            border: `2px dashed ${COLORS.text}`,
-            borderRadius: '6px',
-            pointerEvents: 'none',
-            opacity: 0.7
+          onMouseDown={(e) => e.stopPropagation()}
+          onDoubleClick={(e) => {
+            e.stopPropagation();
+            const next = TRANSITION_TYPES[(TRANSITION_TYPES.indexOf(transition.type) + 1) % TRANSITION_TYPES.length];
+            onTransitionChange?.(clip.id, { ...transition, type: next });
           }}
-        />
-      )}
-
-      {/* Trim handle indicators */}
-      {isDragging && (dragType === 'trim-left' || dragType === 'trim-right') && (
-        <div
+          onContextMenu={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            onTransitionChange?.(clip.id, undefined);
+          }}
+          title={`${TRANSITION_LABELS[transition.type]} (${transition.duration.toFixed(1)}s): drag the edges to change the length, double-click to change the type, right-click to remove`}
           style={{
             position: 'absolute',
-            top: -2,
-            left: dragType === 'trim-left' ? -2 : 'auto',
-            right: dragType === 'trim-right' ? -2 : 'auto',
-            bottom: -2,
-            width: TRIM_HANDLE_WIDTH + 4,
-            border: `2px dashed ${COLORS.text}`,
-            borderRadius: '6px',
-            pointerEvents: 'none',
-            opacity: 0.7
+            left: x - transitionWidth / 2,
+            top: y + CLIP_HEIGHT / 4,
+            width: transitionWidth,
+            height: CLIP_HEIGHT / 2,
+            background: `repeating-linear-gradient(45deg, ${COLORS.transition}, ${COLORS.transition} 4px, rgba(0, 0, 0, 0.35) 4px, rgba(0, 0, 0, 0.35) 8px)`,
+            border: `1px solid ${COLORS.transitionBorder}`,
+            borderRadius: '4px',
+            boxSizing: 'border-box',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            overflow: 'hidden',
+            userSelect: 'none',
+            zIndex: isDragging ? 101 : 2
           }}
-        />
+        >
+          {transitionWidth > 60 && (
+            <span style={{ color: COLORS.text, fontSize: '9px', fontWeight: 600, whiteSpace: 'nowrap', pointerEvents: 'none' }}>
+              {TRANSITION_LABELS[transition.type]}
+            </span>
+          )}
+
+          {/* Length handles */}
+          {(['left', 'right'] as const).map(edge => (
+            <div
+              key={edge}
+              onMouseDown={(e) => handleTransitionEdgeDown(e, edge)}
+              style={{
+                position: 'absolute',
+                top: 0,
+                [edge]: 0,
+                width: TRANSITION_HANDLE_WIDTH,
+                height: '100%',
+                backgroundColor: transitionDrag?.edge === edge ? COLORS.trimHandleActive : COLORS.transitionBorder,
+                cursor: 'ew-resize'
+              }}
+            />
+          ))}
+        </div>
       )}
-    </div>
+    </>
   );
 };
@@ -2,7 +2,8 @@
  * Timeline Controls Component
  * 
  * Provides zoom controls, track management, and timeline navigation.
- * Includes zoom in/out, fit to window, add/delete track buttons.
+ * Includes zoom in/out, fit to window, add/delete track buttons,
+ * in/out marks for the export range, chapter markers, and caption tracks.
  */
 
 import React from 'react';
@@ -16,6 +17,7 @@ interface TimelineControlsProps {
   onZoomOut: () => void;
   onFitToWindow: () => void;
   onAddTrack: () => void;
+  onAddAudioTrack?: () => void;
   onDeleteTrack: (trackId: string) => void;
   trackCount: number;
   canDeleteTrack: boolean;
@@ -23,6 +25,14 @@ interface TimelineControlsProps {
   canSplitClip: boolean;
   onToggleGridSnap: () => void;
   isGridSnapEnabled: boolean;
+  onSetInPoint?: () => void;
+  onSetOutPoint?: () => void;
+  onClearInOut?: () => void;
+  hasInOut?: boolean;
+  onAddMarker?: () => void;
+  onAddCaptionTrack?: () => void;
+  onImportCaptions?: () => void;
+  onAddText?: () => void;
   className?: string;
 }
 
@@ -34,6 +44,7 @@ export const TimelineControls: React.FC<TimelineControlsProps> = ({
   onZoomOut,
   onFitToWindow,
   onAddTrack,
+  onAddAudioTrack,
   onDeleteTrack,
   trackCount,
   canDeleteTrack,
@@ -41,6 +52,14 @@ export const TimelineControls: React.FC<TimelineControlsProps> = ({
   canSplitClip,
   onToggleGridSnap,
   isGridSnapEnabled,
+  onSetInPoint,
+  onSetOutPoint,
+  onClearInOut,
+  hasInOut = false,
+  onAddMarker,
+  onAddCaptionTrack,
+  onImportCaptions,
+  onAddText,
   className = ''
 }) => {
   // Format zoom percentage
@@ -120,6 +139,22 @@ export const TimelineControls: React.FC<TimelineControlsProps> = ({
           + Track
         </Button>
         
+        {onAddAudioTrack && (
+          <Button
+            onClick={(e) => {
+              e.stopPropagation();
+              onAddAudioTrack();
+            }}
+            onMouseDown={(e) => e.stopPropagation()}
+            variant="ghost"
+            size="sm"
+            className="px-2 py-1 text-xs"
+            title="Add an audio track for music, voiceover and sound effects files"
+          >
+            + Audio
+          </Button>
+        )}
+        
         <span className="text-xs text-white min-w-[2rem] text-center">
           {trackCount}
         </span>
@@ -197,6 +232,128 @@ export const TimelineControls: React.FC<TimelineControlsProps> = ({
         </Button>
       </div>
 
+      {/* In/Out Range */}
+      {onSetInPoint && onSetOutPoint && (
+        <>
+          <div className="w-px h-6 bg-gray-600" />
+
+          <div className="flex items-center gap-1">
+            <Button
+              onClick={(e) => {
+                e.stopPropagation();
+                onSetInPoint();
+              }}
+              onMouseDown={(e) => e.stopPropagation()}
+              variant="ghost"
+              size="sm"
+              className="px-2 py-1 text-xs"
+              title="Set in point at playhead (I, Alt+I clears)"
+            >
+              [ In
+            </Button>
+            <Button
+              onClick={(e) => {
+                e.stopPropagation();
+                onSetOutPoint();
+              }}
+              onMouseDown={(e) => e.stopPropagation()}
+              variant="ghost"
+              size="sm"
+              className="px-2 py-1 text-xs"
+              title="Set out point at playhead (O, Alt+O clears)"
+            >
+              Out ]
+            </Button>
+            {onClearInOut && (
+              <Button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onClearInOut();
+                }}
+                onMouseDown={(e) => e.stopPropagation()}
+                disabled={!hasInOut}
+                variant="ghost"
+                size="sm"
+                className="px-2 py-1 text-xs"
+                title="Clear in/out points"
+              >
+                Clear
+              </Button>
+            )}
+          </div>
+        </>
+      )}
+
+      {onAddMarker && (
+        <>
+          <div className="w-px h-6 bg-gray-600" />
+
+          <Button
+            onClick={(e) => {
+              e.stopPropagation();
+              onAddMarker();
+            }}
+            onMouseDown={(e) => e.stopPropagation()}
+            variant="ghost"
+            size="sm"
+            className="px-2 py-1 text-xs"
+            title="Add marker at playhead (M); titled markers become chapters"
+          >
+            ◆ Marker
+          </Button>
+        </>
+      )}
+
+      {onAddCaptionTrack && onImportCaptions && (
+        <>
+          <div className="w-px h-6 bg-gray-600" />
+
+          <div className="flex items-center gap-1">
+            <Button
+              onClick={(e) => {
+                e.stopPropagation();
+                onAddCaptionTrack();
+              }}
+              onMouseDown={(e) => e.stopPropagation()}
+              variant="ghost"
+              size="sm"
+              className="px-2 py-1 text-xs"
+              title="Add an empty caption track; double-click it to add captions"
+            >
+              + CC
+            </Button>
+            <Button
+              onClick={(e) => {
+                e.stopPropagation();
+                onImportCaptions();
+              }}
+              onMouseDown={(e) => e.stopPropagation()}
+              variant="ghost"
+              size="sm"
+              className="px-2 py-1 text-xs"
+              title="Import an SRT or WebVTT file as a caption track"
+            >
+              Import Captions
+            </Button>
+            {onAddText && (
+              <Button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onAddText();
+                }}
+                onMouseDown={(e) => e.stopPropagation()}
+                variant="ghost"
+                size="sm"
+                className="px-2 py-1 text-xs"
+                title="Add a text clip at the playhead; edit it in the inspector"
+              >
+                + Text
+              </Button>
+            )}
+          </div>
+        </>
+      )}
+
       {/* Timeline Info */}
       <div className="flex items-center gap-2 text-xs text-gray-400 ml-auto">
         <span>Timeline</span>
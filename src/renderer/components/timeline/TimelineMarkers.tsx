@@ -0,0 +1,95 @@
+/**
+ * Timeline Markers Component
+ *
+ * Marker flags drawn over the time ruler. Click a flag to seek to it,
+ * double-click to edit its title (titled markers become export chapters),
+ * right-click to delete it.
+ */
+
+import React, { useState } from 'react';
+import { TimelineMarker } from '../../../shared/types';
+
+interface TimelineMarkersProps {
+  markers: TimelineMarker[];
+  pixelsPerSecond: number;
+  onSeek: (time: number) => void;
+  onUpdate: (markerId: string, updates: Partial<Omit<TimelineMarker, 'id'>>) => void;
+  onRemove: (markerId: string) => void;
+}
+
+export const TimelineMarkers: React.FC<TimelineMarkersProps> = ({
+  markers,
+  pixelsPerSecond,
+  onSeek,
+  onUpdate,
+  onRemove
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const startEditing = (marker: TimelineMarker) => {
+    setEditingId(marker.id);
+    setDraftTitle(marker.title);
+  };
+
+  const commitEditing = () => {
+    if (editingId) onUpdate(editingId, { title: draftTitle.trim() });
+    setEditingId(null);
+  };
+
+  return (
+    <div className="absolute inset-0 pointer-events-none">
+      {markers.map(marker => (
+        <div
+          key={marker.id}
+          className="absolute top-0 h-full"
+          style={{ left: `${marker.time * pixelsPerSecond}px` }}
+        >
+          {/* Stem down the ruler */}
+          <div className="absolute top-0 bottom-0 w-px bg-amber-400" />
+
+          {editingId === marker.id ? (
+            <input
+              autoFocus
+              value={draftTitle}
+              onChange={(e) => setDraftTitle(e.target.value)}
+              onBlur={commitEditing}
+              onKeyDown={(e) => {
+                // Keep typing out of the timeline's shortcuts (S splits, I/O mark, M adds a marker)
+                e.stopPropagation();
+                if (e.key === 'Enter') commitEditing();
+                if (e.key === 'Escape') setEditingId(null);
+              }}
+              onMouseDown={(e) => e.stopPropagation()}
+              placeholder="Chapter title"
+              className="absolute bottom-1 left-0 w-40 px-1 py-0.5 text-xs bg-gray-900 border border-amber-400 rounded text-white pointer-events-auto focus:outline-none"
+            />
+          ) : (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onSeek(marker.time);
+              }}
+              onDoubleClick={(e) => {
+                e.stopPropagation();
+                startEditing(marker);
+              }}
+              onContextMenu={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                onRemove(marker.id);
+              }}
+              onMouseDown={(e) => e.stopPropagation()}
+              className={`absolute bottom-1 left-0 max-w-[10rem] px-1 text-[10px] leading-4 rounded-r truncate pointer-events-auto ${
+                marker.title ? 'bg-amber-400 text-black' : 'bg-amber-400/60 text-black/70'
+              }`}
+              title={`${marker.title || 'Untitled marker'}: double-click to rename, right-click to delete`}
+            >
+              {marker.title || '◆'}
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -8,8 +8,11 @@ export { Timeline } from './Timeline';
 export { TimelineCanvas } from './TimelineCanvas';
 export { TimelineClip } from './TimelineClip';
 export { TimeRuler } from './TimeRuler';
+export { TimelineMarkers } from './TimelineMarkers';
+export { TimelineCaptionCues } from './TimelineCaptionCues';
 export { Playhead } from './Playhead';
 export { TimelineControls } from './TimelineControls';
 export { TrackHeader } from './TrackHeader';
 export { TrimDialog } from './TrimDialog';
+export { ClipInspector } from './ClipInspector';
 
@@ -62,7 +62,7 @@ export const useIPC = () => {
       const result = await window.api.media.openFilePicker({
         allowMultiple: true,
         filters: [
-          { name: 'Video Files', extensions: ['mp4', 'mov', 'avi', 'mkv', 'webm'] },
+          { name: 'Media Files', extensions: ['mp4', 'mov', 'avi', 'mkv', 'webm', 'png', 'jpg', 'jpeg', 'wav', 'mp3', 'aac', 'flac', 'ogg'] },
           { name: 'All Files', extensions: ['*'] }
         ]
       });
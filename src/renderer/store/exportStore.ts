@@ -6,11 +6,12 @@
  */
 
 import { create } from 'zustand';
-import { v4 as uuidv4 } from 'uuid';
 import { 
   ExportStoreContract
 } from '../../shared/contracts/stores';
-import { ExportConfig } from '../../shared/types';
+import { ExportConfig, ExportPresetInput, ExportRangeMode } from '../../shared/types';
+import { useTimelineStore } from './timelineStore';
+import { useWebcamStore } from './webcamStore';
 
 // Default export state
 const defaultState: ExportStoreContract.State = {
@@ -24,25 +25,29 @@ const defaultState: ExportStoreContract.State = {
     fps: 30,
     codec: 'h264'
   },
+  rangeMode: 'entire',
   outputPath: null,
+  sizeResult: null,
   showExportDialog: false,
   currentFrame: 0,
   totalFrames: 0,
   fps: 0,
-  eta: 0
+  eta: 0,
+  phase: null,
+  speed: 0,
+  error: null,
+  queue: [],
+  queueConcurrency: 1,
+  showQueuePanel: false,
+  presets: []
 };
 
-// Helper functions
-const createExportId = (): string => `export_${uuidv4()}`;
-
-const calculateETA = (
-  currentFrame: number, 
-  totalFrames: number, 
-  fps: number
-): number => {
-  if (fps === 0 || totalFrames === 0) return 0;
-  const remainingFrames = totalFrames - currentFrame;
-  return remainingFrames / fps;
+// Unsubscribers for the running export's IPC events
+let unsubscribeEvents: Array<() => void> = [];
+
+const clearEventListeners = (): void => {
+  unsubscribeEvents.forEach(unsubscribe => unsubscribe());
+  unsubscribeEvents = [];
 };
 
 // Export Store Implementation
@@ -54,63 +59,90 @@ export const useExportStore = create<ExportStoreContract.Store>((set, get) => ({
   // ============================================================================
 
   startExport: async (config: ExportConfig) => {
-    const exportId = createExportId();
+    clearEventListeners();
     
     set({
       isExporting: true,
-      exportId,
+      exportId: null,
       config,
       progress: 0,
       currentFrame: 0,
       totalFrames: 0,
       fps: 0,
       eta: 0,
+      phase: null,
+      speed: 0,
+      error: null,
+      outputPath: null,
+      sizeResult: null,
       showExportDialog: true
     });
 
-    // Mock export process - in real implementation, this would trigger IPC
-    try {
-      // Simulate export progress updates
-      const mockTotalFrames = 3000; // 100 seconds at 30fps
-      const mockFPS = 25; // Encoding FPS
-      
-      set({ totalFrames: mockTotalFrames });
-      
-      // Simulate progress updates
-      for (let frame = 0; frame <= mockTotalFrames; frame += 30) {
-        if (!get().isExporting) break; // Check if cancelled
+    // Subscribe before starting; events are matched to the export ID once it is known
+    unsubscribeEvents = [
+      window.api.export.onProgress((event) => {
+        if (event.exportId !== get().exportId) return;
         
-        const progress = (frame / mockTotalFrames) * 100;
-        const eta = calculateETA(frame, mockTotalFrames, mockFPS);
+        get().updateProgress(event.progress.percent, {
+          currentFrame: event.progress.currentFrame,
+          totalFrames: event.progress.totalFrames,
+          fps: event.progress.fps,
+          eta: event.progress.eta,
+          phase: event.progress.phase,
+          speed: event.progress.speed
+        });
+      }),
+      window.api.export.onComplete((event) => {
+        if (event.exportId !== get().exportId) return;
+        
+        clearEventListeners();
+        if (event.cancelled) {
+          set({ isExporting: false, exportId: null, progress: 0, eta: 0, phase: null, speed: 0 });
+          return;
+        }
         
         set({
-          currentFrame: frame,
-          progress,
-          fps: mockFPS,
-          eta
+          isExporting: false,
+          progress: event.success ? 100 : get().progress,
+          eta: 0,
+          outputPath: event.success ? event.outputPath || config.outputPath : null,
+          sizeResult: event.sizeResult || null,
+          error: event.success ? null : event.error || 'Export failed'
         });
-        
-        // Simulate processing time
-        await new Promise(resolve => setTimeout(resolve, 100));
-      }
-      
-      // Export complete
-      set({
-        isExporting: false,
-        progress: 100,
-        outputPath: config.outputPath
+      })
+    ];
+
+    try {
+      const { exportId } = await window.api.export.start({
+        config,
+        timeline: {
+          tracks: useTimelineStore.getState().tracks,
+          webcam: useWebcamStore.getState().getExportOverlay(),
+          markers: useTimelineStore.getState().markers
+        },
+        range: get().getExportRange()
       });
       
+      set({ exportId });
+      
     } catch (error) {
       console.error('Export failed:', error);
+      clearEventListeners();
       set({
         isExporting: false,
-        exportId: null
+        exportId: null,
+        error: error instanceof Error ? error.message : String(error)
       });
     }
   },
 
   cancelExport: async () => {
+    const { exportId } = get();
+    if (exportId) {
+      await window.api.export.cancel({ exportId });
+    }
+    
+    clearEventListeners();
     set({
       isExporting: false,
       exportId: null,
@@ -118,7 +150,9 @@ export const useExportStore = create<ExportStoreContract.Store>((set, get) => ({
       currentFrame: 0,
       totalFrames: 0,
       fps: 0,
-      eta: 0
+      eta: 0,
+      phase: null,
+      speed: 0
     });
   },
 
@@ -144,6 +178,132 @@ export const useExportStore = create<ExportStoreContract.Store>((set, get) => ({
     }));
   },
 
+  setRangeMode: (mode: ExportRangeMode) => {
+    set({ rangeMode: mode });
+  },
+
+  getExportRange: () => {
+    const timeline = useTimelineStore.getState();
+    
+    switch (get().rangeMode) {
+      case 'inOut':
+        return timeline.getInOutRange() || undefined;
+      case 'selection':
+        return timeline.getSelectionRange() || undefined;
+      default:
+        return undefined;
+    }
+  },
+
+  // ============================================================================
+  // EXPORT QUEUE
+  // ============================================================================
+
+  enqueueExport: async (config: ExportConfig, name?: string) => {
+    await window.api.export.enqueue({
+      config,
+      timeline: {
+        tracks: useTimelineStore.getState().tracks,
+        webcam: useWebcamStore.getState().getExportOverlay(),
+        markers: useTimelineStore.getState().markers
+      },
+      name,
+      range: get().getExportRange()
+    });
+    await get().refreshQueue();
+  },
+
+  refreshQueue: async () => {
+    const { jobs, concurrency } = await window.api.export.getQueue();
+    get().setQueue(jobs, concurrency);
+  },
+
+  pauseJob: async (jobId: string) => {
+    const { jobs, concurrency } = await window.api.export.pauseJob({ jobId });
+    get().setQueue(jobs, concurrency);
+  },
+
+  resumeJob: async (jobId: string) => {
+    const { jobs, concurrency } = await window.api.export.resumeJob({ jobId });
+    get().setQueue(jobs, concurrency);
+  },
+
+  moveJob: async (jobId: string, toIndex: number) => {
+    const { jobs, concurrency } = await window.api.export.moveJob({ jobId, toIndex });
+    get().setQueue(jobs, concurrency);
+  },
+
+  retryJob: async (jobId: string) => {
+    const { jobs, concurrency } = await window.api.export.retryJob({ jobId });
+    get().setQueue(jobs, concurrency);
+  },
+
+  removeJob: async (jobId: string) => {
+    const { jobs, concurrency } = await window.api.export.removeJob({ jobId });
+    get().setQueue(jobs, concurrency);
+  },
+
+  clearFinishedJobs: async () => {
+    const { jobs, concurrency } = await window.api.export.clearFinished();
+    get().setQueue(jobs, concurrency);
+  },
+
+  setQueueConcurrency: async (concurrency: number) => {
+    const state = await window.api.export.setConcurrency({ concurrency });
+    get().setQueue(state.jobs, state.concurrency);
+  },
+
+  revealOutput: async (path: string) => {
+    const { success } = await window.api.system.showItem({ path });
+    if (!success) {
+      console.warn(`⚠️ Could not reveal ${path} - the file may have been moved or deleted`);
+    }
+  },
+
+  // ============================================================================
+  // EXPORT PRESETS
+  // ============================================================================
+
+  loadPresets: async () => {
+    const { presets } = await window.api.export.listPresets();
+    set({ presets });
+  },
+
+  createPreset: async (input: ExportPresetInput) => {
+    const { preset } = await window.api.export.createPreset({ preset: input });
+    await get().loadPresets();
+    return preset;
+  },
+
+  updatePreset: async (id: string, updates: Partial<ExportPresetInput>) => {
+    await window.api.export.updatePreset({ id, updates });
+    await get().loadPresets();
+  },
+
+  deletePreset: async (id: string) => {
+    const { presets } = await window.api.export.deletePreset({ id });
+    set((state) => ({
+      presets,
+      // Configs from a deleted preset keep their settings but no longer point at it
+      config: state.config.presetId === id ? { ...state.config, presetId: undefined } : state.config
+    }));
+  },
+
+  importPresets: async () => {
+    const { imported, presets } = await window.api.export.importPresets();
+    set({ presets });
+    if (imported.length > 0) {
+      console.log(`📥 Imported ${imported.length} export presets`);
+    }
+  },
+
+  exportPresets: async (ids?: string[]) => {
+    const { filePath } = await window.api.export.exportPresets({ ids });
+    if (filePath) {
+      console.log(`📤 Exported presets to ${filePath}`);
+    }
+  },
+
   // ============================================================================
   // UI CONTROL
   // ============================================================================
@@ -152,6 +312,10 @@ export const useExportStore = create<ExportStoreContract.Store>((set, get) => ({
     set({ showExportDialog: show });
   },
 
+  showQueue: (show: boolean) => {
+    set({ showQueuePanel: show });
+  },
+
   // ============================================================================
   // INTERNAL STATE UPDATES (from IPC events)
   // ============================================================================
@@ -161,13 +325,17 @@ export const useExportStore = create<ExportStoreContract.Store>((set, get) => ({
     totalFrames: number;
     fps: number;
     eta: number;
+    phase?: ExportStoreContract.State['phase'];
+    speed?: number;
   }) => {
     set({
       progress: Math.max(0, Math.min(100, progress)),
       currentFrame: details.currentFrame,
       totalFrames: details.totalFrames,
       fps: details.fps,
-      eta: details.eta
+      eta: details.eta,
+      phase: details.phase ?? get().phase,
+      speed: details.speed ?? 0
     });
   },
 
@@ -177,5 +345,9 @@ export const useExportStore = create<ExportStoreContract.Store>((set, get) => ({
 
   setExportId: (exportId: string | null) => {
     set({ exportId });
+  },
+
+  setQueue: (jobs, concurrency) => {
+    set({ queue: jobs, queueConcurrency: concurrency });
   }
 }));
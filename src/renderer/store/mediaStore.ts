@@ -10,7 +10,7 @@ import { v4 as uuidv4 } from 'uuid';
 import { 
   MediaLibraryStoreContract
 } from '../../shared/contracts/stores';
-import { Clip } from '../../shared/types';
+import { Clip, ProjectMediaItem } from '../../shared/types';
 
 // Default media library state
 const defaultState: MediaLibraryStoreContract.State = {
@@ -165,5 +165,36 @@ export const useMediaStore = create<MediaLibraryStoreContract.Store>((set, get)
         item.id === itemId ? { ...item, thumbnail } : item
       )
     }));
+  },
+
+  // ============================================================================
+  // PROJECT PERSISTENCE
+  // ============================================================================
+
+  loadFromProject: (items) => {
+    const loadedItems = (items || []).map(item => ({
+      id: item.id,
+      clip: item.clip,
+      thumbnail: item.thumbnail,
+      addedAt: new Date(item.addedAt),
+      offline: item.offline || false
+    }));
+
+    set((state) => ({
+      items: sortItems(loadedItems, state.sortBy, state.sortOrder),
+      selectedItemIds: [],
+      filterText: ''
+    }));
+
+    console.log(`📥 Loaded ${loadedItems.length} media items from project`);
+  },
+
+  getLibraryData: () => {
+    return get().items.map(item => ({
+      id: item.id,
+      clip: item.clip,
+      thumbnail: item.thumbnail,
+      addedAt: item.addedAt.toISOString()
+    }));
   }
 }));
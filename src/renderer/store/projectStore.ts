@@ -8,10 +8,13 @@
 import { create } from 'zustand';
 import { v4 as uuidv4 } from 'uuid';
 import { 
+  MediaLibraryStoreContract,
   ProjectStoreContract
 } from '../../shared/contracts/stores';
 import { Project } from '../../shared/types';
 import { useWebcamStore } from './webcamStore';
+import { useTimelineStore } from './timelineStore';
+import { useMediaStore } from './mediaStore';
 
 // Default project state
 const defaultState: ProjectStoreContract.State = {
@@ -41,6 +44,24 @@ const createNewProject = (name: string): Project => ({
   }
 });
 
+// Saved timelines leave clip thumbnails out, so clips take their media library item's
+const withLibraryThumbnails = (
+  timeline: Project['timeline'],
+  items: MediaLibraryStoreContract.MediaItem[]
+): Project['timeline'] => {
+  const thumbnails = new Map(items.map(item => [item.clip.sourceFile, item.thumbnail || item.clip.metadata?.thumbnail]));
+  return {
+    ...timeline,
+    tracks: timeline.tracks.map(track => ({
+      ...track,
+      clips: (track.clips || []).map(clip => {
+        const thumbnail = clip.metadata?.thumbnail || thumbnails.get(clip.sourceFile);
+        return thumbnail ? { ...clip, metadata: { ...clip.metadata, thumbnail } } : clip;
+      })
+    }))
+  };
+};
+
 const updateProjectMetadata = (project: Project): Project => ({
   ...project,
   metadata: {
@@ -60,6 +81,10 @@ export const useProjectStore = create<ProjectStoreContract.Store>((set, get) =>
   newProject: (name: string) => {
     const project = createNewProject(name);
     
+    // Drop the previous project's tracks and media before the new project is set, so clearing them doesn't mark it dirty
+    useTimelineStore.getState().loadFromProject(project.timeline);
+    useMediaStore.getState().loadFromProject([]);
+    
     set({
       project,
       currentFilePath: null,
@@ -81,9 +106,17 @@ export const useProjectStore = create<ProjectStoreContract.Store>((set, get) =>
       // Get webcam settings from webcam store
       const webcamSettings = useWebcamStore.getState().getSettings();
       
-      // Update project metadata and include webcam settings
+      // Get tracks and clips from timeline store
+      const timeline = useTimelineStore.getState().getTimelineData();
+      
+      // Get imported media from media library store
+      const mediaLibrary = { items: useMediaStore.getState().getLibraryData() };
+      
+      // Update project metadata and include timeline, media library and webcam settings
       const updatedProject = {
         ...updateProjectMetadata(state.project),
+        timeline,
+        mediaLibrary,
         webcamSettings // Add webcam settings to project
       };
       
@@ -126,6 +159,16 @@ export const useProjectStore = create<ProjectStoreContract.Store>((set, get) =>
         console.log('ℹ️ No webcam settings in project, using defaults');
       }
       
+      // Restore media library (missing source files come back flagged offline)
+      useMediaStore.getState().loadFromProject(loadedProject.mediaLibrary?.items);
+      
+      // Restore tracks and clips to timeline store (also clears undo history)
+      useTimelineStore.getState().loadFromProject(
+        withLibraryThumbnails(loadedProject.timeline, useMediaStore.getState().items)
+      );
+      console.log('✅ Restored timeline from project');
+      
+      // Set after the timeline restore so the restore itself doesn't mark the project dirty
       set({
         project: loadedProject,
         currentFilePath: filePath,
@@ -143,6 +186,9 @@ export const useProjectStore = create<ProjectStoreContract.Store>((set, get) =>
   },
 
   closeProject: () => {
+    useTimelineStore.getState().loadFromProject(undefined);
+    useMediaStore.getState().loadFromProject([]);
+    
     set({
       project: null,
       currentFilePath: null,
@@ -179,3 +225,11 @@ export const useProjectStore = create<ProjectStoreContract.Store>((set, get) =>
     });
   }
 }));
+
+// Any edit to the timeline's tracks (add/move/trim/split/delete, undo/redo) or markers is an unsaved change
+useTimelineStore.subscribe((state, prevState) => {
+  const changed = state.tracks !== prevState.tracks || state.markers !== prevState.markers;
+  if (changed && useProjectStore.getState().project) {
+    useProjectStore.getState().markDirty();
+  }
+});
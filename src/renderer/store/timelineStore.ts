@@ -10,7 +10,10 @@ import { v4 as uuidv4 } from 'uuid';
 import { 
   TimelineStoreContract
 } from '../../shared/contracts/stores';
-import { Clip, Track } from '../../shared/types';
+import { CaptionCue, Clip, TimelineMarker, Track } from '../../shared/types';
+import { withoutTrackThumbnails } from '../../shared/utils/thumbnailUtils';
+import { canTrackHoldClip } from '../utils/timelineUtils';
+import { DEFAULT_TEXT_DURATION, DEFAULT_TEXT_SETTINGS, MAX_TEXT_DURATION } from '../utils/textUtils';
 
 // Default timeline state
 const defaultState: TimelineStoreContract.State = {
@@ -18,6 +21,9 @@ const defaultState: TimelineStoreContract.State = {
   duration: 0,
   currentTime: 0,
   isPlaying: false,
+  inPoint: null,
+  outPoint: null,
+  markers: [],
   zoom: 1.0,
   scrollLeft: 0,
   isGridSnapEnabled: false,
@@ -56,6 +62,15 @@ const calculateTimelineDuration = (tracks: Track[]): number => {
   return maxDuration;
 };
 
+const sortMarkers = (markers: TimelineMarker[]): TimelineMarker[] =>
+  [...markers].sort((a, b) => a.time - b.time);
+
+const sortCues = (cues: CaptionCue[]): CaptionCue[] =>
+  [...cues].sort((a, b) => a.startTime - b.startTime);
+
+// Length of a cue added by hand (seconds)
+const DEFAULT_CUE_DURATION = 2;
+
 // Timeline Store Implementation
 export const useTimelineStore = create<TimelineStoreContract.Store>((set, get) => ({
   ...defaultState,
@@ -66,6 +81,9 @@ export const useTimelineStore = create<TimelineStoreContract.Store>((set, get) =
 
   addClip: (clip: Clip, trackId: string, position: number) => {
     set((state) => {
+      const target = state.tracks.find(track => track.id === trackId);
+      if (target && !canTrackHoldClip(target, clip)) return state;
+      
       const newTracks = state.tracks.map(track => {
         if (track.id === trackId) {
           const newClip = {
@@ -123,6 +141,10 @@ export const useTimelineStore = create<TimelineStoreContract.Store>((set, get) =
 
   moveClip: (clipId: string, newTrackId: string, newPosition: number) => {
     set((state) => {
+      const target = state.tracks.find(track => track.id === newTrackId);
+      const clip = state.tracks.flatMap(track => track.clips).find(c => c.id === clipId);
+      if (target && clip && !canTrackHoldClip(target, clip)) return state;
+      
       let clipToMove: Clip | null = null;
       
       // Find and remove clip from current track
@@ -217,7 +239,9 @@ export const useTimelineStore = create<TimelineStoreContract.Store>((set, get) =
             ...clip,
             id: uuidv4(),
             startTime: splitTime,
-            trimIn: clip.trimIn + splitPosition
+            trimIn: clip.trimIn + splitPosition,
+            // The transition stays at the left clip's start, not on the new cut
+            transitionIn: undefined
           };
 
           console.log('✅ STORE: Created split clips:', {
@@ -315,6 +339,112 @@ export const useTimelineStore = create<TimelineStoreContract.Store>((set, get) =
     });
   },
 
+  // ============================================================================
+  // CAPTION TRACKS
+  // ============================================================================
+
+  addCaptionTrack: (name: string, cues: CaptionCue[] = []) => {
+    const track: Track = { ...createTrack(name), kind: 'caption', cues: sortCues(cues) };
+    
+    set((state) => ({ tracks: [...state.tracks, track] }));
+  },
+
+  addCue: (trackId: string, time?: number) => {
+    const startTime = Math.max(0, time ?? get().currentTime);
+    const cue: CaptionCue = {
+      id: uuidv4(),
+      startTime,
+      endTime: startTime + DEFAULT_CUE_DURATION,
+      text: ''
+    };
+    
+    set((state) => ({
+      tracks: state.tracks.map(track =>
+        track.id === trackId && track.kind === 'caption'
+          ? { ...track, cues: sortCues([...(track.cues || []), cue]) }
+          : track
+      )
+    }));
+  },
+
+  updateCue: (cueId: string, updates: Partial<Omit<CaptionCue, 'id'>>) => {
+    set((state) => ({
+      tracks: state.tracks.map(track =>
+        track.cues?.some(cue => cue.id === cueId)
+          ? { ...track, cues: sortCues(track.cues.map(cue => cue.id === cueId ? { ...cue, ...updates } : cue)) }
+          : track
+      )
+    }));
+  },
+
+  removeCue: (cueId: string) => {
+    set((state) => ({
+      tracks: state.tracks.map(track =>
+        track.cues?.some(cue => cue.id === cueId)
+          ? { ...track, cues: track.cues.filter(cue => cue.id !== cueId) }
+          : track
+      )
+    }));
+  },
+
+  // ============================================================================
+  // TEXT TRACKS
+  // ============================================================================
+
+  addTextTrack: (name: string) => {
+    const track: Track = { ...createTrack(name), kind: 'text' };
+    
+    set((state) => ({ tracks: [...state.tracks, track] }));
+  },
+
+  addTextClip: (trackId: string, time?: number) => {
+    const startTime = Math.max(0, time ?? get().currentTime);
+    // No source: the metadata only bounds trimming
+    const clip: Clip = {
+      id: uuidv4(),
+      sourceFile: '',
+      startTime,
+      endTime: startTime + DEFAULT_TEXT_DURATION,
+      trimIn: 0,
+      trimOut: DEFAULT_TEXT_DURATION,
+      trackId,
+      metadata: {
+        duration: MAX_TEXT_DURATION,
+        resolution: { width: 0, height: 0 },
+        frameRate: 0,
+        codec: 'text',
+        size: 0
+      },
+      text: { ...DEFAULT_TEXT_SETTINGS, position: { ...DEFAULT_TEXT_SETTINGS.position } }
+    };
+    
+    set((state) => {
+      if (state.tracks.find(track => track.id === trackId)?.kind !== 'text') return state;
+      
+      const newTracks = state.tracks.map(track =>
+        track.id === trackId
+          ? { ...track, clips: [...track.clips, clip].sort((a, b) => a.startTime - b.startTime) }
+          : track
+      );
+      
+      return {
+        tracks: newTracks,
+        duration: calculateTimelineDuration(newTracks),
+        selectedClipIds: [clip.id]
+      };
+    });
+  },
+
+  // ============================================================================
+  // AUDIO TRACKS
+  // ============================================================================
+
+  addAudioTrack: (name: string) => {
+    const track: Track = { ...createTrack(name), kind: 'audio' };
+    
+    set((state) => ({ tracks: [...state.tracks, track] }));
+  },
+
   // ============================================================================
   // PLAYBACK OPERATIONS
   // ============================================================================
@@ -335,6 +465,87 @@ export const useTimelineStore = create<TimelineStoreContract.Store>((set, get) =
     });
   },
 
+  // ============================================================================
+  // IN/OUT POINTS
+  // ============================================================================
+
+  setInPoint: (time?: number | null) => {
+    if (time === null) {
+      set({ inPoint: null });
+      return;
+    }
+    
+    const inPoint = Math.max(0, Math.min(time ?? get().currentTime, get().duration));
+    const { outPoint } = get();
+    
+    // An in point at or past the out point starts a new range
+    set({ inPoint, outPoint: outPoint !== null && outPoint <= inPoint ? null : outPoint });
+  },
+
+  setOutPoint: (time?: number | null) => {
+    if (time === null) {
+      set({ outPoint: null });
+      return;
+    }
+    
+    const outPoint = Math.max(0, Math.min(time ?? get().currentTime, get().duration));
+    const { inPoint } = get();
+    
+    set({ outPoint, inPoint: inPoint !== null && inPoint >= outPoint ? null : inPoint });
+  },
+
+  clearInOutPoints: () => {
+    set({ inPoint: null, outPoint: null });
+  },
+
+  getInOutRange: () => {
+    const { inPoint, outPoint, duration } = get();
+    if (inPoint === null && outPoint === null) return null;
+    
+    // A single mark runs to the matching end of the timeline
+    const start = inPoint ?? 0;
+    const end = outPoint ?? duration;
+    return end > start ? { start, end } : null;
+  },
+
+  // ============================================================================
+  // MARKERS
+  // ============================================================================
+
+  addMarker: (time?: number, title = '') => {
+    const marker: TimelineMarker = {
+      id: uuidv4(),
+      time: Math.max(0, Math.min(time ?? get().currentTime, get().duration)),
+      title
+    };
+    
+    set((state) => ({ markers: sortMarkers([...state.markers, marker]) }));
+  },
+
+  updateMarker: (markerId: string, updates: Partial<Omit<TimelineMarker, 'id'>>) => {
+    set((state) => ({
+      markers: sortMarkers(state.markers.map(marker =>
+        marker.id === markerId ? { ...marker, ...updates } : marker
+      ))
+    }));
+  },
+
+  removeMarker: (markerId: string) => {
+    set((state) => ({ markers: state.markers.filter(marker => marker.id !== markerId) }));
+  },
+
+  getSelectionRange: () => {
+    const { tracks, selectedClipIds } = get();
+    const selected = tracks.flatMap(track => track.clips).filter(clip => selectedClipIds.includes(clip.id));
+    if (selected.length === 0) return null;
+    
+    return {
+      start: Math.min(...selected.map(clip => clip.startTime)),
+      end: Math.max(...selected.map(clip => clip.endTime)),
+      clipIds: selected.map(clip => clip.id)
+    };
+  },
+
   // ============================================================================
   // UI OPERATIONS
   // ============================================================================
@@ -436,7 +647,7 @@ export const useTimelineStore = create<TimelineStoreContract.Store>((set, get) =
       const newTracks = state.tracks.map(track => {
         if (track.id !== targetTrackId) return track;
 
-        const pastedClips = state.clipboardClips.map(clip => ({
+        const pastedClips = state.clipboardClips.filter(clip => canTrackHoldClip(track, clip)).map(clip => ({
           ...clip,
           id: uuidv4(),
           trackId: targetTrackId,
@@ -562,5 +773,55 @@ export const useTimelineStore = create<TimelineStoreContract.Store>((set, get) =
         selectedClipIds: duplicatedClips.map(clip => clip.id)
       };
     });
+  },
+
+  // ============================================================================
+  // PROJECT PERSISTENCE
+  // ============================================================================
+
+  loadFromProject: (timeline) => {
+    // Fill in track flags that older project files may not have written
+    const tracks: Track[] = (timeline?.tracks || []).map(track => ({
+      ...track,
+      muted: track.muted ?? false,
+      locked: track.locked ?? false,
+      visible: track.visible ?? true,
+      clips: [...(track.clips || [])].sort((a, b) => a.startTime - b.startTime),
+      ...(track.cues ? { cues: sortCues(track.cues) } : {})
+    }));
+
+    // Replace the whole timeline - history from a previous project must not leak into this one
+    set({
+      tracks,
+      duration: typeof timeline?.duration === 'number'
+        ? Math.max(timeline.duration, calculateTimelineDuration(tracks))
+        : calculateTimelineDuration(tracks),
+      currentTime: 0,
+      isPlaying: false,
+      inPoint: timeline?.inPoint ?? null,
+      outPoint: timeline?.outPoint ?? null,
+      markers: sortMarkers(timeline?.markers || []),
+      scrollLeft: 0,
+      selectedClipIds: [],
+      selectedTrackId: null,
+      history: {
+        past: [],
+        future: []
+      }
+    });
+
+    console.log(`📥 Loaded timeline from project: ${tracks.length} tracks`);
+  },
+
+  getTimelineData: () => {
+    const state = get();
+    return {
+      // Thumbnails come back from the media library on load
+      tracks: withoutTrackThumbnails(createTimelineSnapshot(state.tracks).tracks),
+      duration: state.duration,
+      ...(state.inPoint !== null ? { inPoint: state.inPoint } : {}),
+      ...(state.outPoint !== null ? { outPoint: state.outPoint } : {}),
+      ...(state.markers.length > 0 ? { markers: state.markers } : {})
+    };
   }
 }));
@@ -7,6 +7,8 @@
 
 import { create } from 'zustand';
 import { WebcamStoreContract } from '../../shared/contracts/stores';
+import { WebcamSource } from '../../shared/types';
+import { useMediaStore } from './mediaStore';
 
 // Default webcam state - bottom-right corner
 const defaultState: WebcamStoreContract.State = {
@@ -15,6 +17,7 @@ const defaultState: WebcamStoreContract.State = {
   deviceId: null,
   position: { x: 70, y: 70 }, // 70% right, 70% down (bottom-right with more space)
   size: { width: 25, height: 18.75 }, // 25% width, 18.75% height (maintains 4:3 aspect ratio: 25 * 3/4 = 18.75)
+  source: null,
   isDragging: false,
   isResizing: false,
   error: null
@@ -107,6 +110,10 @@ export const useWebcamStore = create<WebcamStoreContract.Store>((set, get) => ({
     set({ size: clampedSize });
   },
 
+  setSource: (source: WebcamSource | null) => {
+    set({ source });
+  },
+
   // ============================================================================
   // UI STATE
   // ============================================================================
@@ -130,7 +137,8 @@ export const useWebcamStore = create<WebcamStoreContract.Store>((set, get) => ({
         isEnabled: false,
         position: { x: 70, y: 70 },
         size: { width: 25, height: 18.75 },
-        deviceId: null
+        deviceId: null,
+        source: null
       });
       return;
     }
@@ -141,7 +149,8 @@ export const useWebcamStore = create<WebcamStoreContract.Store>((set, get) => ({
       isEnabled: false, // Don't auto-enable
       position: settings.position,
       size: settings.size,
-      deviceId: settings.deviceId || null
+      deviceId: settings.deviceId || null,
+      source: settings.source || null
     });
 
     console.log('📥 Loaded webcam settings from project:', settings);
@@ -153,10 +162,27 @@ export const useWebcamStore = create<WebcamStoreContract.Store>((set, get) => ({
       enabled: state.isEnabled,
       position: state.position,
       size: state.size,
-      deviceId: state.deviceId || undefined
+      deviceId: state.deviceId || undefined,
+      source: state.source || undefined
     };
   },
 
+  getExportOverlay: () => {
+    const { source, position, size } = get();
+    if (!source) return undefined;
+
+    if (source.type === 'track') {
+      return { position, size, trackId: source.trackId };
+    }
+
+    const item = useMediaStore.getState().items.find(i => i.clip.id === source.clipId);
+    if (!item) {
+      console.warn('⚠️ Webcam source clip is no longer in the media library');
+      return undefined;
+    }
+    return { position, size, clip: item.clip };
+  },
+
   // ============================================================================
   // ERROR HANDLING
   // ============================================================================
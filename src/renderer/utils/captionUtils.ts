@@ -0,0 +1,30 @@
+/**
+ * Caption Utilities
+ *
+ * Defaults for caption exports, and the subtitle units burned-in caption styles are measured in.
+ */
+
+import { CaptionExportSettings, CaptionStyle } from '../../shared/types';
+
+// libass lays SRT captions out on a picture this many units tall, whatever the video size
+export const CAPTION_SCRIPT_HEIGHT = 288;
+
+// Named sizes offered for burned-in captions, in subtitle units
+export const CAPTION_FONT_SIZES: Array<{ label: string; fontSize: number }> = [
+  { label: 'Small', fontSize: 14 },
+  { label: 'Medium', fontSize: 18 },
+  { label: 'Large', fontSize: 24 }
+];
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = {
+  fontSize: 18,
+  color: '#ffffff',
+  outlineColor: '#000000',
+  position: 'bottom'
+};
+
+export const DEFAULT_CAPTION_SETTINGS: CaptionExportSettings = {
+  mode: 'burnIn',
+  format: 'srt',
+  style: DEFAULT_CAPTION_STYLE
+};
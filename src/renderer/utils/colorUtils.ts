@@ -0,0 +1,71 @@
+/**
+ * Color Utilities
+ *
+ * Defaults for clip color correction, and the curves the preview uses to approximate
+ * the export's eq and colortemperature filters.
+ */
+
+import { ClipColor } from '../../shared/types';
+
+// Matches the export service's colortemperature default, which leaves the picture as it is
+export const NEUTRAL_COLOR_TEMPERATURE = 6500;
+
+export const DEFAULT_CLIP_COLOR: ClipColor = {
+  brightness: 0,
+  contrast: 1,
+  saturation: 1,
+  gamma: 1,
+  temperature: NEUTRAL_COLOR_TEMPERATURE
+};
+
+/**
+ * Whether a clip's color settings change its picture at all
+ */
+export const hasColorCorrection = (color: ClipColor | undefined): color is ClipColor =>
+  !!color && (
+    color.brightness !== 0 ||
+    color.contrast !== 1 ||
+    color.saturation !== 1 ||
+    color.gamma !== 1 ||
+    color.temperature !== NEUTRAL_COLOR_TEMPERATURE ||
+    !!color.lut
+  );
+
+/**
+ * Brightness, contrast and gamma as a transfer table over 0-1, computed the way FFmpeg's eq builds its lookup
+ */
+export const getEqCurve = (color: ClipColor, samples = 33): number[] =>
+  Array.from({ length: samples }, (_, i) => {
+    const v = color.contrast * (i / (samples - 1) - 0.5) + 0.5 + color.brightness;
+    return v <= 0 ? 0 : Math.min(1, Math.pow(v, 1 / color.gamma));
+  });
+
+/**
+ * Red, green and blue gains for a white balance in Kelvin, from the same fit FFmpeg's colortemperature uses
+ */
+export const getTemperatureGains = (kelvin: number): { r: number; g: number; b: number } => {
+  const k = kelvin / 100;
+  let r: number;
+  let g: number;
+  let b: number;
+
+  if (k <= 66) {
+    r = 1;
+    g = 0.39008157876901960784 * Math.log(k) - 0.63184144378862745098;
+  } else {
+    const t = Math.max(k - 60, 0);
+    r = 1.29293618606274509804 * Math.pow(t, -0.1332047592);
+    g = 1.12989086089529411765 * Math.pow(t, -0.0755148492);
+  }
+
+  if (k >= 66) {
+    b = 1;
+  } else if (k <= 19) {
+    b = 0;
+  } else {
+    b = 0.54320678911019607843 * Math.log(k - 10) - 1.19625408914;
+  }
+
+  const clamp = (value: number) => Math.max(0, Math.min(1, value));
+  return { r: clamp(r), g: clamp(g), b: clamp(b) };
+};
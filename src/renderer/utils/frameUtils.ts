@@ -0,0 +1,101 @@
+/**
+ * Frame Utilities
+ *
+ * Helpers for output frame shapes (aspect ratio presets), clip crop windows and the
+ * Ken Burns windows of still images.
+ */
+
+import { AspectRatioPreset, Clip, ClipCrop, KenBurnsEffect } from '../../shared/types';
+
+// A new Ken Burns effect ends on the middle of its start window, at this share of its size
+const KEN_BURNS_END_SCALE = 0.7;
+
+export const ASPECT_RATIO_PRESETS: AspectRatioPreset[] = ['16:9', '9:16', '1:1', '4:5'];
+export const DEFAULT_ASPECT_RATIO: AspectRatioPreset = '16:9';
+
+/**
+ * Width over height, e.g. 0.5625 for '9:16'
+ */
+export const getAspectRatioValue = (aspectRatio: AspectRatioPreset): number => {
+  const [width, height] = aspectRatio.split(':').map(Number);
+  return width / height;
+};
+
+/**
+ * Reshape a resolution to an aspect ratio, keeping its short side: 1080p stays 1080 pixels across
+ */
+export const fitResolutionToAspect = (
+  resolution: { width: number; height: number },
+  aspectRatio: AspectRatioPreset
+): { width: number; height: number } => {
+  const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+  const shortSide = Math.min(resolution.width, resolution.height);
+  const ratio = getAspectRatioValue(aspectRatio);
+
+  return ratio >= 1
+    ? { width: even(shortSide * ratio), height: shortSide }
+    : { width: shortSide, height: even(shortSide / ratio) };
+};
+
+/**
+ * The preset a resolution's shape matches, or null for any other shape
+ */
+export const findAspectRatio = (resolution: { width: number; height: number }): AspectRatioPreset | null =>
+  ASPECT_RATIO_PRESETS.find(aspectRatio =>
+    Math.abs(resolution.width / resolution.height - getAspectRatioValue(aspectRatio)) < 0.01
+  ) ?? null;
+
+/**
+ * Largest centred crop window with the frame's aspect ratio, so nothing is padded or stretched
+ */
+export const getDefaultCrop = (clip: Clip, frameAspect: number): ClipCrop => {
+  const { width, height } = clip.metadata.resolution;
+  const sourceAspect = width > 0 && height > 0 ? width / height : frameAspect;
+  const cropWidth = Math.min(100, frameAspect / sourceAspect * 100);
+  const cropHeight = Math.min(100, sourceAspect / frameAspect * 100);
+
+  return {
+    x: (100 - cropWidth) / 2,
+    y: (100 - cropHeight) / 2,
+    width: cropWidth,
+    height: cropHeight
+  };
+};
+
+/**
+ * Slow zoom into the centre: from the largest window in the frame's shape to a smaller one inside it
+ */
+export const getDefaultKenBurns = (clip: Clip, frameAspect: number): KenBurnsEffect => {
+  const start = getDefaultCrop(clip, frameAspect);
+  const width = start.width * KEN_BURNS_END_SCALE;
+  const height = start.height * KEN_BURNS_END_SCALE;
+
+  return {
+    start,
+    end: {
+      x: start.x + (start.width - width) / 2,
+      y: start.y + (start.height - height) / 2,
+      width,
+      height
+    }
+  };
+};
+
+/**
+ * The window a Ken Burns still shows at a timeline time, moving linearly over the clip like the export
+ */
+export const getKenBurnsCrop = (clip: Clip, time: number): ClipCrop | undefined => {
+  if (!clip.kenBurns) return undefined;
+
+  const { start, end } = clip.kenBurns;
+  const length = clip.endTime - clip.startTime;
+  const progress = length > 0 ? Math.max(0, Math.min(1, (time - clip.startTime) / length)) : 0;
+  const mix = (from: number, to: number) => from + (to - from) * progress;
+
+  return {
+    x: mix(start.x, end.x),
+    y: mix(start.y, end.y),
+    width: mix(start.width, end.width),
+    height: mix(start.height, end.height)
+  };
+};
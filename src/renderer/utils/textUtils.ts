@@ -0,0 +1,48 @@
+/**
+ * Text Utilities
+ *
+ * Fonts and defaults for text clips, and the fade their preview shares with the export.
+ */
+
+import { Clip, TextClipSettings, TextFont } from '../../shared/types';
+
+// Bundled typefaces, loaded by styles.css from the same files the export draws with
+export const TEXT_FONTS: Record<TextFont, { label: string; family: string; weight: 'normal' | 'bold' }> = {
+  sans: { label: 'Sans', family: 'DejaVu Sans', weight: 'normal' },
+  sansBold: { label: 'Sans Bold', family: 'DejaVu Sans', weight: 'bold' },
+  serif: { label: 'Serif', family: 'DejaVu Serif', weight: 'normal' },
+  mono: { label: 'Mono', family: 'DejaVu Sans Mono', weight: 'normal' }
+};
+
+// Length of a new text clip (seconds)
+export const DEFAULT_TEXT_DURATION = 5;
+
+// Text clips have no source, so they can be trimmed out to this length
+export const MAX_TEXT_DURATION = 3600;
+
+export const DEFAULT_TEXT_SETTINGS: TextClipSettings = {
+  content: 'Title',
+  font: 'sansBold',
+  fontSize: 8,
+  color: '#ffffff',
+  boxColor: undefined,
+  boxOpacity: 0.6,
+  position: { x: 50, y: 80 },
+  fadeIn: 0.5,
+  fadeOut: 0.5
+};
+
+/**
+ * How visible a text clip is at a timeline time after its fades (0-1), like the export's drawtext alpha
+ */
+export const getTextFadeAlpha = (clip: Clip, time: number): number => {
+  const text = clip.text;
+  if (!text) return 1;
+
+  const elapsed = time - clip.startTime;
+  const remaining = clip.endTime - time;
+  const fadeIn = text.fadeIn > 0 ? elapsed / text.fadeIn : 1;
+  const fadeOut = text.fadeOut > 0 ? remaining / text.fadeOut : 1;
+
+  return Math.max(0, Math.min(1, fadeIn, fadeOut));
+};
@@ -0,0 +1,120 @@
+/**
+ * Timeline Utilities
+ *
+ * Helpers for resolving what is on the timeline at a given time, and how clips are framed.
+ */
+
+import { CaptionCue, Clip, ClipTransition, ProjectSettings, ScalingMode, Track, TransitionType } from '../../shared/types';
+
+// Matches the export service's default when neither clip nor project sets a mode
+export const DEFAULT_SCALING_MODE: ScalingMode = 'fit';
+
+export const TRANSITION_LABELS: Record<TransitionType, string> = {
+  crossfade: 'Crossfade',
+  dipToBlack: 'Dip to Black',
+  wipe: 'Wipe'
+};
+
+// Matches the import handler's length for a new still image clip
+export const DEFAULT_STILL_DURATION = 5;
+
+export const DEFAULT_TRANSITION_DURATION = 1;
+export const MIN_TRANSITION_DURATION = 0.1;
+
+// Matches the export service's tolerance for touching clip edges
+const TRANSITION_EPSILON = 0.001;
+
+// Small tolerance for floating point comparisons (50ms)
+const CLIP_TIME_EPSILON = 0.05;
+
+/**
+ * Whether a clip may go on a track: caption tracks only hold cues, text tracks only text clips,
+ * audio tracks only audio files
+ */
+export const canTrackHoldClip = (track: Track, clip: Clip): boolean =>
+  track.kind !== 'caption'
+  && (track.kind === 'text') === !!clip.text
+  && (track.kind === 'audio') === (clip.metadata.kind === 'audio');
+
+/**
+ * Find the media clip at a timeline time: the one on the highest track, which is drawn on top
+ */
+export const findClipAtTime = (tracks: Track[], time: number): Clip | null => {
+  for (const track of [...tracks].reverse()) {
+    // Text and audio clips have no source picture to play or export frames from
+    if (track.kind === 'text' || track.kind === 'audio') continue;
+    
+    for (const clip of track.clips) {
+      if (time >= clip.startTime - CLIP_TIME_EPSILON && time <= clip.endTime + CLIP_TIME_EPSILON) {
+        return clip;
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Convert a timeline time to a time within the clip's source file
+ */
+export const getSourceTime = (clip: Clip, time: number): number => {
+  // A still image has only the one frame
+  if (clip.metadata.kind === 'image') return 0;
+
+  const sourceTime = clip.trimIn + (time - clip.startTime);
+  return Math.max(clip.trimIn, Math.min(clip.trimOut, sourceTime));
+};
+
+/**
+ * A clip's scaling mode and pad color, falling back to the project's
+ */
+export const getClipFraming = (
+  clip: Clip,
+  settings?: ProjectSettings
+): { scalingMode: ScalingMode; padColor?: string } => ({
+  scalingMode: clip.scalingMode || settings?.scalingMode || DEFAULT_SCALING_MODE,
+  padColor: clip.padColor || settings?.padColor
+});
+
+/**
+ * The clip a transition on `clip` blends from: the one ending where it starts on its track
+ */
+export const getTransitionPartner = (track: Track, clip: Clip): Clip | undefined =>
+  track.clips.find(other =>
+    other.id !== clip.id && Math.abs(other.endTime - clip.startTime) < TRANSITION_EPSILON
+  );
+
+/**
+ * Longest transition between two clips. Like the export, each clip gives up at most half its length
+ * to each cut, so transitions at both ends of a clip never overlap.
+ */
+export const getMaxTransitionDuration = (from: Clip, to: Clip): number =>
+  Math.min(from.endTime - from.startTime, to.endTime - to.startTime);
+
+/**
+ * The transition playing on a track at a timeline time, with how far through it is (0 to 1)
+ */
+export const findTransitionAtTime = (
+  track: Track,
+  time: number
+): { transition: ClipTransition; from: Clip; to: Clip; progress: number } | null => {
+  for (const to of track.clips) {
+    if (!to.transitionIn) continue;
+    const from = getTransitionPartner(track, to);
+    if (!from) continue;
+
+    const duration = Math.min(to.transitionIn.duration, getMaxTransitionDuration(from, to));
+    const start = to.startTime - duration / 2;
+    if (duration > 0 && time >= start && time < start + duration) {
+      return { transition: { ...to.transitionIn, duration }, from, to, progress: (time - start) / duration };
+    }
+  }
+  return null;
+};
+
+/**
+ * Cues showing at a timeline time on the visible caption tracks, in track order
+ */
+export const findCuesAtTime = (tracks: Track[], time: number): CaptionCue[] =>
+  tracks
+    .filter(track => track.kind === 'caption' && track.visible !== false)
+    .flatMap(track => (track.cues || []).filter(cue => time >= cue.startTime && time < cue.endTime));
@@ -5,7 +5,7 @@
  * Enables parallel component development without coupling.
  */
 
-import { Clip, Track, VideoMetadata, RecordingSource, ExportConfig } from '../types';
+import { Clip, Track, VideoMetadata, RecordingSource, ExportConfig, ExportPhase, ExportPreset, ExportPresetInput, ExportQueueJob, ExportRange, ExportRangeMode, ExportSizeResult } from '../types';
 import React from 'react';
 
 // ============================================================================
@@ -63,6 +63,7 @@ export namespace MediaLibraryComponentProps {
     id: string;
     clip: Clip;
     thumbnail?: string;
+    offline?: boolean;
     isSelected: boolean;
     onSelect: (id: string, multiSelect: boolean) => void;
     onDragStart: (id: string) => void;
@@ -74,6 +75,7 @@ export namespace MediaLibraryComponentProps {
       id: string;
       clip: Clip;
       thumbnail?: string;
+      offline?: boolean;
     }>;
     selectedIds: string[];
     onSelectItem: (id: string, multiSelect: boolean) => void;
@@ -170,6 +172,7 @@ export namespace VideoPreviewComponentProps {
     onPlay?: () => void; // Optional - no longer used (store is single source of truth)
     onPause?: () => void; // Optional - no longer used (store is single source of truth)
     onEnded: () => void;
+    objectFit?: 'contain' | 'cover' | 'fill'; // How the picture fills the player box (default contain)
   }
 
   export interface PlaybackControls {
@@ -221,7 +224,18 @@ export namespace RecordingComponentProps {
 // ============================================================================
 
 export namespace ExportComponentProps {
-  export interface ExportDialog {
+  // Preset registry access, passed from the dialog down to the settings
+  export interface ExportPresetControls {
+    presets?: ExportPreset[];
+    projectName?: string; // Fills {project} in preset filename templates
+    onCreatePreset?: (input: ExportPresetInput) => Promise<ExportPreset>;
+    onUpdatePreset?: (id: string, updates: Partial<ExportPresetInput>) => void;
+    onDeletePreset?: (id: string) => void;
+    onImportPresets?: () => void;
+    onExportPresets?: () => void;
+  }
+
+  export interface ExportDialog extends ExportPresetControls {
     isOpen: boolean;
     isExporting: boolean;
     progress: number;
@@ -230,10 +244,29 @@ export namespace ExportComponentProps {
     onStartExport: () => void;
     onCancelExport: () => void;
     onClose: () => void;
+    onAddToQueue?: () => void; // Queue instead of exporting now
+    duration?: number; // Timeline length in seconds
+    captionCount?: number; // Cues on visible caption tracks
+    // Part of the timeline to export; choices without a range are disabled
+    rangeMode?: ExportRangeMode;
+    onRangeModeChange?: (mode: ExportRangeMode) => void;
+    inOutRange?: ExportRange | null;
+    selectionRange?: ExportRange | null;
+    // Progress details shown while exporting
+    currentFrame?: number;
+    totalFrames?: number;
+    fps?: number;
+    eta?: number;
+    phase?: ExportPhase | null;
+    speed?: number;
+    error?: string | null;
+    sizeResult?: ExportSizeResult | null; // Shown when a target-size export completes
   }
 
-  export interface ExportSettings {
+  export interface ExportSettings extends ExportPresetControls {
     config: ExportConfig;
+    duration?: number; // Timeline length in seconds, for size estimates
+    captionCount?: number; // Caption options only show when there are cues to export
     onChange: (config: Partial<ExportConfig>) => void;
   }
 
@@ -243,14 +276,31 @@ export namespace ExportComponentProps {
     totalFrames: number;
     fps: number;
     eta: number;
+    phase?: ExportPhase | null;
+    speed?: number; // multiple of real-time
     onCancel: () => void;
   }
 
+  export interface ExportQueuePanel {
+    isOpen: boolean;
+    jobs: ExportQueueJob[];
+    concurrency: number;
+    onPause: (jobId: string) => void;
+    onResume: (jobId: string) => void;
+    onRetry: (jobId: string) => void;
+    onRemove: (jobId: string) => void;
+    onMove: (jobId: string, toIndex: number) => void;
+    onReveal: (path: string) => void;
+    onClearFinished: () => void;
+    onConcurrencyChange: (concurrency: number) => void;
+    onClose: () => void;
+  }
+
   export interface QualityPreset {
-    value: ExportConfig['quality'];
-    label: string;
+    preset: ExportPreset;
     selected: boolean;
-    onSelect: (value: ExportConfig['quality']) => void;
+    onSelect: (preset: ExportPreset) => void;
+    onDelete?: () => void; // User presets only
   }
 }
 
@@ -12,6 +12,8 @@ export const IPC_CHANNELS = {
   MEDIA_OPEN_FILE_PICKER: 'media:open-file-picker',
   MEDIA_GENERATE_THUMBNAIL: 'media:generate-thumbnail',
   MEDIA_SAVE_DROPPED_FILE: 'media:save-dropped-file',
+  MEDIA_IMPORT_CAPTIONS: 'media:import-captions',
+  MEDIA_IMPORT_LUT: 'media:import-lut',
 
   // Recording
   RECORDING_GET_SOURCES: 'recording:get-sources',
@@ -25,6 +27,23 @@ export const IPC_CHANNELS = {
   EXPORT_CANCEL: 'export:cancel',
   EXPORT_PROGRESS: 'export:progress', // event
   EXPORT_COMPLETE: 'export:complete', // event
+  EXPORT_FRAME: 'export:frame',
+  EXPORT_QUEUE_ADD: 'export:queue-add',
+  EXPORT_QUEUE_GET: 'export:queue-get',
+  EXPORT_QUEUE_PAUSE: 'export:queue-pause',
+  EXPORT_QUEUE_RESUME: 'export:queue-resume',
+  EXPORT_QUEUE_MOVE: 'export:queue-move',
+  EXPORT_QUEUE_RETRY: 'export:queue-retry',
+  EXPORT_QUEUE_REMOVE: 'export:queue-remove',
+  EXPORT_QUEUE_CLEAR: 'export:queue-clear',
+  EXPORT_QUEUE_SET_CONCURRENCY: 'export:queue-set-concurrency',
+  EXPORT_QUEUE_UPDATED: 'export:queue-updated', // event
+  EXPORT_PRESETS_LIST: 'export:presets-list',
+  EXPORT_PRESETS_CREATE: 'export:presets-create',
+  EXPORT_PRESETS_UPDATE: 'export:presets-update',
+  EXPORT_PRESETS_DELETE: 'export:presets-delete',
+  EXPORT_PRESETS_IMPORT: 'export:presets-import',
+  EXPORT_PRESETS_EXPORT: 'export:presets-export',
 
   // Project
   PROJECT_SAVE: 'project:save',
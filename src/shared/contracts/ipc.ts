@@ -12,12 +12,20 @@
  */
 
 import { 
+  CaptionCue,
   Clip, 
+  ClipLut,
   VideoMetadata, 
   RecordingSource, 
   RecordingConfig,
   ExportConfig,
+  ExportPreset,
+  ExportPresetInput,
   ExportProgress,
+  ExportQueueJob,
+  ExportRange,
+  ExportSizeResult,
+  ExportTimeline,
   Project 
 } from '../types';
 
@@ -77,6 +85,17 @@ export namespace MediaIPC {
   export interface SaveDroppedFileResponse {
     filePath: string; // absolute path to saved file
   }
+  
+  // Pick an SRT or WebVTT file and read its cues
+  export interface ImportCaptionsResponse {
+    fileName: string | null; // null if cancelled
+    cues: CaptionCue[];
+  }
+  
+  // Pick a .cube file and read it as a clip's LUT
+  export interface ImportLutResponse {
+    lut: ClipLut | null; // null if cancelled
+  }
 }
 
 // ============================================================================
@@ -139,9 +158,8 @@ export namespace ExportIPC {
   // Start export
   export interface StartExportRequest {
     config: ExportConfig;
-    timeline: {
-      tracks: any[]; // Full timeline state
-    };
+    timeline: ExportTimeline;
+    range?: ExportRange; // Whole timeline when omitted
   }
   
   export interface StartExportResponse {
@@ -167,9 +185,90 @@ export namespace ExportIPC {
   export interface ExportCompleteEvent {
     exportId: string;
     success: boolean;
+    cancelled?: boolean; // true when the user cancelled; success is false
     outputPath?: string;
+    sizeResult?: ExportSizeResult; // Target-size exports only
     error?: string;
   }
+  
+  // Export a single frame as an image (PNG, or JPEG for .jpg/.jpeg paths)
+  export interface ExportFrameRequest {
+    sourceFile: string;
+    sourceTime: number; // Seconds into the source file
+    outputPath: string;
+  }
+  
+  export interface ExportFrameResponse {
+    outputPath: string;
+  }
+  
+  // Export queue
+  export interface EnqueueRequest {
+    config: ExportConfig;
+    timeline: ExportTimeline; // Snapshot of the timeline at the time of queueing
+    name?: string;
+    range?: ExportRange; // Whole timeline when omitted
+  }
+  
+  export interface EnqueueResponse {
+    job: ExportQueueJob;
+  }
+  
+  export interface QueueJobRequest {
+    jobId: string;
+  }
+  
+  export interface MoveQueueJobRequest {
+    jobId: string;
+    toIndex: number; // Position in the queue
+  }
+  
+  export interface SetConcurrencyRequest {
+    concurrency: number;
+  }
+  
+  // Returned by every queue operation and sent as the queue-updated event
+  export interface QueueState {
+    jobs: ExportQueueJob[]; // Queue order, history included
+    concurrency: number;
+  }
+  
+  // Export presets
+  export interface PresetListResponse {
+    presets: ExportPreset[]; // Built-in presets first
+  }
+  
+  export interface CreatePresetRequest {
+    preset: ExportPresetInput;
+  }
+  
+  export interface UpdatePresetRequest {
+    id: string;
+    updates: Partial<ExportPresetInput>;
+  }
+  
+  export interface PresetResponse {
+    preset: ExportPreset;
+  }
+  
+  export interface DeletePresetRequest {
+    id: string;
+  }
+  
+  // Import asks for the file with an open dialog
+  export interface ImportPresetsResponse {
+    imported: ExportPreset[]; // Empty if cancelled
+    presets: ExportPreset[];
+  }
+  
+  // Export asks where to save with a save dialog
+  export interface ExportPresetsRequest {
+    ids?: string[]; // All user presets when omitted
+  }
+  
+  export interface ExportPresetsResponse {
+    filePath: string | null; // null if cancelled
+  }
 }
 
 // ============================================================================
@@ -261,6 +360,8 @@ export interface IpcAPI {
     openFilePicker: (req: MediaIPC.OpenFilePickerRequest) => Promise<MediaIPC.OpenFilePickerResponse>;
     generateThumbnail: (req: MediaIPC.GenerateThumbnailRequest) => Promise<MediaIPC.GenerateThumbnailResponse>;
     saveDroppedFile: (req: MediaIPC.SaveDroppedFileRequest) => Promise<MediaIPC.SaveDroppedFileResponse>;
+    importCaptions: () => Promise<MediaIPC.ImportCaptionsResponse>;
+    importLut: () => Promise<MediaIPC.ImportLutResponse>;
   };
 
   // Recording operations
@@ -278,6 +379,23 @@ export interface IpcAPI {
     cancel: (req: ExportIPC.CancelExportRequest) => Promise<ExportIPC.CancelExportResponse>;
     onProgress: (callback: (event: ExportIPC.ExportProgressEvent) => void) => () => void;
     onComplete: (callback: (event: ExportIPC.ExportCompleteEvent) => void) => () => void;
+    exportFrame: (req: ExportIPC.ExportFrameRequest) => Promise<ExportIPC.ExportFrameResponse>;
+    enqueue: (req: ExportIPC.EnqueueRequest) => Promise<ExportIPC.EnqueueResponse>;
+    getQueue: () => Promise<ExportIPC.QueueState>;
+    pauseJob: (req: ExportIPC.QueueJobRequest) => Promise<ExportIPC.QueueState>;
+    resumeJob: (req: ExportIPC.QueueJobRequest) => Promise<ExportIPC.QueueState>;
+    moveJob: (req: ExportIPC.MoveQueueJobRequest) => Promise<ExportIPC.QueueState>;
+    retryJob: (req: ExportIPC.QueueJobRequest) => Promise<ExportIPC.QueueState>;
+    removeJob: (req: ExportIPC.QueueJobRequest) => Promise<ExportIPC.QueueState>;
+    clearFinished: () => Promise<ExportIPC.QueueState>;
+    setConcurrency: (req: ExportIPC.SetConcurrencyRequest) => Promise<ExportIPC.QueueState>;
+    onQueueUpdated: (callback: (event: ExportIPC.QueueState) => void) => () => void;
+    listPresets: () => Promise<ExportIPC.PresetListResponse>;
+    createPreset: (req: ExportIPC.CreatePresetRequest) => Promise<ExportIPC.PresetResponse>;
+    updatePreset: (req: ExportIPC.UpdatePresetRequest) => Promise<ExportIPC.PresetResponse>;
+    deletePreset: (req: ExportIPC.DeletePresetRequest) => Promise<ExportIPC.PresetListResponse>;
+    importPresets: () => Promise<ExportIPC.ImportPresetsResponse>;
+    exportPresets: (req: ExportIPC.ExportPresetsRequest) => Promise<ExportIPC.ExportPresetsResponse>;
   };
 
   // Project operations
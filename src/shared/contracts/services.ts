@@ -7,10 +7,18 @@
 
 import { 
   VideoMetadata, 
+  CaptionCue,
+  CaptionFormat,
+  ClipLut,
   RecordingSource, 
   RecordingConfig,
   ExportConfig,
+  ExportPreset,
+  ExportPresetInput,
   ExportProgress,
+  ExportQueueJob,
+  ExportRange,
+  ExportTimeline,
   Project 
 } from '../types';
 
@@ -35,9 +43,9 @@ export interface IMediaService {
   ): Promise<string>; // returns base64 data URL
 
   /**
-   * Validate video file
+   * Validate a video, still image or audio file
    */
-  validateVideoFile(filePath: string): Promise<{
+  validateMediaFile(filePath: string): Promise<{
     isValid: boolean;
     error?: string;
   }>;
@@ -122,7 +130,8 @@ export interface IExportService {
    */
   startExport(
     config: ExportConfig,
-    timeline: { tracks: any[] }
+    timeline: ExportTimeline,
+    range?: ExportRange
   ): Promise<string>;
 
   /**
@@ -135,6 +144,12 @@ export interface IExportService {
    */
   getExportProgress(exportId: string): Promise<ExportProgress>;
 
+  /**
+   * Export one frame of a source file at full source resolution
+   * PNG, or JPEG when the output path ends in .jpg/.jpeg; returns output path
+   */
+  exportFrame(sourceFile: string, sourceTime: number, outputPath: string): Promise<string>;
+
   /**
    * Export single clip (fast path)
    */
@@ -154,6 +169,127 @@ export interface IExportService {
   ): Promise<string>; // returns output path
 }
 
+// ============================================================================
+// EXPORT QUEUE SERVICE CONTRACT
+// ============================================================================
+
+export interface IExportQueueService {
+  /**
+   * Add an export to the end of the queue
+   */
+  enqueue(config: ExportConfig, timeline: ExportTimeline, name?: string, range?: ExportRange): ExportQueueJob;
+
+  /**
+   * All jobs in queue order, including finished history
+   */
+  getJobs(): ExportQueueJob[];
+
+  /**
+   * Hold a pending job, or stop a running one and hold it to run again later
+   */
+  pause(jobId: string): Promise<void>;
+
+  /**
+   * Return a paused job to the queue
+   */
+  resume(jobId: string): void;
+
+  /**
+   * Move a job to a new position in the queue
+   */
+  move(jobId: string, toIndex: number): void;
+
+  /**
+   * Queue a failed or cancelled job again
+   */
+  retry(jobId: string): void;
+
+  /**
+   * Remove a job, cancelling it if it is running
+   */
+  remove(jobId: string): Promise<void>;
+
+  /**
+   * Remove finished, failed and cancelled jobs from the history
+   */
+  clearFinished(): void;
+
+  /**
+   * Set how many jobs may run at once
+   */
+  setConcurrency(concurrency: number): void;
+  getConcurrency(): number;
+}
+
+// ============================================================================
+// EXPORT PRESET SERVICE CONTRACT
+// ============================================================================
+
+export interface IExportPresetService {
+  /**
+   * Built-in presets followed by the user's own
+   */
+  listPresets(): ExportPreset[];
+  getPreset(id: string): ExportPreset | undefined;
+
+  /**
+   * Save a new user preset
+   */
+  createPreset(input: ExportPresetInput): Promise<ExportPreset>;
+
+  /**
+   * Change a user preset; built-in presets can't be changed
+   */
+  updatePreset(id: string, updates: Partial<ExportPresetInput>): Promise<ExportPreset>;
+
+  /**
+   * Delete a user preset; built-in presets can't be deleted
+   */
+  deletePreset(id: string): Promise<void>;
+
+  /**
+   * Add the presets from a preset file as new user presets
+   */
+  importPresets(filePath: string): Promise<ExportPreset[]>;
+
+  /**
+   * Write presets to a preset file; all user presets when no IDs are given
+   */
+  exportPresets(filePath: string, ids?: string[]): Promise<void>;
+}
+
+// ============================================================================
+// CAPTION SERVICE CONTRACT
+// ============================================================================
+
+export interface ICaptionService {
+  /**
+   * Read an SRT or WebVTT file into cues sorted by start time
+   */
+  readCaptionFile(filePath: string): Promise<CaptionCue[]>;
+
+  /**
+   * Parse SRT or WebVTT text; the two are told apart by their timestamps, not the file name
+   */
+  parseCaptions(content: string): CaptionCue[];
+
+  /**
+   * Write cues as SRT or WebVTT text
+   */
+  formatCaptions(cues: CaptionCue[], format: CaptionFormat): string;
+}
+
+// ============================================================================
+// LUT SERVICE CONTRACT
+// ============================================================================
+
+export interface ILutService {
+  /**
+   * Read a .cube 3D LUT, keeping its grey axis curves for the preview
+   */
+  readLutFile(filePath: string): Promise<ClipLut>;
+}
+
 // ============================================================================
 // PROJECT SERVICE CONTRACT
 // ============================================================================
@@ -218,6 +354,11 @@ export interface IFFmpegManager {
    */
   getFFprobePath(): string;
 
+  /**
+   * Check FFmpeg is at least the given version (true when it can't tell)
+   */
+  isVersionAtLeast(major: number, minor?: number): boolean;
+
   /**
    * Get available codecs
    */
@@ -5,7 +5,7 @@
  * Each store has separate State and Actions interfaces.
  */
 
-import { Clip, Track, Project, RecordingSource, ExportConfig } from '../types';
+import { CaptionCue, Clip, Track, TimelineMarker, Project, ProjectMediaItem, RecordingSource, ExportConfig, ExportPhase, ExportPreset, ExportPresetInput, ExportQueueJob, ExportRange, ExportRangeMode, ExportSizeResult, WebcamSettings, WebcamSource, WebcamExportOverlay } from '../types';
 
 // ============================================================================
 // TIMELINE STORE CONTRACT
@@ -26,6 +26,13 @@ export namespace TimelineStoreContract {
     currentTime: number;
     isPlaying: boolean;
     
+    // Export range marks (seconds), set from the playhead
+    inPoint: number | null;
+    outPoint: number | null;
+    
+    // Markers, kept sorted by time
+    markers: TimelineMarker[];
+    
     // UI state
     zoom: number; // 0.1 to 5.0
     scrollLeft: number; // horizontal scroll position (pixels)
@@ -63,11 +70,36 @@ export namespace TimelineStoreContract {
     updateTrack: (trackId: string, updates: Partial<Track>) => void;
     reorderTracks: (fromIndex: number, toIndex: number) => void;
     
+    // Caption tracks (cues are added at the playhead by default)
+    addCaptionTrack: (name: string, cues?: CaptionCue[]) => void;
+    addCue: (trackId: string, time?: number) => void;
+    updateCue: (cueId: string, updates: Partial<Omit<CaptionCue, 'id'>>) => void;
+    removeCue: (cueId: string) => void;
+    
+    // Text tracks (a new text clip goes at the playhead by default and is selected for editing)
+    addTextTrack: (name: string) => void;
+    addTextClip: (trackId: string, time?: number) => void;
+    
+    // Audio tracks (audio files are dropped onto them from the media library)
+    addAudioTrack: (name: string) => void;
+    
     // Playback operations
     play: () => void;
     pause: () => void;
     seek: (time: number) => void;
     
+    // In/out points (default to the playhead; null clears the point)
+    setInPoint: (time?: number | null) => void;
+    setOutPoint: (time?: number | null) => void;
+    clearInOutPoints: () => void;
+    getInOutRange: () => ExportRange | null; // null when neither point is set
+    getSelectionRange: () => ExportRange | null; // span of the selected clips, limited to them
+    
+    // Markers (added at the playhead by default)
+    addMarker: (time?: number, title?: string) => void;
+    updateMarker: (markerId: string, updates: Partial<Omit<TimelineMarker, 'id'>>) => void;
+    removeMarker: (markerId: string) => void;
+    
     // UI operations
     setZoom: (zoom: number) => void;
     setScrollLeft: (scrollLeft: number) => void;
@@ -92,6 +124,10 @@ export namespace TimelineStoreContract {
     // Bulk operations
     deleteSelectedClips: () => void;
     duplicateSelectedClips: () => void;
+    
+    // Project persistence
+    loadFromProject: (timeline?: Project['timeline']) => void;
+    getTimelineData: () => Project['timeline'];
   }
 
   export type Store = State & Actions;
@@ -107,6 +143,7 @@ export namespace MediaLibraryStoreContract {
     clip: Clip;
     thumbnail?: string; // base64 data URL
     addedAt: Date;
+    offline?: boolean; // source file missing on disk
   }
 
   export interface State {
@@ -129,6 +166,10 @@ export namespace MediaLibraryStoreContract {
     setFilterText: (text: string) => void;
     setLoading: (loading: boolean) => void;
     updateThumbnail: (itemId: string, thumbnail: string) => void;
+    
+    // Project persistence
+    loadFromProject: (items?: ProjectMediaItem[]) => void;
+    getLibraryData: () => ProjectMediaItem[];
   }
 
   export type Store = State & Actions;
@@ -202,9 +243,11 @@ export namespace ExportStoreContract {
     
     // Configuration
     config: ExportConfig;
+    rangeMode: ExportRangeMode; // which part of the timeline to export
     
     // Output
     outputPath: string | null;
+    sizeResult: ExportSizeResult | null; // target vs actual size of the last target-size export
     
     // UI state
     showExportDialog: boolean;
@@ -214,6 +257,17 @@ export namespace ExportStoreContract {
     totalFrames: number;
     fps: number;
     eta: number; // seconds remaining
+    phase: ExportPhase | null;
+    speed: number; // multiple of real-time
+    error: string | null;
+    
+    // Export queue (mirrors the main-process queue)
+    queue: ExportQueueJob[];
+    queueConcurrency: number;
+    showQueuePanel: boolean;
+    
+    // Export presets (built-in first, then the user's own)
+    presets: ExportPreset[];
   }
 
   export interface Actions {
@@ -225,9 +279,32 @@ export namespace ExportStoreContract {
     updateConfig: (updates: Partial<ExportConfig>) => void;
     setQuality: (quality: ExportConfig['quality']) => void;
     setResolution: (resolution: { width: number; height: number }) => void;
+    setRangeMode: (mode: ExportRangeMode) => void;
+    getExportRange: () => ExportRange | undefined; // resolved from rangeMode; undefined for the entire timeline
+    
+    // Export queue
+    enqueueExport: (config: ExportConfig, name?: string) => Promise<void>;
+    refreshQueue: () => Promise<void>;
+    pauseJob: (jobId: string) => Promise<void>;
+    resumeJob: (jobId: string) => Promise<void>;
+    moveJob: (jobId: string, toIndex: number) => Promise<void>;
+    retryJob: (jobId: string) => Promise<void>;
+    removeJob: (jobId: string) => Promise<void>;
+    clearFinishedJobs: () => Promise<void>;
+    setQueueConcurrency: (concurrency: number) => Promise<void>;
+    revealOutput: (path: string) => Promise<void>;
+    
+    // Export presets
+    loadPresets: () => Promise<void>;
+    createPreset: (input: ExportPresetInput) => Promise<ExportPreset>;
+    updatePreset: (id: string, updates: Partial<ExportPresetInput>) => Promise<void>;
+    deletePreset: (id: string) => Promise<void>;
+    importPresets: () => Promise<void>;
+    exportPresets: (ids?: string[]) => Promise<void>;
     
     // UI control
     showDialog: (show: boolean) => void;
+    showQueue: (show: boolean) => void;
     
     // Internal state updates (from IPC events)
     updateProgress: (progress: number, details: {
@@ -235,9 +312,12 @@ export namespace ExportStoreContract {
       totalFrames: number;
       fps: number;
       eta: number;
+      phase?: ExportPhase;
+      speed?: number;
     }) => void;
     setOutputPath: (path: string | null) => void;
     setExportId: (exportId: string | null) => void;
+    setQueue: (jobs: ExportQueueJob[], concurrency: number) => void;
   }
 
   export type Store = State & Actions;
@@ -286,6 +366,9 @@ export namespace WebcamStoreContract {
     position: { x: number; y: number };
     size: { width: number; height: number };
     
+    // Timeline track or media clip shown in the overlay and burned into exports
+    source: WebcamSource | null;
+    
     // UI state
     isDragging: boolean;
     isResizing: boolean;
@@ -302,24 +385,18 @@ export namespace WebcamStoreContract {
     // Position and size
     setPosition: (position: { x: number; y: number }) => void;
     setSize: (size: { width: number; height: number }) => void;
+    setSource: (source: WebcamSource | null) => void;
     
     // UI state
     setDragging: (dragging: boolean) => void;
     setResizing: (resizing: boolean) => void;
     
     // Project persistence
-    loadFromProject: (settings?: {
-      enabled: boolean;
-      position: { x: number; y: number };
-      size: { width: number; height: number };
-      deviceId?: string;
-    }) => void;
-    getSettings: () => {
-      enabled: boolean;
-      position: { x: number; y: number };
-      size: { width: number; height: number };
-      deviceId?: string;
-    };
+    loadFromProject: (settings?: WebcamSettings) => void;
+    getSettings: () => WebcamSettings;
+    
+    // Export: overlay geometry with the source resolved, or undefined when no source is set
+    getExportOverlay: () => WebcamExportOverlay | undefined;
     
     // Error handling
     setError: (error: string | null) => void;
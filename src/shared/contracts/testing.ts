@@ -19,6 +19,8 @@ export const createMockIpcAPI = (): IpcAPI => ({
     openFilePicker: async () => ({ filePaths: null }),
     generateThumbnail: async () => ({ thumbnail: '' }),
     saveDroppedFile: async () => ({ filePath: '' }),
+    importCaptions: async () => ({ fileName: null, cues: [] }),
+    importLut: async () => ({ lut: null }),
   },
   recording: {
     getSources: async () => ({ sources: [] }),
@@ -32,6 +34,50 @@ export const createMockIpcAPI = (): IpcAPI => ({
     cancel: async () => ({ success: true }),
     onProgress: () => () => {},
     onComplete: () => () => {},
+    exportFrame: async () => ({ outputPath: '' }),
+    enqueue: async () => ({
+      job: {
+        id: '',
+        name: '',
+        config: {
+          outputPath: '',
+          quality: 'high',
+          resolution: { width: 1920, height: 1080 },
+          fps: 30,
+          codec: 'h264',
+        },
+        status: 'pending',
+        createdAt: new Date().toISOString(),
+      }
+    }),
+    getQueue: async () => ({ jobs: [], concurrency: 1 }),
+    pauseJob: async () => ({ jobs: [], concurrency: 1 }),
+    resumeJob: async () => ({ jobs: [], concurrency: 1 }),
+    moveJob: async () => ({ jobs: [], concurrency: 1 }),
+    retryJob: async () => ({ jobs: [], concurrency: 1 }),
+    removeJob: async () => ({ jobs: [], concurrency: 1 }),
+    clearFinished: async () => ({ jobs: [], concurrency: 1 }),
+    setConcurrency: async () => ({ jobs: [], concurrency: 1 }),
+    onQueueUpdated: () => () => {},
+    listPresets: async () => ({ presets: [] }),
+    createPreset: async (req) => ({ preset: { id: '', ...req.preset } }),
+    updatePreset: async (req) => ({
+      preset: {
+        id: req.id,
+        name: '',
+        container: 'mp4',
+        codec: 'h264',
+        resolution: { width: 1920, height: 1080 },
+        fps: 30,
+        audioBitrate: '192k',
+        audioSampleRate: 48000,
+        filenameTemplate: '',
+        ...req.updates
+      }
+    }),
+    deletePreset: async () => ({ presets: [] }),
+    importPresets: async () => ({ imported: [], presets: [] }),
+    exportPresets: async () => ({ filePath: null }),
   },
   project: {
     save: async () => ({ filePath: '' }),
@@ -8,8 +8,19 @@
 // VIDEO & MEDIA TYPES
 // ============================================================================
 
+// Video files play their source; still images hold one picture for as long as the clip lasts;
+// audio files have sound only and go on audio tracks
+export type MediaKind = 'video' | 'image' | 'audio';
+
+// A media file's first audio stream
+export interface AudioStreamInfo {
+  codec: string;               // e.g., 'aac', 'mp3'
+  sampleRate: number;          // Hz
+  channels: number;
+}
+
 export interface VideoMetadata {
-  duration: number;            // Total duration (seconds)
+  duration: number;            // Total duration (seconds); for still images, the longest a clip can be
   resolution: {
     width: number;
     height: number;
@@ -18,19 +29,122 @@ export interface VideoMetadata {
   codec: string;               // e.g., 'h264', 'vp9'
   size: number;                // File size (bytes)
   thumbnail?: string;          // Base64 data URL
+  kind?: MediaKind;            // Default: 'video'
+  audio?: AudioStreamInfo;     // Unset when the file has no sound
+}
+
+export interface ClipTransform {
+  x: number;                   // Horizontal offset from centre (% of frame width)
+  y: number;                   // Vertical offset from centre (% of frame height)
+  scale: number;               // 1 = fit to frame
+}
+
+// Region of the source picture a clip shows, in % of the source frame from its top-left corner
+export interface ClipCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Pan and zoom across a still image: the shown window moves from start to end over the clip.
+// Both windows keep the frame's aspect ratio, like a crop window.
+export interface KenBurnsEffect {
+  start: ClipCrop;
+  end: ClipCrop;
+}
+
+// A 3D LUT from a .cube file. The export applies the file itself; the preview only has the LUT's
+// response along the grey axis, per channel (0-1), which carries its tone and tint but not its saturation.
+export interface ClipLut {
+  file: string;                // Absolute path to the .cube file
+  name: string;                // The file's TITLE, else its name
+  previewCurves: { r: number[]; g: number[]; b: number[] };
+}
+
+// Color correction applied to a clip's source picture before it's cropped and framed
+export interface ClipColor {
+  brightness: number;          // -1 to 1 (default: 0)
+  contrast: number;            // 0 to 2 (default: 1)
+  saturation: number;          // 0 to 3 (default: 1)
+  gamma: number;               // 0.1 to 3 (default: 1)
+  temperature: number;         // Kelvin, lower is warmer (default: 6500, unchanged)
+  lut?: ClipLut;               // Applied after the adjustments
+}
+
+// Output frame shapes offered for social versions of a project
+export type AspectRatioPreset = '16:9' | '9:16' | '1:1' | '4:5';
+
+// How a source whose aspect ratio differs from the frame is framed:
+// fit letterboxes (padded with the pad color), fill centre-crops, stretch distorts
+export type ScalingMode = 'fit' | 'fill' | 'stretch';
+
+// Blend between two adjacent clips on a track: crossfade dissolves, dipToBlack fades out
+// and back in through black, wipe slides the incoming picture in from the right
+export type TransitionType = 'crossfade' | 'dipToBlack' | 'wipe';
+
+// Centred on the cut, so each clip runs half the duration past its trim point
+export interface ClipTransition {
+  type: TransitionType;
+  duration: number;            // Seconds
+}
+
+// Typefaces bundled with the app (resources/fonts), so text looks the same in preview and export
+export type TextFont = 'sans' | 'sansBold' | 'serif' | 'mono';
+
+// Content and look of a text clip (titles, lower thirds)
+export interface TextClipSettings {
+  content: string;             // May span several lines
+  font: TextFont;
+  fontSize: number;            // Text height as % of the frame height
+  color: string;               // '#rrggbb'
+  boxColor?: string;           // '#rrggbb' box behind the text; unset draws none
+  boxOpacity: number;          // 0-1
+  position: { x: number; y: number }; // Centre of the text, % of the frame from its top-left corner
+  fadeIn: number;              // Seconds
+  fadeOut: number;             // Seconds
 }
 
 export interface Clip {
   id: string;
-  sourceFile: string;          // Absolute path to source video
+  sourceFile: string;          // Absolute path to source video, image or audio file (empty for text clips)
   startTime: number;           // Start on timeline (seconds)
   endTime: number;             // End on timeline (seconds)
   trimIn: number;              // Trim start (seconds from file start)
   trimOut: number;             // Trim end (seconds from file start)
   trackId: string;             // Parent track ID
   metadata: VideoMetadata;
+  transform?: ClipTransform;   // Placement when stacked over lower tracks (default: centred, fit)
+  opacity?: number;            // 0-1 (default: 1)
+  gain?: number;               // Linear audio gain (default: 1)
+  scalingMode?: ScalingMode;   // Overrides ProjectSettings.scalingMode
+  padColor?: string;           // Overrides ProjectSettings.padColor
+  crop?: ClipCrop;             // Cropped before framing (default: whole source)
+  transitionIn?: ClipTransition; // Blend from the previous clip on the track; only used while they touch
+  kenBurns?: KenBurnsEffect;   // Still images only; replaces the crop while set
+  color?: ClipColor;           // Unset leaves the picture as it is
+  text?: TextClipSettings;     // Text clips only: drawn instead of a source
 }
 
+// Point on the timeline; titled markers become chapters in video exports
+export interface TimelineMarker {
+  id: string;
+  time: number;                // Timeline position (seconds)
+  title: string;               // Empty for a plain marker
+}
+
+// Timed text on a caption track
+export interface CaptionCue {
+  id: string;
+  startTime: number;           // Start on timeline (seconds)
+  endTime: number;             // End on timeline (seconds)
+  text: string;                // May span several lines
+}
+
+// Video tracks hold clips; caption tracks hold cues and never clips; text tracks hold only text clips;
+// audio tracks hold only audio file clips
+export type TrackKind = 'video' | 'caption' | 'text' | 'audio';
+
 export interface Track {
   id: string;
   name: string;
@@ -38,6 +152,9 @@ export interface Track {
   muted: boolean;
   locked: boolean;
   visible: boolean;
+  gain?: number;               // Linear audio gain applied to every clip (default: 1)
+  kind?: TrackKind;            // Default: 'video'
+  cues?: CaptionCue[];         // Caption tracks only, sorted by start time
 }
 
 // ============================================================================
@@ -51,6 +168,9 @@ export interface ProjectSettings {
     height: number;
   };
   audioSampleRate: number;     // e.g., 44100, 48000
+  aspectRatio?: AspectRatioPreset; // Preview frame shape and default export shape (default: '16:9')
+  scalingMode?: ScalingMode;   // Default framing for clips (default: 'fit')
+  padColor?: string;           // '#rrggbb' behind fitted clips; unset leaves the bars transparent
 }
 
 export interface ProjectMetadata {
@@ -59,6 +179,14 @@ export interface ProjectMetadata {
   author?: string;
 }
 
+export interface ProjectMediaItem {
+  id: string;
+  clip: Clip;                  // Source path + probed metadata
+  addedAt: string;             // ISO date the item was imported
+  thumbnail?: string;          // Base64 data URL in memory; cache file name (relative to project) on disk
+  offline?: boolean;           // Set on load when the source file is missing
+}
+
 export interface Project {
   id: string;
   name: string;
@@ -66,15 +194,29 @@ export interface Project {
   timeline: {
     tracks: Track[];
     duration: number;          // Total timeline duration (seconds)
+    inPoint?: number;          // Export range start (seconds)
+    outPoint?: number;         // Export range end (seconds)
+    markers?: TimelineMarker[];
   };
   settings: ProjectSettings;
   metadata: ProjectMetadata;
-  webcamSettings?: {           // Webcam overlay configuration
-    enabled: boolean;
-    position: { x: number; y: number }; // Percentage (0-100)
-    size: { width: number; height: number }; // Percentage (0-100)
-    deviceId?: string;
+  mediaLibrary?: {             // Imported media, including items not on the timeline
+    items: ProjectMediaItem[];
   };
+  webcamSettings?: WebcamSettings; // Webcam overlay configuration
+}
+
+// Where the webcam overlay's picture comes from in exports and timeline preview
+export type WebcamSource =
+  | { type: 'track'; trackId: string }   // Clips on this track play inside the overlay box
+  | { type: 'clip'; clipId: string };    // Media library clip plays inside the box from the start of the timeline
+
+export interface WebcamSettings {
+  enabled: boolean;
+  position: { x: number; y: number }; // Percentage (0-100) of the frame, top-left corner
+  size: { width: number; height: number }; // Percentage (0-100); the box is always 4:3 from width
+  deviceId?: string;
+  source?: WebcamSource;
 }
 
 // ============================================================================
@@ -107,6 +249,39 @@ export interface RecordingConfig {
 
 export type ExportQuality = 'low' | 'medium' | 'high' | 'ultra';
 export type ExportCodec = 'h264' | 'h265' | 'vp9';
+export type ExportContainer = 'mp4' | 'mov' | 'mkv' | 'webm';
+export type ExportFormat = 'video' | 'gif' | 'webp' | 'audio' | 'images';
+export type ImageExportFormat = 'png' | 'jpeg';
+export type AudioExportFormat = 'wav' | 'mp3' | 'aac' | 'flac';
+export type AnimationDither = 'none' | 'bayer' | 'floyd_steinberg' | 'sierra2_4a';
+export type ExportRateControl = 'bitrate' | 'targetSize';
+export type CaptionFormat = 'srt' | 'vtt';
+
+// How caption tracks reach the export: drawn into the picture, written as a file next to it,
+// or muxed in as a subtitle stream players can switch on and off
+export type CaptionExportMode = 'burnIn' | 'sidecar' | 'embed';
+
+// Look of burned-in captions, also used by the preview
+export interface CaptionStyle {
+  fontSize: number;            // Text height in subtitle units; the picture is 288 units tall
+  color: string;               // '#rrggbb'
+  outlineColor: string;        // '#rrggbb'
+  position: 'bottom' | 'top';
+}
+
+export interface CaptionExportSettings {
+  mode: CaptionExportMode;
+  format: CaptionFormat;       // Sidecar file format
+  style: CaptionStyle;         // Burn-in only
+}
+
+// Frame settings for GIF / animated WebP output
+export interface AnimationExportSettings {
+  fps: number;
+  width: number;               // Output width; height follows the export aspect ratio
+  loop: number;                // Times to play; 0 loops forever
+  dither: AnimationDither;     // GIF only
+}
 
 export interface ExportConfig {
   outputPath: string;
@@ -118,14 +293,86 @@ export interface ExportConfig {
   fps: number;
   codec: ExportCodec;
   bitrate?: string;            // e.g., '5000k'
+  crf?: number;                // Constant quality; used instead of bitrate when set
+  container?: ExportContainer; // Default: 'mp4', or 'webm' for VP9
+  presetId?: string;           // Export preset the settings were taken from
+  audioSampleRate?: number;    // Hz, from ProjectSettings.audioSampleRate (default: 48000)
+  audioBitrate?: string;       // e.g., '192k' (default: '192k')
+  scalingMode?: ScalingMode;   // From ProjectSettings.scalingMode; clips may override it
+  padColor?: string;           // From ProjectSettings.padColor; clips may override it
+  chapterList?: boolean;       // Also write YouTube-style '00:00 Title' chapters to <output>.chapters.txt
+  captions?: CaptionExportSettings; // Caption tracks are left out of the export when unset
+  smartRender?: boolean;       // Stream-copy keyframe-aligned video that already matches the output format
+  format?: ExportFormat;       // Default: 'video'
+  animation?: AnimationExportSettings; // Used when format is 'gif' or 'webp'
+  audioFormat?: AudioExportFormat; // Used when format is 'audio' (default: 'wav')
+  imageFormat?: ImageExportFormat; // Used when format is 'images' (default: 'png')
+  rateControl?: ExportRateControl; // Default: 'bitrate'; 'targetSize' runs a two-pass h264/vp9 encode
+  targetSizeMB?: number;       // Output size to aim for when rateControl is 'targetSize' (MB = 1024 * 1024 bytes)
 }
 
+// Saved export settings. Built-in presets ship with the app and can't be edited or deleted.
+export interface ExportPreset {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  container: ExportContainer;
+  codec: ExportCodec;
+  crf?: number;                // Constant quality; takes the place of bitrate when set
+  bitrate?: string;            // e.g., '8000k'
+  resolution: {
+    width: number;
+    height: number;
+  };
+  fps: number;
+  audioBitrate: string;        // e.g., '192k'
+  audioSampleRate: number;     // Hz
+  filenameTemplate: string;    // Output name without extension; {project}, {preset}, {date}, {time}, {width}, {height}
+}
+
+// Preset fields a user can set
+export type ExportPresetInput = Omit<ExportPreset, 'id' | 'builtIn'>;
+
+export type ExportPhase = 'encoding' | 'segments' | 'audio' | 'analysis' | 'concat' | 'palette' | 'animation' | 'frames';
+
 export interface ExportProgress {
   percent: number;             // 0-100
   currentFrame: number;
   totalFrames: number;
   fps: number;                 // Encoding FPS
   eta: number;                 // Estimated seconds remaining
+  phase?: ExportPhase;         // Step currently running
+  speed?: number;              // Encode speed as a multiple of real-time
+}
+
+// How close a target-size export came to its target
+export interface ExportSizeResult {
+  targetBytes: number;
+  actualBytes: number;
+}
+
+// Part of the timeline to export (seconds)
+export interface ExportRange {
+  start: number;
+  end: number;
+  clipIds?: string[];          // Only these timeline clips; the rest of the span exports as black and silence
+}
+
+export type ExportRangeMode = 'entire' | 'inOut' | 'selection';
+
+// Webcam overlay sent with an export: saved geometry plus the resolved source
+export interface WebcamExportOverlay {
+  position: { x: number; y: number };
+  size: { width: number; height: number };
+  trackId?: string;            // Track rendered inside the box instead of full frame
+  clip?: Clip;                 // Media clip rendered inside the box from 0s
+}
+
+// Timeline snapshot sent with an export
+export interface ExportTimeline {
+  tracks: any[];               // Full timeline state
+  webcam?: WebcamExportOverlay;
+  markers?: TimelineMarker[];  // Titled ones are written as chapters
 }
 
 export interface ExportResult {
@@ -136,3 +383,19 @@ export interface ExportResult {
   error?: string;
 }
 
+
+export type ExportJobStatus = 'pending' | 'paused' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ExportQueueJob {
+  id: string;
+  name: string;                // Shown in the queue, defaults to the output file name
+  config: ExportConfig;
+  range?: ExportRange;         // Timeline span; whole timeline when absent
+  status: ExportJobStatus;
+  progress?: ExportProgress;   // Latest progress while running
+  sizeResult?: ExportSizeResult; // Set when a target-size export completes
+  error?: string;
+  createdAt: string;           // ISO
+  startedAt?: string;          // ISO
+  finishedAt?: string;         // ISO
+}
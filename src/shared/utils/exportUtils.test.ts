@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { getTargetVideoBitrate } from './exportUtils';
+
+describe('getTargetVideoBitrate', () => {
+  it('fills the target size, less overhead, with video and the default audio', () => {
+    // 10 MB x 8 bits x 0.97 over 60s is 1356 kbps, 192 of which are audio
+    expect(getTargetVideoBitrate(10, 60)).toBe(1164);
+  });
+
+  it('takes out the given audio bitrate', () => {
+    expect(getTargetVideoBitrate(10, 60, '128k')).toBe(1228);
+  });
+
+  it('gives everything to video when the audio bitrate is not a number', () => {
+    expect(getTargetVideoBitrate(10, 60, 'copy')).toBe(1356);
+  });
+
+  it('scales with the size and inversely with the duration', () => {
+    const base = getTargetVideoBitrate(10, 60, '0k');
+
+    expect(getTargetVideoBitrate(20, 60, '0k')).toBeCloseTo(base * 2, -1);
+    expect(getTargetVideoBitrate(10, 120, '0k')).toBeCloseTo(base / 2, -1);
+  });
+
+  it('goes below zero when the audio alone needs more than the target', () => {
+    expect(getTargetVideoBitrate(1, 600)).toBeLessThan(0);
+  });
+});
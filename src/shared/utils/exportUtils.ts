@@ -0,0 +1,40 @@
+/**
+ * Export Utilities
+ *
+ * Export defaults and the target-size bitrate calculation. The export service encodes with
+ * these and the export settings panel previews with them, so both always agree.
+ */
+
+import { AnimationExportSettings, ExportCodec } from '../types';
+
+// Used when the export config doesn't carry the project's audio settings
+export const DEFAULT_AUDIO_BITRATE = '192k';
+
+// Used when a GIF/WebP export doesn't carry its own frame settings
+export const DEFAULT_ANIMATION_SETTINGS: AnimationExportSettings = {
+  fps: 15,
+  width: 640,
+  loop: 0,
+  dither: 'sierra2_4a'
+};
+
+// Codecs with a two-pass encode, which target-size exports need
+export const TWO_PASS_CODECS: ExportCodec[] = ['h264', 'vp9'];
+
+// Target-size exports hold back a share of the size for container overhead and rate-control drift
+export const TARGET_SIZE_OVERHEAD = 0.03;
+export const MIN_TARGET_VIDEO_BITRATE = 100; // kbps
+export const BYTES_PER_MB = 1024 * 1024;
+
+/**
+ * Video bitrate (kbps) that fills a target size over a duration (seconds), once the audio is taken out
+ */
+export const getTargetVideoBitrate = (
+  targetSizeMB: number,
+  duration: number,
+  audioBitrate: string = DEFAULT_AUDIO_BITRATE
+): number => {
+  const targetBits = targetSizeMB * BYTES_PER_MB * 8 * (1 - TARGET_SIZE_OVERHEAD);
+  const audioKbps = parseInt(audioBitrate, 10) || 0;
+  return Math.floor(targetBits / duration / 1000 - audioKbps);
+};
@@ -0,0 +1,15 @@
+/**
+ * Thumbnail Utilities
+ *
+ * Clips carry their source's thumbnail as a base64 image for the editor. Timelines written
+ * to disk leave them out: the media library keeps one per file, and they'd make up most
+ * of the file.
+ */
+
+// Clip without its base64 thumbnail
+export const withoutClipThumbnail = <T extends { metadata?: { thumbnail?: string } }>(clip: T): T =>
+  clip.metadata?.thumbnail ? { ...clip, metadata: { ...clip.metadata, thumbnail: undefined } } : clip;
+
+// Tracks whose clips have no base64 thumbnails
+export const withoutTrackThumbnails = <T extends { clips?: any[] }>(tracks: T[]): T[] =>
+  tracks.map(track => (track.clips ? { ...track, clips: track.clips.map(withoutClipThumbnail) } : track));